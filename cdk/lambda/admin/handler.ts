@@ -0,0 +1,310 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
+import { createSuccessResponse, createErrorResponse } from '../shared/types';
+import { DynamoDBService, TABLES } from '../shared/dynamodb';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import { requirePermission, createCallerErrorResponse } from '../shared/caller';
+import { KnowledgeBaseService } from '../shared/knowledge-base';
+import {
+  SetUserRoleRequestSchema,
+  UpsertKnowledgeDocumentRequestSchema,
+  KnowledgeDocumentKeyQuerySchema,
+  UpsertErrorPatternRequestSchema,
+  ErrorPatternIdPathSchema,
+  ManagedErrorPattern,
+  ROLE_GROUPS,
+} from '../shared/contracts';
+import {
+  CognitoIdentityProviderClient,
+  AdminGetUserCommand,
+  AdminListGroupsForUserCommand,
+  AdminAddUserToGroupCommand,
+  AdminRemoveUserFromGroupCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+const cognitoClient = new CognitoIdentityProviderClient({
+  region: process.env.AWS_REGION || 'us-east-1'
+});
+
+const USER_POOL_ID = process.env.USER_POOL_ID!;
+
+const ROLE_GROUP_NAMES: string[] = Object.values(ROLE_GROUPS);
+
+export class AdminHandler {
+  /**
+   * Give a user a role: move them into its Cognito group, out of the other role groups, and
+   * record it on their user record. Takes effect when their ID token is next issued.
+   */
+  static async handleSetUserRole(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requirePermission(event, 'roles:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, SetUserRoleRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const { email, role } = parsed.data;
+
+      let cognitoUser;
+      try {
+        cognitoUser = await cognitoClient.send(new AdminGetUserCommand({
+          UserPoolId: USER_POOL_ID,
+          Username: email,
+        }));
+      } catch (error: any) {
+        if (error.name === 'UserNotFoundException') {
+          return createErrorResponse(404, 'No account uses that email address');
+        }
+        throw error;
+      }
+
+      const attributes = Object.fromEntries((cognitoUser.UserAttributes ?? []).map(({ Name, Value }) => [Name, Value]));
+      const userId = attributes['custom:userId'] || attributes.sub!;
+
+      // An admin removing their own role could leave no one able to manage roles
+      if (userId === auth.caller.userId && role !== 'admin') {
+        return createErrorResponse(400, 'You can\'t remove your own admin role. Ask another admin.');
+      }
+
+      const { Groups = [] } = await cognitoClient.send(new AdminListGroupsForUserCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: email,
+      }));
+      const targetGroup = role === 'student' ? undefined : ROLE_GROUPS[role];
+
+      for (const { GroupName } of Groups) {
+        if (GroupName && GroupName !== targetGroup && ROLE_GROUP_NAMES.includes(GroupName)) {
+          await cognitoClient.send(new AdminRemoveUserFromGroupCommand({
+            UserPoolId: USER_POOL_ID,
+            Username: email,
+            GroupName,
+          }));
+        }
+      }
+
+      if (targetGroup && !Groups.some(group => group.GroupName === targetGroup)) {
+        await cognitoClient.send(new AdminAddUserToGroupCommand({
+          UserPoolId: USER_POOL_ID,
+          Username: email,
+          GroupName: targetGroup,
+        }));
+      }
+
+      await DynamoDBService.updateItem(
+        TABLES.USERS,
+        { userId },
+        'SET #role = :role',
+        { ':role': role },
+        undefined,
+        { '#role': 'role' }
+      );
+
+      return createSuccessResponse({
+        user: { userId, email, role },
+        message: 'Role updated. It applies the next time they sign in, or within the hour.',
+      });
+
+    } catch (error) {
+      console.error('Set user role error:', error);
+      return createErrorResponse(500, 'Failed to update role');
+    }
+  }
+
+  static async handleListKnowledgeDocuments(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requirePermission(event, 'knowledge:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const documents = await KnowledgeBaseService.listAllDocuments();
+
+      return createSuccessResponse({
+        documents: documents.map(document => ({
+          key: document.key,
+          title: document.title,
+          section: document.section,
+          sourceUrl: document.sourceUrl,
+          language: document.language,
+          lastModified: new Date(document.lastModified).toISOString(),
+        })),
+      });
+
+    } catch (error) {
+      console.error('List knowledge documents error:', error);
+      return createErrorResponse(500, 'Failed to list knowledge documents');
+    }
+  }
+
+  /**
+   * Add or replace a knowledge document and rebuild the search index so answers use it
+   */
+  static async handleUpsertKnowledgeDocument(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requirePermission(event, 'knowledge:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, UpsertKnowledgeDocumentRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const key = await KnowledgeBaseService.uploadDocument({
+        ...parsed.data,
+        retrievedAt: new Date().toISOString(),
+      });
+      await KnowledgeBaseService.rebuildSearchIndex();
+
+      return createSuccessResponse({
+        key,
+        message: 'Document saved. Answers use it from now on.',
+      });
+
+    } catch (error) {
+      console.error('Upsert knowledge document error:', error);
+      return createErrorResponse(500, 'Failed to save knowledge document');
+    }
+  }
+
+  static async handleDeleteKnowledgeDocument(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requirePermission(event, 'knowledge:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const query = RequestValidator.parseQueryParameters(event, KnowledgeDocumentKeyQuerySchema);
+      if (query.error) {
+        return createValidationErrorResponse(query.error);
+      }
+
+      const { key } = query.data;
+      if (!(await KnowledgeBaseService.deleteDocument(key))) {
+        return createErrorResponse(404, 'Knowledge document not found');
+      }
+      await KnowledgeBaseService.rebuildSearchIndex();
+
+      return createSuccessResponse({
+        key,
+        message: 'Document removed. Answers no longer use it.',
+      });
+
+    } catch (error) {
+      console.error('Delete knowledge document error:', error);
+      return createErrorResponse(500, 'Failed to remove knowledge document');
+    }
+  }
+
+  /**
+   * Admin-managed error patterns. Public: the frontend merges them over its built-in patterns.
+   */
+  static async handleListErrorPatterns(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const patterns = await DynamoDBService.scanAllItems(TABLES.ERROR_PATTERNS);
+
+      return createSuccessResponse({
+        patterns: patterns.sort((a, b) => a.id.localeCompare(b.id)),
+      });
+
+    } catch (error) {
+      console.error('List error patterns error:', error);
+      return createErrorResponse(500, 'Failed to get error patterns');
+    }
+  }
+
+  /**
+   * Add a pattern, or change (or disable, with enabled: false) the built-in one with the same id
+   */
+  static async handleUpsertErrorPattern(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, ErrorPatternIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const auth = requirePermission(event, 'error-patterns:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, UpsertErrorPatternRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const pattern: ManagedErrorPattern = {
+        ...parsed.data,
+        id: path.data.patternId,
+        updatedAt: new Date().toISOString(),
+        updatedBy: auth.caller.email,
+      };
+
+      await DynamoDBService.putItem(TABLES.ERROR_PATTERNS, pattern);
+
+      return createSuccessResponse({ pattern });
+
+    } catch (error) {
+      console.error('Upsert error pattern error:', error);
+      return createErrorResponse(500, 'Failed to save error pattern');
+    }
+  }
+
+  /**
+   * Remove an admin-managed pattern; a built-in pattern with the same id applies again
+   */
+  static async handleDeleteErrorPattern(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, ErrorPatternIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const auth = requirePermission(event, 'error-patterns:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      await DynamoDBService.deleteItem(TABLES.ERROR_PATTERNS, { id: path.data.patternId });
+
+      return createSuccessResponse({ message: 'Error pattern removed' });
+
+    } catch (error) {
+      console.error('Delete error pattern error:', error);
+      return createErrorResponse(500, 'Failed to remove error pattern');
+    }
+  }
+}
+
+// Lambda handler functions
+export const setUserRole = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleSetUserRole(event, context);
+};
+
+export const listKnowledgeDocuments = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleListKnowledgeDocuments(event, context);
+};
+
+export const upsertKnowledgeDocument = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleUpsertKnowledgeDocument(event, context);
+};
+
+export const deleteKnowledgeDocument = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleDeleteKnowledgeDocument(event, context);
+};
+
+export const listErrorPatterns = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleListErrorPatterns(event, context);
+};
+
+export const upsertErrorPattern = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleUpsertErrorPattern(event, context);
+};
+
+export const deleteErrorPattern = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AdminHandler.handleDeleteErrorPattern(event, context);
+};
@@ -1,8 +1,64 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
-import { createSuccessResponse, createErrorResponse } from '../shared/types';
+import { createSuccessResponse, createErrorResponse, createResponse } from '../shared/types';
 import { DynamoDBService, TABLES } from '../shared/dynamodb';
-import { CognitoIdentityProviderClient, AdminCreateUserCommand, AdminSetUserPasswordCommand, AdminInitiateAuthCommand, AdminRespondToAuthChallengeCommand, ForgotPasswordCommand, ConfirmForgotPasswordCommand } from '@aws-sdk/client-cognito-identity-provider';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import { requireCaller, createCallerErrorResponse } from '../shared/caller';
+import { GuestSession, GuestSessionService } from '../shared/guest-session';
+import { ConversationMemoryService } from '../shared/conversation-memory';
+import { PrivacyService } from '../shared/privacy';
+import { StudentLinkService } from '../shared/student-links';
+import { UserProgressService } from '../shared/user-progress';
+import { CognitoTokenVerifier, CognitoTokenClaims } from '../shared/cognito-token';
+import { RefreshTokenCookie } from '../shared/refresh-cookie';
+import {
+  SignUpRequestSchema,
+  SignInRequestSchema,
+  ForgotPasswordRequestSchema,
+  VerifyEmailRequestSchema,
+  ResendVerificationRequestSchema,
+  ConfirmResetRequestSchema,
+  ChangePasswordRequestSchema,
+  RespondToChallengeRequestSchema,
+  MfaAccessRequestSchema,
+  MfaVerifyRequestSchema,
+  MfaSmsSetupRequestSchema,
+  MfaTypeSchema,
+  UserIdPathSchema,
+  GuestState,
+  ChecklistState,
+  AuthTokens,
+  AuthChallenge,
+  MfaStatus,
+  RespondToChallengeRequest,
+  ROLE_GROUPS,
+  roleFromGroups,
+  createProgressRecord,
+  completedChecklistItems,
+  migrateChecklist,
+} from '../shared/contracts';
+import {
+  CognitoIdentityProviderClient,
+  SignUpCommand,
+  ConfirmSignUpCommand,
+  ResendConfirmationCodeCommand,
+  AdminInitiateAuthCommand,
+  ForgotPasswordCommand,
+  ConfirmForgotPasswordCommand,
+  ChangePasswordCommand,
+  AdminDeleteUserCommand,
+  RevokeTokenCommand,
+  AdminAddUserToGroupCommand,
+  AdminRespondToAuthChallengeCommand,
+  AssociateSoftwareTokenCommand,
+  VerifySoftwareTokenCommand,
+  SetUserMFAPreferenceCommand,
+  GetUserCommand,
+  UpdateUserAttributesCommand,
+  VerifyUserAttributeCommand,
+  AuthenticationResultType,
+} from '@aws-sdk/client-cognito-identity-provider';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 
 const cognitoClient = new CognitoIdentityProviderClient({ 
   region: process.env.AWS_REGION || 'us-east-1' 
@@ -11,54 +67,72 @@ const cognitoClient = new CognitoIdentityProviderClient({
 const USER_POOL_ID = process.env.USER_POOL_ID!;
 const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID!;
 
+// Shown next to the account in authenticator apps
+const TOTP_ISSUER = 'EducateFirstAI';
+
+// What Cognito answers a sign-in or challenge response with
+interface CognitoAuthResponse {
+  AuthenticationResult?: AuthenticationResultType;
+  ChallengeName?: string;
+  ChallengeParameters?: Record<string, string>;
+  Session?: string;
+}
+
+// Counselors see linked students' data and can't sign in without MFA
+const isCounselor = (claims: CognitoTokenClaims): boolean =>
+  roleFromGroups(claims['cognito:groups']) === 'counselor';
+
+// Cognito masks the numbers it texts codes to the same way, e.g. +1*******4567
+const maskPhoneNumber = (phoneNumber: string): string =>
+  `${phoneNumber.slice(0, 2)}${'*'.repeat(Math.max(phoneNumber.length - 6, 0))}${phoneNumber.slice(-4)}`;
+
 export class AuthHandler {
   static async handleSignUp(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      if (!event.body) {
-        return createErrorResponse(400, 'Request body is required');
+      const parsed = RequestValidator.parseBody(event, SignUpRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
       }
 
-      const { email, password } = JSON.parse(event.body);
+      const { email, password, role, guestToken, guestState } = parsed.data;
 
-      // Validate input
-      if (!email || !password) {
-        return createErrorResponse(400, 'Email and password are required');
-      }
-
-      if (!this.isValidEmail(email)) {
-        return createErrorResponse(400, 'Please enter a valid email address');
-      }
-
-      if (password.length < 8) {
-        return createErrorResponse(400, 'Password must be at least 8 characters long');
+      // A guest upgrading may have let their session expire, but the token must still be one we signed
+      let guestSession: GuestSession | undefined;
+      if (guestToken) {
+        await GuestSessionService.loadSigningKey();
+        const verified = GuestSessionService.verify(guestToken, { allowExpired: true });
+        if (verified.error) {
+          return createValidationErrorResponse(RequestValidator.validationError([
+            { path: 'guestToken', message: 'Your guest session is not valid. Sign up without it to start fresh.' },
+          ]));
+        }
+        guestSession = verified.session;
       }
 
       // Create user in Cognito
       const userId = uuidv4();
       
-      const createUserCommand = new AdminCreateUserCommand({
-        UserPoolId: USER_POOL_ID,
+      // Cognito emails a verification code; the account can't sign in until /auth/verify confirms it
+      const signUpCommand = new SignUpCommand({
+        ClientId: USER_POOL_CLIENT_ID,
         Username: email,
+        Password: password,
         UserAttributes: [
           { Name: 'email', Value: email },
-          { Name: 'email_verified', Value: 'true' },
           { Name: 'custom:userId', Value: userId },
         ],
-        TemporaryPassword: password,
-        MessageAction: 'SUPPRESS', // Don't send welcome email
       });
 
-      await cognitoClient.send(createUserCommand);
-
-      // Set permanent password
-      const setPasswordCommand = new AdminSetUserPasswordCommand({
-        UserPoolId: USER_POOL_ID,
-        Username: email,
-        Password: password,
-        Permanent: true,
-      });
+      await cognitoClient.send(signUpCommand);
 
-      await cognitoClient.send(setPasswordCommand);
+      // Roles live in both places: the group puts it in the ID token, the record lets the app list it
+      if (role === 'parent') {
+        await cognitoClient.send(new AdminAddUserToGroupCommand({
+          UserPoolId: USER_POOL_ID,
+          Username: email,
+          GroupName: ROLE_GROUPS.parent,
+        }));
+      }
 
       // Create user record in DynamoDB
       const userRecord = {
@@ -71,28 +145,37 @@ export class AuthHandler {
           notifications: true,
         },
         isGuest: false,
+        role,
       };
 
       await DynamoDBService.putItem(TABLES.USERS, userRecord);
 
       // Initialize user progress
-      const progressRecord = {
+      const now = new Date().toISOString();
+      const progressRecord = createProgressRecord(
         userId,
-        exploredSections: [],
-        totalInteractions: 0,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+        now,
+        guestSession && guestState?.checklist
+          ? UserProgressService.sanitizeChecklist(migrateChecklist(guestState.checklist, now))
+          : undefined
+      );
 
       await DynamoDBService.putItem(TABLES.USER_PROGRESS, progressRecord);
 
+      const carriedOver = guestSession
+        ? await this.carryOverGuestState(guestSession, userId, guestState ?? {}, progressRecord.checklist)
+        : undefined;
+
       return createSuccessResponse({
         user: {
           userId,
           email,
           isGuest: false,
+          role,
         },
-        message: 'Account created successfully',
+        message: 'Account created. Enter the verification code we sent to your email.',
+        verificationRequired: true,
+        carriedOver,
       });
 
     } catch (error: any) {
@@ -101,23 +184,55 @@ export class AuthHandler {
       if (error.name === 'UsernameExistsException') {
         return createErrorResponse(409, 'An account with this email already exists');
       }
+
+      if (error.name === 'InvalidPasswordException') {
+        return createErrorResponse(400, error.message);
+      }
       
       return createErrorResponse(500, 'Failed to create account');
     }
   }
 
+  /**
+   * Move a guest's current conversation into the new account and close the guest session.
+   * Messages are sanitized like any stored chat message; the checklist is already on the
+   * new progress record.
+   */
+  private static async carryOverGuestState(
+    guestSession: GuestSession,
+    userId: string,
+    guestState: GuestState,
+    checklist: ChecklistState | undefined
+  ) {
+    const conversation = guestState.conversation ?? [];
+    const conversationId = conversation.length > 0 ? uuidv4() : undefined;
+
+    if (conversationId) {
+      await ConversationMemoryService.storeMessages(conversationId, userId, conversation.map(message => ({
+        id: uuidv4(),
+        content: PrivacyService.detectAndSanitizePII(message.content).sanitizedText,
+        sender: message.sender,
+        timestamp: new Date(message.timestamp),
+      })));
+    }
+
+    await GuestSessionService.markUpgraded(guestSession.guestId, userId);
+
+    return {
+      conversationId,
+      messages: conversation.length,
+      checklistItems: completedChecklistItems(checklist).length,
+    };
+  }
+
   static async handleSignIn(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      if (!event.body) {
-        return createErrorResponse(400, 'Request body is required');
+      const parsed = RequestValidator.parseBody(event, SignInRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
       }
 
-      const { email, password } = JSON.parse(event.body);
-
-      // Validate input
-      if (!email || !password) {
-        return createErrorResponse(400, 'Email and password are required');
-      }
+      const { email, password } = parsed.data;
 
       // Authenticate with Cognito
       const authCommand = new AdminInitiateAuthCommand({
@@ -132,66 +247,139 @@ export class AuthHandler {
 
       const authResponse = await cognitoClient.send(authCommand);
 
-      if (!authResponse.AuthenticationResult) {
+      return await this.completeSignIn(email, authResponse);
+
+    } catch (error: any) {
+      console.error('Sign in error:', error);
+      
+      if (error.name === 'NotAuthorizedException') {
         return createErrorResponse(401, 'Invalid email or password');
       }
 
-      // Get user info from token
-      const accessToken = authResponse.AuthenticationResult.AccessToken!;
-      const idToken = authResponse.AuthenticationResult.IdToken!;
+      if (error.name === 'UserNotConfirmedException') {
+        return createResponse(403, {
+          success: false,
+          error: 'Please verify your email before signing in',
+          code: 'USER_NOT_CONFIRMED',
+        });
+      }
       
-      // Decode the ID token to get user info (simplified - in production, use proper JWT library)
-      const tokenPayload = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64').toString());
-      const userId = tokenPayload['custom:userId'] || tokenPayload.sub;
-
-      // Update last login time
-      await DynamoDBService.updateItem(
-        TABLES.USERS,
-        { userId },
-        'SET lastLoginAt = :now',
-        { ':now': new Date().toISOString() }
-      );
+      return createErrorResponse(500, 'Failed to sign in');
+    }
+  }
 
-      return createSuccessResponse({
-        user: {
-          userId,
-          email: tokenPayload.email,
-          isGuest: false,
-        },
-        tokens: {
-          accessToken,
-          idToken,
-          refreshToken: authResponse.AuthenticationResult.RefreshToken,
+  /**
+   * Answer the challenge a sign-in stopped at: an authenticator or SMS code, the choice between
+   * them, first-time MFA setup, or the new password an admin-created account must set. Ends in
+   * tokens or the next challenge, like sign-in itself.
+   */
+  static async handleRespondToChallenge(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, RespondToChallengeRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const answer = parsed.data;
+
+      if (answer.challengeName === 'MFA_SETUP') {
+        return await this.answerMfaSetup(answer.email, answer.session, answer.code);
+      }
+
+      const authResponse = await cognitoClient.send(new AdminRespondToAuthChallengeCommand({
+        UserPoolId: USER_POOL_ID,
+        ClientId: USER_POOL_CLIENT_ID,
+        ChallengeName: answer.challengeName,
+        Session: answer.session,
+        ChallengeResponses: {
+          USERNAME: answer.email,
+          ...this.getChallengeResponses(answer),
         },
-      });
+      }));
+
+      return await this.completeSignIn(answer.email, authResponse);
 
     } catch (error: any) {
-      console.error('Sign in error:', error);
-      
+      console.error('Respond to challenge error:', error);
+
       if (error.name === 'NotAuthorizedException') {
-        return createErrorResponse(401, 'Invalid email or password');
+        // Challenge sessions last a few minutes and can't be reused
+        return createErrorResponse(401, 'Your sign-in timed out. Please sign in again.');
       }
-      
-      return createErrorResponse(500, 'Failed to sign in');
+
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to sign in');
     }
   }
 
-  static async handleForgotPassword(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+  /**
+   * Exchange the refresh token cookie for new ID and access tokens, so a session outlives the
+   * hour those tokens last
+   */
+  static async handleRefresh(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      if (!event.body) {
-        return createErrorResponse(400, 'Request body is required');
+      const refreshToken = RefreshTokenCookie.read(event);
+      if (!refreshToken) {
+        return this.createSessionExpiredResponse();
       }
 
-      const { email } = JSON.parse(event.body);
+      const authResponse = await cognitoClient.send(new AdminInitiateAuthCommand({
+        UserPoolId: USER_POOL_ID,
+        ClientId: USER_POOL_CLIENT_ID,
+        AuthFlow: 'REFRESH_TOKEN_AUTH',
+        AuthParameters: {
+          REFRESH_TOKEN: refreshToken,
+        },
+      }));
 
-      if (!email) {
-        return createErrorResponse(400, 'Email is required');
+      if (!authResponse.AuthenticationResult) {
+        return this.createSessionExpiredResponse();
       }
 
-      if (!this.isValidEmail(email)) {
-        return createErrorResponse(400, 'Please enter a valid email address');
+      const session = await this.verifySession(authResponse.AuthenticationResult);
+      if (!session) {
+        return createErrorResponse(500, 'Failed to refresh session');
+      }
+
+      return createSuccessResponse({ tokens: session.tokens });
+
+    } catch (error: any) {
+      // Expired, revoked (sign-out) or malformed refresh tokens
+      if (error.name === 'NotAuthorizedException') {
+        return this.createSessionExpiredResponse();
+      }
+
+      console.error('Refresh error:', error);
+      return createErrorResponse(500, 'Failed to refresh session');
+    }
+  }
+
+  /**
+   * Revoke the refresh token and remove its cookie, which the frontend can't do itself
+   */
+  static async handleSignOut(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    const refreshToken = RefreshTokenCookie.read(event);
+
+    if (refreshToken) {
+      try {
+        await cognitoClient.send(new RevokeTokenCommand({ ClientId: USER_POOL_CLIENT_ID, Token: refreshToken }));
+      } catch (error) {
+        // The cookie is removed either way, and an unrevoked token still expires within a day
+        console.error('Revoke refresh token error:', error);
+      }
+    }
+
+    return createResponse(200, { success: true, data: { message: 'Signed out' } }, RefreshTokenCookie.clear());
+  }
+
+  static async handleForgotPassword(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, ForgotPasswordRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
       }
 
+      const { email } = parsed.data;
+
       const forgotPasswordCommand = new ForgotPasswordCommand({
         ClientId: USER_POOL_CLIENT_ID,
         Username: email,
@@ -217,16 +405,302 @@ export class AuthHandler {
     }
   }
 
+  static async handleVerifyEmail(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, VerifyEmailRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const { email, code } = parsed.data;
+
+      await cognitoClient.send(new ConfirmSignUpCommand({
+        ClientId: USER_POOL_CLIENT_ID,
+        Username: email,
+        ConfirmationCode: code,
+      }));
+
+      return createSuccessResponse({
+        message: 'Your email is verified. You can sign in now.',
+      });
+
+    } catch (error: any) {
+      console.error('Verify email error:', error);
+
+      if (error.name === 'NotAuthorizedException') {
+        // Cognito reports an already confirmed account this way
+        return createSuccessResponse({
+          message: 'Your email is already verified. You can sign in now.',
+        });
+      }
+
+      return this.createCodeErrorResponse(error) || createErrorResponse(500, 'Failed to verify email');
+    }
+  }
+
+  static async handleResendVerification(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, ResendVerificationRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      await cognitoClient.send(new ResendConfirmationCodeCommand({
+        ClientId: USER_POOL_CLIENT_ID,
+        Username: parsed.data.email,
+      }));
+
+      return createSuccessResponse({
+        message: 'A new verification code has been sent to your email',
+      });
+
+    } catch (error: any) {
+      console.error('Resend verification error:', error);
+
+      if (error.name === 'UserNotFoundException') {
+        // Don't reveal if user exists or not for security
+        return createSuccessResponse({
+          message: 'If an account with this email needs verification, a new code has been sent',
+        });
+      }
+
+      return this.createCodeErrorResponse(error) || createErrorResponse(500, 'Failed to send a new verification code');
+    }
+  }
+
+  static async handleConfirmReset(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, ConfirmResetRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const { email, code, newPassword } = parsed.data;
+
+      await cognitoClient.send(new ConfirmForgotPasswordCommand({
+        ClientId: USER_POOL_CLIENT_ID,
+        Username: email,
+        ConfirmationCode: code,
+        Password: newPassword,
+      }));
+
+      return createSuccessResponse({
+        message: 'Your password has been reset. Sign in with your new password.',
+      });
+
+    } catch (error: any) {
+      console.error('Confirm reset error:', error);
+
+      if (error.name === 'UserNotFoundException') {
+        // Same answer as a wrong code, so the route doesn't reveal which emails have accounts
+        return createErrorResponse(400, 'That code is incorrect. Check your email and try again.');
+      }
+
+      return this.createCodeErrorResponse(error) || createErrorResponse(500, 'Failed to reset password');
+    }
+  }
+
+  static async handleChangePassword(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const parsed = RequestValidator.parseBody(event, ChangePasswordRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const auth = requireCaller(event);
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const { accessToken, currentPassword, newPassword } = parsed.data;
+
+      await cognitoClient.send(new ChangePasswordCommand({
+        AccessToken: accessToken,
+        PreviousPassword: currentPassword,
+        ProposedPassword: newPassword,
+      }));
+
+      return createSuccessResponse({
+        message: 'Your password has been changed',
+      });
+
+    } catch (error: any) {
+      console.error('Change password error:', error);
+
+      if (error.name === 'NotAuthorizedException') {
+        // Cognito uses this for a wrong current password as well as an expired access token
+        return createErrorResponse(400, 'Your current password is incorrect, or your session has expired. Please try again.');
+      }
+
+      return this.createCodeErrorResponse(error) || createErrorResponse(500, 'Failed to change password');
+    }
+  }
+
+  /**
+   * Whether the caller has an authenticator app or text messages set up as a second factor
+   */
+  static async handleMfaStatus(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const request = await this.authorizeMfaRequest(event, MfaAccessRequestSchema);
+      if (request.error) {
+        return request.error;
+      }
+
+      const mfa = await this.getMfaStatus(request.data.accessToken, request.claims);
+
+      return createSuccessResponse({ mfa });
+
+    } catch (error: any) {
+      console.error('MFA status error:', error);
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to load two-step verification settings');
+    }
+  }
+
+  /**
+   * Start authenticator app enrollment: the secret the app needs. Nothing changes until
+   * /auth/mfa/totp/verify confirms a code generated from it.
+   */
+  static async handleSetupTotp(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const request = await this.authorizeMfaRequest(event, MfaAccessRequestSchema);
+      if (request.error) {
+        return request.error;
+      }
+
+      const { secretCode, otpauthUri } = await this.associateSoftwareToken(
+        request.email,
+        { AccessToken: request.data.accessToken }
+      );
+
+      return createSuccessResponse({ secretCode, otpauthUri });
+
+    } catch (error: any) {
+      console.error('Set up TOTP error:', error);
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to start authenticator app setup');
+    }
+  }
+
+  static async handleVerifyTotp(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const request = await this.authorizeMfaRequest(event, MfaVerifyRequestSchema);
+      if (request.error) {
+        return request.error;
+      }
+
+      const { accessToken, code } = request.data;
+
+      await this.verifySoftwareToken({ AccessToken: accessToken }, code);
+
+      const current = await this.getMfaStatus(accessToken, request.claims);
+      const mfa = { ...current, totp: true };
+      await this.setMfaPreference(accessToken, mfa);
+
+      return createSuccessResponse({
+        message: 'Two-step verification with your authenticator app is on',
+        mfa,
+      });
+
+    } catch (error: any) {
+      console.error('Verify TOTP error:', error);
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to turn on two-step verification');
+    }
+  }
+
+  /**
+   * Save the caller's mobile number; Cognito texts a code to it that /auth/mfa/sms/verify
+   * confirms before text messages can be used as a second factor
+   */
+  static async handleSetupSms(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const request = await this.authorizeMfaRequest(event, MfaSmsSetupRequestSchema);
+      if (request.error) {
+        return request.error;
+      }
+
+      const { accessToken, phoneNumber } = request.data;
+
+      await cognitoClient.send(new UpdateUserAttributesCommand({
+        AccessToken: accessToken,
+        UserAttributes: [{ Name: 'phone_number', Value: phoneNumber }],
+      }));
+
+      return createSuccessResponse({
+        message: `We texted a 6-digit code to ${maskPhoneNumber(phoneNumber)}`,
+      });
+
+    } catch (error: any) {
+      console.error('Set up SMS error:', error);
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to send a code to that number');
+    }
+  }
+
+  static async handleVerifySms(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const request = await this.authorizeMfaRequest(event, MfaVerifyRequestSchema);
+      if (request.error) {
+        return request.error;
+      }
+
+      const { accessToken, code } = request.data;
+
+      await cognitoClient.send(new VerifyUserAttributeCommand({
+        AccessToken: accessToken,
+        AttributeName: 'phone_number',
+        Code: code,
+      }));
+
+      const mfa = { ...await this.getMfaStatus(accessToken, request.claims), sms: true };
+      await this.setMfaPreference(accessToken, mfa);
+
+      return createSuccessResponse({
+        message: mfa.totp
+          ? 'Text message codes are on as a backup for your authenticator app'
+          : 'Two-step verification with text message codes is on',
+        mfa,
+      });
+
+    } catch (error: any) {
+      console.error('Verify SMS error:', error);
+      return this.createMfaErrorResponse(error) || createErrorResponse(500, 'Failed to turn on text message codes');
+    }
+  }
+
+  /**
+   * Map the Cognito errors shared by the code and password routes to client errors
+   */
+  private static createCodeErrorResponse(error: any): APIGatewayProxyResult | undefined {
+    switch (error?.name) {
+      case 'CodeMismatchException':
+        return createErrorResponse(400, 'That code is incorrect. Check your email and try again.');
+      case 'ExpiredCodeException':
+        return createErrorResponse(400, 'That code has expired. Request a new one.');
+      case 'InvalidPasswordException':
+        return createErrorResponse(400, error.message);
+      case 'LimitExceededException':
+      case 'TooManyFailedAttemptsException':
+      case 'TooManyRequestsException':
+        return createErrorResponse(429, 'Too many attempts. Please wait a few minutes and try again.');
+      default:
+        return undefined;
+    }
+  }
+
   static async handleGuestMode(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      // Create a temporary guest user ID
-      const guestUserId = `guest_${uuidv4()}`;
+      // Guests are identified by a signed, expiring token rather than a bare id
+      const session = await GuestSessionService.issue();
 
       return createSuccessResponse({
         user: {
-          userId: guestUserId,
+          userId: session.guestId,
           email: null,
           isGuest: true,
+          role: 'student',
+        },
+        session: {
+          token: session.token,
+          expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+          messageQuota: session.messageQuota,
         },
         message: 'Guest session created',
       });
@@ -239,9 +713,16 @@ export class AuthHandler {
 
   static async handleGetUserProfile(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      const userId = event.pathParameters?.userId;
-      if (!userId) {
-        return createErrorResponse(400, 'User ID is required');
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const { userId } = path.data;
+
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
       }
 
       // Get user from DynamoDB
@@ -259,6 +740,8 @@ export class AuthHandler {
           createdAt: user.createdAt,
           lastLoginAt: user.lastLoginAt,
           isGuest: user.isGuest || false,
+          // Accounts created before roles existed are students
+          role: user.role ?? 'student',
         },
       });
 
@@ -268,9 +751,336 @@ export class AuthHandler {
     }
   }
 
-  private static isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  /**
+   * Delete the caller's account: their conversations, progress, links and user record, then the
+   * Cognito user. Data goes first so a failure part-way leaves an account that can still
+   * sign in and try again.
+   */
+  static async handleDeleteAccount(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const { userId } = path.data;
+
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const user = await DynamoDBService.getItem(TABLES.USERS, { userId });
+
+      const messages = await DynamoDBService.queryAllItems(
+        TABLES.CONVERSATIONS,
+        'userId = :userId',
+        { ':userId': userId },
+        'userId-timestamp-index'
+      );
+      for (const message of messages) {
+        await DynamoDBService.deleteItem(TABLES.CONVERSATIONS, {
+          conversationId: message.conversationId,
+          messageTimestamp: message.messageTimestamp,
+        });
+      }
+
+      const progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+      if (progress) {
+        await DynamoDBService.deleteItem(TABLES.USER_PROGRESS, { userId });
+      }
+
+      // Parents and counselors lose access to a deleted student, and students to a deleted viewer
+      await StudentLinkService.deleteAllForUser(userId);
+
+      await DynamoDBService.deleteItem(TABLES.USERS, { userId });
+
+      const username = auth.caller.email || user?.email;
+      if (username) {
+        try {
+          await cognitoClient.send(new AdminDeleteUserCommand({
+            UserPoolId: USER_POOL_ID,
+            Username: username,
+          }));
+        } catch (error: any) {
+          if (error.name !== 'UserNotFoundException') {
+            throw error;
+          }
+        }
+      }
+
+      return createSuccessResponse({
+        message: 'Your account and all of its data have been deleted',
+        deleted: {
+          conversationMessages: messages.length,
+          progress: Boolean(progress),
+        },
+      });
+
+    } catch (error) {
+      console.error('Delete account error:', error);
+      return createErrorResponse(500, 'Failed to delete account');
+    }
+  }
+  /**
+   * Check the tokens Cognito issued against the user pool's signing keys and read the caller
+   * from the ID token. Returns undefined (and logs) when they don't verify, which points at a
+   * misconfigured pool or client rather than a bad request.
+   */
+  private static async verifySession(result: AuthenticationResultType) {
+    const verified = await CognitoTokenVerifier.verify(result.IdToken ?? '', 'id');
+    if (verified.error || !result.AccessToken) {
+      console.error('Cognito issued tokens that failed verification:', verified.error ?? 'missing access token');
+      return undefined;
+    }
+
+    const tokens: AuthTokens = {
+      accessToken: result.AccessToken,
+      idToken: result.IdToken!,
+      expiresAt: new Date(verified.claims.exp * 1000).toISOString(),
+    };
+
+    return { claims: verified.claims, tokens };
+  }
+
+  /**
+   * Turn Cognito's answer to a sign-in or challenge response into ours: the next challenge, or
+   * the user and tokens once they're through. Counselors without a second factor get an
+   * MFA_SETUP challenge instead of tokens.
+   */
+  private static async completeSignIn(email: string, authResponse: CognitoAuthResponse): Promise<APIGatewayProxyResult> {
+    if (!authResponse.AuthenticationResult) {
+      return authResponse.ChallengeName && authResponse.Session
+        ? await this.createChallengeResponse(email, authResponse)
+        : createErrorResponse(401, 'Invalid email or password');
+    }
+
+    // Get user info from the verified ID token
+    const session = await this.verifySession(authResponse.AuthenticationResult);
+    if (!session) {
+      return createErrorResponse(500, 'Failed to sign in');
+    }
+
+    const { claims, tokens } = session;
+
+    if (isCounselor(claims)) {
+      const mfa = await this.getMfaStatus(tokens.accessToken, claims);
+      if (!mfa.totp && !mfa.sms) {
+        // Only the access token goes back, so they can enroll; the API needs the ID token
+        const { secretCode, otpauthUri } = await this.associateSoftwareToken(email, { AccessToken: tokens.accessToken });
+        return createSuccessResponse({
+          challenge: { name: 'MFA_SETUP', session: tokens.accessToken, secretCode, otpauthUri },
+        });
+      }
+    }
+
+    const userId = claims['custom:userId'] || claims.sub;
+
+    // Update last login time
+    await DynamoDBService.updateItem(
+      TABLES.USERS,
+      { userId },
+      'SET lastLoginAt = :now',
+      { ':now': new Date().toISOString() }
+    );
+
+    // Cognito only issues a refresh token at sign-in; it goes in a cookie, never the body
+    return createResponse(200, {
+      success: true,
+      data: {
+        user: {
+          userId,
+          email: claims.email ?? null,
+          isGuest: false,
+          role: roleFromGroups(claims['cognito:groups']),
+        },
+        tokens,
+      },
+    }, authResponse.AuthenticationResult.RefreshToken ? RefreshTokenCookie.set(authResponse.AuthenticationResult.RefreshToken) : {});
+  }
+
+  private static async createChallengeResponse(email: string, authResponse: CognitoAuthResponse): Promise<APIGatewayProxyResult> {
+    const session = authResponse.Session!;
+    const parameters = authResponse.ChallengeParameters ?? {};
+    let challenge: AuthChallenge;
+
+    switch (authResponse.ChallengeName) {
+      case 'SOFTWARE_TOKEN_MFA':
+      case 'NEW_PASSWORD_REQUIRED':
+        challenge = { name: authResponse.ChallengeName, session };
+        break;
+      case 'SMS_MFA':
+        challenge = { name: 'SMS_MFA', session, destination: parameters.CODE_DELIVERY_DESTINATION };
+        break;
+      case 'SELECT_MFA_TYPE':
+        // Users with both factors and no preference pick one; this is how SMS backs up a lost authenticator
+        challenge = {
+          name: 'SELECT_MFA_TYPE',
+          session,
+          mfaTypes: z.array(MfaTypeSchema).catch(['SOFTWARE_TOKEN_MFA', 'SMS_MFA']).parse(JSON.parse(parameters.MFAS_CAN_CHOOSE ?? 'null')),
+        };
+        break;
+      case 'MFA_SETUP': {
+        // Only raised by Cognito if the pool ever requires MFA for everyone; counselors get theirs from completeSignIn
+        const { secretCode, otpauthUri, session: setupSession } = await this.associateSoftwareToken(email, { Session: session });
+        challenge = { name: 'MFA_SETUP', session: setupSession ?? session, secretCode, otpauthUri };
+        break;
+      }
+      default:
+        console.error('Unsupported sign-in challenge:', authResponse.ChallengeName);
+        return createErrorResponse(500, 'Failed to sign in');
+    }
+
+    return createSuccessResponse({ challenge });
+  }
+
+  private static getChallengeResponses(answer: Exclude<RespondToChallengeRequest, { challengeName: 'MFA_SETUP' }>): Record<string, string> {
+    switch (answer.challengeName) {
+      case 'SOFTWARE_TOKEN_MFA':
+        return { SOFTWARE_TOKEN_MFA_CODE: answer.code };
+      case 'SMS_MFA':
+        return { SMS_MFA_CODE: answer.code };
+      case 'SELECT_MFA_TYPE':
+        return { ANSWER: answer.mfaType };
+      case 'NEW_PASSWORD_REQUIRED':
+        return { NEW_PASSWORD: answer.newPassword };
+    }
+  }
+
+  /**
+   * Finish MFA setup with the first code from the authenticator app. A counselor's setup
+   * session is their access token; they have to sign in again, now with a code, to get an ID
+   * token. Cognito's own MFA_SETUP session carries on to tokens.
+   */
+  private static async answerMfaSetup(email: string, session: string, code: string): Promise<APIGatewayProxyResult> {
+    const accessToken = await CognitoTokenVerifier.verify(session, 'access');
+
+    if (accessToken.claims) {
+      await this.verifySoftwareToken({ AccessToken: session }, code);
+      await this.setMfaPreference(session, { totp: true, sms: false });
+
+      return createSuccessResponse({
+        message: 'Two-step verification is on. Sign in again with a code from your authenticator app.',
+        signInAgain: true,
+      });
+    }
+
+    const verified = await this.verifySoftwareToken({ Session: session }, code);
+    const authResponse = await cognitoClient.send(new AdminRespondToAuthChallengeCommand({
+      UserPoolId: USER_POOL_ID,
+      ClientId: USER_POOL_CLIENT_ID,
+      ChallengeName: 'MFA_SETUP',
+      Session: verified.Session,
+      ChallengeResponses: { USERNAME: email },
+    }));
+
+    return this.completeSignIn(email, authResponse);
+  }
+
+  private static async associateSoftwareToken(email: string, credentials: { AccessToken: string } | { Session: string }) {
+    const result = await cognitoClient.send(new AssociateSoftwareTokenCommand(credentials));
+    const secretCode = result.SecretCode!;
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${email}`);
+
+    return {
+      secretCode,
+      otpauthUri: `otpauth://totp/${label}?secret=${secretCode}&issuer=${encodeURIComponent(TOTP_ISSUER)}`,
+      session: result.Session,
+    };
+  }
+
+  private static async verifySoftwareToken(credentials: { AccessToken: string } | { Session: string }, code: string) {
+    const result = await cognitoClient.send(new VerifySoftwareTokenCommand({
+      ...credentials,
+      UserCode: code,
+      FriendlyDeviceName: 'Authenticator app',
+    }));
+
+    if (result.Status !== 'SUCCESS') {
+      throw Object.assign(new Error('Software token verification failed'), { name: 'CodeMismatchException' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Enable the factors the user has set up. With both on, neither is preferred, so sign-in
+   * asks which to use and a text message can stand in for a lost authenticator.
+   */
+  private static async setMfaPreference(accessToken: string, factors: { totp: boolean; sms: boolean }): Promise<void> {
+    await cognitoClient.send(new SetUserMFAPreferenceCommand({
+      AccessToken: accessToken,
+      SoftwareTokenMfaSettings: { Enabled: factors.totp, PreferredMfa: factors.totp && !factors.sms },
+      SMSMfaSettings: { Enabled: factors.sms, PreferredMfa: factors.sms && !factors.totp },
+    }));
+  }
+
+  private static async getMfaStatus(accessToken: string, claims: CognitoTokenClaims): Promise<MfaStatus> {
+    const user = await cognitoClient.send(new GetUserCommand({ AccessToken: accessToken }));
+    const enabled = user.UserMFASettingList ?? [];
+    const attribute = (name: string) => user.UserAttributes?.find(entry => entry.Name === name)?.Value;
+    const phoneNumber = attribute('phone_number');
+
+    return {
+      totp: enabled.includes('SOFTWARE_TOKEN_MFA'),
+      sms: enabled.includes('SMS_MFA'),
+      phoneNumber: phoneNumber && attribute('phone_number_verified') === 'true' ? maskPhoneNumber(phoneNumber) : null,
+      required: isCounselor(claims),
+    };
+  }
+
+  /**
+   * Validate an MFA enrollment request and check the access token in it, which Cognito's
+   * self-service MFA calls run on
+   */
+  private static async authorizeMfaRequest<S extends z.ZodType<{ accessToken: string }>>(event: APIGatewayProxyEvent, schema: S): Promise<
+    | { data: z.output<S>; claims: CognitoTokenClaims; email: string; error?: undefined }
+    | { error: APIGatewayProxyResult }
+  > {
+    const parsed = RequestValidator.parseBody(event, schema);
+    if (parsed.error) {
+      return { error: createValidationErrorResponse(parsed.error) };
+    }
+
+    const auth = requireCaller(event);
+    if (auth.error) {
+      return { error: createCallerErrorResponse(auth.error) };
+    }
+
+    const verified = await CognitoTokenVerifier.verify(parsed.data.accessToken, 'access');
+    if (verified.error) {
+      return { error: this.createSessionExpiredResponse() };
+    }
+
+    return { data: parsed.data, claims: verified.claims, email: auth.caller.email ?? '' };
+  }
+
+  /**
+   * Map the Cognito errors from MFA codes and enrollment to client errors, falling back to the
+   * shared code and password errors
+   */
+  private static createMfaErrorResponse(error: any): APIGatewayProxyResult | undefined {
+    switch (error?.name) {
+      case 'CodeMismatchException':
+      case 'EnableSoftwareTokenMFAException':
+        return createErrorResponse(400, 'That code is incorrect. Try again with the latest code.');
+      case 'ExpiredCodeException':
+        return createErrorResponse(400, 'That code has expired. Try again with the latest code.');
+      case 'NotAuthorizedException':
+        return this.createSessionExpiredResponse();
+      case 'InvalidParameterException':
+        return createErrorResponse(400, error.message);
+      default:
+        return this.createCodeErrorResponse(error);
+    }
+  }
+
+  private static createSessionExpiredResponse(): APIGatewayProxyResult {
+    return createResponse(401, {
+      success: false,
+      error: 'Your session has expired. Please sign in again.',
+      code: 'SESSION_EXPIRED',
+    });
   }
 }
 
@@ -279,18 +1089,71 @@ export const signUp = async (event: APIGatewayProxyEvent, context: LambdaContext
   return AuthHandler.handleSignUp(event, context);
 };
 
+// Sign-in, challenge answers, refresh and sign-out are sent with the refresh token cookie
 export const signIn = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
-  return AuthHandler.handleSignIn(event, context);
+  return RefreshTokenCookie.withCredentials(event, await AuthHandler.handleSignIn(event, context));
+};
+
+export const refresh = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return RefreshTokenCookie.withCredentials(event, await AuthHandler.handleRefresh(event, context));
+};
+
+export const signOut = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return RefreshTokenCookie.withCredentials(event, await AuthHandler.handleSignOut(event, context));
+};
+
+export const respondToChallenge = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return RefreshTokenCookie.withCredentials(event, await AuthHandler.handleRespondToChallenge(event, context));
 };
 
 export const forgotPassword = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return AuthHandler.handleForgotPassword(event, context);
 };
 
+export const verifyEmail = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleVerifyEmail(event, context);
+};
+
+export const resendVerification = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleResendVerification(event, context);
+};
+
+export const confirmReset = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleConfirmReset(event, context);
+};
+
+export const changePassword = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleChangePassword(event, context);
+};
+
+export const mfaStatus = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleMfaStatus(event, context);
+};
+
+export const setupTotp = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleSetupTotp(event, context);
+};
+
+export const verifyTotp = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleVerifyTotp(event, context);
+};
+
+export const setupSms = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleSetupSms(event, context);
+};
+
+export const verifySms = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleVerifySms(event, context);
+};
+
 export const guestMode = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return AuthHandler.handleGuestMode(event, context);
 };
 
 export const getUserProfile = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return AuthHandler.handleGetUserProfile(event, context);
-};
\ No newline at end of file
+};
+
+export const deleteAccount = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return AuthHandler.handleDeleteAccount(event, context);
+};
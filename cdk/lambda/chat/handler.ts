@@ -1,175 +1,538 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
-import { createSuccessResponse, createErrorResponse } from '../shared/types';
+import { createSuccessResponse, createErrorResponse, createResponse } from '../shared/types';
 import { DynamoDBService, TABLES } from '../shared/dynamodb';
-import { BedrockService } from '../shared/bedrock';
-import { KnowledgeBaseService } from '../shared/knowledge-base';
+import { BedrockService, ConversationHistory } from '../shared/bedrock';
+import { KnowledgeBaseService, Citation } from '../shared/knowledge-base';
+import { ConversationMemoryService } from '../shared/conversation-memory';
+import { PrivacyService } from '../shared/privacy';
+import { GroundingVerifier, GroundingMetadata } from '../shared/grounding-verifier';
+import { ResponseCacheService, CacheKey, CacheProvenance } from '../shared/response-cache';
+import { LanguageCode } from '../shared/languages';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import { requireCaller, createCallerErrorResponse, authenticateWithoutAuthorizer } from '../shared/caller';
+import { GuestSessionService } from '../shared/guest-session';
+import { RateLimiter } from '../shared/rate-limiter';
+import { GuardrailService, GuardrailVerdict } from '../shared/guardrails';
+import { SectionClassifier } from '../shared/section-classifier';
+import { UserProgressService } from '../shared/user-progress';
+import { LLMUsage } from '../shared/llm-provider';
+import {
+  ChatMessageRequestSchema,
+  ChatHistoryQuerySchema,
+  UserIdPathSchema,
+  ErrorResponse,
+  ValidationErrorResponse,
+  FAFSASectionId,
+} from '../shared/contracts';
+import { ResponseStream, streamifyResponse, openEventStream, writeEvent } from '../shared/streaming';
 import { v4 as uuidv4 } from 'uuid';
-import * as crypto from 'crypto';
-
-// Privacy service for PII detection and sanitization
-class PrivacyService {
-  private static readonly PII_PATTERNS = {
-    ssn: /\b\d{3}-?\d{2}-?\d{4}\b/g,
-    phone: /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g,
-    email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-    creditCard: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-    bankAccount: /\b\d{8,17}\b/g,
-  };
-
-  static detectAndSanitizePII(text: string): { hasPII: boolean; sanitizedText: string; warnings: string[] } {
-    let sanitizedText = text;
-    const warnings: string[] = [];
-    let hasPII = false;
-
-    for (const [type, pattern] of Object.entries(this.PII_PATTERNS)) {
-      if (pattern.test(text)) {
-        hasPII = true;
-        sanitizedText = sanitizedText.replace(pattern, `[${type.toUpperCase()}_REDACTED]`);
-        warnings.push(`${type} detected and removed for your privacy`);
-      }
-    }
 
-    return { hasPII, sanitizedText, warnings };
-  }
+// Number of knowledge base passages included in the prompt
+const CONTEXT_PASSAGE_COUNT = 3;
+
+interface ChatRequest {
+  content: string;
+  userId?: string;
+  // Guests get answers, but their conversation and progress are never stored
+  isGuest: boolean;
+  conversationId?: string;
+  language: LanguageCode;
+  processedContent: string;
+  hasPII: boolean;
+  privacyWarnings: string[];
+}
 
-  static isGuestUser(userId: string): boolean {
-    return userId.startsWith('guest_');
-  }
+interface RetrievedKnowledge {
+  sources: string[];
+  citations: Citation[];
 }
 
+interface FinalizeOptions {
+  // Set when the answer was served from the response cache
+  cache?: CacheProvenance;
+  // Where to cache a new answer; absent for answers that depend on earlier turns
+  cacheKey?: CacheKey;
+  grounding?: GroundingMetadata;
+}
+
+type ParsedChatRequest =
+  | { request: ChatRequest; error?: undefined }
+  | { request?: undefined; error: ValidationErrorResponse };
+
+type AuthorizedChatRequest =
+  | { request: ChatRequest; error?: undefined }
+  | { request?: undefined; error: { statusCode: number; body: ErrorResponse; headers?: { [key: string]: string } } };
+
 export class ChatHandler {
   static async handleChatMessage(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      if (!event.body) {
-        return createErrorResponse(400, 'Request body is required');
+      const parsed = this.parseChatRequest(event);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
       }
 
-      const { content, userId, conversationId } = JSON.parse(event.body);
+      // POST /chat has the Cognito authorizer; POST /chat/guest lets guests through
+      const { request, error } = await this.authorizeChatRequest(event, parsed.request);
+      if (error) {
+        return createResponse(error.statusCode, error.body, error.headers);
+      }
 
-      // Validate input
-      if (!content || typeof content !== 'string') {
-        return createErrorResponse(400, 'Message content is required');
+      // Crisis messages, injection attempts and off-topic requests never reach the model
+      const refusal = GuardrailService.checkInput(request.processedContent);
+      if (!refusal.allowed) {
+        return createSuccessResponse(this.createRefusal(request, refusal));
       }
 
-      if (content.trim().length === 0) {
-        return createErrorResponse(400, 'Please enter a FAFSA question or topic you\'d like help with.');
+      // Load earlier turns so follow-up questions keep their context
+      const history = await this.loadConversationHistory(request);
+
+      // Check cache for common queries (using sanitized content)
+      const cacheKey = await this.getCacheKey(request, history);
+      const cachedResponse = cacheKey ? await ResponseCacheService.get(cacheKey) : null;
+
+      if (cachedResponse) {
+        return createSuccessResponse(
+          await this.finalizeChatResponse(request, cachedResponse.response, {
+            sources: cachedResponse.sources || [],
+            citations: cachedResponse.citations || [],
+          }, { cache: ResponseCacheService.toProvenance(cachedResponse) })
+        );
       }
 
-      if (content.length > 5000) {
-        return createErrorResponse(400, 'Please limit your question to 5000 characters or less.');
+      // Search knowledge base for relevant context
+      const { context: knowledgeContext, ...knowledge } = await this.retrieveKnowledgeContext(request);
+
+      // Generate new response using Bedrock with knowledge base context
+      let bedrockResponse = await BedrockService.generateFAFSAResponse(request.processedContent, knowledgeContext, history, request.language);
+      const usage = [bedrockResponse.usage];
+      let grounding = GroundingVerifier.verify(bedrockResponse.content, knowledgeContext);
+      const regenerated = GroundingVerifier.hasContradictions(grounding);
+
+      // Wrong aid figures are worse than a slower answer: regenerate once with the verified values
+      if (regenerated) {
+        const correctedContext = `${knowledgeContext}\n\n${GroundingVerifier.formatCorrections(grounding)}`;
+        bedrockResponse = await BedrockService.generateFAFSAResponse(request.processedContent, correctedContext, history, request.language);
+        usage.push(bedrockResponse.usage);
+        grounding = GroundingVerifier.verify(bedrockResponse.content, correctedContext);
       }
 
-      // Privacy check: Detect and sanitize PII
-      const privacyResult = PrivacyService.detectAndSanitizePII(content);
-      const processedContent = privacyResult.sanitizedText;
-      
-      // If PII was detected, add warnings to response
-      const privacyWarnings = privacyResult.warnings;
+      await this.recordTokenUsage(request, usage);
 
-      // Check cache for common queries (using sanitized content)
-      const queryHash = crypto.createHash('md5').update(processedContent.toLowerCase().trim()).digest('hex');
-      const cachedResponse = await this.getCachedResponse(queryHash);
+      const filtered = GuardrailService.checkOutput(bedrockResponse.content, { intervened: bedrockResponse.guardrailIntervened });
+      if (!filtered.allowed) {
+        return createSuccessResponse(this.createRefusal(request, filtered));
+      }
 
-      let aiResponse: string;
-      let sources: string[] = [];
+      return createSuccessResponse(
+        await this.finalizeChatResponse(
+          request,
+          GroundingVerifier.annotate(bedrockResponse.content, grounding.flagged),
+          knowledge,
+          { cacheKey, grounding: GroundingVerifier.toMetadata(grounding, regenerated) }
+        )
+      );
 
-      if (cachedResponse) {
-        aiResponse = cachedResponse.response;
-        sources = cachedResponse.sources || [];
-        // Update cache hit count
-        await this.updateCacheHitCount(queryHash);
-      } else {
-        // Search knowledge base for relevant context
-        const knowledgeResults = await KnowledgeBaseService.searchDocuments(processedContent);
-        
-        // Build context from knowledge base
-        let context = '';
-        if (knowledgeResults.documents.length > 0) {
-          context = knowledgeResults.documents
-            .slice(0, 3) // Use top 3 most relevant documents
-            .map(doc => `${doc.title}: ${doc.content}`)
-            .join('\n\n');
-        }
+    } catch (error) {
+      console.error('Chat handler error:', error);
+      return createErrorResponse(500, 'Internal server error');
+    }
+  }
 
-        // Generate new response using Bedrock with knowledge base context
-        const bedrockResponse = await BedrockService.generateFAFSAResponse(processedContent, context);
-        aiResponse = bedrockResponse.content;
-        sources = knowledgeResults.sources;
+  /**
+   * Streaming variant of handleChatMessage. Tokens are sent as server-sent events while
+   * Bedrock produces them; sources, privacy warnings and the stored message follow in a
+   * final `done` event once the stream ends.
+   */
+  static async handleChatMessageStream(
+    event: APIGatewayProxyEvent,
+    responseStream: ResponseStream,
+    context: LambdaContext
+  ): Promise<void> {
+    const parsed = this.parseChatRequest(event);
+    if (parsed.error) {
+      return this.rejectStream(responseStream, 400, parsed.error);
+    }
 
-        // Add source attribution to the response
-        if (sources.length > 0) {
-          aiResponse += KnowledgeBaseService.formatSourceAttribution(sources);
-        }
+    // The function URL has no authorizer: signed-in callers' ID tokens are verified here,
+    // and callers without one are guests
+    const authenticated = await authenticateWithoutAuthorizer(event);
+    if (authenticated.error) {
+      return this.rejectStream(responseStream, authenticated.error.statusCode, authenticated.error.body);
+    }
+
+    const { request, error } = await this.authorizeChatRequest(event, parsed.request);
+    if (error) {
+      return this.rejectStream(responseStream, error.statusCode, error.body, error.headers);
+    }
+
+    const stream = openEventStream(responseStream);
+
+    try {
+      const refusal = GuardrailService.checkInput(request.processedContent);
+      if (!refusal.allowed) {
+        writeEvent(stream, 'done', { success: true, data: this.createRefusal(request, refusal) });
+        return;
+      }
 
-        // Cache the response for future use (only if no PII was detected)
-        if (!privacyResult.hasPII) {
-          await this.cacheResponse(queryHash, aiResponse, sources);
+      const history = await this.loadConversationHistory(request);
+      const cacheKey = await this.getCacheKey(request, history);
+      const cachedResponse = cacheKey ? await ResponseCacheService.get(cacheKey) : null;
+
+      if (cachedResponse) {
+        writeEvent(stream, 'token', { text: cachedResponse.response });
+        writeEvent(stream, 'done', {
+          success: true,
+          data: await this.finalizeChatResponse(request, cachedResponse.response, {
+            sources: cachedResponse.sources || [],
+            citations: cachedResponse.citations || [],
+          }, { cache: ResponseCacheService.toProvenance(cachedResponse) }),
+        });
+        return;
+      }
+
+      const { context: knowledgeContext, ...knowledge } = await this.retrieveKnowledgeContext(request);
+
+      let aiResponse = '';
+      let forwarded = 0;
+      let intervened = false;
+      let blocked = false;
+      const tokens = BedrockService.generateFAFSAResponseStream(request.processedContent, knowledgeContext, history, request.language);
+      // Iterated by hand because the generator returns the token usage when it finishes
+      let next = await tokens.next();
+      while (!next.done) {
+        if (next.value.guardrailIntervened) {
+          intervened = true;
+        }
+        aiResponse += next.value.text ?? '';
+
+        // Text is held back until its sentence is complete and the output filter has passed
+        // everything up to it. Once the filter fails nothing more is sent, but the rest of the
+        // answer is still read so its token usage is counted.
+        const sentenceEnd = this.lastSentenceEnd(aiResponse);
+        if (!blocked && sentenceEnd > forwarded) {
+          blocked = !GuardrailService.checkOutput(aiResponse.slice(0, sentenceEnd), { intervened }).allowed;
+          if (!blocked) {
+            writeEvent(stream, 'token', { text: aiResponse.slice(forwarded, sentenceEnd) });
+            forwarded = sentenceEnd;
+          }
         }
+        next = await tokens.next();
       }
+      await this.recordTokenUsage(request, [next.value]);
 
-      // Add privacy warnings to AI response if PII was detected
-      if (privacyWarnings.length > 0) {
-        const warningText = '\n\n⚠️ Privacy Notice: ' + privacyWarnings.join('. ') + 
-          '. Your question has been processed safely without storing personal information.';
-        aiResponse = warningText + '\n\n' + aiResponse;
+      // Sentences sent before the filter failed are replaced by the done event's refusal
+      const filtered = GuardrailService.checkOutput(aiResponse, { intervened });
+      if (!filtered.allowed) {
+        writeEvent(stream, 'done', { success: true, data: this.createRefusal(request, filtered) });
+        return;
+      }
+      if (aiResponse.length > forwarded) {
+        writeEvent(stream, 'token', { text: aiResponse.slice(forwarded) });
       }
 
-      // Create message objects
-      const userMessage = {
-        id: uuidv4(),
-        content: content.trim(), // Store original content in response
-        sender: 'user',
-        timestamp: new Date(),
+      // Tokens are already on screen, so streamed answers are annotated rather than regenerated
+      const grounding = GroundingVerifier.verify(aiResponse, knowledgeContext);
+
+      writeEvent(stream, 'done', {
+        success: true,
+        data: await this.finalizeChatResponse(
+          request,
+          GroundingVerifier.annotate(aiResponse, grounding.flagged),
+          knowledge,
+          { cacheKey, grounding: GroundingVerifier.toMetadata(grounding, false) }
+        ),
+      });
+    } catch (error) {
+      console.error('Chat stream handler error:', error);
+      writeEvent(stream, 'error', { success: false, error: 'Internal server error' });
+    } finally {
+      stream.end();
+    }
+  }
+
+  /**
+   * Identify who is chatting, apply the rate limits and daily budget, and count guest messages
+   * against their session's quota
+   */
+  private static async authorizeChatRequest(event: APIGatewayProxyEvent, parsed: ChatRequest): Promise<AuthorizedChatRequest> {
+    // requireCaller checks guest tokens synchronously, so the signing key is loaded first
+    if (GuestSessionService.getToken(event.headers)) {
+      try {
+        await GuestSessionService.loadSigningKey();
+      } catch (error) {
+        console.error('Guest token signing key error:', error);
+        return { error: { statusCode: 500, body: { success: false, error: 'Internal server error' } } };
+      }
+    }
+
+    const auth = requireCaller(event, { ownerId: parsed.userId, allowGuest: true });
+    if (auth.error) {
+      return { error: auth.error };
+    }
+
+    const { caller } = auth;
+
+    // Before the guest quota, so a refused request doesn't use up one of the guest's questions
+    const limit = await RateLimiter.checkChatRequest(caller, event);
+    if (!limit.allowed) {
+      return { error: RateLimiter.toErrorResponse(limit) };
+    }
+
+    if (caller.isGuest && !(await GuestSessionService.consumeMessage(caller.session))) {
+      return {
+        error: {
+          statusCode: 429,
+          body: {
+            success: false,
+            error: `Guest sessions are limited to ${caller.session.messageQuota} questions. Create a free account to keep going.`,
+            code: 'GUEST_QUOTA_EXCEEDED',
+          },
+        },
       };
+    }
+
+    return { request: { ...parsed, userId: caller.userId, isGuest: caller.isGuest } };
+  }
 
-      const aiMessage = {
+  private static rejectStream(
+    responseStream: ResponseStream,
+    statusCode: number,
+    body: ErrorResponse,
+    headers?: { [key: string]: string }
+  ): void {
+    const stream = openEventStream(responseStream, statusCode, headers);
+    writeEvent(stream, 'error', body);
+    stream.end();
+  }
+
+  /**
+   * Count a signed-in user's model tokens against their daily budget. Guests are limited by
+   * their session's question quota instead.
+   */
+  private static async recordTokenUsage(request: ChatRequest, usage: Array<LLMUsage | undefined>): Promise<void> {
+    if (!request.isGuest && request.userId) {
+      await RateLimiter.recordUsage(request.userId, usage);
+    }
+  }
+
+  /**
+   * Answer a refused question or a filtered answer with the guardrail's message. The reason goes in
+   * the message metadata, and the exchange is neither stored nor cached.
+   */
+  private static createRefusal(request: ChatRequest, verdict: Extract<GuardrailVerdict, { allowed: false }>) {
+    const { guardrail } = verdict;
+    console.warn(`Chat guardrail ${guardrail.action} a message: ${guardrail.reason}`);
+
+    return {
+      message: {
         id: uuidv4(),
-        content: aiResponse,
+        content: verdict.message,
         sender: 'ai',
         timestamp: new Date(),
-        metadata: {
-          sources,
-          privacyWarnings: privacyWarnings.length > 0 ? privacyWarnings : undefined,
-        },
-      };
+        metadata: { sources: [], guardrail },
+      },
+      sources: [],
+      conversationId: request.conversationId,
+    };
+  }
 
-      // Store conversation if userId is provided and not a guest
-      if (userId && !PrivacyService.isGuestUser(userId)) {
-        const finalConversationId = conversationId || uuidv4();
-        
-        // Sanitize messages before storage
-        const sanitizedUserMessage = {
-          ...userMessage,
-          content: processedContent, // Store sanitized content
-        };
-        
-        await this.storeConversationMessages(finalConversationId, userId, [sanitizedUserMessage, aiMessage]);
-        
-        // Update user progress
-        await this.updateUserProgress(userId);
+  /**
+   * Validate the request body and sanitize the message content
+   */
+  private static parseChatRequest(event: APIGatewayProxyEvent): ParsedChatRequest {
+    const parsed = RequestValidator.parseBody(event, ChatMessageRequestSchema);
+    if (parsed.error) {
+      return { error: parsed.error };
+    }
+
+    const { content, userId, conversationId, language } = parsed.data;
+
+    // Privacy check: Detect and sanitize PII, reading dates and keywords in the student's language
+    const privacyResult = PrivacyService.detectAndSanitizePII(content, { locale: language });
+
+    return {
+      request: {
+        content,
+        userId,
+        isGuest: false,
+        conversationId,
+        language,
+        processedContent: privacyResult.sanitizedText,
+        hasPII: privacyResult.hasPII,
+        privacyWarnings: privacyResult.warnings,
+      },
+    };
+  }
+
+  /**
+   * Load earlier turns of a stored conversation. Guests have no stored conversation.
+   */
+  private static async loadConversationHistory(request: ChatRequest): Promise<ConversationHistory> {
+    const { userId, conversationId, isGuest } = request;
+    if (!userId || !conversationId || isGuest) {
+      return { messages: [] };
+    }
+
+    return ConversationMemoryService.loadHistory(conversationId, userId);
+  }
+
+  /**
+   * Where the last complete sentence of a partial answer ends, including the whitespace after it
+   */
+  private static lastSentenceEnd(text: string): number {
+    const ends = [...text.matchAll(/[.!?]+["')\]]*\s+|\n+/g)];
+    const last = ends[ends.length - 1];
+    return last ? last.index! + last[0].length : 0;
+  }
+
+  /**
+   * Cache key for the question's normalized intent under the current knowledge base version.
+   * Answers to follow-up questions depend on earlier turns, so they bypass the response cache.
+   */
+  private static async getCacheKey(request: ChatRequest, history: ConversationHistory): Promise<CacheKey | undefined> {
+    if (history.messages.length > 0 || history.summary) {
+      return undefined;
+    }
+
+    return ResponseCacheService.createKey(
+      request.processedContent,
+      await KnowledgeBaseService.getKnowledgeBaseVersion(),
+      request.language
+    );
+  }
+
+  /**
+   * Search the knowledge base, preferring documents in the student's language, and build
+   * the numbered prompt context from the top passages
+   */
+  private static async retrieveKnowledgeContext(request: ChatRequest): Promise<RetrievedKnowledge & { context: string }> {
+    const knowledgeResults = await KnowledgeBaseService.searchDocuments(
+      request.processedContent,
+      undefined,
+      CONTEXT_PASSAGE_COUNT,
+      request.language
+    );
+    const { context, citations } = KnowledgeBaseService.buildCitationContext(knowledgeResults.passages);
+
+    return { context, sources: knowledgeResults.sources, citations };
+  }
+
+  /**
+   * Apply source attribution and privacy warnings, cache and store the exchange,
+   * and build the response payload shared by the buffered and streaming endpoints
+   */
+  private static async finalizeChatResponse(
+    request: ChatRequest,
+    responseText: string,
+    knowledge: RetrievedKnowledge,
+    options: FinalizeOptions = {}
+  ) {
+    const { cache, cacheKey, grounding } = options;
+    let aiResponse = responseText;
+    let { sources, citations } = knowledge;
+
+    if (!cache) {
+      // Keep only the passages the answer cites, numbered in order of use
+      const cited = KnowledgeBaseService.applyCitations(responseText, citations);
+      aiResponse = cited.text;
+      citations = cited.citations;
+      if (citations.length > 0) {
+        sources = [...new Set(citations.map(citation => citation.url))];
       }
 
-      return createSuccessResponse({
-        message: aiMessage,
+      // Add source attribution to the response
+      if (sources.length > 0) {
+        aiResponse += KnowledgeBaseService.formatSourceAttribution(sources, citations);
+      }
+
+      // Cache the response for future use (only if no PII was detected, it doesn't depend on
+      // earlier turns and every figure in it was verified)
+      if (cacheKey && !request.hasPII && grounding?.verified !== false) {
+        await ResponseCacheService.put(cacheKey, aiResponse, sources, citations);
+      }
+    }
+
+    const { privacyWarnings, userId, conversationId, isGuest } = request;
+
+    // Add privacy warnings to AI response if PII was detected
+    if (privacyWarnings.length > 0) {
+      const warningText = '\n\n⚠️ Privacy Notice: ' + privacyWarnings.join('. ') + 
+        '. Your question has been processed safely without storing personal information.';
+      aiResponse = warningText + '\n\n' + aiResponse;
+    }
+
+    // The section the question is about, for the student's progress and the message metadata
+    const section = SectionClassifier.classify(request.processedContent);
+
+    // Create message objects
+    const userMessage = {
+      id: uuidv4(),
+      content: request.content.trim(), // Store original content in response
+      sender: 'user',
+      timestamp: new Date(),
+    };
+
+    const aiMessage = {
+      id: uuidv4(),
+      content: aiResponse,
+      sender: 'ai',
+      timestamp: new Date(),
+      metadata: {
         sources,
-        conversationId: conversationId || (userId && !PrivacyService.isGuestUser(userId) ? uuidv4() : undefined),
+        citations: citations.length > 0 ? citations : undefined,
+        grounding,
+        cache,
         privacyWarnings: privacyWarnings.length > 0 ? privacyWarnings : undefined,
-      });
+        fafsa_section: section,
+      },
+    };
 
-    } catch (error) {
-      console.error('Chat handler error:', error);
-      return createErrorResponse(500, 'Internal server error');
+    // The same id is stored and returned so follow-up messages find this exchange
+    const finalConversationId = conversationId || (userId && !isGuest ? uuidv4() : undefined);
+
+    // Store conversation if userId is provided and not a guest
+    if (userId && finalConversationId && !isGuest) {
+      
+      // Sanitize messages before storage
+      const sanitizedUserMessage = {
+        ...userMessage,
+        content: request.processedContent, // Store sanitized content
+        metadata: section ? { fafsa_section: section } : undefined,
+      };
+      
+      await ConversationMemoryService.storeMessages(finalConversationId, userId, [sanitizedUserMessage, aiMessage]);
+      
+      // Update user progress
+      await this.updateUserProgress(userId, section);
     }
+
+    return {
+      message: aiMessage,
+      sources,
+      conversationId: finalConversationId,
+      privacyWarnings: privacyWarnings.length > 0 ? privacyWarnings : undefined,
+    };
   }
 
   static async handleChatHistory(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      const userId = event.pathParameters?.userId;
-      if (!userId) {
-        return createErrorResponse(400, 'User ID is required');
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const query = RequestValidator.parseQueryParameters(event, ChatHistoryQuerySchema);
+      if (query.error) {
+        return createValidationErrorResponse(query.error);
       }
 
-      const limit = event.queryStringParameters?.limit ? parseInt(event.queryStringParameters.limit) : 50;
+      const { userId } = path.data;
+      const { limit } = query.data;
+
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
 
       // Query conversations for the user
       const messages = await DynamoDBService.queryItems(
@@ -195,84 +558,34 @@ export class ChatHandler {
     }
   }
 
-  private static async getCachedResponse(queryHash: string) {
-    try {
-      return await DynamoDBService.getItem(TABLES.RESPONSE_CACHE, { queryHash });
-    } catch (error) {
-      console.error('Cache retrieval error:', error);
-      return null;
-    }
-  }
-
-  private static async cacheResponse(queryHash: string, response: string, sources: string[]) {
-    try {
-      const cacheItem = {
-        queryHash,
-        response,
-        sources,
-        createdAt: new Date().toISOString(),
-        hitCount: 1,
-        expiresAt: Math.floor(Date.now() / 1000) + (60 * 60), // 1 hour TTL
-      };
-
-      await DynamoDBService.putItem(TABLES.RESPONSE_CACHE, cacheItem);
-    } catch (error) {
-      console.error('Cache storage error:', error);
-      // Don't throw - caching is not critical
-    }
-  }
-
-  private static async updateCacheHitCount(queryHash: string) {
+  /**
+   * Record the question against its FAFSA section, or just count it when it isn't about one
+   */
+  private static async updateUserProgress(userId: string, section?: FAFSASectionId) {
     try {
-      await DynamoDBService.updateItem(
-        TABLES.RESPONSE_CACHE,
-        { queryHash },
-        'SET hitCount = hitCount + :inc',
-        { ':inc': 1 }
-      );
-    } catch (error) {
-      console.error('Cache hit count update error:', error);
-      // Don't throw - this is not critical
-    }
-  }
-
-  private static async storeConversationMessages(conversationId: string, userId: string, messages: any[]) {
-    try {
-      const expiresAt = Math.floor(Date.now() / 1000) + (24 * 60 * 60); // 24 hours TTL
-
-      for (const message of messages) {
-        const conversationItem = {
-          conversationId,
-          messageTimestamp: message.timestamp.getTime(),
-          userId,
-          messageContent: message.content,
-          sender: message.sender,
-          messageId: message.id,
-          metadata: message.metadata || {},
-          expiresAt,
-        };
-
-        await DynamoDBService.putItem(TABLES.CONVERSATIONS, conversationItem);
+      if (section) {
+        const updated = await UserProgressService.applyAction(userId, { sectionId: section, action: 'add_question' });
+        if (!updated) {
+          console.warn(`Progress for ${section} not recorded: the record kept changing`);
+        }
+        return;
       }
-    } catch (error) {
-      console.error('Conversation storage error:', error);
-      // Don't throw - conversation storage is not critical for the response
-    }
-  }
 
-  private static async updateUserProgress(userId: string) {
-    try {
       const now = new Date().toISOString();
       
       await DynamoDBService.updateItem(
         TABLES.USER_PROGRESS,
         { userId },
-        'SET totalInteractions = if_not_exists(totalInteractions, :zero) + :inc, updatedAt = :now',
+        // Bumping the version makes a progress update that read the old count retry
+        'SET totalInteractions = if_not_exists(totalInteractions, :zero) + :inc, '
+          + '#version = if_not_exists(#version, :zero) + :inc, updatedAt = :now',
         { 
           ':inc': 1, 
           ':zero': 0,
           ':now': now 
-        }
+        },
+        undefined,
+        { '#version': 'version' }
       );
     } catch (error) {
       console.error('User progress update error:', error);
@@ -288,4 +601,8 @@ export const chatMessage = async (event: APIGatewayProxyEvent, context: LambdaCo
 
 export const chatHistory = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return ChatHandler.handleChatHistory(event, context);
-};
\ No newline at end of file
+};
+
+export const chatMessageStream = streamifyResponse(async (event, responseStream, context) => {
+  return ChatHandler.handleChatMessageStream(event, responseStream, context);
+});
@@ -0,0 +1,44 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
+import { createSuccessResponse, createErrorResponse } from '../shared/types';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import {
+  DeadlinesQuerySchema,
+  currentAwardYear,
+  openAwardYears,
+  resolveDeadlines,
+  toIsoDate,
+} from '../shared/contracts';
+
+export class DeadlinesHandler {
+  /**
+   * The federal deadline with a state's (or every state's) and the chosen schools' deadlines.
+   * Public, so guests can plan too. Without an award year, the one students are applying for
+   * today is used.
+   */
+  static async handleGetDeadlines(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const query = RequestValidator.parseQueryParameters(event, DeadlinesQuerySchema);
+      if (query.error) {
+        return createValidationErrorResponse(query.error);
+      }
+
+      const today = toIsoDate(new Date());
+      const awardYear = query.data.awardYear ?? currentAwardYear(today);
+
+      return createSuccessResponse({
+        awardYear,
+        openAwardYears: openAwardYears(today),
+        deadlines: resolveDeadlines({ ...query.data, awardYear }),
+      });
+
+    } catch (error) {
+      console.error('Get deadlines error:', error);
+      return createErrorResponse(500, 'Failed to get deadlines');
+    }
+  }
+}
+
+// Lambda handler functions
+export const getDeadlines = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return DeadlinesHandler.handleGetDeadlines(event, context);
+};
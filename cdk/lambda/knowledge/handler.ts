@@ -0,0 +1,32 @@
+import { LambdaContext } from '../shared/types';
+import { KnowledgeBaseService, IngestionReport, OFFICIAL_SOURCES } from '../shared/knowledge-base';
+
+// Scheduled EventBridge events carry no input we use; manual invocations may point at local snapshots
+export interface KnowledgeIngestionEvent {
+  snapshotDir?: string;
+}
+
+export class KnowledgeHandler {
+  static async handleIngestion(event: KnowledgeIngestionEvent | undefined, context: LambdaContext): Promise<IngestionReport> {
+    const snapshotDir = event?.snapshotDir || process.env.KNOWLEDGE_SNAPSHOT_DIR;
+    const loadSnapshot = snapshotDir
+      ? KnowledgeBaseService.directorySnapshotLoader(snapshotDir)
+      : undefined;
+
+    const report = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(loadSnapshot, OFFICIAL_SOURCES);
+
+    console.log('Knowledge ingestion report:', JSON.stringify(report));
+
+    // Fail the invocation when nothing could be fetched so the schedule's error metrics show it
+    if (report.failed.length === OFFICIAL_SOURCES.length) {
+      throw new Error('Knowledge ingestion failed for every official source');
+    }
+
+    return report;
+  }
+}
+
+// Lambda handler functions
+export const ingestKnowledge = async (event: KnowledgeIngestionEvent | undefined, context: LambdaContext): Promise<IngestionReport> => {
+  return KnowledgeHandler.handleIngestion(event, context);
+};
@@ -0,0 +1,179 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
+import { createSuccessResponse, createErrorResponse } from '../shared/types';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import { requireCaller, requirePermission, createCallerErrorResponse } from '../shared/caller';
+import { StudentLinkService } from '../shared/student-links';
+import {
+  CreateLinkRequestSchema,
+  UpdateLinkRequestSchema,
+  UserIdPathSchema,
+  StudentLink,
+  hasPermission,
+} from '../shared/contracts';
+
+export class LinksHandler {
+  /**
+   * A student's parents and counselors, or a parent's or counselor's students along with the
+   * code students enter to link to them
+   */
+  static async handleGetLinks(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requireCaller(event);
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const { caller } = auth;
+
+      if (hasPermission(caller.role, 'links:manage')) {
+        return createSuccessResponse({ links: await StudentLinkService.listForStudent(caller.userId) });
+      }
+
+      if (caller.role === 'parent' || caller.role === 'counselor') {
+        return createSuccessResponse({
+          links: await StudentLinkService.listForViewer(caller.userId),
+          linkCode: await StudentLinkService.getLinkCode(caller.userId),
+        });
+      }
+
+      return createErrorResponse(403, 'Only students, parents and counselors have linked accounts');
+
+    } catch (error) {
+      console.error('Get links error:', error);
+      return createErrorResponse(500, 'Failed to get linked accounts');
+    }
+  }
+
+  /**
+   * Link the calling student to the parent or counselor whose code they entered
+   */
+  static async handleCreateLink(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const auth = requirePermission(event, 'links:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, CreateLinkRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const { caller } = auth;
+      const { code, shares } = parsed.data;
+
+      const viewer = await StudentLinkService.findViewerByCode(code);
+      if (!viewer || viewer.userId === caller.userId) {
+        return createErrorResponse(404, 'No parent or counselor has that code. Check it and try again.');
+      }
+
+      const link: StudentLink = {
+        studentId: caller.userId,
+        studentEmail: caller.email,
+        viewerId: viewer.userId,
+        viewerEmail: viewer.email,
+        viewerRole: viewer.role,
+        shares: StudentLinkService.withRequiredShares(viewer.role, shares),
+        linkedAt: new Date().toISOString(),
+      };
+
+      await StudentLinkService.putLink(link);
+
+      return createSuccessResponse({ link });
+
+    } catch (error) {
+      console.error('Create link error:', error);
+      return createErrorResponse(500, 'Failed to link accounts');
+    }
+  }
+
+  /**
+   * Change what the calling student shares with a linked parent or counselor
+   */
+  static async handleUpdateLink(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const auth = requirePermission(event, 'links:manage');
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, UpdateLinkRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const viewerId = path.data.userId;
+      const existing = await StudentLinkService.getLink(viewerId, auth.caller.userId);
+      if (!existing) {
+        return createErrorResponse(404, 'You are not linked to that account');
+      }
+
+      const shares = StudentLinkService.withRequiredShares(existing.viewerRole, parsed.data.shares);
+      const link = await StudentLinkService.updateShares(viewerId, auth.caller.userId, shares);
+      if (!link) {
+        return createErrorResponse(404, 'You are not linked to that account');
+      }
+
+      return createSuccessResponse({ link });
+
+    } catch (error) {
+      console.error('Update link error:', error);
+      return createErrorResponse(500, 'Failed to update what you share');
+    }
+  }
+
+  /**
+   * Either side can unlink: a student from a parent or counselor, or a parent or counselor
+   * from a student
+   */
+  static async handleDeleteLink(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const auth = requireCaller(event);
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const otherId = path.data.userId;
+      const callerId = auth.caller.userId;
+      const link = await StudentLinkService.getLink(otherId, callerId) ?? await StudentLinkService.getLink(callerId, otherId);
+      if (!link) {
+        return createErrorResponse(404, 'You are not linked to that account');
+      }
+
+      await StudentLinkService.deleteLink(link.viewerId, link.studentId);
+
+      return createSuccessResponse({ message: 'The accounts are no longer linked' });
+
+    } catch (error) {
+      console.error('Delete link error:', error);
+      return createErrorResponse(500, 'Failed to unlink accounts');
+    }
+  }
+}
+
+// Lambda handler functions
+export const getLinks = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return LinksHandler.handleGetLinks(event, context);
+};
+
+export const createLink = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return LinksHandler.handleCreateLink(event, context);
+};
+
+export const updateLink = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return LinksHandler.handleUpdateLink(event, context);
+};
+
+export const deleteLink = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return LinksHandler.handleDeleteLink(event, context);
+};
@@ -1,33 +1,38 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
 import { createSuccessResponse, createErrorResponse } from '../shared/types';
 import { DynamoDBService, TABLES } from '../shared/dynamodb';
+import { RequestValidator, createValidationErrorResponse } from '../shared/validation';
+import { requireCaller, requirePermission, createCallerErrorResponse } from '../shared/caller';
+import { StudentLinkService } from '../shared/student-links';
+import { UserProgressService } from '../shared/user-progress';
+import {
+  FAFSA_SECTIONS,
+  SaveIntakeRequestSchema,
+  UpdateChecklistRequestSchema,
+  UpdateProgressRequestSchema,
+  UserIdPathSchema,
+  completedChecklistItems,
+  migrateProgressRecord,
+  summarizeProgress,
+} from '../shared/contracts';
 
 export class ProgressHandler {
   static async handleGetProgress(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      const userId = event.pathParameters?.userId;
-      if (!userId) {
-        return createErrorResponse(400, 'User ID is required');
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
       }
 
-      // Get user progress from DynamoDB
-      const progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
-
-      if (!progress) {
-        // Create initial progress record if it doesn't exist
-        const initialProgress = {
-          userId,
-          exploredSections: [],
-          totalInteractions: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
+      const { userId } = path.data;
 
-        await DynamoDBService.putItem(TABLES.USER_PROGRESS, initialProgress);
-        
-        return createSuccessResponse(initialProgress);
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
       }
 
+      const progress = await UserProgressService.get(userId);
+
       return createSuccessResponse(progress);
 
     } catch (error) {
@@ -38,181 +43,189 @@ export class ProgressHandler {
 
   static async handleUpdateProgress(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      const userId = event.pathParameters?.userId;
-      if (!userId) {
-        return createErrorResponse(400, 'User ID is required');
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
       }
 
-      if (!event.body) {
-        return createErrorResponse(400, 'Request body is required');
+      const { userId } = path.data;
+
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
       }
 
-      const { sectionId, action } = JSON.parse(event.body);
+      const parsed = RequestValidator.parseBody(event, UpdateProgressRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
 
-      if (!sectionId || !action) {
-        return createErrorResponse(400, 'Section ID and action are required');
+      const updatedProgress = await UserProgressService.applyAction(userId, parsed.data);
+      if (!updatedProgress) {
+        return createErrorResponse(409, 'Your progress changed while it was being saved. Please try again.');
       }
 
-      if (!['mark_reviewed', 'add_question'].includes(action)) {
-        return createErrorResponse(400, 'Invalid action. Must be "mark_reviewed" or "add_question"');
+      return createSuccessResponse({
+        success: true,
+        updatedProgress,
+      });
+
+    } catch (error) {
+      console.error('Update progress error:', error);
+      return createErrorResponse(500, 'Failed to update user progress');
+    }
+  }
+
+  /**
+   * Save changed FAFSA checklist items. Each item keeps whichever copy was changed last, so a
+   * guest's checklist can be merged into the account after they sign in.
+   */
+  static async handleUpdateChecklist(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
       }
 
-      // Get current progress
-      let progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+      const { userId } = path.data;
 
-      if (!progress) {
-        // Create initial progress if it doesn't exist
-        progress = {
-          userId,
-          exploredSections: [],
-          totalInteractions: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-      }
-
-      // Find or create section
-      let sectionIndex = progress.exploredSections.findIndex((section: any) => section.sectionId === sectionId);
-      
-      if (sectionIndex === -1) {
-        // Add new section
-        progress.exploredSections.push({
-          sectionId,
-          questionsAsked: 0,
-          lastVisited: new Date().toISOString(),
-          isComplete: false,
-        });
-        sectionIndex = progress.exploredSections.length - 1;
-      }
-
-      // Update section based on action
-      const section = progress.exploredSections[sectionIndex];
-      section.lastVisited = new Date().toISOString();
-
-      if (action === 'add_question') {
-        section.questionsAsked += 1;
-        progress.totalInteractions += 1;
-      } else if (action === 'mark_reviewed') {
-        section.isComplete = true;
-      }
-
-      // Update progress in DynamoDB
-      progress.updatedAt = new Date().toISOString();
-      await DynamoDBService.putItem(TABLES.USER_PROGRESS, progress);
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, UpdateChecklistRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const updatedProgress = await UserProgressService.updateChecklist(userId, parsed.data.items);
+      if (!updatedProgress) {
+        return createErrorResponse(409, 'Your checklist changed while it was being saved. Please try again.');
+      }
 
       return createSuccessResponse({
         success: true,
-        updatedProgress: progress,
+        updatedProgress,
       });
 
     } catch (error) {
-      console.error('Update progress error:', error);
-      return createErrorResponse(500, 'Failed to update user progress');
+      console.error('Update checklist error:', error);
+      return createErrorResponse(500, 'Failed to update checklist');
     }
   }
 
-  static async handleGetProgressSummary(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+  /**
+   * Save a student's intake answers, which decide the sections they need and the order to do them
+   */
+  static async handleSaveIntake(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      const userId = event.pathParameters?.userId;
-      if (!userId) {
-        return createErrorResponse(400, 'User ID is required');
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
       }
 
-      // Get user progress
-      const progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+      const { userId } = path.data;
 
-      if (!progress) {
-        return createSuccessResponse({
-          totalSections: 0,
-          completedSections: 0,
-          totalQuestions: 0,
-          completionPercentage: 0,
-          recentActivity: [],
-        });
-      }
-
-      // Calculate summary statistics
-      const totalSections = progress.exploredSections.length;
-      const completedSections = progress.exploredSections.filter((section: any) => section.isComplete).length;
-      const totalQuestions = progress.totalInteractions;
-      const completionPercentage = totalSections > 0 ? Math.round((completedSections / totalSections) * 100) : 0;
-
-      // Get recent activity (last 5 sections visited)
-      const recentActivity = progress.exploredSections
-        .sort((a: any, b: any) => new Date(b.lastVisited).getTime() - new Date(a.lastVisited).getTime())
-        .slice(0, 5)
-        .map((section: any) => ({
-          sectionId: section.sectionId,
-          lastVisited: section.lastVisited,
-          questionsAsked: section.questionsAsked,
-          isComplete: section.isComplete,
-        }));
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const parsed = RequestValidator.parseBody(event, SaveIntakeRequestSchema);
+      if (parsed.error) {
+        return createValidationErrorResponse(parsed.error);
+      }
+
+      const updatedProgress = await UserProgressService.saveIntake(userId, parsed.data.answers);
+      if (!updatedProgress) {
+        return createErrorResponse(409, 'Your progress changed while your answers were being saved. Please try again.');
+      }
 
       return createSuccessResponse({
-        totalSections,
-        completedSections,
-        totalQuestions,
-        completionPercentage,
-        recentActivity,
-        lastUpdated: progress.updatedAt,
+        success: true,
+        updatedProgress,
       });
 
+    } catch (error) {
+      console.error('Save intake error:', error);
+      return createErrorResponse(500, 'Failed to save intake answers');
+    }
+  }
+
+  static async handleGetProgressSummary(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const { userId } = path.data;
+
+      const auth = requireCaller(event, { ownerId: userId });
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      // Get user progress
+      const progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+
+      return createSuccessResponse(this.summarize(progress));
+
     } catch (error) {
       console.error('Get progress summary error:', error);
       return createErrorResponse(500, 'Failed to get progress summary');
     }
   }
 
-  static async handleGetFAFSASections(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+  /**
+   * A linked student's progress for their parent or counselor, limited to what the student
+   * shares. Counselors always see progress.
+   */
+  static async handleGetStudentProgress(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
     try {
-      // Return predefined FAFSA sections
-      const fafsaSections = [
-        {
-          sectionId: 'student-demographics',
-          title: 'Student Demographics',
-          description: 'Basic information about the student',
-          topics: ['Name', 'Social Security Number', 'Date of Birth', 'Citizenship Status'],
-        },
-        {
-          sectionId: 'student-finances',
-          title: 'Student Financial Information',
-          description: 'Student income and asset information',
-          topics: ['Income', 'Assets', 'Benefits', 'Tax Information'],
-        },
-        {
-          sectionId: 'dependency-status',
-          title: 'Dependency Status',
-          description: 'Determining if student is dependent or independent',
-          topics: ['Age', 'Marital Status', 'Military Service', 'Graduate Student'],
-        },
-        {
-          sectionId: 'parent-demographics',
-          title: 'Parent Demographics',
-          description: 'Information about student\'s parents (if dependent)',
-          topics: ['Parent Names', 'Social Security Numbers', 'Education Level'],
-        },
-        {
-          sectionId: 'parent-finances',
-          title: 'Parent Financial Information',
-          description: 'Parent income and asset information (if dependent)',
-          topics: ['Parent Income', 'Parent Assets', 'Tax Information', 'Household Size'],
-        },
-        {
-          sectionId: 'school-selection',
-          title: 'School Selection',
-          description: 'Colleges and universities to receive FAFSA information',
-          topics: ['School Codes', 'Housing Plans', 'Grade Level', 'Degree Type'],
-        },
-        {
-          sectionId: 'signatures',
-          title: 'Signatures and Submission',
-          description: 'Final review and electronic signatures',
-          topics: ['Student Signature', 'Parent Signature', 'FSA ID', 'Submission'],
+      const path = RequestValidator.parsePathParameters(event, UserIdPathSchema);
+      if (path.error) {
+        return createValidationErrorResponse(path.error);
+      }
+
+      const auth = requirePermission(event, ['students:view-linked', 'students:view-shared']);
+      if (auth.error) {
+        return createCallerErrorResponse(auth.error);
+      }
+
+      const { userId } = path.data;
+      const link = await StudentLinkService.getLink(auth.caller.userId, userId);
+      if (!link) {
+        return createErrorResponse(404, 'This student has not linked their account to yours');
+      }
+
+      const shares = StudentLinkService.withRequiredShares(auth.caller.role, link.shares);
+      const progress = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+
+      return createSuccessResponse({
+        student: {
+          userId,
+          email: link.studentEmail,
         },
-      ];
+        shares,
+        summary: shares.includes('progress') ? this.summarize(progress) : undefined,
+        // Notes and due dates stay private to the student
+        checklist: shares.includes('checklist')
+          ? completedChecklistItems(progress ? migrateProgressRecord(progress).checklist : undefined)
+          : undefined,
+      });
+
+    } catch (error) {
+      console.error('Get student progress error:', error);
+      return createErrorResponse(500, 'Failed to get student progress');
+    }
+  }
 
+  static async handleGetFAFSASections(event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> {
+    try {
       return createSuccessResponse({
-        sections: fafsaSections,
+        sections: FAFSA_SECTIONS,
       });
 
     } catch (error) {
@@ -220,6 +233,20 @@ export class ProgressHandler {
       return createErrorResponse(500, 'Failed to get FAFSA sections');
     }
   }
+
+  private static summarize(progress: Record<string, any> | undefined) {
+    if (!progress) {
+      return {
+        totalSections: FAFSA_SECTIONS.length,
+        completedSections: 0,
+        totalQuestions: 0,
+        completionPercentage: 0,
+        recentActivity: [],
+      };
+    }
+
+    return summarizeProgress(migrateProgressRecord(progress));
+  }
 }
 
 // Lambda handler functions
@@ -231,10 +258,22 @@ export const updateProgress = async (event: APIGatewayProxyEvent, context: Lambd
   return ProgressHandler.handleUpdateProgress(event, context);
 };
 
+export const updateChecklist = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return ProgressHandler.handleUpdateChecklist(event, context);
+};
+
+export const saveIntake = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return ProgressHandler.handleSaveIntake(event, context);
+};
+
 export const getProgressSummary = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return ProgressHandler.handleGetProgressSummary(event, context);
 };
 
+export const getStudentProgress = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
+  return ProgressHandler.handleGetStudentProgress(event, context);
+};
+
 export const getFAFSASections = async (event: APIGatewayProxyEvent, context: LambdaContext): Promise<APIGatewayProxyResult> => {
   return ProgressHandler.handleGetFAFSASections(event, context);
 };
\ No newline at end of file
@@ -1,71 +1,44 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-
-// Initialize Bedrock client with privacy-focused configuration
-const bedrockClient = new BedrockRuntimeClient({ 
-  region: process.env.AWS_REGION || 'us-east-1',
-  // Ensure secure communication
-  endpoint: `https://bedrock-runtime.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com`,
-});
-
-export interface BedrockResponse {
-  content: string;
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+import { getLLMProvider, LLMMessage, LLMResponse, LLMStreamChunk, LLMUsage } from './llm-provider';
+import { DEFAULT_LANGUAGE, LanguageCode, SUPPORTED_LANGUAGES } from './languages';
+import { GuardrailService } from './guardrails';
+
+// Earlier turns of a conversation: recent messages verbatim, older ones summarized
+export interface ConversationHistory {
+  messages: LLMMessage[];
+  summary?: string;
 }
 
+/**
+ * Builds FAFSA prompts and sends them to the configured LLM provider
+ * (Bedrock in deployed stacks, the offline stub when LLM_PROVIDER=stub)
+ */
 export class BedrockService {
-  private static readonly MODEL_ID = 'anthropic.claude-3-haiku-20240307-v1:0';
-  private static readonly MAX_TOKENS = 1000;
-
-  static async generateResponse(prompt: string, systemPrompt?: string): Promise<BedrockResponse> {
-    try {
-      const messages = [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ];
-
-      const requestBody = {
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: this.MAX_TOKENS,
-        messages,
-        system: systemPrompt || this.getDefaultSystemPrompt(),
-        // Privacy and FERPA compliance configuration
-        metadata: {
-          privacy_mode: true,
-          ferpa_compliant: true,
-          no_training: true,
-          data_retention: 'session_only',
-        },
-      };
-
-      const command = new InvokeModelCommand({
-        modelId: this.MODEL_ID,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify(requestBody),
-        // Additional privacy headers
-        guardrailIdentifier: undefined, // Use default guardrails
-        trace: 'DISABLED', // Disable tracing for privacy
-      });
-
-      const response = await bedrockClient.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      return {
-        content: responseBody.content[0].text,
-        usage: {
-          inputTokens: responseBody.usage?.input_tokens || 0,
-          outputTokens: responseBody.usage?.output_tokens || 0,
-        },
-      };
-    } catch (error) {
-      console.error('Bedrock API error:', error);
-      throw new Error('Failed to generate AI response');
-    }
+  static async generateResponse(
+    prompt: string,
+    systemPrompt?: string,
+    history: LLMMessage[] = []
+  ): Promise<LLMResponse> {
+    return getLLMProvider().generate({
+      prompt,
+      systemPrompt: systemPrompt || this.getDefaultSystemPrompt(),
+      history,
+    });
+  }
+
+  /**
+   * Stream a response, yielding text deltas as the model produces them.
+   * Returns the final token usage once the stream completes.
+   */
+  static generateResponseStream(
+    prompt: string,
+    systemPrompt?: string,
+    history: LLMMessage[] = []
+  ): AsyncGenerator<LLMStreamChunk, LLMUsage | undefined, void> {
+    return getLLMProvider().generateStream({
+      prompt,
+      systemPrompt: systemPrompt || this.getDefaultSystemPrompt(),
+      history,
+    });
   }
 
   private static getDefaultSystemPrompt(): string {
@@ -87,14 +60,61 @@ PRIVACY AND COMPLIANCE REQUIREMENTS:
 
 Always be helpful, encouraging, and supportive. Remember that students may be stressed about financial aid applications, so maintain a calm and reassuring tone.
 
-If you're unsure about specific FAFSA rules or deadlines, recommend that students verify information with official sources like StudentAid.gov or their school's financial aid office.`;
+If you're unsure about specific FAFSA rules or deadlines, recommend that students verify information with official sources like StudentAid.gov or their school's financial aid office.
+
+${GuardrailService.getPromptRules()}`;
+  }
+
+  static async generateFAFSAResponse(
+    question: string,
+    context?: string,
+    history?: ConversationHistory,
+    language: LanguageCode = DEFAULT_LANGUAGE
+  ): Promise<LLMResponse> {
+    return this.generateResponse(
+      this.buildFAFSAPrompt(question, context),
+      this.buildSystemPrompt(history, language),
+      history?.messages
+    );
+  }
+
+  static generateFAFSAResponseStream(
+    question: string,
+    context?: string,
+    history?: ConversationHistory,
+    language: LanguageCode = DEFAULT_LANGUAGE
+  ) {
+    return this.generateResponseStream(
+      this.buildFAFSAPrompt(question, context),
+      this.buildSystemPrompt(history, language),
+      history?.messages
+    );
+  }
+
+  private static buildSystemPrompt(history?: ConversationHistory, language: LanguageCode = DEFAULT_LANGUAGE): string {
+    let systemPrompt = this.getDefaultSystemPrompt();
+
+    if (language !== DEFAULT_LANGUAGE) {
+      const { name, nativeName } = SUPPORTED_LANGUAGES[language];
+      systemPrompt += `\n\nLANGUAGE:\nThe student is using the ${name} (${nativeName}) version of the site. ` +
+        `Answer in ${name} at the same plain, easy reading level, even when the sources are in English. ` +
+        'Keep official names such as FAFSA, FSA ID, Pell Grant and StudentAid.gov in English, adding a short ' +
+        `${name} explanation the first time each appears. Keep citation markers like [1] unchanged.`;
+    }
+
+    return history?.summary
+      ? `${systemPrompt}\n\nCONVERSATION SO FAR:\n${GuardrailService.fence('conversation_summary', history.summary)}`
+      : systemPrompt;
   }
 
-  static async generateFAFSAResponse(question: string, context?: string): Promise<BedrockResponse> {
-    const enhancedPrompt = context 
-      ? `Context: ${context}\n\nStudent Question: ${question}\n\nPlease provide a clear, helpful explanation in simple terms.`
-      : `Student Question: ${question}\n\nPlease provide a clear, helpful explanation about this FAFSA-related question in simple terms.`;
+  // Retrieved documents and the student's question are fenced so text in them can't pass as instructions
+  private static buildFAFSAPrompt(question: string, context?: string): string {
+    const fencedQuestion = GuardrailService.fence('student_question', question);
 
-    return this.generateResponse(enhancedPrompt);
+    return context
+      ? `Context (numbered official sources):\n${GuardrailService.fence('official_sources', context)}\n\n` +
+        `Student Question:\n${fencedQuestion}\n\nPlease provide a clear, helpful explanation in simple terms. ` +
+        'Cite the sources that support each statement inline using their numbers, like [1] or [2]. Only cite the numbered sources above.'
+      : `Student Question:\n${fencedQuestion}\n\nPlease provide a clear, helpful explanation about this FAFSA-related question in simple terms.`;
   }
 }
\ No newline at end of file
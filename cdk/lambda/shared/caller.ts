@@ -0,0 +1,138 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, createResponse } from './types';
+import { ErrorResponse, Permission, Role, hasPermission, roleFromGroups } from './contracts';
+import { GuestSession, GuestSessionService } from './guest-session';
+import { CognitoTokenVerifier } from './cognito-token';
+
+export type Caller =
+  | { userId: string; email: string | null; isGuest: false; role: Role }
+  // Guests are identified by the signed session token issued by /auth/guest
+  | { userId: string; email: null; isGuest: true; role: 'student'; session: GuestSession };
+
+export interface CallerError {
+  statusCode: 401 | 403;
+  body: ErrorResponse;
+}
+
+export type RequiredCaller =
+  | { caller: Caller; error?: undefined }
+  | { caller?: undefined; error: CallerError };
+
+export interface RequireCallerOptions {
+  // The user whose data the request reads or writes (from the path or body)
+  ownerId?: string;
+  // Let callers with a guest session token through as guests. Only for routes without the authorizer.
+  allowGuest?: boolean;
+}
+
+const unauthorized = (error: string, code = 'UNAUTHORIZED'): CallerError =>
+  ({ statusCode: 401, body: { success: false, error, code } });
+
+const forbidden = (error: string): CallerError =>
+  ({ statusCode: 403, body: { success: false, error, code: 'FORBIDDEN' } });
+
+/**
+ * Identify the caller from the Cognito authorizer claims and check they may act for `ownerId`.
+ * Registered users are only ever identified by their claims, never by an id in the path or body.
+ * Requests without claims are guests, identified by a verified guest session token: they are
+ * rejected unless the route allows guests, and even then can only act as their own session.
+ */
+export const requireCaller = (event: APIGatewayProxyEvent, options: RequireCallerOptions = {}): RequiredCaller => {
+  const { ownerId, allowGuest = false } = options;
+  const claims = event.requestContext.authorizer?.claims;
+
+  if (claims) {
+    const caller: Caller = {
+      userId: claims['custom:userId'] || claims.sub,
+      email: claims.email || null,
+      isGuest: false,
+      role: roleFromGroups(claims['cognito:groups']),
+    };
+
+    if (ownerId && ownerId !== caller.userId) {
+      return { error: forbidden('You do not have access to this user\'s data') };
+    }
+
+    return { caller };
+  }
+
+  const guestToken = GuestSessionService.getToken(event.headers);
+
+  if (!allowGuest) {
+    return guestToken
+      ? { error: forbidden('Guest sessions have no saved data. Create an account to save your progress.') }
+      : { error: unauthorized('Please sign in to continue') };
+  }
+
+  if (!guestToken) {
+    return { error: unauthorized('Please sign in or continue as a guest') };
+  }
+
+  const verified = GuestSessionService.verify(guestToken);
+  if (verified.error === 'expired') {
+    return { error: unauthorized('Your guest session has expired. Start a new one or create an account.', 'GUEST_SESSION_EXPIRED') };
+  }
+  if (verified.error) {
+    return { error: unauthorized('Your guest session is not valid. Start a new one or create an account.', 'GUEST_SESSION_INVALID') };
+  }
+
+  const { session } = verified;
+  if (ownerId && ownerId !== session.guestId) {
+    return { error: forbidden('Please sign in to use your account') };
+  }
+
+  return { caller: { userId: session.guestId, email: null, isGuest: true, role: 'student', session } };
+};
+
+/**
+ * Identify a signed-in caller and check their role grants `permission` (any one of them, for
+ * a list). Guests never have permissions, since roles only come from an account's Cognito groups.
+ */
+export const requirePermission = (event: APIGatewayProxyEvent, permission: Permission | Permission[]): RequiredCaller => {
+  const auth = requireCaller(event);
+  if (auth.error) {
+    return auth;
+  }
+
+  const { caller } = auth;
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  if (caller.isGuest || !permissions.some(required => hasPermission(caller.role, required))) {
+    return { error: forbidden('Your account does not have access to this') };
+  }
+
+  return auth;
+};
+
+/**
+ * For routes without the Cognito authorizer (the streaming function URL): verify the ID token
+ * in the Authorization header ourselves and attach its claims as the authorizer would, so
+ * requireCaller treats the request the same way. Requests without the header are left alone.
+ */
+export const authenticateWithoutAuthorizer = async (event: APIGatewayProxyEvent): Promise<{ error?: CallerError }> => {
+  const token = CognitoTokenVerifier.getBearerToken(event.headers);
+  if (!token || event.requestContext.authorizer) {
+    return {};
+  }
+
+  const verified = await CognitoTokenVerifier.verify(token, 'id');
+  if (verified.error === 'expired') {
+    return { error: unauthorized('Your session has expired. Please sign in again.', 'SESSION_EXPIRED') };
+  }
+  if (verified.error) {
+    return { error: unauthorized('Please sign in again to continue') };
+  }
+
+  const { sub, email = '', 'custom:userId': userId, 'cognito:groups': groups } = verified.claims;
+  event.requestContext.authorizer = {
+    claims: {
+      sub,
+      email,
+      ...(userId ? { 'custom:userId': userId } : {}),
+      // The authorizer passes groups as a string too; roleFromGroups reads either form
+      ...(Array.isArray(groups) ? { 'cognito:groups': groups.join(',') } : {}),
+    },
+  };
+  return {};
+};
+
+export const createCallerErrorResponse = ({ statusCode, body }: CallerError): APIGatewayProxyResult =>
+  createResponse(statusCode, body);
@@ -0,0 +1,163 @@
+import * as crypto from 'crypto';
+import * as https from 'https';
+import { getEnvVar } from './types';
+
+const JWKS_TIMEOUT_MS = 5000;
+// Signing keys rarely change; an unknown key id refetches the set sooner, but not more than
+// once every few minutes so tokens with made-up key ids can't hammer the endpoint
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 5 * 60 * 1000;
+// Tolerated difference between our clock and Cognito's
+const CLOCK_SKEW_SECONDS = 60;
+
+export type CognitoTokenUse = 'id' | 'access';
+
+export interface CognitoJwk {
+  kid: string;
+  kty: string;
+  alg?: string;
+  n: string;
+  e: string;
+}
+
+export interface CognitoTokenClaims {
+  sub: string;
+  token_use: CognitoTokenUse;
+  iss: string;
+  exp: number;
+  iat: number;
+  email?: string;
+  'custom:userId'?: string;
+  [claim: string]: unknown;
+}
+
+export type VerifiedCognitoToken =
+  | { claims: CognitoTokenClaims; error?: undefined }
+  | { claims?: undefined; error: 'invalid' | 'expired' };
+
+interface CachedJwks {
+  keys: Map<string, crypto.KeyObject>;
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, CachedJwks>();
+
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString());
+
+export class CognitoTokenVerifier {
+  /**
+   * The issuer claim of tokens from the stack's user pool
+   */
+  static getIssuer(): string {
+    return `https://cognito-idp.${getEnvVar('AWS_REGION')}.amazonaws.com/${getEnvVar('USER_POOL_ID')}`;
+  }
+
+  /**
+   * Check a Cognito token's RS256 signature against the user pool's JWKS, its issuer, audience,
+   * token use and expiry. Never throws; a token that can't be checked is reported as invalid.
+   */
+  static async verify(
+    token: string,
+    tokenUse: CognitoTokenUse,
+    options: { now?: Date } = {}
+  ): Promise<VerifiedCognitoToken> {
+    const { now = new Date() } = options;
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return { error: 'invalid' };
+    }
+
+    try {
+      const header = decodeSegment(parts[0]);
+      const claims: Partial<CognitoTokenClaims> = decodeSegment(parts[1]);
+      if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+        return { error: 'invalid' };
+      }
+
+      const issuer = this.getIssuer();
+      const key = await this.getSigningKey(issuer, header.kid);
+      const signed = Buffer.from(`${parts[0]}.${parts[1]}`);
+      if (!key || !crypto.verify('RSA-SHA256', signed, key, Buffer.from(parts[2], 'base64url'))) {
+        return { error: 'invalid' };
+      }
+
+      // ID tokens name the app client in `aud`, access tokens in `client_id`
+      const clientId = tokenUse === 'id' ? claims.aud : claims.client_id;
+      if (claims.iss !== issuer || claims.token_use !== tokenUse || clientId !== getEnvVar('USER_POOL_CLIENT_ID')
+        || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+        return { error: 'invalid' };
+      }
+
+      if (claims.exp + CLOCK_SKEW_SECONDS <= Math.floor(now.getTime() / 1000)) {
+        return { error: 'expired' };
+      }
+
+      return { claims: claims as CognitoTokenClaims };
+    } catch (error) {
+      console.error('Cognito token verification error:', error);
+      return { error: 'invalid' };
+    }
+  }
+
+  /**
+   * Read a bearer token from the Authorization header (header names are case-insensitive)
+   */
+  static getBearerToken(headers: { [key: string]: string } | null | undefined): string | undefined {
+    const entry = Object.entries(headers || {}).find(([key]) => key.toLowerCase() === 'authorization');
+    const value = entry?.[1]?.trim();
+    return value ? value.replace(/^Bearer\s+/i, '') : undefined;
+  }
+
+  /**
+   * Download the user pool's public signing keys
+   */
+  static fetchJwks(issuer: string): Promise<CognitoJwk[]> {
+    return new Promise((resolve, reject) => {
+      const request = https.get(`${issuer}/.well-known/jwks.json`, { timeout: JWKS_TIMEOUT_MS }, response => {
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(new Error(`JWKS request failed with status ${response.statusCode}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString()).keys ?? []);
+          } catch (error) {
+            reject(error);
+          }
+        });
+        response.on('error', reject);
+      });
+
+      request.on('timeout', () => request.destroy(new Error('JWKS request timed out')));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Forget cached signing keys
+   */
+  static clearCache(): void {
+    jwksCache.clear();
+  }
+
+  private static async getSigningKey(issuer: string, kid: string): Promise<crypto.KeyObject | undefined> {
+    const cached = jwksCache.get(issuer);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    if (cached && (age < JWKS_MIN_REFETCH_MS || (age < JWKS_CACHE_MS && cached.keys.has(kid)))) {
+      return cached.keys.get(kid);
+    }
+
+    // Keys are rotated by adding a new one first, so an unknown key id means the cache is stale
+    const jwks = await this.fetchJwks(issuer);
+    const keys = new Map(jwks
+      .filter(jwk => jwk.kty === 'RSA')
+      .map(jwk => [jwk.kid, crypto.createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' })]));
+    jwksCache.set(issuer, { keys, fetchedAt: Date.now() });
+
+    return keys.get(kid);
+  }
+}
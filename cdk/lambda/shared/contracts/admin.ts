@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { RoleSchema } from './roles';
+import { LanguageCodeSchema } from './chat';
+
+// PUT /admin/roles
+export const SetUserRoleRequestSchema = z.object({
+  email: z.string({ error: 'Email is required' }).trim().min(1, 'Email is required').email('Please enter a valid email address'),
+  role: RoleSchema,
+});
+
+export const UserRoleResponseSchema = z.object({
+  user: z.object({
+    userId: z.string(),
+    email: z.string(),
+    role: RoleSchema,
+  }),
+  message: z.string(),
+});
+
+// GET /admin/knowledge lists documents without their content
+export const KnowledgeDocumentSummarySchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  section: z.string(),
+  sourceUrl: z.string(),
+  language: LanguageCodeSchema.optional(),
+  lastModified: z.string(),
+});
+
+export const KnowledgeDocumentsResponseSchema = z.object({
+  documents: z.array(KnowledgeDocumentSummarySchema),
+});
+
+// PUT /admin/knowledge. The key comes from the section, title and language, so saving a
+// document with the same ones replaces it.
+export const UpsertKnowledgeDocumentRequestSchema = z.object({
+  title: z.string({ error: 'Title is required' }).trim().min(1, 'Title is required').max(200),
+  section: z.string({ error: 'Section is required' }).trim().regex(/^[a-z0-9-]+$/, 'Section must be a lowercase id like student-finances'),
+  content: z.string({ error: 'Content is required' }).trim().min(1, 'Content is required').max(200000),
+  sourceUrl: z.url({ error: 'Source must be a link to the official page' }),
+  language: LanguageCodeSchema.optional(),
+  keywords: z.array(z.string().min(1).max(100)).max(50).optional(),
+});
+
+// DELETE /admin/knowledge?key=...
+export const KnowledgeDocumentKeyQuerySchema = z.object({
+  key: z.string({ error: 'Document key is required' }).min(1, 'Document key is required'),
+});
+
+export const KnowledgeDocumentSavedResponseSchema = z.object({
+  key: z.string(),
+  message: z.string(),
+});
+
+export const FAFSAErrorTypeSchema = z.enum([
+  'missing_information',
+  'incorrect_format',
+  'dependency_status_error',
+  'income_reporting_error',
+  'asset_reporting_error',
+  'tax_information_error',
+  'school_selection_error',
+  'deadline_warning',
+  'verification_issue',
+  'eligibility_concern'
+]);
+
+export const ErrorSeveritySchema = z.enum([
+  'critical',    // Will prevent FAFSA submission
+  'warning',     // May cause delays or issues
+  'info'         // Helpful tips and reminders
+]);
+
+export const FAFSAErrorPatternSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  errorType: FAFSAErrorTypeSchema,
+  severity: ErrorSeveritySchema,
+  section: z.string(),
+  field: z.string().optional(),
+  patterns: z.array(z.string()), // Regex patterns or keywords to match
+  solution: z.string(),
+  commonCauses: z.array(z.string()),
+  preventionTips: z.array(z.string()),
+  relatedFields: z.array(z.string()).optional(),
+});
+
+// Patterns admins add or change. They replace the built-in pattern with the same id;
+// a disabled one hides it.
+export const ManagedErrorPatternSchema = FAFSAErrorPatternSchema.extend({
+  enabled: z.boolean(),
+  updatedAt: z.string(),
+  updatedBy: z.string().nullable(),
+});
+
+// PUT /admin/error-patterns/{patternId}
+export const UpsertErrorPatternRequestSchema = FAFSAErrorPatternSchema.omit({ id: true }).extend({
+  name: z.string({ error: 'Name is required' }).trim().min(1, 'Name is required').max(200),
+  patterns: z.array(z.string().min(1).max(200)).min(1, 'Add at least one phrase to match').max(50),
+  solution: z.string({ error: 'Solution is required' }).trim().min(1, 'Solution is required').max(2000),
+  commonCauses: z.array(z.string().max(500)).max(20).default([]),
+  preventionTips: z.array(z.string().max(500)).max(20).default([]),
+  enabled: z.boolean().default(true),
+});
+
+export const ErrorPatternIdPathSchema = z.object({
+  patternId: z.string({ error: 'Pattern ID is required' }).regex(/^[a-z0-9_-]{1,100}$/, 'Pattern IDs use lowercase letters, numbers, - and _'),
+});
+
+// GET /error-patterns (public) and the admin routes
+export const ErrorPatternsResponseSchema = z.object({
+  patterns: z.array(ManagedErrorPatternSchema),
+});
+
+export const ErrorPatternResponseSchema = z.object({
+  pattern: ManagedErrorPatternSchema,
+});
+
+export type SetUserRoleRequest = z.infer<typeof SetUserRoleRequestSchema>;
+export type KnowledgeDocumentSummary = z.infer<typeof KnowledgeDocumentSummarySchema>;
+export type UpsertKnowledgeDocumentRequest = z.infer<typeof UpsertKnowledgeDocumentRequestSchema>;
+export type FAFSAErrorPattern = z.infer<typeof FAFSAErrorPatternSchema>;
+export type ManagedErrorPattern = z.infer<typeof ManagedErrorPatternSchema>;
+export type UpsertErrorPatternRequest = z.input<typeof UpsertErrorPatternRequestSchema>;
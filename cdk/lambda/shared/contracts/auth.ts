@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { RoleSchema } from './roles';
+import { ChecklistStateSchema, MAX_CHECKLIST_ITEMS } from './checklist';
+
+const REQUIRED_CREDENTIALS = 'Email and password are required';
+
+const email = (requiredMessage: string) =>
+  z.string({ error: requiredMessage })
+    .min(1, requiredMessage)
+    .email('Please enter a valid email address');
+
+const password = (requiredMessage: string) =>
+  z.string({ error: requiredMessage })
+    .min(1, requiredMessage)
+    .min(8, 'Password must be at least 8 characters long');
+
+// Cognito emails 6-digit codes for email verification and password resets
+const CODE_REQUIRED = 'Enter the 6-digit code from your email';
+const confirmationCode = z.string({ error: CODE_REQUIRED }).trim().regex(/^\d{6}$/, CODE_REQUIRED);
+
+// Second-factor codes come from an authenticator app or a text message
+const MFA_CODE_REQUIRED = 'Enter the 6-digit code';
+const mfaCode = z.string({ error: MFA_CODE_REQUIRED }).trim().regex(/^\d{6}$/, MFA_CODE_REQUIRED);
+
+// Cognito can send SMS codes to E.164 numbers only
+const PHONE_REQUIRED = 'Enter a mobile number including the country code, like +15551234567';
+
+const accessToken = (message: string) => z.string({ error: message }).min(1, message);
+
+export const MfaTypeSchema = z.enum(['SOFTWARE_TOKEN_MFA', 'SMS_MFA']);
+
+// The sign-in challenges the client can answer through POST /auth/challenge
+export const AuthChallengeNameSchema = z.enum([
+  'SOFTWARE_TOKEN_MFA',
+  'SMS_MFA',
+  'SELECT_MFA_TYPE',
+  'MFA_SETUP',
+  'NEW_PASSWORD_REQUIRED',
+]);
+
+// What a guest brings into a new account: their current conversation and checklist
+export const GuestStateSchema = z.object({
+  conversation: z.array(z.object({
+    content: z.string().min(1).max(20000),
+    sender: z.enum(['user', 'ai']),
+    timestamp: z.iso.datetime(),
+  })).max(100).optional(),
+  // Older clients send only the ids of completed items
+  checklist: z.union([
+    z.array(z.string().min(1).max(100)).max(MAX_CHECKLIST_ITEMS),
+    ChecklistStateSchema.refine(
+      checklist => Object.keys(checklist).length <= MAX_CHECKLIST_ITEMS,
+      `A checklist can have up to ${MAX_CHECKLIST_ITEMS} items`
+    ),
+  ]).optional(),
+});
+
+// POST /auth/signup
+export const SignUpRequestSchema = z.object({
+  email: email(REQUIRED_CREDENTIALS),
+  password: password(REQUIRED_CREDENTIALS),
+  // Parents sign up as parents; counselors and admins are assigned by an admin
+  role: z.enum(['student', 'parent'], { error: 'Choose whether you are a student or a parent' }).default('student'),
+  // Set when a guest upgrades; guestState is only accepted together with the guest's token
+  guestToken: z.string().min(1).max(2048).optional(),
+  guestState: GuestStateSchema.optional(),
+}).refine(
+  request => !request.guestState || request.guestToken,
+  { message: 'A guest session is required to bring guest data into an account', path: ['guestToken'] }
+);
+
+// POST /auth/signin
+export const SignInRequestSchema = z.object({
+  email: z.string({ error: REQUIRED_CREDENTIALS }).min(1, REQUIRED_CREDENTIALS),
+  password: z.string({ error: REQUIRED_CREDENTIALS }).min(1, REQUIRED_CREDENTIALS),
+});
+
+// POST /auth/forgot-password
+export const ForgotPasswordRequestSchema = z.object({
+  email: email('Email is required'),
+});
+
+// POST /auth/verify
+export const VerifyEmailRequestSchema = z.object({
+  email: email('Email is required'),
+  code: confirmationCode,
+});
+
+// POST /auth/verify/resend
+export const ResendVerificationRequestSchema = z.object({
+  email: email('Email is required'),
+});
+
+// POST /auth/confirm-reset
+export const ConfirmResetRequestSchema = z.object({
+  email: email('Email is required'),
+  code: confirmationCode,
+  newPassword: password('New password is required'),
+});
+
+// POST /auth/change-password. Cognito changes passwords with the user's access token; the
+// route's authorizer checks the ID token in the Authorization header as usual.
+export const ChangePasswordRequestSchema = z.object({
+  accessToken: z.string({ error: 'Please sign in again to change your password' }).min(1, 'Please sign in again to change your password'),
+  currentPassword: z.string({ error: 'Current password is required' }).min(1, 'Current password is required'),
+  newPassword: password('New password is required'),
+}).refine(
+  request => request.newPassword !== request.currentPassword,
+  { message: 'Choose a new password that is different from your current one', path: ['newPassword'] }
+);
+
+// POST /auth/challenge. The session comes from the challenge being answered and is good for
+// one answer; each challenge takes its own field.
+const challengeAnswer = {
+  email: z.string({ error: 'Email is required' }).min(1, 'Email is required'),
+  session: z.string({ error: 'Please sign in again' }).min(1, 'Please sign in again'),
+};
+
+export const RespondToChallengeRequestSchema = z.discriminatedUnion('challengeName', [
+  z.object({ ...challengeAnswer, challengeName: z.literal('SOFTWARE_TOKEN_MFA'), code: mfaCode }),
+  z.object({ ...challengeAnswer, challengeName: z.literal('SMS_MFA'), code: mfaCode }),
+  z.object({ ...challengeAnswer, challengeName: z.literal('MFA_SETUP'), code: mfaCode }),
+  z.object({ ...challengeAnswer, challengeName: z.literal('SELECT_MFA_TYPE'), mfaType: MfaTypeSchema }),
+  z.object({ ...challengeAnswer, challengeName: z.literal('NEW_PASSWORD_REQUIRED'), newPassword: password('New password is required') }),
+], { error: 'Unsupported sign-in challenge' });
+
+// POST /auth/mfa/status and /auth/mfa/totp. Like password changes, MFA enrollment runs on the
+// user's access token.
+export const MfaAccessRequestSchema = z.object({
+  accessToken: accessToken('Please sign in again to manage two-step verification'),
+});
+
+// POST /auth/mfa/totp/verify and /auth/mfa/sms/verify
+export const MfaVerifyRequestSchema = z.object({
+  accessToken: accessToken('Please sign in again to manage two-step verification'),
+  code: mfaCode,
+});
+
+// POST /auth/mfa/sms
+export const MfaSmsSetupRequestSchema = z.object({
+  accessToken: accessToken('Please sign in again to manage two-step verification'),
+  phoneNumber: z.string({ error: PHONE_REQUIRED }).trim().regex(/^\+[1-9]\d{6,14}$/, PHONE_REQUIRED),
+});
+
+export const AuthUserSchema = z.object({
+  userId: z.string(),
+  email: z.string().nullable(),
+  isGuest: z.boolean(),
+  // Guests are students
+  role: RoleSchema,
+});
+
+export const AuthTokensSchema = z.object({
+  accessToken: z.string(),
+  idToken: z.string(),
+  // When the ID and access tokens stop being accepted, so clients can refresh ahead of it
+  expiresAt: z.iso.datetime(),
+});
+
+export const SignUpResponseSchema = z.object({
+  user: AuthUserSchema,
+  message: z.string(),
+  // New accounts must confirm the code emailed to them before they can sign in
+  verificationRequired: z.boolean(),
+  // What was carried over from the guest session, when the account was created by upgrading one
+  carriedOver: z.object({
+    conversationId: z.string().optional(),
+    messages: z.number().int().nonnegative(),
+    checklistItems: z.number().int().nonnegative(),
+  }).optional(),
+});
+
+export const SignInResponseSchema = z.object({
+  user: AuthUserSchema,
+  tokens: AuthTokensSchema,
+});
+
+export const AuthChallengeSchema = z.object({
+  name: AuthChallengeNameSchema,
+  session: z.string(),
+  // SMS_MFA: the masked number the code was sent to
+  destination: z.string().optional(),
+  // SELECT_MFA_TYPE: the factors the user can pick from
+  mfaTypes: z.array(MfaTypeSchema).optional(),
+  // MFA_SETUP: the authenticator app secret, as text and as an otpauth:// link
+  secretCode: z.string().optional(),
+  otpauthUri: z.string().optional(),
+});
+
+// Sign-in, and each answered challenge, ends in tokens, another challenge, or (after a
+// counselor's first MFA enrollment) a message asking them to sign in again with their new code
+export const AuthChallengeResponseSchema = z.object({
+  challenge: AuthChallengeSchema,
+});
+
+export const SignInResultSchema = z.union([
+  SignInResponseSchema,
+  AuthChallengeResponseSchema,
+  z.object({ message: z.string(), signInAgain: z.literal(true) }),
+]);
+
+export const MfaStatusSchema = z.object({
+  totp: z.boolean(),
+  sms: z.boolean(),
+  // Masked, once verified
+  phoneNumber: z.string().nullable(),
+  // Counselor accounts can't sign in without a second factor
+  required: z.boolean(),
+});
+
+export const MfaStatusResponseSchema = z.object({
+  mfa: MfaStatusSchema,
+});
+
+export const MfaTotpSetupResponseSchema = z.object({
+  secretCode: z.string(),
+  otpauthUri: z.string(),
+});
+
+export const MfaUpdatedResponseSchema = z.object({
+  message: z.string(),
+  mfa: MfaStatusSchema,
+});
+
+export const RefreshTokenResponseSchema = z.object({
+  tokens: AuthTokensSchema,
+});
+
+// Guests send the token back in the X-Guest-Token header
+export const GuestSessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.string(),
+  messageQuota: z.number().int().positive(),
+});
+
+export const GuestSessionResponseSchema = z.object({
+  user: AuthUserSchema,
+  session: GuestSessionSchema,
+  message: z.string(),
+});
+
+export const AuthMessageResponseSchema = z.object({
+  message: z.string(),
+});
+
+// DELETE /auth/user/{userId}
+export const DeleteAccountResponseSchema = z.object({
+  message: z.string(),
+  deleted: z.object({
+    conversationMessages: z.number().int().nonnegative(),
+    progress: z.boolean(),
+  }),
+});
+
+export const UserProfileResponseSchema = z.object({
+  user: AuthUserSchema.extend({
+    preferences: z.object({
+      theme: z.enum(['light', 'dark']),
+      notifications: z.boolean(),
+    }).optional(),
+    createdAt: z.string(),
+    lastLoginAt: z.string(),
+  }),
+});
+
+export type GuestState = z.infer<typeof GuestStateSchema>;
+export type SignUpRequest = z.infer<typeof SignUpRequestSchema>;
+export type SignInRequest = z.infer<typeof SignInRequestSchema>;
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordRequestSchema>;
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailRequestSchema>;
+export type ResendVerificationRequest = z.infer<typeof ResendVerificationRequestSchema>;
+export type ConfirmResetRequest = z.infer<typeof ConfirmResetRequestSchema>;
+export type ChangePasswordRequest = z.infer<typeof ChangePasswordRequestSchema>;
+export type RespondToChallengeRequest = z.infer<typeof RespondToChallengeRequestSchema>;
+export type MfaSmsSetupRequest = z.infer<typeof MfaSmsSetupRequestSchema>;
+export type MfaType = z.infer<typeof MfaTypeSchema>;
+export type AuthChallenge = z.infer<typeof AuthChallengeSchema>;
+export type AuthChallengeName = z.infer<typeof AuthChallengeNameSchema>;
+export type SignInResult = z.infer<typeof SignInResultSchema>;
+export type MfaStatus = z.infer<typeof MfaStatusSchema>;
+export type AuthUser = z.infer<typeof AuthUserSchema>;
+export type AuthTokens = z.infer<typeof AuthTokensSchema>;
+export type GuestSession = z.infer<typeof GuestSessionSchema>;
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { DEFAULT_LANGUAGE, LanguageCode, SUPPORTED_LANGUAGES } from '../languages';
+import { FAFSASectionIdSchema } from './progress';
+
+const LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES) as [LanguageCode, ...LanguageCode[]];
+
+export const LanguageCodeSchema = z.enum(LANGUAGE_CODES, {
+  error: `Unsupported language. Use one of: ${LANGUAGE_CODES.join(', ')}.`,
+});
+
+// POST /chat and the streaming endpoint
+export const ChatMessageRequestSchema = z.object({
+  content: z.string({ error: 'Message content is required' })
+    .min(1, 'Message content is required')
+    .max(5000, 'Please limit your question to 5000 characters or less.')
+    .refine(
+      content => content.trim().length > 0,
+      'Please enter a FAFSA question or topic you\'d like help with.'
+    ),
+  // Registered users have UUIDs, guests have the guest_<uuid> from their session token
+  userId: z.string().min(1).max(128).optional(),
+  conversationId: z.string().min(1).max(128).optional(),
+  language: LanguageCodeSchema.default(DEFAULT_LANGUAGE),
+});
+
+// A knowledge base passage cited inline in an AI answer as [id]
+export const CitationSchema = z.object({
+  id: z.number().int().positive(),
+  documentKey: z.string(),
+  title: z.string(),
+  excerpt: z.string(),
+  url: z.string(),
+});
+
+// Result of checking an AI answer's amounts and dates against official sources
+export const GroundingSchema = z.object({
+  verified: z.boolean(),
+  flaggedClaims: z.array(z.object({
+    text: z.string(),
+    expected: z.array(z.string()).optional(),
+  })),
+  regenerated: z.boolean(),
+});
+
+// Where an answer served from the response cache came from
+export const CacheProvenanceSchema = z.object({
+  hit: z.boolean(),
+  normalizedQuery: z.string(),
+  topic: z.enum(['deadlines', 'amounts', 'general']),
+  knowledgeBaseVersion: z.string(),
+  language: LanguageCodeSchema,
+  cachedAt: z.string(),
+  expiresAt: z.string(),
+});
+
+// A hotline offered when a student's message suggests they may be in crisis
+export const CrisisResourceSchema = z.object({
+  name: z.string(),
+  contact: z.string(),
+  url: z.string(),
+});
+
+// Why a question was refused before reaching the model (`blocked`), or an answer was
+// replaced after it (`filtered`)
+export const GuardrailSchema = z.object({
+  action: z.enum(['blocked', 'filtered']),
+  reason: z.enum(['prompt-injection', 'off-topic', 'crisis', 'unsafe-content']),
+  resources: z.array(CrisisResourceSchema).optional(),
+});
+
+export const ChatMessageMetadataSchema = z.object({
+  sources: z.array(z.string()).optional(),
+  citations: z.array(CitationSchema).optional(),
+  grounding: GroundingSchema.optional(),
+  cache: CacheProvenanceSchema.optional(),
+  guardrail: GuardrailSchema.optional(),
+  privacyWarnings: z.array(z.string()).optional(),
+  // The FAFSA section the question was about, when it could be told
+  fafsa_section: FAFSASectionIdSchema.optional(),
+});
+
+// Messages as they travel over the wire; timestamps are ISO strings
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  sender: z.enum(['user', 'ai']),
+  timestamp: z.string().datetime(),
+  metadata: ChatMessageMetadataSchema.optional(),
+});
+
+export const ChatMessageResponseSchema = z.object({
+  message: ChatMessageSchema,
+  sources: z.array(z.string()),
+  conversationId: z.string().optional(),
+  privacyWarnings: z.array(z.string()).optional(),
+});
+
+// Streaming endpoint events: `token` carries a text delta, `done` carries the ChatMessageResponse
+export const ChatStreamTokenEventSchema = z.object({
+  text: z.string(),
+});
+
+// GET /chat/history/{userId}?limit=
+export const ChatHistoryQuerySchema = z.object({
+  limit: z.coerce.number({ error: 'Limit must be a number' })
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(50),
+});
+
+// Conversation items as stored in DynamoDB
+export const StoredChatMessageSchema = z.object({
+  conversationId: z.string(),
+  messageTimestamp: z.number(),
+  userId: z.string(),
+  messageContent: z.string(),
+  sender: z.enum(['user', 'ai']),
+  messageId: z.string(),
+  metadata: ChatMessageMetadataSchema.optional(),
+  expiresAt: z.number(),
+});
+
+export const ChatHistoryResponseSchema = z.object({
+  messages: z.array(StoredChatMessageSchema),
+  hasMore: z.boolean(),
+});
+
+// What clients send (language may be omitted) and what handlers receive after defaults
+export type ChatMessageRequest = z.input<typeof ChatMessageRequestSchema>;
+export type ParsedChatMessageRequest = z.output<typeof ChatMessageRequestSchema>;
+export type Citation = z.infer<typeof CitationSchema>;
+export type Grounding = z.infer<typeof GroundingSchema>;
+export type CacheProvenance = z.infer<typeof CacheProvenanceSchema>;
+export type CrisisResource = z.infer<typeof CrisisResourceSchema>;
+export type Guardrail = z.infer<typeof GuardrailSchema>;
+export type ChatMessageMetadata = z.infer<typeof ChatMessageMetadataSchema>;
+export type ChatMessageResponse = z.infer<typeof ChatMessageResponseSchema>;
+export type ChatHistoryResponse = z.infer<typeof ChatHistoryResponseSchema>;
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+// The most items a checklist keeps; changes to items beyond it are dropped
+export const MAX_CHECKLIST_ITEMS = 50;
+
+// Item ids are the step ids of the frontend's checklist (src/data/fafsaChecklist.ts)
+export const ChecklistItemIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,100}$/, 'Invalid checklist item');
+
+export const ChecklistItemStateSchema = z.object({
+  completed: z.boolean(),
+  // Where the student found a document or what they are waiting on, e.g. "2024 1040 in the blue folder"
+  note: z.string().max(500, 'Notes can be up to 500 characters').optional(),
+  // A date the student gave themselves, as YYYY-MM-DD
+  dueDate: z.iso.date({ error: 'Due dates must be YYYY-MM-DD' }).optional(),
+  completedAt: z.iso.datetime().optional(),
+  // When the student last changed the item. When two copies of an item are merged the newer one wins.
+  updatedAt: z.iso.datetime(),
+});
+
+// Checklist items by id, as stored on the progress record
+export const ChecklistStateSchema = z.record(ChecklistItemIdSchema, ChecklistItemStateSchema);
+
+// PUT /progress/{userId}/checklist: the items that changed, merged into the stored checklist
+export const UpdateChecklistRequestSchema = z.object({
+  items: ChecklistStateSchema.refine(
+    items => Object.keys(items).length > 0 && Object.keys(items).length <= MAX_CHECKLIST_ITEMS,
+    `Send between 1 and ${MAX_CHECKLIST_ITEMS} checklist items`
+  ),
+});
+
+export type ChecklistItemState = z.infer<typeof ChecklistItemStateSchema>;
+export type ChecklistState = z.infer<typeof ChecklistStateSchema>;
+export type UpdateChecklistRequest = z.infer<typeof UpdateChecklistRequestSchema>;
+
+/**
+ * A stored checklist in the current model. Checklists used to be a list of completed item ids
+ * (in localStorage, and on records created at sign-up); those items are taken as completed at
+ * `at`. Items that don't match the schema are dropped.
+ */
+export const migrateChecklist = (stored: unknown, at: string): ChecklistState => {
+  const checklist: ChecklistState = {};
+
+  if (Array.isArray(stored)) {
+    for (const itemId of stored) {
+      if (ChecklistItemIdSchema.safeParse(itemId).success) {
+        checklist[itemId] = { completed: true, completedAt: at, updatedAt: at };
+      }
+    }
+  } else if (stored && typeof stored === 'object') {
+    for (const [itemId, state] of Object.entries(stored)) {
+      const item = ChecklistItemStateSchema.safeParse(state);
+      if (ChecklistItemIdSchema.safeParse(itemId).success && item.success) {
+        checklist[itemId] = item.data;
+      }
+    }
+  }
+
+  return checklist;
+};
+
+/**
+ * Merge changed items into a checklist, keeping whichever copy of each item was changed last,
+ * so a guest's checklist and an account's can be combined in either order
+ */
+export const mergeChecklist = (current: ChecklistState, changes: ChecklistState): ChecklistState => {
+  const merged: ChecklistState = { ...current };
+
+  for (const [itemId, change] of Object.entries(changes)) {
+    const existing = merged[itemId];
+    if (!existing && Object.keys(merged).length >= MAX_CHECKLIST_ITEMS) {
+      continue;
+    }
+    if (!existing || Date.parse(change.updatedAt) >= Date.parse(existing.updatedAt)) {
+      merged[itemId] = change;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Ids of the completed items, which is all linked parents and counselors see of a checklist
+ */
+export const completedChecklistItems = (checklist: ChecklistState | undefined): string[] =>
+  Object.entries(checklist ?? {})
+    .filter(([, item]) => item.completed)
+    .map(([itemId]) => itemId);
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// One failed field check, e.g. { path: 'content', message: 'Message content is required' }
+export const ValidationIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+export const ErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.string().optional(),
+  details: z.unknown().optional(),
+});
+
+// Every request that fails validation gets this 400 body; `error` repeats the first issue
+export const ValidationErrorResponseSchema = ErrorResponseSchema.extend({
+  code: z.literal('VALIDATION_ERROR'),
+  details: z.object({
+    issues: z.array(ValidationIssueSchema),
+  }),
+});
+
+// 429 from the chat routes: too many requests, or today's token budget is used up. The
+// Retry-After header carries the same wait.
+export const RateLimitErrorResponseSchema = ErrorResponseSchema.extend({
+  code: z.enum(['RATE_LIMITED', 'DAILY_BUDGET_EXCEEDED']),
+  details: z.object({
+    retryAfterSeconds: z.number().int().positive(),
+  }),
+});
+
+// Successful responses wrap their payload as { success: true, data }
+export const successResponseSchema = <T extends z.ZodType>(data: T) =>
+  z.object({
+    success: z.literal(true),
+    data,
+  });
+
+export const UserIdPathSchema = z.object({
+  userId: z.string({ error: 'User ID is required' }).min(1, 'User ID is required'),
+});
+
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type ValidationErrorResponse = z.infer<typeof ValidationErrorResponseSchema>;
+export type RateLimitErrorResponse = z.infer<typeof RateLimitErrorResponseSchema>;
@@ -0,0 +1,447 @@
+import type { AwardYear, DeadlineDefinition, School } from './deadlines';
+
+// FAFSA deadlines for the federal government, every state and DC, and some schools. Dates recur
+// each award year; `published` holds years a state or school announced a different date.
+// Award years after DEADLINES_REVIEWED_THROUGH are shown with the recurring dates as expected
+// dates. Review the dataset against the sources each fall, then move this forward.
+export const DEADLINES_REVIEWED_THROUGH: AwardYear = '2026-27';
+
+const FEDERAL_DEADLINES_URL = 'https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines';
+const STATE_DEADLINES_URL = 'https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines#state-deadlines';
+
+export const FAFSA_SCHOOLS: School[] = [
+  { id: 'ucla', name: 'University of California, Los Angeles', state: 'CA' },
+  { id: 'uc-berkeley', name: 'University of California, Berkeley', state: 'CA' },
+  { id: 'sdsu', name: 'San Diego State University', state: 'CA' },
+  { id: 'uf', name: 'University of Florida', state: 'FL' },
+  { id: 'nyu', name: 'New York University', state: 'NY' },
+  { id: 'ohio-state', name: 'The Ohio State University', state: 'OH' },
+  { id: 'ut-austin', name: 'The University of Texas at Austin', state: 'TX' },
+  { id: 'texas-am', name: 'Texas A&M University', state: 'TX' },
+];
+
+export const FAFSA_DEADLINES: DeadlineDefinition[] = [
+  {
+    id: 'federal',
+    scope: 'federal',
+    timing: 'deadline',
+    recurs: { month: 6, day: 30, yearOffset: 1 },
+    note: 'Corrections must be made by mid-September after the award year ends.',
+    sourceUrl: FEDERAL_DEADLINES_URL,
+  },
+
+  // States
+  { id: 'al', scope: 'state', state: 'AL', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'ak-education-grant',
+    scope: 'state',
+    state: 'AK',
+    program: 'Alaska Education Grant',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'az', scope: 'state', state: 'AZ', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'ar-academic-challenge',
+    scope: 'state',
+    state: 'AR',
+    program: 'Academic Challenge Scholarship',
+    timing: 'deadline',
+    recurs: { month: 6, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ca-cal-grant',
+    scope: 'state',
+    state: 'CA',
+    program: 'Cal Grant',
+    timing: 'deadline',
+    recurs: { month: 3, day: 2, yearOffset: 0 },
+    published: { '2024-25': '2024-04-02', '2025-26': '2025-04-02' },
+    sourceUrl: 'https://www.csac.ca.gov/cal-grants',
+  },
+  {
+    id: 'ca-cal-grant-community-college',
+    scope: 'state',
+    state: 'CA',
+    program: 'Cal Grant (community college)',
+    timing: 'deadline',
+    recurs: { month: 9, day: 2, yearOffset: 0 },
+    sourceUrl: 'https://www.csac.ca.gov/cal-grants',
+  },
+  { id: 'co', scope: 'state', state: 'CO', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'ct',
+    scope: 'state',
+    state: 'CT',
+    timing: 'priority',
+    recurs: { month: 2, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'de',
+    scope: 'state',
+    state: 'DE',
+    timing: 'deadline',
+    recurs: { month: 4, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'dc-tag',
+    scope: 'state',
+    state: 'DC',
+    program: 'DC Tuition Assistance Grant',
+    timing: 'asap',
+    note: 'DCTAG has its own application as well as the FAFSA.',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'fl-student-assistance-grant',
+    scope: 'state',
+    state: 'FL',
+    program: 'Florida Student Assistance Grant',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'ga', scope: 'state', state: 'GA', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  { id: 'hi', scope: 'state', state: 'HI', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'id-opportunity-scholarship',
+    scope: 'state',
+    state: 'ID',
+    program: 'Idaho Opportunity Scholarship',
+    timing: 'deadline',
+    recurs: { month: 3, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'il-map',
+    scope: 'state',
+    state: 'IL',
+    program: 'Monetary Award Program (MAP)',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'in',
+    scope: 'state',
+    state: 'IN',
+    timing: 'deadline',
+    recurs: { month: 4, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ia-tuition-grant',
+    scope: 'state',
+    state: 'IA',
+    program: 'Iowa Tuition Grant',
+    timing: 'deadline',
+    recurs: { month: 7, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ks',
+    scope: 'state',
+    state: 'KS',
+    timing: 'priority',
+    recurs: { month: 4, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ky',
+    scope: 'state',
+    state: 'KY',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'la-tops',
+    scope: 'state',
+    state: 'LA',
+    program: 'TOPS',
+    timing: 'deadline',
+    recurs: { month: 7, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'me',
+    scope: 'state',
+    state: 'ME',
+    timing: 'deadline',
+    recurs: { month: 5, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'md',
+    scope: 'state',
+    state: 'MD',
+    timing: 'deadline',
+    recurs: { month: 3, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ma',
+    scope: 'state',
+    state: 'MA',
+    timing: 'priority',
+    recurs: { month: 5, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'mi',
+    scope: 'state',
+    state: 'MI',
+    timing: 'priority',
+    recurs: { month: 3, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'mn-state-grant',
+    scope: 'state',
+    state: 'MN',
+    program: 'Minnesota State Grant',
+    timing: 'check-school',
+    note: 'Apply no later than 30 days after the term starts.',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ms-tuition-assistance-grant',
+    scope: 'state',
+    state: 'MS',
+    program: 'Mississippi Tuition Assistance Grant',
+    timing: 'deadline',
+    recurs: { month: 9, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'mo-priority',
+    scope: 'state',
+    state: 'MO',
+    program: 'Access Missouri Grant',
+    timing: 'priority',
+    recurs: { month: 2, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'mo-final',
+    scope: 'state',
+    state: 'MO',
+    program: 'Access Missouri Grant',
+    timing: 'deadline',
+    recurs: { month: 4, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'mt',
+    scope: 'state',
+    state: 'MT',
+    timing: 'priority',
+    recurs: { month: 12, day: 1, yearOffset: -1 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'ne', scope: 'state', state: 'NE', timing: 'first-come', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'nv-silver-state-grant',
+    scope: 'state',
+    state: 'NV',
+    program: 'Silver State Opportunity Grant',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'nh', scope: 'state', state: 'NH', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'nj-tuition-aid-grant',
+    scope: 'state',
+    state: 'NJ',
+    program: 'Tuition Aid Grant',
+    timing: 'deadline',
+    recurs: { month: 9, day: 15, yearOffset: 0 },
+    note: 'For new applicants. Students renewing the grant apply by April 15.',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'nm', scope: 'state', state: 'NM', timing: 'asap', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'ny-tap',
+    scope: 'state',
+    state: 'NY',
+    program: 'Tuition Assistance Program (TAP)',
+    timing: 'deadline',
+    recurs: { month: 6, day: 30, yearOffset: 1 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'nc', scope: 'state', state: 'NC', timing: 'first-come', sourceUrl: STATE_DEADLINES_URL },
+  { id: 'nd', scope: 'state', state: 'ND', timing: 'first-come', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'oh-college-opportunity-grant',
+    scope: 'state',
+    state: 'OH',
+    program: 'Ohio College Opportunity Grant',
+    timing: 'deadline',
+    recurs: { month: 10, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'ok-tuition-aid-grant',
+    scope: 'state',
+    state: 'OK',
+    program: 'Oklahoma Tuition Aid Grant',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'or-opportunity-grant',
+    scope: 'state',
+    state: 'OR',
+    program: 'Oregon Opportunity Grant',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'pa-state-grant',
+    scope: 'state',
+    state: 'PA',
+    program: 'PA State Grant',
+    timing: 'deadline',
+    recurs: { month: 5, day: 1, yearOffset: 0 },
+    note: 'Community college and some career programs have until August 1.',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'ri', scope: 'state', state: 'RI', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'sc-tuition-grants',
+    scope: 'state',
+    state: 'SC',
+    program: 'SC Tuition Grants',
+    timing: 'deadline',
+    recurs: { month: 6, day: 30, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'sd', scope: 'state', state: 'SD', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'tn-student-assistance-award',
+    scope: 'state',
+    state: 'TN',
+    program: 'Tennessee Student Assistance Award',
+    timing: 'first-come',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'tx',
+    scope: 'state',
+    state: 'TX',
+    timing: 'priority',
+    recurs: { month: 1, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'ut', scope: 'state', state: 'UT', timing: 'first-come', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'vt-grant',
+    scope: 'state',
+    state: 'VT',
+    program: 'Vermont Grant',
+    timing: 'asap',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'va', scope: 'state', state: 'VA', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+  {
+    id: 'wa-college-grant',
+    scope: 'state',
+    state: 'WA',
+    program: 'Washington College Grant',
+    timing: 'asap',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'wv-promise',
+    scope: 'state',
+    state: 'WV',
+    program: 'PROMISE Scholarship',
+    timing: 'deadline',
+    recurs: { month: 3, day: 1, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'wv-higher-education-grant',
+    scope: 'state',
+    state: 'WV',
+    program: 'WV Higher Education Grant',
+    timing: 'deadline',
+    recurs: { month: 4, day: 15, yearOffset: 0 },
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  {
+    id: 'wi-grant',
+    scope: 'state',
+    state: 'WI',
+    program: 'Wisconsin Grant',
+    timing: 'asap',
+    sourceUrl: STATE_DEADLINES_URL,
+  },
+  { id: 'wy', scope: 'state', state: 'WY', timing: 'check-school', sourceUrl: STATE_DEADLINES_URL },
+
+  // Schools' priority dates for their own aid
+  {
+    id: 'ucla',
+    scope: 'school',
+    schoolId: 'ucla',
+    timing: 'priority',
+    recurs: { month: 3, day: 2, yearOffset: 0 },
+    sourceUrl: 'https://financialaid.ucla.edu',
+  },
+  {
+    id: 'uc-berkeley',
+    scope: 'school',
+    schoolId: 'uc-berkeley',
+    timing: 'priority',
+    recurs: { month: 3, day: 2, yearOffset: 0 },
+    sourceUrl: 'https://financialaid.berkeley.edu',
+  },
+  {
+    id: 'sdsu',
+    scope: 'school',
+    schoolId: 'sdsu',
+    timing: 'priority',
+    recurs: { month: 3, day: 2, yearOffset: 0 },
+    sourceUrl: 'https://www.sdsu.edu',
+  },
+  {
+    id: 'uf',
+    scope: 'school',
+    schoolId: 'uf',
+    timing: 'priority',
+    recurs: { month: 12, day: 15, yearOffset: -1 },
+    sourceUrl: 'https://www.sfa.ufl.edu',
+  },
+  {
+    id: 'nyu',
+    scope: 'school',
+    schoolId: 'nyu',
+    timing: 'priority',
+    recurs: { month: 2, day: 15, yearOffset: 0 },
+    sourceUrl: 'https://www.nyu.edu',
+  },
+  {
+    id: 'ohio-state',
+    scope: 'school',
+    schoolId: 'ohio-state',
+    timing: 'priority',
+    recurs: { month: 2, day: 15, yearOffset: 0 },
+    sourceUrl: 'https://sfa.osu.edu',
+  },
+  {
+    id: 'ut-austin',
+    scope: 'school',
+    schoolId: 'ut-austin',
+    timing: 'priority',
+    recurs: { month: 1, day: 15, yearOffset: 0 },
+    sourceUrl: 'https://finaid.utexas.edu',
+  },
+  {
+    id: 'texas-am',
+    scope: 'school',
+    schoolId: 'texas-am',
+    timing: 'priority',
+    recurs: { month: 1, day: 15, yearOffset: 0 },
+    sourceUrl: 'https://aggie.tamu.edu',
+  },
+];
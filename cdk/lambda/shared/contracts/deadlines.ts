@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { DEADLINES_REVIEWED_THROUGH, FAFSA_DEADLINES, FAFSA_SCHOOLS } from './deadline-dataset';
+
+export { DEADLINES_REVIEWED_THROUGH, FAFSA_DEADLINES, FAFSA_SCHOOLS } from './deadline-dataset';
+
+export const STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+] as const;
+
+export const StateCodeSchema = z.enum(STATE_CODES, { error: 'Use a two-letter state code' });
+
+export type StateCode = z.infer<typeof StateCodeSchema>;
+
+export const STATE_NAMES: Record<StateCode, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+// '2026-27' is the award year that starts July 1, 2026. Its FAFSA opens October 1, 2025.
+export const AwardYearSchema = z.string()
+  .regex(/^\d{4}-\d{2}$/, 'Award years look like 2026-27')
+  .refine(year => (Number(year.slice(0, 4)) + 1) % 100 === Number(year.slice(5)), 'Award years look like 2026-27');
+
+export const DeadlineScopeSchema = z.enum(['federal', 'state', 'school']);
+
+// deadline: applications after the date aren't considered.
+// priority: applying by the date gives the best chance at limited aid.
+// asap: there's no date, and aid goes to early applicants.
+// first-come: aid is awarded in the order students apply until it runs out.
+// check-school: the state sets no date, so each school's applies.
+export const DeadlineTimingSchema = z.enum(['deadline', 'priority', 'asap', 'first-come', 'check-school']);
+
+// Where a recurring date falls in an award year. A yearOffset of -1 is the year the FAFSA opens,
+// 0 the year the award year starts and 1 the year it ends.
+export const RecurringDateSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  day: z.number().int().min(1).max(31),
+  yearOffset: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+});
+
+export const DeadlineDefinitionSchema = z.object({
+  id: z.string(),
+  scope: DeadlineScopeSchema,
+  state: StateCodeSchema.optional(),
+  schoolId: z.string().optional(),
+  // The state's grant or scholarship, when the deadline is for one program
+  program: z.string().optional(),
+  timing: DeadlineTimingSchema,
+  // Left out for timings without a date
+  recurs: RecurringDateSchema.optional(),
+  // Dates announced for particular award years that differ from the recurring one
+  published: z.record(z.string(), z.iso.date()).optional(),
+  note: z.string().optional(),
+  sourceUrl: z.url(),
+});
+
+export const SchoolSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  state: StateCodeSchema,
+});
+
+export const SchoolIdSchema = z.string()
+  .refine(id => FAFSA_SCHOOLS.some(school => school.id === id), 'Unknown school');
+
+// GET /deadlines. The federal deadline is always included; `state` adds a state's deadlines, or
+// every state's when it is `all`.
+export const DeadlinesQuerySchema = z.object({
+  awardYear: AwardYearSchema.optional(),
+  state: z.union([StateCodeSchema, z.literal('all')]).optional(),
+  // Comma-separated school ids
+  schools: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+    z.array(SchoolIdSchema).max(20, 'The FAFSA can be sent to up to 20 schools'),
+  ).optional(),
+});
+
+export const ResolvedDeadlineSchema = z.object({
+  id: z.string(),
+  scope: DeadlineScopeSchema,
+  state: StateCodeSchema.optional(),
+  schoolId: z.string().optional(),
+  // The program, school or state name, in English
+  name: z.string(),
+  timing: DeadlineTimingSchema,
+  // YYYY-MM-DD, or null for timings without a date
+  date: z.iso.date().nullable(),
+  // The date follows the usual pattern and hasn't been checked for this award year
+  projected: z.boolean(),
+  note: z.string().optional(),
+  sourceUrl: z.url(),
+});
+
+export const DeadlinesResponseSchema = z.object({
+  awardYear: AwardYearSchema,
+  // The award years whose FAFSA can be submitted today, oldest first
+  openAwardYears: z.array(AwardYearSchema),
+  deadlines: z.array(ResolvedDeadlineSchema),
+});
+
+export type AwardYear = z.infer<typeof AwardYearSchema>;
+export type DeadlineScope = z.infer<typeof DeadlineScopeSchema>;
+export type DeadlineTiming = z.infer<typeof DeadlineTimingSchema>;
+export type RecurringDate = z.infer<typeof RecurringDateSchema>;
+export type DeadlineDefinition = z.infer<typeof DeadlineDefinitionSchema>;
+export type School = z.infer<typeof SchoolSchema>;
+export type DeadlinesQuery = z.infer<typeof DeadlinesQuerySchema>;
+export type ResolvedDeadline = z.infer<typeof ResolvedDeadlineSchema>;
+export type DeadlinesResponse = z.infer<typeof DeadlinesResponseSchema>;
+
+// The FAFSA for an award year opens October 1 of the year before it starts, and closes when it ends
+const FAFSA_OPENS: RecurringDate = { month: 10, day: 1, yearOffset: -1 };
+const FAFSA_CLOSES: RecurringDate = { month: 6, day: 30, yearOffset: 1 };
+
+// Deadlines without a date are listed after dated ones, in this order
+const UNDATED_ORDER: DeadlineTiming[] = ['asap', 'first-come', 'check-school'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const awardYearFromStart = (startYear: number): AwardYear => `${startYear}-${pad((startYear + 1) % 100)}`;
+
+export const awardYearStart = (awardYear: AwardYear): number => Number(awardYear.slice(0, 4));
+
+// Today's local date as YYYY-MM-DD
+export const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const dateInAwardYear = (awardYear: AwardYear, { month, day, yearOffset }: RecurringDate): string =>
+  `${awardYearStart(awardYear) + yearOffset}-${pad(month)}-${pad(day)}`;
+
+/**
+ * The award year students are applying for: the newest one whose FAFSA has opened. It moves on
+ * every October 1, so no year's dates need changing by hand.
+ */
+export const currentAwardYear = (today: string): AwardYear => {
+  const year = Number(today.slice(0, 4));
+  return today >= dateInAwardYear(awardYearFromStart(year + 1), FAFSA_OPENS)
+    ? awardYearFromStart(year + 1)
+    : awardYearFromStart(year);
+};
+
+// Until June 30, last year's FAFSA can still be submitted alongside the current one
+export const openAwardYears = (today: string): AwardYear[] => {
+  const current = currentAwardYear(today);
+  const previous = awardYearFromStart(awardYearStart(current) - 1);
+  return today <= dateInAwardYear(previous, FAFSA_CLOSES) ? [previous, current] : [current];
+};
+
+// Whole days from today until a date; 0 on the day itself and negative once it has passed
+export const daysUntil = (date: string, today: string): number =>
+  Math.round((Date.parse(date) - Date.parse(today)) / (24 * 60 * 60 * 1000));
+
+const nameOf = (definition: DeadlineDefinition): string => {
+  if (definition.scope === 'federal') {
+    return 'Federal FAFSA deadline';
+  }
+  if (definition.scope === 'school') {
+    return FAFSA_SCHOOLS.find(school => school.id === definition.schoolId)?.name ?? definition.id;
+  }
+  return definition.program ?? STATE_NAMES[definition.state!];
+};
+
+/**
+ * The date of a deadline in an award year. Years after DEADLINES_REVIEWED_THROUGH use the
+ * recurring date and are marked projected until the dataset is reviewed for them.
+ */
+export const resolveDeadline = (definition: DeadlineDefinition, awardYear: AwardYear): ResolvedDeadline => {
+  const published = definition.published?.[awardYear];
+  const date = published ?? (definition.recurs ? dateInAwardYear(awardYear, definition.recurs) : null);
+
+  return {
+    id: definition.id,
+    scope: definition.scope,
+    ...(definition.state && { state: definition.state }),
+    ...(definition.schoolId && { schoolId: definition.schoolId }),
+    name: nameOf(definition),
+    timing: definition.timing,
+    date,
+    projected: !!date && !published && awardYear > DEADLINES_REVIEWED_THROUGH,
+    ...(definition.note && { note: definition.note }),
+    sourceUrl: definition.sourceUrl,
+  };
+};
+
+/**
+ * The federal deadline with the requested state's and schools' deadlines for an award year,
+ * soonest first. Deadlines without a date come last.
+ */
+export const resolveDeadlines = (query: Omit<DeadlinesQuery, 'awardYear'> & { awardYear: AwardYear }): ResolvedDeadline[] => {
+  const schools = query.schools ?? [];
+
+  return FAFSA_DEADLINES
+    .filter(definition => definition.scope === 'federal'
+      || (definition.scope === 'state' && (query.state === 'all' || definition.state === query.state))
+      || (definition.scope === 'school' && schools.includes(definition.schoolId!)))
+    .map(definition => resolveDeadline(definition, query.awardYear))
+    .sort((a, b) => {
+      if (a.date && b.date) {
+        return a.date.localeCompare(b.date);
+      }
+      if (a.date || b.date) {
+        return a.date ? -1 : 1;
+      }
+      return UNDATED_ORDER.indexOf(a.timing) - UNDATED_ORDER.indexOf(b.timing);
+    });
+};
@@ -0,0 +1,14 @@
+// Request and response contract shared by the Lambdas and the frontend (imported there as
+// `@contracts`). Handlers validate requests with these schemas, and the contract tests on
+// both sides fail when either drifts from them.
+export * from './common';
+export * from './chat';
+export * from './auth';
+export * from './progress';
+export * from './checklist';
+export * from './intake';
+export * from './deadlines';
+export * from './roles';
+export * from './links';
+export * from './admin';
+export * from './error-patterns';
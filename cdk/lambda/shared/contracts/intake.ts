@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+// The FAFSA's dependency questions. A student any of them applies to is independent.
+export const INDEPENDENCE_CRITERIA = [
+  'age-24-or-older',
+  'married',
+  'graduate-student',
+  'military',
+  'supports-dependents',
+  'orphan-or-ward',
+  'emancipated-minor',
+  'homeless-youth',
+] as const;
+
+export const DependencyStatusSchema = z.enum(['dependent', 'independent']);
+
+export const ParentsMaritalStatusSchema = z.enum([
+  'married',
+  'divorced-or-separated',
+  'remarried',
+  'never-married',
+  'widowed',
+]);
+
+// Whether the taxes the FAFSA asks about (the parents' for dependent students) have been filed
+export const TaxFilingStatusSchema = z.enum(['filed', 'will-file', 'not-required']);
+
+export const CitizenshipStatusSchema = z.enum(['us-citizen', 'eligible-noncitizen', 'other']);
+
+// Intake answers are all choices and counts, so nothing that identifies a student is stored.
+// Unknown fields are rejected rather than dropped, so free text can't be added to them.
+export const IntakeAnswersSchema = z.strictObject({
+  // Empty when none apply
+  independenceCriteria: z.array(z.enum(INDEPENDENCE_CRITERIA)).max(INDEPENDENCE_CRITERIA.length),
+  // Only asked of dependent students
+  parentsMaritalStatus: ParentsMaritalStatusSchema.optional(),
+  taxFilingStatus: TaxFilingStatusSchema,
+  citizenship: CitizenshipStatusSchema,
+  schoolCount: z.number().int().min(0).max(20, 'The FAFSA can be sent to up to 20 schools'),
+});
+
+// PUT /progress/{userId}/intake
+export const SaveIntakeRequestSchema = z.object({
+  answers: IntakeAnswersSchema,
+});
+
+// The answers as stored on the progress record
+export const IntakeRecordSchema = z.object({
+  answers: IntakeAnswersSchema,
+  completedAt: z.iso.datetime(),
+});
+
+export type DependencyStatus = z.infer<typeof DependencyStatusSchema>;
+export type ParentsMaritalStatus = z.infer<typeof ParentsMaritalStatusSchema>;
+export type TaxFilingStatus = z.infer<typeof TaxFilingStatusSchema>;
+export type CitizenshipStatus = z.infer<typeof CitizenshipStatusSchema>;
+export type IntakeAnswers = z.infer<typeof IntakeAnswersSchema>;
+export type IntakeRecord = z.infer<typeof IntakeRecordSchema>;
+
+export const dependencyStatusFromIntake = (answers: IntakeAnswers): DependencyStatus =>
+  answers.independenceCriteria.length > 0 ? 'independent' : 'dependent';
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { ProgressSummaryResponseSchema } from './progress';
+
+// Parents and counselors hand students this code to link to them
+export const LINK_CODE_LENGTH = 8;
+const LINK_CODE_REQUIRED = `Enter the ${LINK_CODE_LENGTH}-character code from your parent or counselor`;
+
+// What a student lets a linked parent or counselor see. Counselors always see progress.
+export const LinkShareSchema = z.enum(['progress', 'checklist']);
+
+const shares = z.array(LinkShareSchema, { error: 'Choose what to share' })
+  .min(1, 'Choose at least one thing to share')
+  .transform(values => [...new Set(values)]);
+
+// POST /links
+export const CreateLinkRequestSchema = z.object({
+  code: z.string({ error: LINK_CODE_REQUIRED })
+    .trim()
+    .toUpperCase()
+    .regex(new RegExp(`^[A-Z0-9]{${LINK_CODE_LENGTH}}$`), LINK_CODE_REQUIRED),
+  shares,
+});
+
+// PUT /links/{userId}
+export const UpdateLinkRequestSchema = z.object({
+  shares,
+});
+
+export const StudentLinkSchema = z.object({
+  studentId: z.string(),
+  studentEmail: z.string().nullable(),
+  viewerId: z.string(),
+  viewerEmail: z.string().nullable(),
+  viewerRole: z.enum(['parent', 'counselor']),
+  shares: z.array(LinkShareSchema),
+  linkedAt: z.string(),
+});
+
+// GET /links: a student's parents and counselors, or a parent's or counselor's students
+export const LinksResponseSchema = z.object({
+  links: z.array(StudentLinkSchema),
+  // Parents and counselors only: the code students enter to link to them
+  linkCode: z.string().optional(),
+});
+
+export const StudentLinkResponseSchema = z.object({
+  link: StudentLinkSchema,
+});
+
+// GET /students/{userId}/progress: only the parts the student shares with the caller
+export const StudentProgressResponseSchema = z.object({
+  student: z.object({
+    userId: z.string(),
+    email: z.string().nullable(),
+  }),
+  shares: z.array(LinkShareSchema),
+  summary: ProgressSummaryResponseSchema.optional(),
+  checklist: z.array(z.string()).optional(),
+});
+
+export type LinkShare = z.infer<typeof LinkShareSchema>;
+export type CreateLinkRequest = z.infer<typeof CreateLinkRequestSchema>;
+export type UpdateLinkRequest = z.infer<typeof UpdateLinkRequestSchema>;
+export type StudentLink = z.infer<typeof StudentLinkSchema>;
+export type StudentProgress = z.infer<typeof StudentProgressResponseSchema>;
@@ -0,0 +1,352 @@
+import { z } from 'zod';
+import { ChecklistState, ChecklistStateSchema, migrateChecklist } from './checklist';
+import { IntakeAnswers, IntakeRecordSchema, dependencyStatusFromIntake } from './intake';
+
+const REQUIRED_FIELDS = 'Section ID and action are required';
+
+// Sections of the FAFSA, in the order the form asks for them
+export const FAFSA_SECTION_IDS = [
+  'student-demographics',
+  'student-finances',
+  'dependency-status',
+  'parent-demographics',
+  'parent-finances',
+  'school-selection',
+  'signatures',
+] as const;
+
+export const FAFSASectionIdSchema = z.enum(FAFSA_SECTION_IDS, {
+  error: issue => issue.input === undefined ? REQUIRED_FIELDS : 'Unknown FAFSA section',
+});
+
+export const FAFSASectionSchema = z.object({
+  sectionId: FAFSASectionIdSchema,
+  title: z.string(),
+  description: z.string(),
+  topics: z.array(z.string()),
+});
+
+export type FAFSASectionId = z.infer<typeof FAFSASectionIdSchema>;
+export type FAFSASection = z.infer<typeof FAFSASectionSchema>;
+
+export const FAFSA_SECTIONS: readonly FAFSASection[] = [
+  {
+    sectionId: 'student-demographics',
+    title: 'Student Demographics',
+    description: 'Basic information about the student',
+    topics: ['Name', 'Social Security Number', 'Date of Birth', 'Citizenship Status'],
+  },
+  {
+    sectionId: 'student-finances',
+    title: 'Student Financial Information',
+    description: 'Student income and asset information',
+    topics: ['Income', 'Assets', 'Benefits', 'Tax Information'],
+  },
+  {
+    sectionId: 'dependency-status',
+    title: 'Dependency Status',
+    description: 'Determining if student is dependent or independent',
+    topics: ['Age', 'Marital Status', 'Military Service', 'Graduate Student'],
+  },
+  {
+    sectionId: 'parent-demographics',
+    title: 'Parent Demographics',
+    description: 'Information about student\'s parents (if dependent)',
+    topics: ['Parent Names', 'Social Security Numbers', 'Education Level'],
+  },
+  {
+    sectionId: 'parent-finances',
+    title: 'Parent Financial Information',
+    description: 'Parent income and asset information (if dependent)',
+    topics: ['Parent Income', 'Parent Assets', 'Tax Information', 'Household Size'],
+  },
+  {
+    sectionId: 'school-selection',
+    title: 'School Selection',
+    description: 'Colleges and universities to receive FAFSA information',
+    topics: ['School Codes', 'Housing Plans', 'Grade Level', 'Degree Type'],
+  },
+  {
+    sectionId: 'signatures',
+    title: 'Signatures and Submission',
+    description: 'Final review and electronic signatures',
+    topics: ['Student Signature', 'Parent Signature', 'FSA ID', 'Submission'],
+  },
+];
+
+// mark_reviewed is what mark_complete was called before the frontend and API shared a model
+export const ProgressActionSchema = z.enum(['add_question', 'mark_complete', 'mark_incomplete', 'mark_reviewed'], {
+  error: issue => issue.input === undefined
+    ? REQUIRED_FIELDS
+    : 'Invalid action. Must be "add_question", "mark_complete", "mark_incomplete" or "mark_reviewed"',
+});
+
+// PUT /progress/{userId}
+export const UpdateProgressRequestSchema = z.object({
+  sectionId: FAFSASectionIdSchema,
+  action: ProgressActionSchema,
+  // Merged into the section's saved data
+  data: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const SectionProgressSchema = z.object({
+  sectionId: z.string(),
+  // Asking questions moves a section towards 90%; only marking it complete reaches 100%
+  progress: z.number().min(0).max(100),
+  isComplete: z.boolean(),
+  questionsAsked: z.number().int().nonnegative(),
+  lastVisited: z.string(),
+  lastUpdated: z.string(),
+  data: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Progress records as stored in DynamoDB and returned by GET /progress/{userId}
+export const ProgressRecordSchema = z.object({
+  userId: z.string(),
+  sections: z.record(z.string(), SectionProgressSchema),
+  completedSections: z.array(z.string()),
+  // The section the student is working on: the last one they touched, or the next one to do
+  currentSection: z.string().nullable(),
+  // Average progress across every FAFSA section
+  overallProgress: z.number().min(0).max(100),
+  totalInteractions: z.number().int().nonnegative(),
+  // The student's FAFSA checklist, with notes and due dates. Saved by its own route, so checklist
+  // edits and progress writes don't overwrite each other.
+  checklist: ChecklistStateSchema.optional(),
+  // The student's intake answers, which tailor their checklist and the order of their sections
+  intake: IntakeRecordSchema.optional(),
+  // Bumped by every write, so a write based on a stale read fails and is retried
+  version: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const UpdateProgressResponseSchema = z.object({
+  success: z.literal(true),
+  updatedProgress: ProgressRecordSchema,
+});
+
+export const RecentActivitySchema = SectionProgressSchema.pick({
+  sectionId: true,
+  progress: true,
+  isComplete: true,
+  questionsAsked: true,
+  lastVisited: true,
+});
+
+export const ProgressSummaryResponseSchema = z.object({
+  totalSections: z.number().int().nonnegative(),
+  completedSections: z.number().int().nonnegative(),
+  totalQuestions: z.number().int().nonnegative(),
+  completionPercentage: z.number().min(0).max(100),
+  recentActivity: z.array(RecentActivitySchema),
+  lastUpdated: z.string().optional(),
+});
+
+export const FAFSASectionsResponseSchema = z.object({
+  sections: z.array(FAFSASectionSchema),
+});
+
+export type ProgressAction = z.infer<typeof ProgressActionSchema>;
+export type UpdateProgressRequest = z.infer<typeof UpdateProgressRequestSchema>;
+export type SectionProgress = z.infer<typeof SectionProgressSchema>;
+export type ProgressRecord = z.infer<typeof ProgressRecordSchema>;
+export type ProgressSummary = z.infer<typeof ProgressSummaryResponseSchema>;
+
+// Progress a section gets per question asked, and the most questions alone can give it
+const PROGRESS_PER_QUESTION = 10;
+const MAX_QUESTION_PROGRESS = 90;
+
+const questionProgress = (questionsAsked: number): number =>
+  Math.min(MAX_QUESTION_PROGRESS, questionsAsked * PROGRESS_PER_QUESTION);
+
+const PARENT_SECTION_IDS: readonly FAFSASectionId[] = ['parent-demographics', 'parent-finances'];
+const FINANCE_SECTION_IDS: readonly FAFSASectionId[] = ['student-finances', 'parent-finances'];
+
+/**
+ * The sections a student needs, in the order to do them. Without intake answers that is every
+ * section in form order. Independent students don't report parents, and students whose taxes
+ * aren't filed yet are sent to the financial sections last, just before signing.
+ */
+export const recommendSectionOrder = (answers?: IntakeAnswers): FAFSASectionId[] => {
+  if (!answers) {
+    return [...FAFSA_SECTION_IDS];
+  }
+
+  const order = dependencyStatusFromIntake(answers) === 'independent'
+    ? FAFSA_SECTION_IDS.filter(id => !PARENT_SECTION_IDS.includes(id))
+    : [...FAFSA_SECTION_IDS];
+
+  if (answers.taxFilingStatus !== 'will-file') {
+    return order;
+  }
+
+  const isLast = (id: FAFSASectionId) => FINANCE_SECTION_IDS.includes(id) || id === 'signatures';
+  return [
+    ...order.filter(id => !isLast(id)),
+    ...order.filter(id => FINANCE_SECTION_IDS.includes(id)),
+    'signatures',
+  ];
+};
+
+/**
+ * Recompute the fields derived from the sections, so every writer agrees on them. Progress is
+ * averaged over the sections the student needs.
+ */
+const withDerivedFields = (record: ProgressRecord, touched?: string): ProgressRecord => {
+  const order = recommendSectionOrder(record.intake?.answers);
+  const completedSections = FAFSA_SECTION_IDS.filter(id => record.sections[id]?.isComplete);
+  const nextSection = order.find(id => !record.sections[id]?.isComplete) ?? null;
+  const total = order.reduce((sum, id) => sum + (record.sections[id]?.progress ?? 0), 0);
+
+  return {
+    ...record,
+    completedSections,
+    currentSection: touched && !record.sections[touched]?.isComplete ? touched : nextSection,
+    overallProgress: Math.round(total / order.length),
+  };
+};
+
+/**
+ * A new user's progress record
+ */
+export const createProgressRecord = (userId: string, now: string, checklist?: ChecklistState): ProgressRecord => ({
+  userId,
+  sections: {},
+  completedSections: [],
+  currentSection: FAFSA_SECTION_IDS[0],
+  overallProgress: 0,
+  totalInteractions: 0,
+  ...(checklist ? { checklist } : {}),
+  version: 0,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * A stored progress record in the current model. Records written before the frontend and API
+ * shared a model have `exploredSections` instead of `sections`; records the chat Lambda created
+ * may have nothing but `totalInteractions`. Checklists stored as a list of completed item ids
+ * are migrated too.
+ */
+export const migrateProgressRecord = (stored: Record<string, any>): ProgressRecord => {
+  const now = new Date().toISOString();
+  const sections: Record<string, SectionProgress> = { ...(stored.sections ?? {}) };
+
+  for (const legacy of stored.exploredSections ?? []) {
+    const questionsAsked = legacy.questionsAsked ?? 0;
+    const lastVisited = legacy.lastVisited ?? stored.updatedAt ?? now;
+    sections[legacy.sectionId] ??= {
+      sectionId: legacy.sectionId,
+      progress: legacy.isComplete ? 100 : questionProgress(questionsAsked),
+      isComplete: Boolean(legacy.isComplete),
+      questionsAsked,
+      lastVisited,
+      lastUpdated: lastVisited,
+    };
+  }
+
+  const createdAt = stored.createdAt ?? stored.updatedAt ?? now;
+  const checklist = stored.checklist ? migrateChecklist(stored.checklist, createdAt) : undefined;
+
+  const intake = IntakeRecordSchema.safeParse(stored.intake);
+
+  const record: ProgressRecord = {
+    ...createProgressRecord(stored.userId, createdAt, checklist),
+    ...(intake.success ? { intake: intake.data } : {}),
+    sections,
+    totalInteractions: stored.totalInteractions ?? 0,
+    version: stored.version ?? 0,
+    updatedAt: stored.updatedAt ?? stored.createdAt ?? now,
+  };
+
+  return withDerivedFields(record, stored.currentSection ?? undefined);
+};
+
+/**
+ * The record after a student asks about a section or marks it complete or incomplete. The
+ * version is bumped; saving the result must check the stored version is still `record.version`.
+ */
+export const applyProgressAction = (
+  record: ProgressRecord,
+  { sectionId, action, data }: UpdateProgressRequest,
+  now: string
+): ProgressRecord => {
+  const section: SectionProgress = record.sections[sectionId] ?? {
+    sectionId,
+    progress: 0,
+    isComplete: false,
+    questionsAsked: 0,
+    lastVisited: now,
+    lastUpdated: now,
+  };
+  const updated: SectionProgress = { ...section, lastVisited: now, lastUpdated: now };
+  let { totalInteractions } = record;
+
+  switch (action) {
+    case 'add_question':
+      updated.questionsAsked += 1;
+      updated.progress = updated.isComplete ? 100 : questionProgress(updated.questionsAsked);
+      totalInteractions += 1;
+      break;
+    case 'mark_complete':
+    case 'mark_reviewed':
+      updated.isComplete = true;
+      updated.progress = 100;
+      break;
+    case 'mark_incomplete':
+      updated.isComplete = false;
+      updated.progress = questionProgress(updated.questionsAsked);
+      break;
+  }
+
+  if (data) {
+    updated.data = { ...section.data, ...data };
+  }
+
+  return withDerivedFields({
+    ...record,
+    sections: { ...record.sections, [sectionId]: updated },
+    totalInteractions,
+    version: record.version + 1,
+    updatedAt: now,
+  }, sectionId);
+};
+
+/**
+ * The record with new intake answers, which can change the sections the student needs. The
+ * version is bumped, as by applyProgressAction.
+ */
+export const applyIntakeAnswers = (record: ProgressRecord, answers: IntakeAnswers, now: string): ProgressRecord =>
+  withDerivedFields({
+    ...record,
+    intake: { answers, completedAt: now },
+    version: record.version + 1,
+    updatedAt: now,
+  });
+
+/**
+ * Counts for a progress dashboard, and the five sections visited most recently
+ */
+export const summarizeProgress = (record: ProgressRecord): ProgressSummary => {
+  const order = recommendSectionOrder(record.intake?.answers);
+  const completedSections = order.filter(id => record.sections[id]?.isComplete).length;
+
+  return {
+    totalSections: order.length,
+    completedSections,
+    totalQuestions: record.totalInteractions,
+    completionPercentage: Math.round((completedSections / order.length) * 100),
+    recentActivity: Object.values(record.sections)
+      .sort((a, b) => new Date(b.lastVisited).getTime() - new Date(a.lastVisited).getTime())
+      .slice(0, 5)
+      .map(({ sectionId, progress, isComplete, questionsAsked, lastVisited }) => ({
+        sectionId,
+        progress,
+        isComplete,
+        questionsAsked,
+        lastVisited,
+      })),
+    lastUpdated: record.updatedAt,
+  };
+};
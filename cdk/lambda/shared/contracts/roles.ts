@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+// Students are everyone without a group. Parents pick their role at sign-up; counselors and
+// admins are assigned by an admin.
+export const RoleSchema = z.enum(['student', 'parent', 'counselor', 'admin']);
+
+export const PermissionSchema = z.enum([
+  // Link a parent or counselor and choose what they see
+  'links:manage',
+  // Parents: what a linked student has shared
+  'students:view-shared',
+  // Counselors: the progress of every linked student
+  'students:view-linked',
+  'knowledge:manage',
+  'error-patterns:manage',
+  'roles:manage',
+]);
+
+export type Role = z.infer<typeof RoleSchema>;
+export type Permission = z.infer<typeof PermissionSchema>;
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  student: ['links:manage'],
+  parent: ['students:view-shared'],
+  counselor: ['students:view-linked'],
+  admin: ['knowledge:manage', 'error-patterns:manage', 'roles:manage'],
+};
+
+// Roles other than student are Cognito groups, so they arrive in the ID token's cognito:groups claim
+export const ROLE_GROUPS: Record<Exclude<Role, 'student'>, string> = {
+  parent: 'parents',
+  counselor: 'counselors',
+  admin: 'admins',
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * The role for a user's Cognito groups. Users are kept in one group, but if they end up in
+ * several the most privileged wins. The REST API authorizer passes the claim as a string
+ * (e.g. "[admins counselors]" or "admins,counselors"), while tokens we verify ourselves have
+ * an array.
+ */
+export const roleFromGroups = (groups: unknown): Role => {
+  const names = Array.isArray(groups)
+    ? groups.map(String)
+    : typeof groups === 'string'
+      ? groups.replace(/^\[|\]$/g, '').split(/[\s,]+/).filter(Boolean)
+      : [];
+
+  if (names.includes(ROLE_GROUPS.admin)) return 'admin';
+  if (names.includes(ROLE_GROUPS.counselor)) return 'counselor';
+  if (names.includes(ROLE_GROUPS.parent)) return 'parent';
+  return 'student';
+};
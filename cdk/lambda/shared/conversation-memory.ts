@@ -0,0 +1,177 @@
+import { DynamoDBService, TABLES } from './dynamodb';
+import { ConversationHistory } from './bedrock';
+import { LLMMessage } from './llm-provider';
+
+// Rough budget for prior turns; the current question and knowledge context are sent on top of this
+const HISTORY_TOKEN_BUDGET = 1500;
+// Approximate characters per token for English text
+const CHARS_PER_TOKEN = 4;
+const MAX_SUMMARY_QUESTIONS = 10;
+const MAX_SUMMARY_QUESTION_LENGTH = 120;
+
+export interface StoredConversationMessage {
+  conversationId: string;
+  messageTimestamp: number;
+  userId: string;
+  messageContent: string;
+  sender: string;
+}
+
+// Conversations are kept for 24 hours (FERPA data retention)
+const CONVERSATION_TTL_SECONDS = 24 * 60 * 60;
+
+export interface ConversationMessageToStore {
+  id: string;
+  content: string;
+  sender: string;
+  timestamp: Date;
+  metadata?: Record<string, any>;
+}
+
+export class ConversationMemoryService {
+  /**
+   * Load earlier turns of a conversation and fit them to the prompt token budget
+   */
+  static async loadHistory(conversationId: string, userId: string): Promise<ConversationHistory> {
+    try {
+      const items = await DynamoDBService.queryItems(
+        TABLES.CONVERSATIONS,
+        'conversationId = :conversationId',
+        { ':conversationId': conversationId }
+      );
+
+      // Only use turns that belong to the caller
+      const ownedItems = (items as StoredConversationMessage[]).filter(item => item.userId === userId);
+      return this.buildHistory(ownedItems);
+    } catch (error) {
+      console.error('Conversation history load error:', error);
+      // Answer without memory rather than failing the request
+      return { messages: [] };
+    }
+  }
+
+  /**
+   * Store messages of a conversation for the user, in order. Callers sanitize the content first.
+   * The timestamp is the table's sort key, so a message stamped in the same millisecond as the
+   * one before it is moved a millisecond later rather than overwriting it.
+   */
+  static async storeMessages(conversationId: string, userId: string, messages: ConversationMessageToStore[]): Promise<void> {
+    try {
+      const expiresAt = Math.floor(Date.now() / 1000) + CONVERSATION_TTL_SECONDS;
+      let previousTimestamp = -Infinity;
+
+      for (const message of messages) {
+        const messageTimestamp = Math.max(message.timestamp.getTime(), previousTimestamp + 1);
+        previousTimestamp = messageTimestamp;
+
+        const conversationItem = {
+          conversationId,
+          messageTimestamp,
+          userId,
+          messageContent: message.content,
+          sender: message.sender,
+          messageId: message.id,
+          metadata: message.metadata || {},
+          expiresAt,
+        };
+
+        await DynamoDBService.putItem(TABLES.CONVERSATIONS, conversationItem);
+      }
+    } catch (error) {
+      console.error('Conversation storage error:', error);
+      // Don't throw - conversation storage is not critical for the response
+    }
+  }
+
+  /**
+   * Turn stored messages into alternating user/assistant messages that fit the budget.
+   * Turns that don't fit are folded into a short summary instead of being dropped.
+   */
+  static buildHistory(items: StoredConversationMessage[], tokenBudget: number = HISTORY_TOKEN_BUDGET): ConversationHistory {
+    const turns: LLMMessage[] = [...items]
+      .sort((a, b) => a.messageTimestamp - b.messageTimestamp)
+      .map(item => ({
+        role: item.sender === 'user' ? 'user' as const : 'assistant' as const,
+        content: this.stripAnnotations(item.messageContent || ''),
+      }))
+      .filter(turn => turn.content.length > 0);
+
+    // Keep the most recent turns that fit in the budget
+    let usedTokens = 0;
+    let splitIndex = turns.length;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const tokens = this.estimateTokens(turns[i].content);
+      if (usedTokens + tokens > tokenBudget) {
+        break;
+      }
+      usedTokens += tokens;
+      splitIndex = i;
+    }
+
+    const older = turns.slice(0, splitIndex);
+    const recent = this.mergeConsecutiveRoles(turns.slice(splitIndex));
+
+    // The model expects the history to start with a user turn and end with an assistant turn
+    while (recent.length > 0 && recent[0].role !== 'user') {
+      older.push(recent.shift()!);
+    }
+    if (recent.length > 0 && recent[recent.length - 1].role === 'user') {
+      older.push(recent.pop()!);
+    }
+
+    return {
+      messages: recent,
+      summary: this.summarize(older),
+    };
+  }
+
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Summarize older turns by the questions the student asked
+   */
+  private static summarize(turns: LLMMessage[]): string | undefined {
+    const questions = turns
+      .filter(turn => turn.role === 'user')
+      .slice(-MAX_SUMMARY_QUESTIONS)
+      .map(turn => {
+        const question = turn.content.replace(/\s+/g, ' ').trim();
+        return question.length > MAX_SUMMARY_QUESTION_LENGTH
+          ? `${question.slice(0, MAX_SUMMARY_QUESTION_LENGTH)}...`
+          : question;
+      });
+
+    if (questions.length === 0) {
+      return undefined;
+    }
+
+    return `Earlier in this conversation the student asked about:\n${questions.map(q => `- ${q}`).join('\n')}`;
+  }
+
+  private static mergeConsecutiveRoles(turns: LLMMessage[]): LLMMessage[] {
+    const merged: LLMMessage[] = [];
+    for (const turn of turns) {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.role === turn.role) {
+        previous.content = `${previous.content}\n\n${turn.content}`;
+      } else {
+        merged.push({ ...turn });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Remove the privacy notice, citation markers and source attribution the handler adds
+   * to stored AI messages; citation numbers only make sense for that answer's sources
+   */
+  private static stripAnnotations(content: string): string {
+    return content
+      .replace(/^\s*⚠️ Privacy Notice:[^\n]*\n*/, '')
+      .replace(/\n\n\*\*Sources?:\*\*[\s\S]*$/, '')
+      .replace(/ ?\[\d{1,2}\]/g, '')
+      .trim();
+  }
+}
@@ -0,0 +1,209 @@
+import * as zlib from 'zlib';
+import { KnowledgeIndex } from './knowledge-index';
+
+const MAX_KEYWORDS = 12;
+const MAX_COMMON_ERRORS = 8;
+
+// Multi-word FAFSA terms worth keeping as keywords whenever a page mentions them
+const FAFSA_TERMS = [
+  'FSA ID', 'Student Aid Index', 'SAI', 'Expected Family Contribution', 'EFC', 'adjusted gross income', 'AGI',
+  'dependency status', 'contributor', 'IRS Data Retrieval Tool', 'direct data exchange', 'Pell Grant',
+  'federal school code', 'untaxed income', 'tax return', 'verification', 'consent', 'household size',
+];
+
+// Sentences that warn about mistakes become commonErrors
+const ERROR_CUES = /\b(mistakes?|errors?|don't|do not|avoid|make sure|be sure|incorrect(ly)?|forget|forgot|missing|never|common problem)\b/i;
+
+const BLOCK_TAGS = 'p|div|section|article|h[1-6]|li|ul|ol|tr|table|blockquote|dd|dt|dl|br|hr';
+const REMOVED_TAGS = ['script', 'style', 'noscript', 'nav', 'header', 'footer', 'svg', 'form', 'iframe', 'template'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  lsquo: "'", rsquo: "'", ldquo: '"', rdquo: '"', hellip: '...', copy: '©', reg: '®', trade: '™',
+};
+
+export class DocumentCleaner {
+  /**
+   * Convert an HTML page to plain text paragraphs separated by blank lines.
+   * Page chrome (navigation, headers, footers, scripts) is removed and the <main>
+   * element is used when the page has one.
+   */
+  static htmlToText(html: string): string {
+    let body = html.replace(/<!--[\s\S]*?-->/g, '');
+
+    for (const tag of REMOVED_TAGS) {
+      body = body.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+    }
+
+    const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i);
+    if (main) {
+      body = main[1];
+    }
+
+    const text = body
+      .replace(/<li\b[^>]*>/gi, '\n\n- ')
+      .replace(new RegExp(`<\\/?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]+>/g, ' ');
+
+    return this.normalizeParagraphs(this.decodeEntities(text));
+  }
+
+  /**
+   * Extract text from a PDF. Handles the text operators of uncompressed and
+   * Flate-compressed content streams, which covers the PDFs published on StudentAid.gov.
+   */
+  static pdfToText(pdf: Buffer): string {
+    const raw = pdf.toString('latin1');
+    // Dictionary of each stream object, then its data
+    const streamPattern = /\bobj\b((?:(?!\bobj\b)[\s\S])*?)\bstream\r?\n([\s\S]*?)\r?\n?endstream/g;
+    const paragraphs: string[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = streamPattern.exec(raw)) !== null) {
+      const [, dictionary, data] = match;
+      let content = data;
+
+      if (/\/FlateDecode/.test(dictionary)) {
+        try {
+          content = zlib.inflateSync(Buffer.from(data, 'latin1')).toString('latin1');
+        } catch {
+          // Fonts and images are often compressed with filters we don't read
+          continue;
+        }
+      }
+
+      if (/\bBT\b/.test(content)) {
+        paragraphs.push(this.extractPdfText(content));
+      }
+    }
+
+    return this.normalizeParagraphs(paragraphs.join('\n\n'));
+  }
+
+  /**
+   * Most frequent meaningful terms plus any FAFSA terms the text mentions
+   */
+  static extractKeywords(title: string, text: string): string[] {
+    const lowerText = `${title} ${text}`.toLowerCase();
+    const glossaryMatches = FAFSA_TERMS.filter(term =>
+      new RegExp(`\\b${this.escapeRegExp(term.toLowerCase())}\\b`).test(lowerText)
+    );
+
+    const counts = new Map<string, number>();
+    for (const token of KnowledgeIndex.tokenize(text)) {
+      if (token.length > 3 && !/^\d+$/.test(token)) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+      }
+    }
+    for (const token of KnowledgeIndex.tokenize(title)) {
+      counts.set(token, (counts.get(token) || 0) + 3);
+    }
+
+    const frequentTerms = [...counts.entries()]
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([token]) => token);
+
+    const keywords: string[] = [];
+    for (const keyword of [...glossaryMatches, ...frequentTerms]) {
+      if (!keywords.some(existing => existing.toLowerCase() === keyword.toLowerCase())) {
+        keywords.push(keyword);
+      }
+    }
+
+    return keywords.slice(0, MAX_KEYWORDS);
+  }
+
+  /**
+   * Sentences that describe mistakes to avoid
+   */
+  static extractCommonErrors(text: string): string[] {
+    const sentences = this.splitSentences(text)
+      .map(sentence => sentence.replace(/^-\s*/, ''))
+      .filter(sentence => sentence.length >= 20 && sentence.length <= 300 && ERROR_CUES.test(sentence));
+
+    return [...new Set(sentences)].slice(0, MAX_COMMON_ERRORS);
+  }
+
+  static splitSentences(text: string): string[] {
+    return text
+      .split(/\n\s*\n/)
+      .flatMap(paragraph => paragraph.trim().split(/(?<=[.!?])\s+/))
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private static extractPdfText(content: string): string {
+    const operators = /\[((?:\\[\s\S]|[^\]\\])*)\]\s*TJ|\(((?:\\[\s\S]|[^)\\])*)\)\s*(?:Tj|'|")|(?<![A-Za-z])(T\*|Td|TD|ET)(?![A-Za-z])/g;
+    let text = '';
+
+    let match: RegExpExecArray | null;
+    while ((match = operators.exec(content)) !== null) {
+      const [, array, single, positioning] = match;
+
+      if (array !== undefined) {
+        // TJ arrays mix strings with kerning offsets; large negative offsets are word gaps
+        const parts = /\(((?:\\[\s\S]|[^)\\])*)\)|(-?\d+(?:\.\d+)?)/g;
+        let part: RegExpExecArray | null;
+        while ((part = parts.exec(array)) !== null) {
+          if (part[1] !== undefined) {
+            text += this.decodePdfString(part[1]);
+          } else if (Number(part[2]) < -200) {
+            text += ' ';
+          }
+        }
+      } else if (single !== undefined) {
+        text += this.decodePdfString(single);
+      } else if (positioning === 'ET') {
+        text += '\n\n';
+      } else {
+        text += '\n';
+      }
+    }
+
+    return text;
+  }
+
+  private static decodePdfString(value: string): string {
+    return value.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escaped: string) => {
+      switch (escaped) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case 'b':
+        case 'f': return '';
+        case '(': return '(';
+        case ')': return ')';
+        case '\\': return '\\';
+        default:
+          // Escaped line breaks continue the string; octal escapes are character codes
+          return /^[0-7]+$/.test(escaped) ? String.fromCharCode(parseInt(escaped, 8)) : '';
+      }
+    });
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+
+  /**
+   * Collapse whitespace inside paragraphs and separate paragraphs with one blank line
+   */
+  private static normalizeParagraphs(text: string): string {
+    return text
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(paragraph => paragraph.length > 0 && paragraph !== '-')
+      .join('\n\n');
+  }
+
+  private static escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -1,5 +1,5 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, ScanCommand, UpdateCommand, DeleteCommand } from '@aws-sdk/lib-dynamodb';
 
 // Initialize DynamoDB client
 const client = new DynamoDBClient({ region: process.env.AWS_REGION || 'us-east-1' });
@@ -11,6 +11,10 @@ export const TABLES = {
   CONVERSATIONS: process.env.CONVERSATIONS_TABLE_NAME || 'EducateFirstAi-Conversations',
   USER_PROGRESS: process.env.USER_PROGRESS_TABLE_NAME || 'EducateFirstAi-UserProgress',
   RESPONSE_CACHE: process.env.RESPONSE_CACHE_TABLE_NAME || 'EducateFirstAi-ResponseCache',
+  GUEST_SESSIONS: process.env.GUEST_SESSIONS_TABLE_NAME || 'EducateFirstAi-GuestSessions',
+  STUDENT_LINKS: process.env.STUDENT_LINKS_TABLE_NAME || 'EducateFirstAi-StudentLinks',
+  ERROR_PATTERNS: process.env.ERROR_PATTERNS_TABLE_NAME || 'EducateFirstAi-ErrorPatterns',
+  RATE_LIMITS: process.env.RATE_LIMITS_TABLE_NAME || 'EducateFirstAi-RateLimits',
 };
 
 // Common DynamoDB operations
@@ -43,12 +47,62 @@ export class DynamoDBService {
     return result.Items || [];
   }
 
-  static async updateItem(tableName: string, key: any, updateExpression: string, expressionAttributeValues: any) {
+  // Follows LastEvaluatedKey, for work that must see every matching item rather than the first page
+  static async queryAllItems(tableName: string, keyConditionExpression: string, expressionAttributeValues: any, indexName?: string) {
+    const items: any[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const command = new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: keyConditionExpression,
+        ExpressionAttributeValues: expressionAttributeValues,
+        IndexName: indexName,
+        ExclusiveStartKey: exclusiveStartKey,
+      });
+      const result = await dynamoDb.send(command);
+      items.push(...(result.Items || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  // Only for small tables that are read whole, like the admin-managed error patterns
+  static async scanAllItems(tableName: string) {
+    const items: any[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const command = new ScanCommand({
+        TableName: tableName,
+        ExclusiveStartKey: exclusiveStartKey,
+      });
+      const result = await dynamoDb.send(command);
+      items.push(...(result.Items || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  // With a condition expression, a failed condition throws ConditionalCheckFailedException.
+  // Attribute names are needed for reserved words such as `role`.
+  static async updateItem(
+    tableName: string,
+    key: any,
+    updateExpression: string,
+    expressionAttributeValues: any,
+    conditionExpression?: string,
+    expressionAttributeNames?: Record<string, string>
+  ) {
     const command = new UpdateCommand({
       TableName: tableName,
       Key: key,
       UpdateExpression: updateExpression,
       ExpressionAttributeValues: expressionAttributeValues,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ConditionExpression: conditionExpression,
       ReturnValues: 'ALL_NEW',
     });
     const result = await dynamoDb.send(command);
@@ -0,0 +1,72 @@
+// Figures the grounding verifier checks answers against. Review each award year and
+// update `lastReviewed` together with the values.
+
+export interface FAFSAFact {
+  id: string;
+  description: string;
+  type: 'amount' | 'date' | 'percentage';
+  // A sentence must mention every keyword as a whole word (case-insensitive) for the fact to
+  // apply. 'a|b' accepts either word, so 'minimum' doesn't match "determined".
+  keywords: string[];
+  // Accepted values, written as they would appear in an answer
+  values: string[];
+  sourceUrl: string;
+  lastReviewed: string;
+}
+
+export const FAFSA_FACTS: FAFSAFact[] = [
+  {
+    id: 'pell-grant-maximum',
+    description: 'Maximum Federal Pell Grant award (2024–25 and 2025–26)',
+    type: 'amount',
+    keywords: ['pell', 'maximum'],
+    values: ['$7,395'],
+    sourceUrl: 'https://studentaid.gov/understand-aid/types/grants/pell',
+    lastReviewed: '2025-01-15',
+  },
+  {
+    id: 'pell-grant-minimum',
+    description: 'Minimum Federal Pell Grant award (2025–26)',
+    type: 'amount',
+    keywords: ['pell', 'minimum'],
+    values: ['$740'],
+    sourceUrl: 'https://studentaid.gov/understand-aid/types/grants/pell',
+    lastReviewed: '2025-01-15',
+  },
+  {
+    id: 'fseog-range',
+    description: 'Federal Supplemental Educational Opportunity Grant range per year',
+    type: 'amount',
+    keywords: ['fseog'],
+    values: ['$100', '$4,000'],
+    sourceUrl: 'https://studentaid.gov/understand-aid/types/grants/fseog',
+    lastReviewed: '2025-01-15',
+  },
+  {
+    id: 'direct-loan-first-year-subsidized',
+    description: 'First-year undergraduate limit for Direct Subsidized Loans',
+    type: 'amount',
+    keywords: ['subsidized', 'first-year'],
+    values: ['$3,500', '$5,500'],
+    sourceUrl: 'https://studentaid.gov/understand-aid/types/loans/subsidized-unsubsidized',
+    lastReviewed: '2025-01-15',
+  },
+  {
+    id: 'federal-deadline',
+    description: 'Federal FAFSA deadline (June 30 after the award year ends)',
+    type: 'date',
+    keywords: ['federal', 'deadline|deadlines'],
+    values: ['June 30'],
+    sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines',
+    lastReviewed: '2025-01-15',
+  },
+  {
+    id: 'fafsa-opening-date',
+    description: 'Date the FAFSA form opens (October 1; the 2025–26 form opened late)',
+    type: 'date',
+    keywords: ['fafsa', 'open|opens|opened|opening'],
+    values: ['October 1', 'November 21, 2024', 'December 1, 2024'],
+    sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines',
+    lastReviewed: '2025-01-15',
+  },
+];
@@ -0,0 +1,199 @@
+import { FAFSAFact, FAFSA_FACTS } from './fafsa-facts';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const AMOUNT_PATTERN = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(\s?(?:k|thousand|million)\b)?/gi;
+const PERCENT_PATTERN = /\b(\d+(?:\.\d+)?)\s?(?:%|percent\b)/gi;
+const MONTH_DATE_PATTERN = /\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/gi;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g;
+
+export type ClaimType = 'amount' | 'date' | 'percentage';
+
+export interface Claim {
+  type: ClaimType;
+  // Text as written in the answer
+  text: string;
+  // Comparable form: dollars for amounts, MM-DD or YYYY-MM-DD for dates
+  value: string;
+  index: number;
+}
+
+export interface FlaggedClaim {
+  claim: Claim;
+  // Values from the facts table when the claim contradicts one
+  expected?: string[];
+}
+
+export interface GroundingResult {
+  claims: Claim[];
+  flagged: FlaggedClaim[];
+}
+
+// Summary stored in the AI message metadata
+export interface GroundingMetadata {
+  verified: boolean;
+  flaggedClaims: { text: string; expected?: string[] }[];
+  regenerated: boolean;
+}
+
+export class GroundingVerifier {
+  /**
+   * Find dollar amounts, percentages and dates in text
+   */
+  static extractClaims(text: string): Claim[] {
+    const claims: Claim[] = [];
+
+    for (const match of text.matchAll(AMOUNT_PATTERN)) {
+      const multiplier = this.amountMultiplier(match[3]);
+      const dollars = Number(`${match[1].replace(/,/g, '')}.${match[2] || '0'}`) * multiplier;
+      claims.push({ type: 'amount', text: match[0].trim(), value: String(Math.round(dollars * 100) / 100), index: match.index! });
+    }
+
+    for (const match of text.matchAll(PERCENT_PATTERN)) {
+      claims.push({ type: 'percentage', text: match[0], value: String(Number(match[1])), index: match.index! });
+    }
+
+    for (const match of text.matchAll(MONTH_DATE_PATTERN)) {
+      const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+      const day = Number(match[2]);
+      if (day >= 1 && day <= 31) {
+        claims.push({ type: 'date', text: match[0], value: this.formatDate(month, day, match[3]), index: match.index! });
+      }
+    }
+
+    for (const match of text.matchAll(NUMERIC_DATE_PATTERN)) {
+      const month = Number(match[1]);
+      const day = Number(match[2]);
+      if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+        const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+        claims.push({ type: 'date', text: match[0], value: this.formatDate(month, day, year), index: match.index! });
+      }
+    }
+
+    return claims.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Check every claim in the answer against the retrieved context and the facts table.
+   * A claim contradicts a fact when its sentence is about that fact but the value differs;
+   * otherwise it is unsupported when neither the context nor any fact contains it.
+   */
+  static verify(answer: string, context: string, facts: FAFSAFact[] = FAFSA_FACTS): GroundingResult {
+    const claims = this.extractClaims(answer);
+    const evidence = this.extractClaims(context);
+    const factValues = facts.map(fact => ({
+      fact,
+      claims: fact.values.flatMap(value => this.extractClaims(value)),
+    }));
+
+    const flagged: FlaggedClaim[] = [];
+
+    for (const claim of claims) {
+      const words = this.wordsOf(this.sentenceAround(answer, claim.index));
+      const applicableFacts = factValues.filter(({ fact }) =>
+        fact.type === claim.type && fact.keywords.every(keyword => keyword.split('|').some(word => words.has(word)))
+      );
+
+      if (applicableFacts.length > 0) {
+        const matchesFact = applicableFacts.some(({ claims: values }) => values.some(value => this.sameValue(claim, value)));
+        if (!matchesFact) {
+          flagged.push({ claim, expected: applicableFacts.flatMap(({ fact }) => fact.values) });
+        }
+        continue;
+      }
+
+      const supported = evidence.some(value => this.sameValue(claim, value)) ||
+        factValues.some(({ claims: values }) => values.some(value => this.sameValue(claim, value)));
+      if (!supported) {
+        flagged.push({ claim });
+      }
+    }
+
+    return { claims, flagged };
+  }
+
+  /**
+   * Mark each flagged claim inline so students know to check it
+   */
+  static annotate(answer: string, flagged: FlaggedClaim[]): string {
+    return [...flagged]
+      .sort((a, b) => b.claim.index - a.claim.index)
+      .reduce((text, { claim, expected }) => {
+        const note = expected
+          ? ` (⚠️ StudentAid.gov lists ${expected.join(' or ')})`
+          : ' (⚠️ verify with StudentAid.gov)';
+        const end = claim.index + claim.text.length;
+        return text.slice(0, end) + note + text.slice(end);
+      }, answer);
+  }
+
+  /**
+   * Prompt note listing the correct values for contradicted claims, used when regenerating
+   */
+  static formatCorrections(result: GroundingResult, facts: FAFSAFact[] = FAFSA_FACTS): string {
+    const contradicted = new Set(result.flagged.filter(item => item.expected).flatMap(item => item.expected!));
+    const relevantFacts = facts.filter(fact => fact.values.some(value => contradicted.has(value)));
+
+    return 'Verified figures (use these exactly and do not state other amounts or dates for them):\n' +
+      relevantFacts.map(fact => `- ${fact.description}: ${fact.values.join(' or ')}`).join('\n');
+  }
+
+  static hasContradictions(result: GroundingResult): boolean {
+    return result.flagged.some(item => item.expected);
+  }
+
+  static toMetadata(result: GroundingResult, regenerated: boolean): GroundingMetadata {
+    return {
+      verified: result.flagged.length === 0,
+      flaggedClaims: result.flagged.map(({ claim, expected }) => ({ text: claim.text, expected })),
+      regenerated,
+    };
+  }
+
+  /**
+   * The lowercase words of a sentence. Hyphenated words count whole and by their parts, so
+   * "first-year" and "Pell-eligible" match both ways.
+   */
+  private static wordsOf(sentence: string): Set<string> {
+    const words = sentence.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? [];
+    return new Set(words.flatMap(word => word.includes('-') ? [word, ...word.split('-')] : [word]));
+  }
+
+  private static sameValue(claim: Claim, evidence: Claim): boolean {
+    if (claim.type !== evidence.type) {
+      return false;
+    }
+    if (claim.type !== 'date') {
+      return claim.value === evidence.value;
+    }
+
+    // Dates match on month and day; years must agree only when both are given
+    const [claimDay, claimYear] = this.splitDate(claim.value);
+    const [evidenceDay, evidenceYear] = this.splitDate(evidence.value);
+    return claimDay === evidenceDay && (!claimYear || !evidenceYear || claimYear === evidenceYear);
+  }
+
+  private static splitDate(value: string): [string, string | undefined] {
+    return value.length > 5 ? [value.slice(5), value.slice(0, 4)] : [value, undefined];
+  }
+
+  private static formatDate(month: number, day: number, year?: string): string {
+    const monthDay = `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    return year ? `${year}-${monthDay}` : monthDay;
+  }
+
+  private static amountMultiplier(suffix?: string): number {
+    const unit = suffix?.trim().toLowerCase();
+    if (unit === 'k' || unit === 'thousand') {
+      return 1000;
+    }
+    return unit === 'million' ? 1000000 : 1;
+  }
+
+  private static sentenceAround(text: string, index: number): string {
+    const before = text.slice(0, index);
+    const start = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n'), before.lastIndexOf('? '), before.lastIndexOf('! ')) + 1;
+    const after = text.slice(index).search(/[.!?](\s|$)|\n/);
+    return text.slice(start, after === -1 ? text.length : index + after + 1);
+  }
+}
@@ -0,0 +1,223 @@
+import * as crypto from 'crypto';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { DynamoDBService, TABLES } from './dynamodb';
+import { getEnvVar, positiveInteger } from './types';
+import { v4 as uuidv4 } from 'uuid';
+
+const GUEST_USER_PREFIX = 'guest_';
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+const DEFAULT_TTL_MINUTES = 120;
+const DEFAULT_MESSAGE_QUOTA = 20;
+
+// Header guests send their session token in; the Authorization header is reserved for Cognito tokens
+export const GUEST_TOKEN_HEADER = 'X-Guest-Token';
+
+export interface GuestSession {
+  guestId: string;
+  // Epoch seconds, the same unit as the table's TTL attribute
+  expiresAt: number;
+  messageQuota: number;
+}
+
+export interface IssuedGuestSession extends GuestSession {
+  token: string;
+}
+
+export interface GuestSessionSettings {
+  ttlMinutes: number;
+  messageQuota: number;
+}
+
+export type VerifiedGuestToken =
+  | { session: GuestSession; error?: undefined }
+  | { session?: undefined; error: 'invalid' | 'expired' };
+
+interface GuestTokenPayload {
+  sub: string;
+  typ: 'guest';
+  iat: number;
+  exp: number;
+  quota: number;
+}
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+const secretsManager = new SecretsManagerClient({ region: process.env.AWS_REGION || 'us-east-1' });
+
+export class GuestSessionService {
+  // The HMAC key guest tokens are signed with, read from Secrets Manager once per container
+  private static signingKey: string | undefined;
+  private static loadingSigningKey: Promise<void> | null = null;
+
+  /**
+   * Session length and message quota, overridable with GUEST_SESSION_TTL_MINUTES and GUEST_MESSAGE_QUOTA
+   */
+  static getSettings(env: NodeJS.ProcessEnv = process.env): GuestSessionSettings {
+    return {
+      ttlMinutes: positiveInteger('GUEST_SESSION_TTL_MINUTES', env.GUEST_SESSION_TTL_MINUTES, DEFAULT_TTL_MINUTES),
+      messageQuota: positiveInteger('GUEST_MESSAGE_QUOTA', env.GUEST_MESSAGE_QUOTA, DEFAULT_MESSAGE_QUOTA),
+    };
+  }
+
+  /**
+   * Read the signing key from the secret GUEST_TOKEN_SECRET_ARN names. sign and verify are
+   * synchronous, so callers load the key first; later calls reuse it, and a failed read is
+   * tried again on the next call.
+   */
+  static async loadSigningKey(): Promise<void> {
+    if (this.signingKey) {
+      return;
+    }
+
+    if (!this.loadingSigningKey) {
+      this.loadingSigningKey = secretsManager
+        .send(new GetSecretValueCommand({ SecretId: getEnvVar('GUEST_TOKEN_SECRET_ARN') }))
+        .then(({ SecretString }) => {
+          if (!SecretString) {
+            throw new Error('Guest token secret has no value');
+          }
+          this.signingKey = SecretString;
+        })
+        .finally(() => {
+          this.loadingSigningKey = null;
+        });
+    }
+    return this.loadingSigningKey;
+  }
+
+  /**
+   * Start a guest session: record its quota and return the signed token the guest sends back
+   */
+  static async issue(now: Date = new Date()): Promise<IssuedGuestSession> {
+    await this.loadSigningKey();
+    const { ttlMinutes, messageQuota } = this.getSettings();
+    const session: GuestSession = {
+      guestId: `${GUEST_USER_PREFIX}${uuidv4()}`,
+      expiresAt: Math.floor(now.getTime() / 1000) + ttlMinutes * 60,
+      messageQuota,
+    };
+
+    await DynamoDBService.putItem(TABLES.GUEST_SESSIONS, {
+      ...session,
+      messagesUsed: 0,
+      createdAt: now.toISOString(),
+    });
+
+    return { ...session, token: this.sign(session, now) };
+  }
+
+  /**
+   * Sign a session as an HS256 JWT with the signing key (see loadSigningKey)
+   */
+  static sign(session: GuestSession, now: Date = new Date()): string {
+    const payload: GuestTokenPayload = {
+      sub: session.guestId,
+      typ: 'guest',
+      iat: Math.floor(now.getTime() / 1000),
+      exp: session.expiresAt,
+      quota: session.messageQuota,
+    };
+    const unsigned = `${base64url(JSON.stringify(TOKEN_HEADER))}.${base64url(JSON.stringify(payload))}`;
+
+    return `${unsigned}.${this.signature(unsigned)}`;
+  }
+
+  /**
+   * Check a guest token's signature and expiry. Sign-up passes `allowExpired` so a guest whose
+   * session ran out can still bring their conversation into the new account.
+   */
+  static verify(token: string, options: { allowExpired?: boolean; now?: Date } = {}): VerifiedGuestToken {
+    const { allowExpired = false, now = new Date() } = options;
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return { error: 'invalid' };
+    }
+
+    // Outside the try: a key that wasn't loaded is a server error, not an invalid token
+    const expected = Buffer.from(this.signature(`${parts[0]}.${parts[1]}`));
+
+    try {
+      const actual = Buffer.from(parts[2]);
+      if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return { error: 'invalid' };
+      }
+
+      const payload: Partial<GuestTokenPayload> = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+      if (payload.typ !== 'guest' || typeof payload.sub !== 'string' || !payload.sub.startsWith(GUEST_USER_PREFIX)
+        || typeof payload.exp !== 'number' || typeof payload.quota !== 'number') {
+        return { error: 'invalid' };
+      }
+
+      if (!allowExpired && payload.exp <= Math.floor(now.getTime() / 1000)) {
+        return { error: 'expired' };
+      }
+
+      return { session: { guestId: payload.sub, expiresAt: payload.exp, messageQuota: payload.quota } };
+    } catch (error) {
+      console.error('Guest token verification error:', error);
+      return { error: 'invalid' };
+    }
+  }
+
+  /**
+   * Read the guest token from the request headers (header names are case-insensitive)
+   */
+  static getToken(headers: { [key: string]: string } | null | undefined): string | undefined {
+    const name = GUEST_TOKEN_HEADER.toLowerCase();
+    const entry = Object.entries(headers || {}).find(([key]) => key.toLowerCase() === name);
+    return entry?.[1] || undefined;
+  }
+
+  /**
+   * Count one message against the session's quota. Returns false once the quota is used up or
+   * the guest has upgraded to an account; the check and increment are one conditional write.
+   */
+  static async consumeMessage(session: GuestSession): Promise<boolean> {
+    try {
+      await DynamoDBService.updateItem(
+        TABLES.GUEST_SESSIONS,
+        { guestId: session.guestId },
+        'SET messagesUsed = messagesUsed + :one',
+        { ':one': 1, ':quota': session.messageQuota },
+        'messagesUsed < :quota AND attribute_not_exists(upgradedTo)'
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+
+      console.error('Guest quota error:', error);
+      // Don't throw - a quota storage failure shouldn't stop guests from getting answers
+      return true;
+    }
+  }
+
+  /**
+   * Close a guest session once its state has moved into a new account
+   */
+  static async markUpgraded(guestId: string, userId: string): Promise<void> {
+    try {
+      await DynamoDBService.updateItem(
+        TABLES.GUEST_SESSIONS,
+        { guestId },
+        'SET upgradedTo = :userId, upgradedAt = :now',
+        { ':userId': userId, ':now': new Date().toISOString() },
+        'attribute_exists(guestId)'
+      );
+    } catch (error: any) {
+      // An expired session may already have been removed by the table's TTL
+      if (error?.name !== 'ConditionalCheckFailedException') {
+        console.error('Guest session upgrade error:', error);
+      }
+      // Don't throw - the account already exists
+    }
+  }
+
+  private static signature(unsigned: string): string {
+    if (!this.signingKey) {
+      throw new Error('Guest token signing key has not been loaded');
+    }
+    return crypto.createHmac('sha256', this.signingKey).update(unsigned).digest('base64url');
+  }
+}
@@ -1,4 +1,11 @@
-import { S3Client, GetObjectCommand, ListObjectsV2Command, PutObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, ListObjectsV2Command, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { KnowledgeIndex, KnowledgeSearchIndex, ScoredPassage } from './knowledge-index';
+import { DocumentCleaner } from './document-cleaner';
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages';
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as https from 'https';
 
 // Initialize S3 client
 const s3Client = new S3Client({ 
@@ -7,6 +14,24 @@ const s3Client = new S3Client({
 
 const KNOWLEDGE_BASE_BUCKET = process.env.KNOWLEDGE_BASE_BUCKET || '';
 
+// Precomputed passage index, stored next to the documents it was built from
+const SEARCH_INDEX_KEY = 'index/search-index.json';
+// How long a Lambda container reuses a loaded index before checking S3 again
+const SEARCH_INDEX_CACHE_MS = 5 * 60 * 1000;
+const FALLBACK_SOURCE = 'https://studentaid.gov/apply-for-aid/fafsa';
+// Archived document versions and ingestion reports live under these prefixes, not in search results
+const VERSIONS_PREFIX = 'versions/';
+const REPORTS_PREFIX = 'reports/';
+// Cleaned pages shorter than this are treated as a failed fetch (error page, layout change)
+const MIN_DOCUMENT_LENGTH = 200;
+const SNAPSHOT_TIMEOUT_MS = 15000;
+const CITATION_EXCERPT_LENGTH = 280;
+// Inline citation markers like [1]; the optional leading space is dropped with invalid markers
+const CITATION_MARKER = /( ?)\[(\d{1,2})\]/g;
+const MAX_REDIRECTS = 3;
+
+let cachedIndex: { index: KnowledgeSearchIndex; loadedAt: number } | null = null;
+
 export interface KnowledgeDocument {
   key: string;
   title: string;
@@ -16,144 +41,409 @@ export interface KnowledgeDocument {
   lastModified: Date;
   commonErrors?: string[];
   keywords?: string[];
+  version?: number;
+  contentHash?: string;
+  retrievedAt?: string;
+  // Language of the content; English when absent
+  language?: LanguageCode;
 }
 
 export interface SearchResult {
-  documents: KnowledgeDocument[];
+  passages: ScoredPassage[];
   relevanceScore: number;
   sources: string[];
 }
 
+// A retrieved passage the answer cites inline as [id]
+export interface Citation {
+  id: number;
+  documentKey: string;
+  title: string;
+  excerpt: string;
+  url: string;
+}
+
+export interface OfficialSource {
+  url: string;
+  section: string;
+  title: string;
+  // Set for translated pages, which are stored as locale-specific documents
+  language?: LanguageCode;
+}
+
+export interface DocumentSnapshot {
+  body: Buffer;
+  contentType: string;
+}
+
+// Loads the raw HTML or PDF for a source, from StudentAid.gov or from local fixture files
+export type SnapshotLoader = (source: OfficialSource) => Promise<DocumentSnapshot>;
+
+export interface DocumentChange {
+  key: string;
+  title: string;
+  sourceUrl: string;
+  previousVersion?: number;
+  version: number;
+  sentencesAdded: number;
+  sentencesRemoved: number;
+}
+
+export interface IngestionReport {
+  startedAt: string;
+  completedAt: string;
+  added: DocumentChange[];
+  updated: DocumentChange[];
+  unchanged: string[];
+  failed: { sourceUrl: string; error: string }[];
+}
+
+// Official FAFSA documentation URLs
+export const OFFICIAL_SOURCES: OfficialSource[] = [
+  {
+    url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out',
+    section: 'general',
+    title: 'How to Fill Out the FAFSA Form'
+  },
+  {
+    url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/personal-info',
+    section: 'student-demographics',
+    title: 'Personal Information Section'
+  },
+  {
+    url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/dependency',
+    section: 'dependency-status',
+    title: 'Dependency Status Questions'
+  },
+  {
+    url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/income',
+    section: 'student-finances',
+    title: 'Income and Tax Information'
+  },
+  {
+    url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/school-selection',
+    section: 'school-selection',
+    title: 'School Selection'
+  }
+];
+
 export class KnowledgeBaseService {
   /**
-   * Fetch and process official FAFSA documentation from StudentAid.gov
-   * This would be called periodically to update the knowledge base
+   * Fetch official FAFSA documentation, store a new version of every page whose
+   * content changed, and rebuild the search index. Called on a schedule by the
+   * knowledge ingestion Lambda.
    */
-  static async updateKnowledgeBaseFromOfficialSources(): Promise<void> {
-    try {
-      // Official FAFSA documentation URLs
-      const officialSources = [
-        {
-          url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out',
-          section: 'general',
-          title: 'How to Fill Out the FAFSA Form'
-        },
-        {
-          url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/personal-info',
-          section: 'student-demographics',
-          title: 'Personal Information Section'
-        },
-        {
-          url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/dependency',
-          section: 'dependency-status',
-          title: 'Dependency Status Questions'
-        },
-        {
-          url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/income',
-          section: 'student-finances',
-          title: 'Income and Tax Information'
-        },
-        {
-          url: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/school-selection',
-          section: 'school-selection',
-          title: 'School Selection'
-        }
-      ];
+  static async updateKnowledgeBaseFromOfficialSources(
+    loadSnapshot: SnapshotLoader = this.fetchSnapshot,
+    sources: OfficialSource[] = OFFICIAL_SOURCES
+  ): Promise<IngestionReport> {
+    const report: IngestionReport = {
+      startedAt: new Date().toISOString(),
+      completedAt: '',
+      added: [],
+      updated: [],
+      unchanged: [],
+      failed: [],
+    };
 
-      for (const source of officialSources) {
-        await this.fetchAndStoreOfficialDocument(source);
+    for (const source of sources) {
+      try {
+        const result = await this.ingestOfficialDocument(source, loadSnapshot);
+        if (result.status === 'unchanged') {
+          report.unchanged.push(result.key);
+        } else {
+          report[result.status].push(result.change);
+        }
+      } catch (error) {
+        console.error(`Failed to ingest document from ${source.url}:`, error);
+        report.failed.push({
+          sourceUrl: source.url,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
 
-      console.log('Knowledge base updated from official sources');
-    } catch (error) {
-      console.error('Failed to update knowledge base:', error);
-      throw new Error('Failed to update knowledge base from official sources');
+    if (report.added.length > 0 || report.updated.length > 0) {
+      await this.rebuildSearchIndex();
     }
+
+    report.completedAt = new Date().toISOString();
+    await this.storeIngestionReport(report);
+
+    console.log(
+      `Knowledge base updated from official sources: ${report.added.length} added, ` +
+      `${report.updated.length} updated, ${report.unchanged.length} unchanged, ${report.failed.length} failed`
+    );
+    return report;
   }
 
   /**
-   * Fetch content from official source and store in S3
+   * Download a source page from StudentAid.gov
    */
-  private static async fetchAndStoreOfficialDocument(source: {
-    url: string;
-    section: string;
-    title: string;
-  }): Promise<void> {
-    try {
-      // In production, this would use a web scraping service or API
-      // For now, we'll create a placeholder that can be replaced with actual implementation
-      const document: Omit<KnowledgeDocument, 'key' | 'lastModified'> = {
+  static fetchSnapshot(source: OfficialSource): Promise<DocumentSnapshot> {
+    return KnowledgeBaseService.download(source.url, MAX_REDIRECTS);
+  }
+
+  private static download(url: string, redirectsLeft: number): Promise<DocumentSnapshot> {
+    return new Promise((resolve, reject) => {
+      const request = https.get(url, { timeout: SNAPSHOT_TIMEOUT_MS }, response => {
+        const { statusCode = 0, headers } = response;
+
+        if (statusCode >= 300 && statusCode < 400 && headers.location && redirectsLeft > 0) {
+          response.resume();
+          resolve(this.download(new URL(headers.location, url).toString(), redirectsLeft - 1));
+          return;
+        }
+
+        if (statusCode !== 200) {
+          response.resume();
+          reject(new Error(`Request failed with status ${statusCode}`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve({
+          body: Buffer.concat(chunks),
+          contentType: headers['content-type'] || '',
+        }));
+        response.on('error', reject);
+      });
+
+      request.on('timeout', () => request.destroy(new Error('Request timed out')));
+      request.on('error', reject);
+    });
+  }
+
+  /**
+   * Load snapshots from a directory that mirrors the bucket layout,
+   * e.g. `dependency-status/dependency_status_questions.html` (or `.pdf`)
+   */
+  static directorySnapshotLoader(directory: string): SnapshotLoader {
+    return async (source: OfficialSource) => {
+      const basePath = path.join(directory, this.getDocumentKey(source.section, source.title, source.language).replace(/\.json$/, ''));
+
+      for (const [extension, contentType] of [['.html', 'text/html'], ['.pdf', 'application/pdf']]) {
+        try {
+          return { body: await fs.readFile(basePath + extension), contentType };
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') {
+            throw error;
+          }
+        }
+      }
+
+      throw new Error(`No snapshot found at ${basePath}.html or ${basePath}.pdf`);
+    };
+  }
+
+  /**
+   * Clean one snapshot into a document and store it as a new version if its content changed
+   */
+  private static async ingestOfficialDocument(
+    source: OfficialSource,
+    loadSnapshot: SnapshotLoader
+  ): Promise<{ status: 'unchanged'; key: string } | { status: 'added' | 'updated'; change: DocumentChange }> {
+    const snapshot = await loadSnapshot(source);
+    const isPdf = snapshot.contentType.includes('pdf') || snapshot.body.subarray(0, 5).toString('latin1') === '%PDF-';
+    const content = isPdf
+      ? DocumentCleaner.pdfToText(snapshot.body)
+      : DocumentCleaner.htmlToText(snapshot.body.toString('utf8'));
+
+    if (content.length < MIN_DOCUMENT_LENGTH) {
+      throw new Error('Snapshot contained too little text; keeping the current version');
+    }
+
+    const key = this.getDocumentKey(source.section, source.title, source.language);
+    const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+    const existing = await this.getDocument(key);
+
+    if (existing?.contentHash === contentHash) {
+      return { status: 'unchanged', key };
+    }
+
+    if (existing) {
+      await this.archiveDocumentVersion(existing);
+    }
+
+    const version = (existing?.version || 0) + 1;
+    await this.uploadDocument({
+      title: source.title,
+      content,
+      section: source.section,
+      sourceUrl: source.url,
+      language: source.language,
+      commonErrors: DocumentCleaner.extractCommonErrors(content),
+      keywords: DocumentCleaner.extractKeywords(source.title, content),
+      version,
+      contentHash,
+      retrievedAt: new Date().toISOString(),
+    });
+
+    const previousSentences = new Set(existing ? DocumentCleaner.splitSentences(existing.content) : []);
+    const currentSentences = new Set(DocumentCleaner.splitSentences(content));
+
+    return {
+      status: existing ? 'updated' : 'added',
+      change: {
+        key,
         title: source.title,
-        content: `Official content from ${source.url} would be fetched and processed here. This would include the actual text content from the StudentAid.gov page, properly formatted and cleaned.`,
-        section: source.section,
         sourceUrl: source.url,
-        commonErrors: [], // Would be extracted from the content
-        keywords: [], // Would be generated from the content
-      };
+        previousVersion: existing ? existing.version || 1 : undefined,
+        version,
+        sentencesAdded: [...currentSentences].filter(sentence => !previousSentences.has(sentence)).length,
+        sentencesRemoved: [...previousSentences].filter(sentence => !currentSentences.has(sentence)).length,
+      },
+    };
+  }
+
+  /**
+   * Keep a copy of the current version before it is replaced
+   */
+  private static async archiveDocumentVersion(document: KnowledgeDocument): Promise<void> {
+    const { key, lastModified, ...stored } = document;
+    const versionKey = `${VERSIONS_PREFIX}${key.replace(/\.json$/, '')}/v${document.version || 1}.json`;
+
+    await s3Client.send(new PutObjectCommand({
+      Bucket: KNOWLEDGE_BASE_BUCKET,
+      Key: versionKey,
+      Body: JSON.stringify(stored, null, 2),
+      ContentType: 'application/json',
+    }));
+  }
 
-      await this.uploadDocument(document);
+  private static async storeIngestionReport(report: IngestionReport): Promise<void> {
+    try {
+      await s3Client.send(new PutObjectCommand({
+        Bucket: KNOWLEDGE_BASE_BUCKET,
+        Key: `${REPORTS_PREFIX}ingestion-${report.startedAt}.json`,
+        Body: JSON.stringify(report, null, 2),
+        ContentType: 'application/json',
+      }));
     } catch (error) {
-      console.error(`Failed to fetch document from ${source.url}:`, error);
+      console.error('Failed to store ingestion report:', error);
+      // Don't throw - the report is also logged
     }
   }
 
   /**
-   * Search for relevant FAFSA documents based on query
+   * Search the passage index for the passages most relevant to the query. Documents in
+   * the requested language are preferred; English documents are used when none match.
    */
-  static async searchDocuments(query: string, section?: string): Promise<SearchResult> {
+  static async searchDocuments(
+    query: string,
+    section?: string,
+    topK: number = 5,
+    language: LanguageCode = DEFAULT_LANGUAGE
+  ): Promise<SearchResult> {
     try {
-      // List all documents in the knowledge base
-      const documents = await this.listAllDocuments(section);
-      
-      // If no documents found, return fallback response
-      if (documents.length === 0) {
+      const index = await this.loadSearchIndex();
+      const localized = language !== DEFAULT_LANGUAGE
+        ? KnowledgeIndex.search(index, query, topK, section, language)
+        : [];
+      const passages = localized.length > 0
+        ? localized
+        : KnowledgeIndex.search(index, query, topK, section, DEFAULT_LANGUAGE);
+
+      // If no passages match, return fallback response
+      if (passages.length === 0) {
         return {
-          documents: [],
+          passages: [],
           relevanceScore: 0,
-          sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
+          sources: [FALLBACK_SOURCE],
         };
       }
 
-      // Simple keyword-based search (in production, use vector search)
-      const searchTerms = query.toLowerCase().split(' ').filter(term => term.length > 2);
-      const scoredDocuments = documents.map(doc => ({
-        document: doc,
-        score: this.calculateRelevanceScore(doc, searchTerms),
-      }));
-
-      // Sort by relevance score and take top results
-      const relevantDocuments = scoredDocuments
-        .filter(item => item.score > 0)
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 5)
-        .map(item => item.document);
-
-      const averageScore = relevantDocuments.length > 0 
-        ? scoredDocuments.slice(0, relevantDocuments.length).reduce((sum, item) => sum + item.score, 0) / relevantDocuments.length
-        : 0;
-
-      const sources = relevantDocuments.length > 0
-        ? relevantDocuments.map(doc => doc.sourceUrl).filter((url, index, arr) => arr.indexOf(url) === index)
-        : ['https://studentaid.gov/apply-for-aid/fafsa'];
-
       return {
-        documents: relevantDocuments,
-        relevanceScore: averageScore,
-        sources,
+        passages,
+        relevanceScore: passages.reduce((sum, item) => sum + item.score, 0) / passages.length,
+        sources: [...new Set(passages.map(item => item.passage.sourceUrl))],
       };
     } catch (error) {
       console.error('Knowledge base search error:', error);
       // Return fallback with official source
       return {
-        documents: [],
+        passages: [],
         relevanceScore: 0,
-        sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
+        sources: [FALLBACK_SOURCE],
       };
     }
   }
 
   /**
-   * Get a specific document by key
+   * Version of the indexed knowledge base content, used to invalidate cached answers.
+   * Returns 'unavailable' when the index can't be loaded.
+   */
+  static async getKnowledgeBaseVersion(): Promise<string> {
+    try {
+      return (await this.loadSearchIndex()).contentVersion;
+    } catch (error) {
+      console.error('Knowledge base version lookup error:', error);
+      return 'unavailable';
+    }
+  }
+
+  /**
+   * Rebuild the passage index from every document in the bucket and store it.
+   * Call after uploading or changing documents.
+   */
+  static async rebuildSearchIndex(): Promise<KnowledgeSearchIndex> {
+    let index: KnowledgeSearchIndex;
+
+    try {
+      index = KnowledgeIndex.build(await this.listAllDocuments());
+      await s3Client.send(new PutObjectCommand({
+        Bucket: KNOWLEDGE_BASE_BUCKET,
+        Key: SEARCH_INDEX_KEY,
+        Body: JSON.stringify(index),
+        ContentType: 'application/json',
+      }));
+    } catch (error) {
+      console.error('Failed to rebuild search index:', error);
+      throw new Error('Failed to rebuild knowledge base search index');
+    }
+
+    cachedIndex = { index, loadedAt: Date.now() };
+    console.log(`Search index rebuilt: ${index.documentCount} documents, ${index.passages.length} passages`);
+    return index;
+  }
+
+  /**
+   * Load the stored index, reusing it across invocations in the same container.
+   * Builds it on first use if it has never been stored.
+   */
+  private static async loadSearchIndex(): Promise<KnowledgeSearchIndex> {
+    if (cachedIndex && Date.now() - cachedIndex.loadedAt < SEARCH_INDEX_CACHE_MS) {
+      return cachedIndex.index;
+    }
+
+    let stored: KnowledgeSearchIndex | null = null;
+    try {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: KNOWLEDGE_BASE_BUCKET,
+        Key: SEARCH_INDEX_KEY,
+      }));
+      if (response.Body) {
+        stored = JSON.parse(await response.Body.transformToString()) as KnowledgeSearchIndex;
+      }
+    } catch (error: any) {
+      if (error?.name !== 'NoSuchKey') {
+        throw error;
+      }
+    }
+
+    if (!stored || stored.version !== KnowledgeIndex.VERSION) {
+      console.log('Search index missing or outdated, rebuilding');
+      return this.rebuildSearchIndex();
+    }
+
+    cachedIndex = { index: stored, loadedAt: Date.now() };
+    return stored;
+  }
+
+  /**
+   * Get a specific document by key; null only when it doesn't exist. Other S3 errors are thrown
+   * so ingestion doesn't mistake a document it couldn't read for a new one.
    */
   static async getDocument(key: string): Promise<KnowledgeDocument | null> {
     try {
@@ -176,69 +466,56 @@ export class KnowledgeBaseService {
         key,
         lastModified: response.LastModified || new Date(),
       };
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
       console.error('Failed to get document:', error);
-      return null;
+      throw error;
     }
   }
 
   /**
-   * List all documents in the knowledge base
+   * List all documents in the knowledge base. Errors propagate so a failed listing
+   * never replaces the stored index with an empty one.
    */
-  private static async listAllDocuments(section?: string): Promise<KnowledgeDocument[]> {
-    try {
-      const prefix = section ? `${section}/` : '';
+  static async listAllDocuments(): Promise<KnowledgeDocument[]> {
+    const documents: KnowledgeDocument[] = [];
+    let continuationToken: string | undefined;
+
+    do {
       const command = new ListObjectsV2Command({
         Bucket: KNOWLEDGE_BASE_BUCKET,
-        Prefix: prefix,
-        MaxKeys: 100,
+        ContinuationToken: continuationToken,
       });
 
       const response = await s3Client.send(command);
-      const documents: KnowledgeDocument[] = [];
-
-      if (response.Contents) {
-        for (const object of response.Contents) {
-          if (object.Key && object.Key.endsWith('.json')) {
-            const document = await this.getDocument(object.Key);
-            if (document) {
-              documents.push(document);
-            }
+
+      for (const object of response.Contents || []) {
+        if (object.Key && object.Key.endsWith('.json') && this.isDocumentKey(object.Key)) {
+          const document = await this.getDocument(object.Key);
+          if (document) {
+            documents.push(document);
           }
         }
       }
 
-      return documents;
-    } catch (error) {
-      console.error('Failed to list documents:', error);
-      return [];
-    }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return documents;
   }
 
-  /**
-   * Calculate relevance score for a document based on search terms
-   */
-  private static calculateRelevanceScore(document: KnowledgeDocument, searchTerms: string[]): number {
-    let score = 0;
-    const content = `${document.title} ${document.content} ${document.keywords?.join(' ') || ''}`.toLowerCase();
-
-    for (const term of searchTerms) {
-      // Title matches get higher score
-      if (document.title.toLowerCase().includes(term)) {
-        score += 3;
-      }
-      
-      // Content matches
-      const contentMatches = (content.match(new RegExp(term, 'g')) || []).length;
-      score += contentMatches;
-      
-      // Keyword matches get higher score
-      if (document.keywords?.some(keyword => keyword.toLowerCase().includes(term))) {
-        score += 2;
-      }
-    }
+  private static isDocumentKey(key: string): boolean {
+    return key !== SEARCH_INDEX_KEY && !key.startsWith(VERSIONS_PREFIX) && !key.startsWith(REPORTS_PREFIX);
+  }
 
-    return score;
+  // Translated documents sit next to the English one, e.g. general/fafsa_basics.es.json
+  private static getDocumentKey(section: string, title: string, language?: LanguageCode): string {
+    const name = title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+    return language && language !== DEFAULT_LANGUAGE
+      ? `${section}/${name}.${language}.json`
+      : `${section}/${name}.json`;
   }
 
   /**
@@ -246,7 +523,7 @@ export class KnowledgeBaseService {
    */
   static async uploadDocument(document: Omit<KnowledgeDocument, 'key' | 'lastModified'>): Promise<string> {
     try {
-      const key = `${document.section}/${document.title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}.json`;
+      const key = this.getDocumentKey(document.section, document.title, document.language);
       
       const command = new PutObjectCommand({
         Bucket: KNOWLEDGE_BASE_BUCKET,
@@ -264,11 +541,77 @@ export class KnowledgeBaseService {
   }
 
   /**
-   * Get source attribution for AI responses
+   * Remove a document from the knowledge base; false when the key isn't a stored document.
+   * The bucket is versioned, so the content stays recoverable. Rebuild the index afterwards.
+   */
+  static async deleteDocument(key: string): Promise<boolean> {
+    if (!key.endsWith('.json') || !this.isDocumentKey(key) || !(await this.getDocument(key))) {
+      return false;
+    }
+
+    await s3Client.send(new DeleteObjectCommand({
+      Bucket: KNOWLEDGE_BASE_BUCKET,
+      Key: key,
+    }));
+    return true;
+  }
+
+  /**
+   * Number retrieved passages for the prompt and describe each as a citation candidate
+   */
+  static buildCitationContext(passages: ScoredPassage[]): { context: string; citations: Citation[] } {
+    const citations = passages.map(({ passage }, index) => ({
+      id: index + 1,
+      documentKey: passage.documentKey,
+      title: passage.title,
+      excerpt: passage.text.length > CITATION_EXCERPT_LENGTH
+        ? `${passage.text.slice(0, CITATION_EXCERPT_LENGTH).trimEnd()}...`
+        : passage.text,
+      url: passage.sourceUrl,
+    }));
+
+    const context = passages
+      .map(({ passage }, index) => `[${index + 1}] ${passage.title}: ${passage.text}`)
+      .join('\n\n');
+
+    return { context, citations };
+  }
+
+  /**
+   * Keep the citations the answer actually uses, renumbered in order of first use.
+   * Markers that don't match a retrieved passage are removed from the text.
    */
-  static formatSourceAttribution(sources: string[]): string {
+  static applyCitations(text: string, candidates: Citation[]): { text: string; citations: Citation[] } {
+    const cited: Citation[] = [];
+    const renumbered = new Map<number, number>();
+
+    const citedText = text.replace(CITATION_MARKER, (_, space: string, id: string) => {
+      const candidate = candidates.find(citation => citation.id === Number(id));
+      if (!candidate) {
+        return '';
+      }
+
+      if (!renumbered.has(candidate.id)) {
+        cited.push({ ...candidate, id: cited.length + 1 });
+        renumbered.set(candidate.id, cited.length);
+      }
+      return `${space}[${renumbered.get(candidate.id)}]`;
+    });
+
+    return { text: citedText, citations: cited };
+  }
+
+  /**
+   * Get source attribution for AI responses. Cited passages are listed by number
+   * so the inline markers can be matched to their source.
+   */
+  static formatSourceAttribution(sources: string[], citations: Citation[] = []): string {
+    if (citations.length > 0) {
+      return `\n\n**Sources:**\n${citations.map(citation => `[${citation.id}] ${citation.title} - ${citation.url}`).join('\n')}`;
+    }
+
     if (sources.length === 0) {
-      return '\n\n**Source:** https://studentaid.gov/apply-for-aid/fafsa';
+      return `\n\n**Source:** ${FALLBACK_SOURCE}`;
     }
 
     const uniqueSources = [...new Set(sources)];
@@ -279,4 +622,4 @@ export class KnowledgeBaseService {
 
     return `\n\n**Sources:**\n${uniqueSources.map((source, index) => `${index + 1}. ${source}`).join('\n')}`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import type { KnowledgeDocument } from './knowledge-base';
+import { DEFAULT_LANGUAGE } from './languages';
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Title and keyword terms count more than body text
+const TITLE_WEIGHT = 3;
+const KEYWORD_WEIGHT = 2;
+const MAX_PASSAGE_WORDS = 120;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+export interface KnowledgePassage {
+  id: string;
+  documentKey: string;
+  title: string;
+  section: string;
+  sourceUrl: string;
+  language: string;
+  text: string;
+  // Weighted term counts, including title and keyword terms
+  termFrequencies: Record<string, number>;
+  length: number;
+}
+
+export interface KnowledgeSearchIndex {
+  version: number;
+  builtAt: string;
+  // Hash of the indexed passages; changes only when the knowledge base content does
+  contentVersion: string;
+  documentCount: number;
+  averagePassageLength: number;
+  // Number of passages each term appears in
+  documentFrequencies: Record<string, number>;
+  passages: KnowledgePassage[];
+}
+
+export interface ScoredPassage {
+  passage: KnowledgePassage;
+  score: number;
+}
+
+export class KnowledgeIndex {
+  static readonly VERSION = 3;
+
+  /**
+   * Lowercase, strip accents, split on non-letters and non-digits, drop stopwords and
+   * fold simple plurals. Chinese has no spaces between words, so runs of Han characters
+   * become overlapping character pairs.
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .normalize('NFC')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .flatMap(token => this.splitHan(token))
+      .filter(token => token.length > 1 && !STOPWORDS.has(token))
+      .map(token => this.stem(token));
+  }
+
+  /**
+   * Split a document into passages of roughly MAX_PASSAGE_WORDS words along paragraph
+   * and sentence boundaries
+   */
+  static chunkDocument(document: KnowledgeDocument, maxWords: number = MAX_PASSAGE_WORDS): KnowledgePassage[] {
+    const sentences = document.content
+      .split(/\n\s*\n/)
+      .flatMap(paragraph => paragraph.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+/))
+      .filter(sentence => sentence.length > 0);
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentWords = 0;
+
+    for (const sentence of sentences) {
+      const words = sentence.split(' ').length;
+      if (currentWords > 0 && currentWords + words > maxWords) {
+        chunks.push(current.join(' '));
+        current = [];
+        currentWords = 0;
+      }
+      current.push(sentence);
+      currentWords += words;
+    }
+    if (current.length > 0) {
+      chunks.push(current.join(' '));
+    }
+
+    const titleTerms = this.tokenize(document.title);
+    const keywordTerms = this.tokenize((document.keywords || []).join(' '));
+
+    return chunks.map((text, index) => {
+      const termFrequencies: Record<string, number> = {};
+      const addTerms = (terms: string[], weight: number) => {
+        for (const term of terms) {
+          termFrequencies[term] = (termFrequencies[term] || 0) + weight;
+        }
+      };
+
+      const bodyTerms = this.tokenize(text);
+      addTerms(bodyTerms, 1);
+      addTerms(titleTerms, TITLE_WEIGHT);
+      addTerms(keywordTerms, KEYWORD_WEIGHT);
+
+      return {
+        id: `${document.key}#${index}`,
+        documentKey: document.key,
+        title: document.title,
+        section: document.section,
+        sourceUrl: document.sourceUrl,
+        language: document.language || DEFAULT_LANGUAGE,
+        text,
+        termFrequencies,
+        length: bodyTerms.length,
+      };
+    });
+  }
+
+  /**
+   * Chunk all documents and precompute the term statistics used for scoring
+   */
+  static build(documents: KnowledgeDocument[]): KnowledgeSearchIndex {
+    const passages = documents.flatMap(document => this.chunkDocument(document));
+    const documentFrequencies: Record<string, number> = {};
+
+    for (const passage of passages) {
+      for (const term of Object.keys(passage.termFrequencies)) {
+        documentFrequencies[term] = (documentFrequencies[term] || 0) + 1;
+      }
+    }
+
+    const totalLength = passages.reduce((sum, passage) => sum + passage.length, 0);
+    const contentHash = crypto.createHash('sha256');
+    for (const passage of passages) {
+      contentHash.update(`${passage.id}\n${passage.title}\n${passage.sourceUrl}\n${passage.text}\n`);
+    }
+
+    return {
+      version: this.VERSION,
+      builtAt: new Date().toISOString(),
+      contentVersion: contentHash.digest('hex').slice(0, 16),
+      documentCount: documents.length,
+      averagePassageLength: passages.length > 0 ? totalLength / passages.length : 0,
+      documentFrequencies,
+      passages,
+    };
+  }
+
+  /**
+   * Rank passages against the query with BM25 and return the top k with a positive score,
+   * optionally only from one section or in one language
+   */
+  static search(index: KnowledgeSearchIndex, query: string, topK: number, section?: string, language?: string): ScoredPassage[] {
+    const queryTerms = [...new Set(this.tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const passageCount = index.passages.length;
+    const averageLength = index.averagePassageLength || 1;
+
+    return index.passages
+      .filter(passage => (!section || passage.section === section) && (!language || passage.language === language))
+      .map(passage => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = passage.termFrequencies[term];
+          if (!frequency) {
+            continue;
+          }
+
+          const documentFrequency = index.documentFrequencies[term] || 0;
+          const idf = Math.log(1 + (passageCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          const lengthNorm = 1 - BM25_B + BM25_B * (passage.length / averageLength);
+          score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+        }
+        return { passage, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  private static splitHan(token: string): string[] {
+    if (!/\p{Script=Han}/u.test(token)) {
+      return [token];
+    }
+
+    return (token.match(/\p{Script=Han}+|[^\p{Script=Han}]+/gu) || []).flatMap(run => {
+      const characters = [...run];
+      if (!/\p{Script=Han}/u.test(run) || characters.length < 2) {
+        return [run];
+      }
+      return characters.slice(0, -1).map((character, i) => character + characters[i + 1]);
+    });
+  }
+
+  private static stem(token: string): string {
+    if (token.length > 4 && token.endsWith('ies')) {
+      return `${token.slice(0, -3)}y`;
+    }
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) {
+      return token.slice(0, -1);
+    }
+    return token;
+  }
+}
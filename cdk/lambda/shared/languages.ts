@@ -0,0 +1,17 @@
+// Languages the frontend offers (src/translations.ts). The chat handler answers in these.
+export const SUPPORTED_LANGUAGES = {
+  en: { name: 'English', nativeName: 'English' },
+  es: { name: 'Spanish', nativeName: 'Español' },
+  zh: { name: 'Simplified Chinese', nativeName: '中文' },
+  vi: { name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  ko: { name: 'Korean', nativeName: '한국어' },
+  fr: { name: 'French', nativeName: 'Français' },
+} as const;
+
+export type LanguageCode = keyof typeof SUPPORTED_LANGUAGES;
+
+// Knowledge documents without a language are English
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isSupportedLanguage = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, value);
@@ -0,0 +1,288 @@
+import { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
+import * as crypto from 'crypto';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  systemPrompt: string;
+  history?: LLMMessage[];
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage?: LLMUsage;
+  // The Bedrock guardrail replaced the prompt or the answer with its blocked message
+  guardrailIntervened?: boolean;
+}
+
+export interface LLMStreamChunk {
+  text: string;
+  guardrailIntervened?: boolean;
+}
+
+/**
+ * A text generation backend. Streaming yields text deltas and returns the final usage.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, LLMUsage | undefined, void>;
+}
+
+export type LLMProviderName = 'bedrock' | 'stub';
+
+// Field Bedrock adds to Anthropic response bodies and stream chunks when a guardrail acts
+const GUARDRAIL_ACTION = 'amazon-bedrock-guardrailAction';
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  modelId: string;
+  temperature: number;
+  maxTokens: number;
+  // Bedrock guardrail applied to every call, when one is configured
+  guardrailId?: string;
+  guardrailVersion?: string;
+}
+
+const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'bedrock',
+  modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+  temperature: 0.3,
+  maxTokens: 1000,
+};
+
+const parseNumber = (value: string | undefined, fallback: number, min: number, max: number): number => {
+  if (value === undefined || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    console.warn(`Ignoring invalid LLM setting "${value}", using ${fallback}`);
+    return fallback;
+  }
+
+  return parsed;
+};
+
+/**
+ * Read model settings from the environment (LLM_PROVIDER, LLM_MODEL_ID, LLM_TEMPERATURE, LLM_MAX_TOKENS,
+ * LLM_GUARDRAIL_ID, LLM_GUARDRAIL_VERSION)
+ */
+export const loadLLMConfig = (env: NodeJS.ProcessEnv = process.env): LLMConfig => {
+  const provider = env.LLM_PROVIDER === 'stub' ? 'stub' : DEFAULT_LLM_CONFIG.provider;
+
+  return {
+    provider,
+    modelId: env.LLM_MODEL_ID || (provider === 'stub' ? 'stub' : DEFAULT_LLM_CONFIG.modelId),
+    temperature: parseNumber(env.LLM_TEMPERATURE, DEFAULT_LLM_CONFIG.temperature, 0, 1),
+    maxTokens: Math.floor(parseNumber(env.LLM_MAX_TOKENS, DEFAULT_LLM_CONFIG.maxTokens, 1, 4096)),
+    ...(env.LLM_GUARDRAIL_ID && {
+      guardrailId: env.LLM_GUARDRAIL_ID,
+      guardrailVersion: env.LLM_GUARDRAIL_VERSION || 'DRAFT',
+    }),
+  };
+};
+
+export class BedrockLLMProvider implements LLMProvider {
+  readonly name = 'bedrock';
+  private readonly client: BedrockRuntimeClient;
+
+  constructor(private readonly config: LLMConfig) {
+    // Initialize Bedrock client with privacy-focused configuration
+    this.client = new BedrockRuntimeClient({
+      region: process.env.AWS_REGION || 'us-east-1',
+      // Ensure secure communication
+      endpoint: `https://bedrock-runtime.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com`,
+    });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const command = new InvokeModelCommand({
+        modelId: this.config.modelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify(this.buildRequestBody(request)),
+        ...this.guardrailOptions(),
+        trace: 'DISABLED', // Disable tracing for privacy
+      });
+
+      const response = await this.client.send(command);
+      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+      return {
+        content: responseBody.content[0].text,
+        usage: {
+          inputTokens: responseBody.usage?.input_tokens || 0,
+          outputTokens: responseBody.usage?.output_tokens || 0,
+        },
+        guardrailIntervened: responseBody[GUARDRAIL_ACTION] === 'INTERVENED',
+      };
+    } catch (error) {
+      console.error('Bedrock API error:', error);
+      throw new Error('Failed to generate AI response');
+    }
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, LLMUsage | undefined, void> {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: this.config.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(this.buildRequestBody(request)),
+      ...this.guardrailOptions(),
+      trace: 'DISABLED',
+    });
+
+    let response;
+    try {
+      response = await this.client.send(command);
+    } catch (error) {
+      console.error('Bedrock streaming API error:', error);
+      throw new Error('Failed to generate AI response');
+    }
+
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    const decoder = new TextDecoder();
+
+    try {
+      for await (const event of response.body || []) {
+        if (!event.chunk?.bytes) {
+          continue;
+        }
+
+        const payload = JSON.parse(decoder.decode(event.chunk.bytes));
+        if (payload[GUARDRAIL_ACTION] === 'INTERVENED') {
+          yield { text: '', guardrailIntervened: true };
+        }
+
+        switch (payload.type) {
+          case 'message_start':
+            usage.inputTokens = payload.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (payload.delta?.text) {
+              yield { text: payload.delta.text };
+            }
+            break;
+          case 'message_delta':
+            usage.outputTokens = payload.usage?.output_tokens || usage.outputTokens;
+            break;
+        }
+      }
+    } catch (error) {
+      console.error('Bedrock stream error:', error);
+      throw new Error('Failed to generate AI response');
+    }
+
+    return usage;
+  }
+
+  private guardrailOptions() {
+    return this.config.guardrailId
+      ? { guardrailIdentifier: this.config.guardrailId, guardrailVersion: this.config.guardrailVersion }
+      : {};
+  }
+
+  private buildRequestBody(request: LLMRequest) {
+    return {
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      messages: [
+        ...(request.history || []),
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+      ],
+      system: request.systemPrompt,
+      // Privacy and FERPA compliance configuration
+      metadata: {
+        privacy_mode: true,
+        ferpa_compliant: true,
+        no_training: true,
+        data_retention: 'session_only',
+      },
+    };
+  }
+}
+
+/**
+ * Offline provider for local development and CI. Produces the same answer for the
+ * same request without network access or AWS credentials.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly config: LLMConfig) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const content = this.buildContent(request);
+    return { content, usage: this.estimateUsage(request, content) };
+  }
+
+  async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk, LLMUsage | undefined, void> {
+    const content = this.buildContent(request);
+    for (const word of content.match(/\S+\s*/g) || []) {
+      yield { text: word };
+    }
+    return this.estimateUsage(request, content);
+  }
+
+  private buildContent(request: LLMRequest): string {
+    const fingerprint = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([this.config.modelId, request.systemPrompt, request.history || [], request.prompt]))
+      .digest('hex')
+      .slice(0, 8);
+    const historyCount = request.history?.length || 0;
+
+    return `This is a stub response from the ${this.config.modelId} model (${fingerprint}). ` +
+      `It received ${historyCount} earlier message${historyCount === 1 ? '' : 's'} and a ` +
+      `${request.prompt.length}-character prompt. Verify FAFSA details at StudentAid.gov.`;
+  }
+
+  private estimateUsage(request: LLMRequest, content: string): LLMUsage {
+    const inputLength = request.systemPrompt.length + request.prompt.length +
+      (request.history || []).reduce((total, message) => total + message.content.length, 0);
+
+    return {
+      inputTokens: Math.ceil(inputLength / 4),
+      outputTokens: Math.ceil(content.length / 4),
+    };
+  }
+}
+
+export const createLLMProvider = (config: LLMConfig = loadLLMConfig()): LLMProvider => {
+  return config.provider === 'stub' ? new StubLLMProvider(config) : new BedrockLLMProvider(config);
+};
+
+let activeProvider: LLMProvider | undefined;
+
+/**
+ * Provider for the current Lambda container, created from configuration on first use
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Replace the active provider, or pass undefined to re-read configuration on next use
+ */
+export const setLLMProvider = (provider?: LLMProvider): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,388 @@
+import { DEFAULT_LANGUAGE, LanguageCode } from './languages';
+
+// PII detection shared by the chat Lambda and the frontend (imported there as @pii), so both
+// sides redact the same things. Keep this file free of Node and browser APIs.
+
+export type PIIType =
+  | 'ssn'
+  | 'creditCard'
+  | 'bankAccount'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'dateOfBirth'
+  | 'driverLicense'
+  | 'fsaId'
+  | 'aNumber';
+
+export interface PIIMatch {
+  type: PIIType;
+  value: string;
+  start: number;
+  end: number;
+  // How likely the text is this kind of PII rather than something shaped like it, from 0 to 1
+  confidence: number;
+}
+
+export interface PIIOptions {
+  // The site language, which sets the date order and the words that mark a nearby number as PII
+  locale?: LanguageCode;
+  // Matches less certain than this are ignored
+  minConfidence?: number;
+}
+
+export interface PIIRedaction {
+  text: string;
+  matches: PIIMatch[];
+  types: PIIType[];
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+export const PII_LABELS: Record<PIIType, { name: string; replacement: string; warning: string }> = {
+  ssn: { name: 'Social Security Number', replacement: '[SSN_REDACTED]', warning: 'Social Security Number detected and removed for your privacy' },
+  creditCard: { name: 'Credit card number', replacement: '[CARD_REDACTED]', warning: 'Credit card number detected and removed for your privacy' },
+  bankAccount: { name: 'Bank account number', replacement: '[ACCOUNT_REDACTED]', warning: 'Bank account number detected and removed for your privacy' },
+  phone: { name: 'Phone number', replacement: '[PHONE_REDACTED]', warning: 'Phone number detected and removed for your privacy' },
+  email: { name: 'Email address', replacement: '[EMAIL_REDACTED]', warning: 'Email address detected and removed for your privacy' },
+  address: { name: 'Street address', replacement: '[ADDRESS_REDACTED]', warning: 'Street address detected and removed for your privacy' },
+  dateOfBirth: { name: 'Date of birth', replacement: '[DOB_REDACTED]', warning: 'Date of birth detected and removed for your privacy' },
+  driverLicense: { name: 'Driver license number', replacement: '[LICENSE_REDACTED]', warning: 'Driver license number detected and removed for your privacy' },
+  fsaId: { name: 'FSA ID login', replacement: '[FSA_ID_REDACTED]', warning: 'FSA ID login details detected and removed for your privacy' },
+  aNumber: { name: 'Alien Registration Number', replacement: '[A_NUMBER_REDACTED]', warning: 'Alien Registration Number detected and removed for your privacy' },
+};
+
+type KeywordKind = 'ssn' | 'account' | 'birth' | 'license' | 'aNumber';
+
+// Words that turn a bare number into PII, in each site language. English is always checked too.
+const KEYWORDS: Record<KeywordKind, Record<LanguageCode, string[]>> = {
+  ssn: {
+    en: ['ssn', 'social security'],
+    es: ['seguro social', 'número de seguro'],
+    zh: ['社会安全号', '社安号', '社保号'],
+    vi: ['an sinh xã hội'],
+    ko: ['사회보장번호'],
+    fr: ['sécurité sociale', 'numéro de sécu'],
+  },
+  account: {
+    en: ['account', 'acct', 'routing', 'checking', 'savings'],
+    es: ['cuenta', 'número de ruta'],
+    zh: ['账号', '账户', '帐户'],
+    vi: ['tài khoản'],
+    ko: ['계좌'],
+    fr: ['compte', 'rib'],
+  },
+  birth: {
+    en: ['born', 'birth', 'birthday', 'dob', 'bday'],
+    es: ['nací', 'nació', 'nacimiento', 'cumpleaños'],
+    zh: ['出生', '生日'],
+    vi: ['ngày sinh', 'sinh ngày', 'sinh năm'],
+    ko: ['생년월일', '생일', '출생'],
+    fr: ['né', 'née', 'naissance', 'anniversaire'],
+  },
+  license: {
+    en: ['driver\'s license', 'drivers license', 'driver license', 'license number', 'dl'],
+    es: ['licencia de conducir', 'licencia'],
+    zh: ['驾照', '驾驶执照'],
+    vi: ['bằng lái'],
+    ko: ['운전면허'],
+    fr: ['permis de conduire', 'permis'],
+  },
+  aNumber: {
+    en: ['a-number', 'a number', 'alien registration', 'uscis number'],
+    es: ['número a', 'número de registro de extranjero'],
+    zh: ['外国人登记号'],
+    vi: ['số a'],
+    ko: ['외국인 등록번호'],
+    fr: ['numéro a', 'numéro d\'étranger'],
+  },
+};
+
+// How far before a number to look for a keyword
+const KEYWORD_WINDOW = 40;
+
+const MONTHS: Partial<Record<LanguageCode, string[]>> = {
+  en: ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+  es: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+  fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+};
+
+// Languages whose numeric dates put the day first (03/05/2007 is 3 May)
+const DAY_FIRST_LOCALES: LanguageCode[] = ['es', 'fr', 'vi'];
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Lane|Ln|Boulevard|Blvd|Way|Court|Ct|Place|Pl|Circle|Cir|' +
+  'Terrace|Ter|Parkway|Pkwy|Highway|Hwy|Trail|Trl';
+const UNIT = String.raw`(?:,?\s*(?:Apt|Apartment|Unit|Suite|Ste|#)\.?\s*#?[A-Za-z0-9-]+)?`;
+const CITY_STATE_ZIP = String.raw`(?:,\s*[A-Za-z][A-Za-z .'-]{1,30},?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?)?`;
+
+const ADDRESS_PATTERNS: Partial<Record<LanguageCode, RegExp[]>> = {
+  en: [
+    new RegExp(String.raw`\b\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){1,4}?(?:${STREET_SUFFIXES})\b\.?${UNIT}${CITY_STATE_ZIP}`, 'g'),
+    /\bP\.?\s?O\.?\s+Box\s+\d{1,6}\b/gi,
+  ],
+  es: [/\b(?:Calle|Avenida|Av\.|Camino|Carretera|Paseo)\s+(?:[\p{L}0-9.'-]+\s+){0,4}?(?:#\s*)?\d{1,6}\b/giu],
+  fr: [/\b\d{1,5}(?:\s?(?:bis|ter))?,?\s+(?:rue|avenue|boulevard|bd|chemin|allée|impasse|place)\s+(?:[\p{L}'-]+\s?){1,4}/giu],
+};
+
+// Toll-free numbers belong to businesses and agencies, such as the FSA Information Center
+const TOLL_FREE_AREA_CODES = ['800', '833', '844', '855', '866', '877', '888'];
+
+/**
+ * Finds and redacts personal information in chat text. Detectors validate what they find
+ * (Luhn checks for cards, SSN area rules, real calendar dates) and score it, so numbers that
+ * only look like PII, such as ZIP+4 codes, incomes and years, are left alone.
+ */
+export class PIIDetector {
+  /**
+   * Find PII in text, most certain types first, without overlapping matches
+   */
+  static detect(text: string, options: PIIOptions = {}): PIIMatch[] {
+    const locale = options.locale ?? DEFAULT_LANGUAGE;
+    const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const accepted: PIIMatch[] = [];
+
+    for (const detector of DETECTORS) {
+      for (const match of detector(text, locale)) {
+        const overlaps = accepted.some(other => match.start < other.end && other.start < match.end);
+        if (match.confidence >= minConfidence && !overlaps) {
+          accepted.push(match);
+        }
+      }
+    }
+
+    return accepted.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replace each match with a placeholder naming its type, e.g. [SSN_REDACTED]
+   */
+  static redact(text: string, options: PIIOptions = {}): PIIRedaction {
+    const matches = this.detect(text, options);
+    let redacted = text;
+
+    for (const match of [...matches].reverse()) {
+      redacted = redacted.slice(0, match.start) + PII_LABELS[match.type].replacement + redacted.slice(match.end);
+    }
+
+    return {
+      text: redacted,
+      matches,
+      types: [...new Set(matches.map(match => match.type))],
+    };
+  }
+
+  static hasPII(text: string, options: PIIOptions = {}): boolean {
+    return this.detect(text, options).length > 0;
+  }
+}
+
+type Detector = (text: string, locale: LanguageCode) => PIIMatch[];
+
+const DETECTORS: Detector[] = [
+  detectEmails,
+  detectCards,
+  detectBankAccounts,
+  detectANumbers,
+  detectSSNs,
+  detectPhones,
+  detectFsaIds,
+  detectDatesOfBirth,
+  detectAddresses,
+  detectDriverLicenses,
+];
+
+function detectEmails(text: string): PIIMatch[] {
+  return [...text.matchAll(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g)]
+    .map(match => toMatch('email', match, 0.99));
+}
+
+function detectCards(text: string): PIIMatch[] {
+  const pattern = /(?<![\d-])(?:\d{4}([ -])\d{4}\1\d{4}\1\d{4}(?:\1\d{1,3})?|3[47]\d{2}([ -])\d{6}\2\d{5}|\d{13,19})(?![\d-])/g;
+
+  return [...text.matchAll(pattern)].flatMap(match => {
+    const digits = match[0].replace(/\D/g, '');
+    const isCard = /^(?:4|5[1-5]|2[2-7]|3[47]|3(?:0[0-5]|[68])|6(?:011|5))/.test(digits) && passesLuhn(digits);
+
+    return isCard ? [toMatch('creditCard', match, /\D/.test(match[0]) ? 0.95 : 0.85)] : [];
+  });
+}
+
+// Bank account numbers have no format, so only numbers next to a word like "account" count
+function detectBankAccounts(text: string, locale: LanguageCode): PIIMatch[] {
+  return [...text.matchAll(/(?<![\d-])\d{8,17}(?![\d-])/g)].flatMap(match => {
+    if (!hasKeywordBefore(text, match.index!, 'account', locale)) {
+      return [];
+    }
+
+    const isRoutingNumber = match[0].length === 9 && passesAbaChecksum(match[0]);
+    return [toMatch('bankAccount', match, isRoutingNumber ? 0.9 : 0.85)];
+  });
+}
+
+// Alien Registration Numbers: A followed by 7 to 9 digits, e.g. A123456789 or A-123-456-789
+function detectANumbers(text: string, locale: LanguageCode): PIIMatch[] {
+  const prefixed = [...text.matchAll(/\bA(-|#|\s)?(\d{3}[-\s]?\d{3}[-\s]?\d{3}|\d{7,9})(?![\d-])/g)].map(match => {
+    const confidence = hasKeywordBefore(text, match.index!, 'aNumber', locale) ? 0.95 : match[1] === ' ' ? 0.6 : 0.85;
+    return toMatch('aNumber', match, confidence);
+  });
+  const bare = [...text.matchAll(/(?<![\d-])\d{7,9}(?![\d-])/g)]
+    .filter(match => hasKeywordBefore(text, match.index!, 'aNumber', locale))
+    .map(match => toMatch('aNumber', match, 0.9));
+
+  return [...prefixed, ...bare];
+}
+
+// SSN area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+function detectSSNs(text: string, locale: LanguageCode): PIIMatch[] {
+  return [...text.matchAll(/(?<![\d-])(\d{3})([- ]?)(\d{2})\2(\d{4})(?![\d-])/g)].flatMap(match => {
+    const [, area, separator, group, serial] = match;
+    if (area === '000' || area === '666' || area.startsWith('9') || group === '00' || serial === '0000') {
+      return [];
+    }
+
+    const confidence = hasKeywordBefore(text, match.index!, 'ssn', locale) ? 0.95 : separator ? 0.9 : 0.6;
+    return [toMatch('ssn', match, confidence)];
+  });
+}
+
+// North American numbers: area code and exchange never start with 0 or 1
+function detectPhones(text: string): PIIMatch[] {
+  const pattern = /(?<![\d-])(?:\+?1[-.\s]?)?(?:\(([2-9]\d{2})\)\s?|([2-9]\d{2})([-.\s]?))[2-9]\d{2}[-.\s]?\d{4}(?![\d-])/g;
+
+  return [...text.matchAll(pattern)].map(match => {
+    const areaCode = match[1] ?? match[2];
+    const formatted = match[1] !== undefined || match[3] !== '';
+    const confidence = TOLL_FREE_AREA_CODES.includes(areaCode) ? 0.3 : formatted ? 0.85 : 0.6;
+
+    return toMatch('phone', match, confidence);
+  });
+}
+
+// FSA ID usernames and passwords, e.g. "my FSA ID is jdoe2007" or "password: Hunter2!"
+function detectFsaIds(text: string): PIIMatch[] {
+  const verb = String.raw`\s*(?:is|was|es|est|era|là|是|为|는|은|=|:)\s*["']?`;
+  const patterns: [RegExp, number][] = [
+    [new RegExp(String.raw`\bFSA\s*ID\b(?:\s+(?:username|user\s*name|password|login))?${verb}([^\s"',;]+)`, 'giu'), 0.8],
+    [new RegExp(String.raw`(?:password|passcode|contraseña|mot de passe|mật khẩu|密码|비밀번호)${verb}([^\s"',;]+)`, 'giu'), 0.9],
+  ];
+
+  return patterns.flatMap(([pattern, confidence]) => [...text.matchAll(pattern)].flatMap(match => {
+    const value = match[1];
+    // "My FSA ID is locked" is about the account, not a login detail
+    if (value.length < 4 || !/[\d_@.!#$%&*]/.test(value)) {
+      return [];
+    }
+
+    const start = match.index! + match[0].length - value.length;
+    return [{ type: 'fsaId' as const, value, start, end: start + value.length, confidence }];
+  }));
+}
+
+function detectDatesOfBirth(text: string, locale: LanguageCode): PIIMatch[] {
+  const dayFirst = DAY_FIRST_LOCALES.includes(locale);
+  const candidates: { match: RegExpMatchArray; year: number; month: number; day: number }[] = [];
+  const collect = (pattern: RegExp, parts: (match: RegExpMatchArray) => [number, number, number]) => {
+    for (const match of text.matchAll(pattern)) {
+      const [year, month, day] = parts(match);
+      candidates.push({ match, year, month, day });
+    }
+  };
+
+  collect(/(?<!\d|\d[/.-])(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?!\d|[/.-]\d)/g, ([, first, second, year]) =>
+    dayFirst ? [Number(year), Number(second), Number(first)] : [Number(year), Number(first), Number(second)]);
+  collect(/(?<!\d|\d[/.-])(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})(?!\d|[/.-]\d)/g, ([, year, month, day]) =>
+    [Number(year), Number(month), Number(day)]);
+  collect(/(\d{4})\s*[年년]\s*(\d{1,2})\s*[月월]\s*(\d{1,2})\s*[日일]?/g, ([, year, month, day]) =>
+    [Number(year), Number(month), Number(day)]);
+  collect(/ngày\s+(\d{1,2})\s+tháng\s+(\d{1,2})\s+năm\s+(\d{4})/giu, ([, day, month, year]) =>
+    [Number(year), Number(month), Number(day)]);
+
+  const monthNumber = (name: string) => {
+    const lower = name.toLowerCase();
+    return Object.values(MONTHS).reduce((found, months) =>
+      found || months!.findIndex(month => month === lower || (lower.length >= 3 && month.startsWith(lower))) + 1, 0);
+  };
+  const localeMonths = locale !== DEFAULT_LANGUAGE ? MONTHS[locale] ?? [] : [];
+  const english = MONTHS.en!.map(month => `${month}|${month.slice(0, 3)}`).join('|');
+
+  collect(new RegExp(String.raw`\b(${english})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b`, 'gi'), ([, month, day, year]) =>
+    [Number(year), monthNumber(month), Number(day)]);
+  if (localeMonths.length > 0) {
+    collect(new RegExp(String.raw`\b(\d{1,2})(?:er)?\s+(?:de\s+)?(${localeMonths.join('|')})\s+(?:de(?:l)?\s+)?(\d{4})\b`, 'giu'),
+      ([, day, month, year]) => [Number(year), monthNumber(month), Number(day)]);
+  }
+
+  const currentYear = new Date().getUTCFullYear();
+  return candidates.flatMap(({ match, year, month, day }) => {
+    if (!isCalendarDate(year, month, day) || year < 1900 || year > currentYear) {
+      return [];
+    }
+
+    // Dates near a word like "born" are birthdays; other dates are only likely to be when they are
+    // old enough to be a student's or parent's, so deadlines and tax-year dates are left alone
+    const confidence = hasKeywordBefore(text, match.index!, 'birth', locale) ? 0.9 : year <= currentYear - 13 ? 0.5 : 0.2;
+    return [toMatch('dateOfBirth', match, confidence)];
+  });
+}
+
+function detectAddresses(text: string, locale: LanguageCode): PIIMatch[] {
+  const patterns = [...ADDRESS_PATTERNS.en!, ...(locale !== DEFAULT_LANGUAGE ? ADDRESS_PATTERNS[locale] ?? [] : [])];
+
+  return patterns.flatMap(pattern => [...text.matchAll(pattern)].map(match => {
+    const value = match[0].trimEnd();
+    // A ZIP code or unit number makes a street name much more likely to be someone's address
+    const confidence = /\d{5}(?:-\d{4})?$|\b(?:Apt|Apartment|Unit|Suite|Ste)\b|#/i.test(value) ? 0.9 : 0.75;
+    return { type: 'address' as const, value, start: match.index!, end: match.index! + value.length, confidence };
+  }));
+}
+
+function detectDriverLicenses(text: string, locale: LanguageCode): PIIMatch[] {
+  return [...text.matchAll(/\b(?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{4,14}\b/g)]
+    .filter(match => hasKeywordBefore(text, match.index!, 'license', locale))
+    .map(match => toMatch('driverLicense', match, 0.85));
+}
+
+function toMatch(type: PIIType, match: RegExpMatchArray, confidence: number): PIIMatch {
+  const start = match.index!;
+  return { type, value: match[0], start, end: start + match[0].length, confidence };
+}
+
+function hasKeywordBefore(text: string, index: number, kind: KeywordKind, locale: LanguageCode): boolean {
+  const before = text.slice(Math.max(0, index - KEYWORD_WINDOW), index).toLowerCase();
+  const keywords = new Set([...KEYWORDS[kind].en, ...KEYWORDS[kind][locale]]);
+
+  return [...keywords].some(keyword => {
+    const at = before.lastIndexOf(keyword);
+    if (at === -1) {
+      return false;
+    }
+    // Chinese and Korean words run into their neighbours; elsewhere "dl" shouldn't match "handle"
+    if (/[\u3040-\u9fff\uac00-\ud7af]/.test(keyword)) {
+      return true;
+    }
+    return !/\p{L}/u.test(before[at - 1] ?? '') && !/\p{L}/u.test(before[at + keyword.length] ?? '');
+  });
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function passesAbaChecksum(digits: string): boolean {
+  const d = [...digits].map(Number);
+  return (3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])) % 10 === 0;
+}
+
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
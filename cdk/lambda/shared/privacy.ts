@@ -0,0 +1,18 @@
+import { PII_LABELS, PIIDetector, PIIOptions, PIIType } from './pii';
+
+// Privacy service for PII detection and sanitization. Detection lives in ./pii, shared with the frontend.
+export class PrivacyService {
+  static detectAndSanitizePII(
+    text: string,
+    options: PIIOptions = {}
+  ): { hasPII: boolean; sanitizedText: string; warnings: string[]; detectedTypes: PIIType[] } {
+    const { text: sanitizedText, types } = PIIDetector.redact(text, options);
+
+    return {
+      hasPII: types.length > 0,
+      sanitizedText,
+      warnings: types.map(type => PII_LABELS[type].warning),
+      detectedTypes: types,
+    };
+  }
+}
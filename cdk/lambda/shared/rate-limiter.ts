@@ -0,0 +1,234 @@
+import { APIGatewayProxyEvent, positiveInteger } from './types';
+import { DynamoDBService, TABLES } from './dynamodb';
+import { Caller } from './caller';
+import { LLMUsage } from './llm-provider';
+import { RateLimitErrorResponse } from './contracts';
+
+// Times a bucket write may lose to a concurrent request before the request is refused
+const MAX_WRITE_ATTEMPTS = 3;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface TokenBucketLimit {
+  // Requests that can be made back to back
+  capacity: number;
+  // Requests added back per minute, up to the capacity
+  refillPerMinute: number;
+}
+
+export interface RateLimitSettings {
+  user: TokenBucketLimit;
+  guest: TokenBucketLimit;
+  // Everyone behind one address shares this bucket, so it allows for a school or library network
+  ip: TokenBucketLimit;
+  // Model input and output tokens a signed-in user may use per UTC day
+  dailyTokenBudget: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; reason?: undefined; retryAfterSeconds?: undefined }
+  | { allowed: false; reason: 'rate' | 'daily-budget'; retryAfterSeconds: number };
+
+export interface RateLimitError {
+  statusCode: 429;
+  headers: { [key: string]: string };
+  body: RateLimitErrorResponse;
+}
+
+/**
+ * Token buckets per user, guest session and IP address, and a daily token budget per user,
+ * kept in the RateLimits table so every Lambda instance sees the same counts
+ */
+export class RateLimiter {
+  /**
+   * Bucket sizes, refill rates and the daily budget, overridable with the CHAT_*_BURST,
+   * CHAT_*_REQUESTS_PER_MINUTE and DAILY_TOKEN_BUDGET variables
+   */
+  static getSettings(env: NodeJS.ProcessEnv = process.env): RateLimitSettings {
+    return {
+      user: {
+        capacity: positiveInteger('CHAT_USER_BURST', env.CHAT_USER_BURST, 10),
+        refillPerMinute: positiveInteger('CHAT_USER_REQUESTS_PER_MINUTE', env.CHAT_USER_REQUESTS_PER_MINUTE, 6),
+      },
+      guest: {
+        capacity: positiveInteger('CHAT_GUEST_BURST', env.CHAT_GUEST_BURST, 5),
+        refillPerMinute: positiveInteger('CHAT_GUEST_REQUESTS_PER_MINUTE', env.CHAT_GUEST_REQUESTS_PER_MINUTE, 3),
+      },
+      ip: {
+        capacity: positiveInteger('CHAT_IP_BURST', env.CHAT_IP_BURST, 60),
+        refillPerMinute: positiveInteger('CHAT_IP_REQUESTS_PER_MINUTE', env.CHAT_IP_REQUESTS_PER_MINUTE, 30),
+      },
+      dailyTokenBudget: positiveInteger('DAILY_TOKEN_BUDGET', env.DAILY_TOKEN_BUDGET, 100000),
+    };
+  }
+
+  /**
+   * Check a signed-in caller's daily budget, then take one request from the caller's bucket and
+   * from their address's bucket
+   */
+  static async checkChatRequest(
+    caller: Caller,
+    event: APIGatewayProxyEvent,
+    settings: RateLimitSettings = this.getSettings(),
+    now: number = Date.now()
+  ): Promise<RateLimitDecision> {
+    if (!caller.isGuest) {
+      const budget = await this.checkDailyBudget(caller.userId, settings.dailyTokenBudget, now);
+      if (!budget.allowed) {
+        return budget;
+      }
+    }
+
+    const buckets: Array<[string, TokenBucketLimit]> = [
+      caller.isGuest ? [`guest#${caller.userId}`, settings.guest] : [`user#${caller.userId}`, settings.user],
+    ];
+    const sourceIp = this.getSourceIp(event);
+    if (sourceIp) {
+      buckets.push([`ip#${sourceIp}`, settings.ip]);
+    }
+
+    for (const [bucketKey, limit] of buckets) {
+      const decision = await this.take(bucketKey, limit, now);
+      if (!decision.allowed) {
+        return decision;
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Take one request from a bucket. The read and the conditional write on `refilledAt` make a
+   * compare-and-swap, so concurrent requests can't both spend the last token.
+   */
+  static async take(bucketKey: string, limit: TokenBucketLimit, now: number = Date.now()): Promise<RateLimitDecision> {
+    const refillPerMs = limit.refillPerMinute / 60000;
+
+    try {
+      for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+        const bucket = await DynamoDBService.getItem(TABLES.RATE_LIMITS, { bucketKey });
+        const refilledAt = Math.max(now, bucket?.refilledAt ?? 0);
+        const tokens = bucket
+          ? Math.min(limit.capacity, bucket.tokens + Math.max(0, now - bucket.refilledAt) * refillPerMs)
+          : limit.capacity;
+
+        if (tokens < 1) {
+          return { allowed: false, reason: 'rate', retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000) };
+        }
+
+        const remaining = tokens - 1;
+        try {
+          await DynamoDBService.updateItem(
+            TABLES.RATE_LIMITS,
+            { bucketKey },
+            'SET tokens = :tokens, refilledAt = :refilledAt, expiresAt = :expiresAt',
+            {
+              ':tokens': remaining,
+              ':refilledAt': refilledAt,
+              ':previous': bucket?.refilledAt ?? 0,
+              // A bucket left alone until it is full again is the same as no bucket
+              ':expiresAt': Math.ceil((refilledAt + (limit.capacity - remaining) / refillPerMs) / 1000),
+            },
+            'attribute_not_exists(bucketKey) OR refilledAt = :previous'
+          );
+          return { allowed: true };
+        } catch (error: any) {
+          if (error?.name !== 'ConditionalCheckFailedException') {
+            throw error;
+          }
+          // Another request spent from the bucket after it was read; read it again
+        }
+      }
+
+      return { allowed: false, reason: 'rate', retryAfterSeconds: 1 };
+    } catch (error) {
+      console.error('Rate limit error:', error);
+      // Don't throw - a rate limit storage failure shouldn't stop anyone from getting answers
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Refuse users who have used today's budget until midnight UTC. A request that starts under
+   * the budget is answered in full, so a day's total can go slightly over.
+   */
+  static async checkDailyBudget(userId: string, budget: number, now: number = Date.now()): Promise<RateLimitDecision> {
+    try {
+      const day = await DynamoDBService.getItem(TABLES.RATE_LIMITS, { bucketKey: this.dailyKey(userId, now) });
+      if ((day?.tokensUsed ?? 0) >= budget) {
+        return {
+          allowed: false,
+          reason: 'daily-budget',
+          retryAfterSeconds: Math.ceil((this.nextUtcMidnight(now) - now) / 1000),
+        };
+      }
+      return { allowed: true };
+    } catch (error) {
+      console.error('Daily budget error:', error);
+      // Don't throw - a rate limit storage failure shouldn't stop anyone from getting answers
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Add the tokens a signed-in user's request used to today's total
+   */
+  static async recordUsage(userId: string, usage: Array<LLMUsage | undefined>, now: number = Date.now()): Promise<void> {
+    const tokens = usage.reduce((total, entry) => total + (entry ? entry.inputTokens + entry.outputTokens : 0), 0);
+    if (tokens <= 0) {
+      return;
+    }
+
+    try {
+      await DynamoDBService.updateItem(
+        TABLES.RATE_LIMITS,
+        { bucketKey: this.dailyKey(userId, now) },
+        'ADD tokensUsed :tokens SET expiresAt = :expiresAt',
+        { ':tokens': tokens, ':expiresAt': Math.ceil((this.nextUtcMidnight(now) + MS_PER_DAY) / 1000) }
+      );
+    } catch (error) {
+      console.error('Token usage error:', error);
+      // Don't throw - the answer has already been generated
+    }
+  }
+
+  /**
+   * The 429 response for a refused request. Retry-After is exposed so the browser can read it.
+   */
+  static toErrorResponse(decision: Extract<RateLimitDecision, { allowed: false }>): RateLimitError {
+    const { retryAfterSeconds } = decision;
+
+    return {
+      statusCode: 429,
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+        'Access-Control-Expose-Headers': 'Retry-After',
+      },
+      body: decision.reason === 'daily-budget'
+        ? {
+          success: false,
+          error: 'You\'ve reached today\'s limit for questions. It resets at midnight UTC.',
+          code: 'DAILY_BUDGET_EXCEEDED',
+          details: { retryAfterSeconds },
+        }
+        : {
+          success: false,
+          error: 'You\'re sending questions faster than we can answer them. Please wait a moment.',
+          code: 'RATE_LIMITED',
+          details: { retryAfterSeconds },
+        },
+    };
+  }
+
+  // API Gateway and function URL events keep the caller's address in different places
+  private static getSourceIp(event: APIGatewayProxyEvent): string | undefined {
+    return event.requestContext.http?.sourceIp || event.requestContext.identity?.sourceIp || undefined;
+  }
+
+  private static dailyKey(userId: string, now: number): string {
+    return `daily#${userId}#${new Date(now).toISOString().slice(0, 10)}`;
+  }
+
+  private static nextUtcMidnight(now: number): number {
+    return (Math.floor(now / MS_PER_DAY) + 1) * MS_PER_DAY;
+  }
+}
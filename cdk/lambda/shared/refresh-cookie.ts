@@ -0,0 +1,61 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from './types';
+
+// __Host- cookies must be Secure with Path=/ and no Domain, so no other host can set or read them
+const COOKIE_NAME = '__Host-refresh_token';
+// The user pool client's refresh token validity
+const MAX_AGE_SECONDS = 24 * 60 * 60;
+// The API and the frontend are on different sites, so the cookie must be SameSite=None to be
+// sent at all. Partitioned keeps it working where third-party cookies are blocked.
+const COOKIE_ATTRIBUTES = 'Path=/; HttpOnly; Secure; SameSite=None; Partitioned';
+
+/**
+ * The refresh token lives in an HttpOnly cookie that only the auth routes read or set, so
+ * scripts on the page never see it
+ */
+export class RefreshTokenCookie {
+  static read(event: APIGatewayProxyEvent): string | undefined {
+    const header = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === 'cookie')?.[1];
+    const cookie = (header || '').split(';')
+      .map(part => part.trim())
+      .find(part => part.startsWith(`${COOKIE_NAME}=`));
+
+    return cookie ? decodeURIComponent(cookie.slice(COOKIE_NAME.length + 1)) || undefined : undefined;
+  }
+
+  static set(refreshToken: string): Record<string, string> {
+    return { 'Set-Cookie': `${COOKIE_NAME}=${encodeURIComponent(refreshToken)}; Max-Age=${MAX_AGE_SECONDS}; ${COOKIE_ATTRIBUTES}` };
+  }
+
+  static clear(): Record<string, string> {
+    return { 'Set-Cookie': `${COOKIE_NAME}=; Max-Age=0; ${COOKIE_ATTRIBUTES}` };
+  }
+
+  /**
+   * Let the frontend read the response to a request sent with the cookie. Browsers refuse
+   * credentialed responses with a wildcard origin, so an origin in CORS_ALLOWED_ORIGINS
+   * (comma-separated, `*` matching any part of a host or port) is named instead.
+   */
+  static withCredentials(event: APIGatewayProxyEvent, response: APIGatewayProxyResult): APIGatewayProxyResult {
+    const origin = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === 'origin')?.[1];
+    if (!origin || !this.isAllowedOrigin(origin)) {
+      return response;
+    }
+
+    return {
+      ...response,
+      headers: {
+        ...response.headers,
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Credentials': 'true',
+        Vary: 'Origin',
+      },
+    };
+  }
+
+  private static isAllowedOrigin(origin: string, env: NodeJS.ProcessEnv = process.env): boolean {
+    return (env.CORS_ALLOWED_ORIGINS || '').split(',')
+      .map(pattern => pattern.trim())
+      .filter(pattern => pattern.length > 0)
+      .some(pattern => new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`).test(origin));
+  }
+}
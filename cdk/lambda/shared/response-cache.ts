@@ -0,0 +1,214 @@
+import * as crypto from 'crypto';
+import { DynamoDBService, TABLES } from './dynamodb';
+import { KnowledgeIndex } from './knowledge-index';
+import type { Citation } from './knowledge-base';
+import type { LanguageCode } from './languages';
+
+// Words that change how a question is phrased but not what it asks
+const FILLER_WORDS = new Set([
+  'about', 'am', 'any', 'could', 'did', 'explain', 'get', 'give', 'has', 'have', 'help', 'know', 'mean',
+  'need', 'please', 'should', 'some', 'tell', 'there', 'would',
+]);
+
+// Question words are stopwords for search, but "when" and "where" ask different questions
+const INTERROGATIVES = new Set(['how', 'what', 'when', 'where', 'which', 'who', 'why']);
+
+// Map alternative phrasings onto one term (applied after tokenizing, so keys are singular)
+const SYNONYMS: Record<string, string> = {
+  due: 'deadline',
+  cutoff: 'deadline',
+  duedate: 'deadline',
+  begin: 'open',
+  start: 'open',
+  launch: 'open',
+  efc: 'sai',
+  money: 'aid',
+  funding: 'aid',
+  finaid: 'aid',
+  mother: 'mom',
+  father: 'dad',
+  college: 'school',
+  university: 'school',
+  much: 'amount',
+  maximum: 'max',
+};
+
+// Topics get their own TTL; the first topic with a matching term wins
+const TOPIC_TERMS: { topic: CacheTopic; terms: string[] }[] = [
+  { topic: 'deadlines', terms: ['deadline', 'open', 'close', 'date', 'late'] },
+  { topic: 'amounts', terms: ['amount', 'max', 'pell', 'grant', 'loan', 'limit', 'aid'] },
+];
+
+export type CacheTopic = 'deadlines' | 'amounts' | 'general';
+
+const DEFAULT_TTL_HOURS: Record<CacheTopic, number> = {
+  deadlines: 1,
+  amounts: 6,
+  general: 24,
+};
+
+export interface CacheKey {
+  queryHash: string;
+  normalizedQuery: string;
+  topic: CacheTopic;
+  knowledgeBaseVersion: string;
+  language: LanguageCode;
+}
+
+export interface CachedResponse extends CacheKey {
+  response: string;
+  sources: string[];
+  citations: Citation[];
+  createdAt: string;
+  hitCount: number;
+  expiresAt: number;
+}
+
+// Where a cached answer came from, stored in the AI message metadata
+export interface CacheProvenance {
+  hit: boolean;
+  normalizedQuery: string;
+  topic: CacheTopic;
+  knowledgeBaseVersion: string;
+  language: LanguageCode;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+export class ResponseCacheService {
+  /**
+   * Reduce a question to its intent: stopwords, filler words and punctuation are removed,
+   * synonyms are mapped onto one term and the remaining terms are sorted, so
+   * "When's the FAFSA deadline?" and "when is fafsa due" normalize to the same string.
+   * Question words are kept, so "When does the FAFSA open?" and "Where do I start the FAFSA?" don't.
+   */
+  static normalizeQuery(query: string): string {
+    const interrogatives = query.toLowerCase().split(/[^\p{L}]+/u).filter(word => INTERROGATIVES.has(word));
+    const terms = KnowledgeIndex.tokenize(query)
+      .filter(term => !FILLER_WORDS.has(term))
+      .map(term => SYNONYMS[term] || term);
+
+    const normalized = [...new Set([...interrogatives, ...terms])].sort().join(' ');
+    // Questions made only of stopwords still need a stable key
+    return normalized || query.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  static classifyTopic(normalizedQuery: string): CacheTopic {
+    const terms = normalizedQuery.split(' ');
+    const match = TOPIC_TERMS.find(({ terms: topicTerms }) => topicTerms.some(term => terms.includes(term)));
+    return match ? match.topic : 'general';
+  }
+
+  /**
+   * TTL for a topic in seconds. CACHE_TTL_HOURS_BY_TOPIC (JSON, e.g. {"deadlines":2})
+   * overrides the defaults for the topics it lists.
+   */
+  static getTtlSeconds(topic: CacheTopic, env: NodeJS.ProcessEnv = process.env): number {
+    let hours = DEFAULT_TTL_HOURS[topic];
+
+    if (env.CACHE_TTL_HOURS_BY_TOPIC) {
+      try {
+        const override = JSON.parse(env.CACHE_TTL_HOURS_BY_TOPIC)[topic];
+        if (override !== undefined) {
+          if (typeof override === 'number' && override > 0) {
+            hours = override;
+          } else {
+            console.warn(`Invalid cache TTL for ${topic}: ${override}, using ${hours} hours`);
+          }
+        }
+      } catch {
+        console.warn('Invalid CACHE_TTL_HOURS_BY_TOPIC, using default cache TTLs');
+      }
+    }
+
+    return Math.round(hours * 60 * 60);
+  }
+
+  /**
+   * Build the cache key for a query. The knowledge base version is part of the hash, so
+   * entries written before the knowledge base changed are never read again. Answers are
+   * cached separately for each language they are written in.
+   */
+  static createKey(query: string, knowledgeBaseVersion: string, language: LanguageCode): CacheKey {
+    const normalizedQuery = this.normalizeQuery(query);
+
+    return {
+      queryHash: crypto.createHash('sha256').update(`${knowledgeBaseVersion}\n${language}\n${normalizedQuery}`).digest('hex'),
+      normalizedQuery,
+      topic: this.classifyTopic(normalizedQuery),
+      knowledgeBaseVersion,
+      language,
+    };
+  }
+
+  /**
+   * Look up a cached answer and count the hit. Entries past their TTL are ignored even
+   * if DynamoDB hasn't deleted them yet.
+   */
+  static async get(key: CacheKey): Promise<CachedResponse | null> {
+    let cached: CachedResponse | undefined;
+    try {
+      cached = await DynamoDBService.getItem(TABLES.RESPONSE_CACHE, { queryHash: key.queryHash }) as CachedResponse | undefined;
+    } catch (error) {
+      console.error('Cache retrieval error:', error);
+      return null;
+    }
+
+    if (
+      !cached ||
+      cached.expiresAt <= Math.floor(Date.now() / 1000) ||
+      cached.knowledgeBaseVersion !== key.knowledgeBaseVersion ||
+      cached.language !== key.language
+    ) {
+      return null;
+    }
+
+    await this.updateHitCount(key.queryHash);
+    return cached;
+  }
+
+  static async put(key: CacheKey, response: string, sources: string[], citations: Citation[]): Promise<void> {
+    try {
+      const cacheItem: CachedResponse = {
+        ...key,
+        response,
+        sources,
+        citations,
+        createdAt: new Date().toISOString(),
+        hitCount: 1,
+        expiresAt: Math.floor(Date.now() / 1000) + this.getTtlSeconds(key.topic),
+      };
+
+      await DynamoDBService.putItem(TABLES.RESPONSE_CACHE, cacheItem);
+    } catch (error) {
+      console.error('Cache storage error:', error);
+      // Don't throw - caching is not critical
+    }
+  }
+
+  static toProvenance(cached: CachedResponse): CacheProvenance {
+    return {
+      hit: true,
+      normalizedQuery: cached.normalizedQuery,
+      topic: cached.topic,
+      knowledgeBaseVersion: cached.knowledgeBaseVersion,
+      language: cached.language,
+      cachedAt: cached.createdAt,
+      expiresAt: new Date(cached.expiresAt * 1000).toISOString(),
+    };
+  }
+
+  private static async updateHitCount(queryHash: string): Promise<void> {
+    try {
+      await DynamoDBService.updateItem(
+        TABLES.RESPONSE_CACHE,
+        { queryHash },
+        'SET hitCount = hitCount + :inc',
+        { ':inc': 1 }
+      );
+    } catch (error) {
+      console.error('Cache hit count update error:', error);
+      // Don't throw - this is not critical
+    }
+  }
+}
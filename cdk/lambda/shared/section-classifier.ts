@@ -0,0 +1,119 @@
+import { FAFSA_ERROR_PATTERNS, FAFSA_SECTION_IDS, FAFSASectionId } from './contracts';
+
+// Phrases that point to a section. Each one that matches counts once towards its section.
+const SECTION_RULES: Record<FAFSASectionId, RegExp[]> = {
+  'student-demographics': [
+    /\b(?:social\s+security(?:\s+number)?|ssn|itin)\b/i,
+    /\b(?:date\s+of\s+birth|birth\s*date|birthday)\b/i,
+    /\b(?:legal|full|last|first)\s+name\b/i,
+    /\b(?:citizen(?:ship)?|permanent\s+resident|green\s+card|eligible\s+noncitizen|a-?number|daca|undocumented)\b/i,
+    /\b(?:mailing\s+address|home\s+address|state\s+of\s+(?:legal\s+)?residence|residency)\b/i,
+    /\bselective\s+service\b/i,
+    /\b(?:high\s+school\s+(?:diploma|completion)|ged)\b/i,
+  ],
+  'student-finances': [
+    /\b(?:income|wages|earnings|salary|paychecks?)\b/i,
+    /\b(?:tax\s+returns?|taxes|1040|w-?2|agi|adjusted\s+gross\s+income|irs|federal\s+tax\s+information|fti)\b/i,
+    /\b(?:assets?|savings|checking|investments?|net\s+worth|stocks?|bonds?|529)\b/i,
+    /\b(?:untaxed|child\s+support|benefits|snap|ssi|tanf|grants?\s+and\s+scholarships)\b/i,
+  ],
+  'dependency-status': [
+    /\b(?:dependen(?:t|cy|ce)|independen(?:t|ce)|dependency\s+override)\b/i,
+    /\b(?:emancipated|legal\s+guardianship|ward\s+of\s+the\s+court|foster\s+care|orphan)\b/i,
+    /\b(?:homeless|unaccompanied(?:\s+youth)?)\b/i,
+    /\b(?:married|marital\s+status|my\s+(?:spouse|husband|wife))\b/i,
+    /\b(?:veteran|active\s+duty|armed\s+forces|military)\b/i,
+    /\b(?:graduate|master'?s|doctorate|phd)\s+(?:student|program|degree)\b/i,
+    /\b(?:my\s+(?:own\s+)?(?:kids|children)|i\s+have\s+(?:a\s+)?(?:kids?|child(?:ren)?))\b/i,
+  ],
+  'parent-demographics': [
+    /\b(?:step-?(?:parent|mom|mother|dad|father))\b/i,
+    /\b(?:divorced|separated|remarried|never\s+married)\s+parents?\b/i,
+    /\bparents?\s+(?:are|were|got)\s+(?:divorced|separated|remarried)\b/i,
+    /\b(?:which|both|custodial|other)\s+parents?\b/i,
+    /\b(?:contributors?|provide\s+consent)\b/i,
+    /\bparents?'?s?\s+(?:education|highest\s+(?:grade|level))\b/i,
+  ],
+  'parent-finances': [
+    /\b(?:household|family)\s+size\b/i,
+    /\bnumber\s+(?:of\s+(?:people|family\s+members)\s+)?in\s+college\b/i,
+  ],
+  'school-selection': [
+    /\b(?:federal\s+)?school\s+codes?\b/i,
+    /\b(?:add|list|choose|select|send\s+(?:it|my\s+fafsa)\s+to)\b[^.\n]{0,20}\b(?:schools|colleges|universities)\b/i,
+    /\bhow\s+many\s+(?:schools|colleges)\b/i,
+    /\b(?:housing\s+plans?|on[-\s]campus|off[-\s]campus|live\s+with\s+(?:my\s+)?parents\s+while)\b/i,
+    /\b(?:transfer(?:ring)?\s+(?:to|schools)|grade\s+level|enrollment\s+status)\b/i,
+  ],
+  'signatures': [
+    /\b(?:sign(?:ing|ed|ature)?|e-?sign)\b/i,
+    /\b(?:submit(?:ted|ting)?|submission|confirmation\s+(?:page|number|email))\b/i,
+    /\bfsa\s*id\b/i,
+    /\b(?:deadline|due\s+date|priority\s+date)\b/i,
+    /\b(?:corrections?|fafsa\s+submission\s+summary|student\s+aid\s+report|sar)\b/i,
+  ],
+};
+
+// A question that mentions a parent is about the parent sections, whatever the other words
+const PARENT_PATTERN = /\b(?:parents?'?s?|mom'?s?|mother'?s?|dad'?s?|father'?s?|guardians?'?)\b/i;
+const PARENT_SECTIONS: Partial<Record<FAFSASectionId, FAFSASectionId>> = {
+  'student-demographics': 'parent-demographics',
+  'student-finances': 'parent-finances',
+};
+
+// Error pattern entries that are plain phrases rather than regular expressions
+const PLAIN_PHRASE = /^[a-z0-9' ]+$/i;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SECTION_IDS = new Set<string>(FAFSA_SECTION_IDS);
+
+// The phrases of the built-in error patterns, tagged with their sections
+const ERROR_PATTERN_RULES: Array<[FAFSASectionId, RegExp]> = FAFSA_ERROR_PATTERNS
+  .filter(pattern => SECTION_IDS.has(pattern.section))
+  .flatMap(pattern => pattern.patterns
+    .filter(phrase => PLAIN_PHRASE.test(phrase))
+    .map((phrase): [FAFSASectionId, RegExp] => [
+      pattern.section as FAFSASectionId,
+      new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'i'),
+    ]));
+
+/**
+ * Tell which FAFSA section a question is about, so the chat Lambda can record progress on it
+ */
+export class SectionClassifier {
+  /**
+   * The section with the most matching phrases, or undefined when nothing matches. Ties go to the
+   * section that comes first on the form.
+   */
+  static classify(question: string): FAFSASectionId | undefined {
+    const scores = new Map<FAFSASectionId, number>();
+    const aboutParent = PARENT_PATTERN.test(question);
+    const add = (section: FAFSASectionId) => {
+      const target = aboutParent ? PARENT_SECTIONS[section] ?? section : section;
+      scores.set(target, (scores.get(target) ?? 0) + 1);
+    };
+
+    for (const section of FAFSA_SECTION_IDS) {
+      for (const rule of SECTION_RULES[section]) {
+        if (rule.test(question)) {
+          add(section);
+        }
+      }
+    }
+
+    for (const [section, rule] of ERROR_PATTERN_RULES) {
+      if (rule.test(question)) {
+        add(section);
+      }
+    }
+
+    let best: FAFSASectionId | undefined;
+    for (const section of FAFSA_SECTION_IDS) {
+      if ((scores.get(section) ?? 0) > (best ? scores.get(best)! : 0)) {
+        best = section;
+      }
+    }
+    return best;
+  }
+}
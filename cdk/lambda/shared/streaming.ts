@@ -0,0 +1,58 @@
+import { APIGatewayProxyEvent, LambdaContext } from './types';
+
+// Minimal shape of the writable stream Lambda passes to response-streaming handlers
+export interface ResponseStream {
+  write(chunk: string): void;
+  end(): void;
+  setContentType?(contentType: string): void;
+}
+
+export type StreamingHandler = (
+  event: APIGatewayProxyEvent,
+  responseStream: ResponseStream,
+  context: LambdaContext
+) => Promise<void>;
+
+// The `awslambda` global only exists inside the Lambda Node.js runtime
+const getLambdaRuntime = (): any => (globalThis as any).awslambda;
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Guest-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+/**
+ * Wrap a handler for Lambda response streaming. Outside the Lambda runtime
+ * (tests, local tooling) the handler is returned unchanged.
+ */
+export const streamifyResponse = (handler: StreamingHandler): StreamingHandler => {
+  const runtime = getLambdaRuntime();
+  return runtime?.streamifyResponse ? runtime.streamifyResponse(handler) : handler;
+};
+
+/**
+ * Prepare a response stream for server-sent events with the given status code and any extra headers
+ */
+export const openEventStream = (
+  responseStream: ResponseStream,
+  statusCode: number = 200,
+  headers: { [key: string]: string } = {}
+): ResponseStream => {
+  const runtime = getLambdaRuntime();
+  if (runtime?.HttpResponseStream) {
+    return runtime.HttpResponseStream.from(responseStream, { statusCode, headers: { ...SSE_HEADERS, ...headers } });
+  }
+
+  responseStream.setContentType?.('text/event-stream');
+  return responseStream;
+};
+
+/**
+ * Write a single server-sent event
+ */
+export const writeEvent = (stream: ResponseStream, event: string, data: any): void => {
+  stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
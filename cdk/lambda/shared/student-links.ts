@@ -0,0 +1,144 @@
+import * as crypto from 'crypto';
+import { DynamoDBService, TABLES } from './dynamodb';
+import { LINK_CODE_LENGTH, LinkShare, Role, StudentLink, hasPermission } from './contracts';
+
+// No 0/O or 1/I, so codes read aloud or copied by hand come out right
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const STUDENT_INDEX = 'studentId-index';
+const LINK_CODE_INDEX = 'linkCode-index';
+
+export interface LinkViewer {
+  userId: string;
+  email: string | null;
+  role: 'parent' | 'counselor';
+}
+
+/**
+ * Links from students to the parents and counselors who may see their progress. Links are
+ * stored by viewer, with an index by student, so both sides can list theirs.
+ */
+export class StudentLinkService {
+  static async getLink(viewerId: string, studentId: string): Promise<StudentLink | undefined> {
+    return await DynamoDBService.getItem(TABLES.STUDENT_LINKS, { viewerId, studentId }) as StudentLink | undefined;
+  }
+
+  static async listForViewer(viewerId: string): Promise<StudentLink[]> {
+    return await DynamoDBService.queryAllItems(
+      TABLES.STUDENT_LINKS,
+      'viewerId = :viewerId',
+      { ':viewerId': viewerId }
+    );
+  }
+
+  static async listForStudent(studentId: string): Promise<StudentLink[]> {
+    return await DynamoDBService.queryAllItems(
+      TABLES.STUDENT_LINKS,
+      'studentId = :studentId',
+      { ':studentId': studentId },
+      STUDENT_INDEX
+    );
+  }
+
+  /**
+   * Counselors link to follow progress, so they see it whatever the student picked
+   */
+  static withRequiredShares(viewerRole: Role, shares: LinkShare[]): LinkShare[] {
+    return hasPermission(viewerRole, 'students:view-linked') && !shares.includes('progress')
+      ? ['progress', ...shares]
+      : shares;
+  }
+
+  static async putLink(link: StudentLink): Promise<void> {
+    await DynamoDBService.putItem(TABLES.STUDENT_LINKS, link);
+  }
+
+  /**
+   * Change what a student shares over an existing link; undefined when there is no such link
+   */
+  static async updateShares(viewerId: string, studentId: string, shares: LinkShare[]): Promise<StudentLink | undefined> {
+    try {
+      return await DynamoDBService.updateItem(
+        TABLES.STUDENT_LINKS,
+        { viewerId, studentId },
+        'SET shares = :shares',
+        { ':shares': shares },
+        'attribute_exists(viewerId)'
+      ) as StudentLink;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  static async deleteLink(viewerId: string, studentId: string): Promise<void> {
+    await DynamoDBService.deleteItem(TABLES.STUDENT_LINKS, { viewerId, studentId });
+  }
+
+  /**
+   * Remove every link a user is on, as a student or a viewer. Returns how many were removed.
+   */
+  static async deleteAllForUser(userId: string): Promise<number> {
+    const links = [...await this.listForViewer(userId), ...await this.listForStudent(userId)];
+    for (const link of links) {
+      await this.deleteLink(link.viewerId, link.studentId);
+    }
+    return links.length;
+  }
+
+  /**
+   * The code students enter to link to this parent or counselor, created on first use
+   */
+  static async getLinkCode(userId: string): Promise<string> {
+    const user = await DynamoDBService.getItem(TABLES.USERS, { userId });
+    if (user?.linkCode) {
+      return user.linkCode;
+    }
+
+    const linkCode = this.generateLinkCode();
+    try {
+      await DynamoDBService.updateItem(
+        TABLES.USERS,
+        { userId },
+        'SET linkCode = :linkCode',
+        { ':linkCode': linkCode },
+        'attribute_not_exists(linkCode)'
+      );
+      return linkCode;
+    } catch (error: any) {
+      // Another request created one first
+      if (error.name === 'ConditionalCheckFailedException') {
+        const current = await DynamoDBService.getItem(TABLES.USERS, { userId });
+        return current!.linkCode;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The parent or counselor a link code belongs to. Codes of users who no longer have one of
+   * those roles don't link.
+   */
+  static async findViewerByCode(linkCode: string): Promise<LinkViewer | undefined> {
+    const [user] = await DynamoDBService.queryItems(
+      TABLES.USERS,
+      'linkCode = :linkCode',
+      { ':linkCode': linkCode },
+      LINK_CODE_INDEX
+    );
+
+    if (!user || (user.role !== 'parent' && user.role !== 'counselor')) {
+      return undefined;
+    }
+
+    return { userId: user.userId, email: user.email ?? null, role: user.role };
+  }
+
+  static generateLinkCode(): string {
+    return Array.from(
+      { length: LINK_CODE_LENGTH },
+      () => LINK_CODE_ALPHABET[crypto.randomInt(LINK_CODE_ALPHABET.length)]
+    ).join('');
+  }
+}
@@ -12,6 +12,10 @@ export interface APIGatewayProxyEvent {
       sourceIp: string;
       userAgent: string;
     };
+    // Function URL events (payload format 2.0) carry the caller's address here instead
+    http?: {
+      sourceIp: string;
+    };
     authorizer?: {
       claims: {
         sub: string;
@@ -46,7 +50,7 @@ export const createResponse = (
   headers: {
     'Content-Type': 'application/json',
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key',
+    'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Guest-Token',
     'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
     ...headers,
   },
@@ -65,4 +69,19 @@ export const getEnvVar = (name: string, defaultValue?: string): string => {
     throw new Error(`Environment variable ${name} is required`);
   }
   return value || defaultValue!;
-};
\ No newline at end of file
+};
+
+// A positive whole-number setting, falling back (with a warning) when unset or invalid
+export const positiveInteger = (name: string, value: string | undefined, fallback: number): number => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (Number.isInteger(parsed) && parsed > 0) {
+    return parsed;
+  }
+
+  console.warn(`Invalid ${name}: ${value}, using ${fallback}`);
+  return fallback;
+};
@@ -0,0 +1,189 @@
+import { DynamoDBService, TABLES } from './dynamodb';
+import { PrivacyService } from './privacy';
+import {
+  ChecklistState,
+  IntakeAnswers,
+  ProgressRecord,
+  UpdateProgressRequest,
+  applyIntakeAnswers,
+  applyProgressAction,
+  createProgressRecord,
+  mergeChecklist,
+  migrateProgressRecord,
+} from './contracts';
+
+// Times a progress write may lose to a concurrent write before it gives up
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Progress records in the UserProgress table, read in the current model and written with a
+ * version check so concurrent writers (the progress routes and the chat Lambda) don't lose updates
+ */
+export class UserProgressService {
+  /**
+   * A user's progress, migrating a record stored in the old model. Users without a record get a
+   * new one, which isn't saved until they make progress.
+   */
+  static async get(userId: string): Promise<ProgressRecord> {
+    const stored = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+
+    if (!stored) {
+      return createProgressRecord(userId, new Date().toISOString());
+    }
+
+    const progress = migrateProgressRecord(stored);
+    return stored.exploredSections ? this.saveMigratedRecord(progress) : progress;
+  }
+
+  /**
+   * Apply a progress action, with the version check and retries of updateWithRetry. Returns
+   * undefined when every attempt lost.
+   */
+  static async applyAction(userId: string, request: UpdateProgressRequest): Promise<ProgressRecord | undefined> {
+    return this.updateWithRetry(
+      userId,
+      (current, now) => applyProgressAction(current, request, now),
+      (updated, expectedVersion) => this.save(updated, expectedVersion)
+    );
+  }
+
+  /**
+   * Save a user's intake answers, with the same version check and retries as progress actions.
+   * Returns undefined when every attempt lost.
+   */
+  static async saveIntake(userId: string, answers: IntakeAnswers): Promise<ProgressRecord | undefined> {
+    return this.updateWithRetry(
+      userId,
+      (current, now) => applyIntakeAnswers(current, answers, now),
+      (updated, expectedVersion) => this.save(updated, expectedVersion)
+    );
+  }
+
+  /**
+   * Merge changed checklist items into a user's checklist, with the same version check and
+   * retries as progress actions. Returns undefined when every attempt lost.
+   */
+  static async updateChecklist(userId: string, changes: ChecklistState): Promise<ProgressRecord | undefined> {
+    const sanitized = this.sanitizeChecklist(changes);
+
+    return this.updateWithRetry(
+      userId,
+      (current, now) => ({
+        ...current,
+        checklist: mergeChecklist(current.checklist ?? {}, sanitized),
+        version: current.version + 1,
+        updatedAt: now,
+      }),
+      (updated, expectedVersion) => this.saveChecklist(updated, expectedVersion)
+    );
+  }
+
+  /**
+   * A checklist with personal information redacted from its notes, as it is from stored chat
+   * messages. Students write notes for themselves, and an SSN or account number can slip in.
+   */
+  static sanitizeChecklist(checklist: ChecklistState): ChecklistState {
+    return Object.fromEntries(Object.entries(checklist).map(([itemId, item]) => [
+      itemId,
+      item.note ? { ...item, note: PrivacyService.detectAndSanitizePII(item.note).sanitizedText } : item,
+    ]));
+  }
+
+  /**
+   * Read a user's record, change it and write it back only if no other write happened in between
+   * (checked with its version); a lost race reads it again. Returns undefined when every attempt
+   * lost.
+   */
+  private static async updateWithRetry(
+    userId: string,
+    change: (current: ProgressRecord, now: string) => ProgressRecord,
+    write: (updated: ProgressRecord, expectedVersion: number) => Promise<void>
+  ): Promise<ProgressRecord | undefined> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const now = new Date().toISOString();
+      const stored = await DynamoDBService.getItem(TABLES.USER_PROGRESS, { userId });
+      const current = stored ? migrateProgressRecord(stored) : createProgressRecord(userId, now);
+      const updated = change(current, now);
+
+      try {
+        await write(updated, current.version);
+        return updated;
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        // Another request changed the record after it was read; read it again
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Write a record if the stored one is still at `expectedVersion` (or has no version yet).
+   * `checklist` is left alone; it is saved by saveChecklist, which checks the same version.
+   */
+  private static async save(progress: ProgressRecord, expectedVersion: number) {
+    await DynamoDBService.updateItem(
+      TABLES.USER_PROGRESS,
+      { userId: progress.userId },
+      'SET sections = :sections, completedSections = :completedSections, currentSection = :currentSection, '
+        + 'overallProgress = :overallProgress, totalInteractions = :totalInteractions, #version = :version, '
+        + `createdAt = :createdAt, updatedAt = :updatedAt${progress.intake ? ', intake = :intake' : ''} `
+        + 'REMOVE exploredSections',
+      {
+        ...(progress.intake ? { ':intake': progress.intake } : {}),
+        ':sections': progress.sections,
+        ':completedSections': progress.completedSections,
+        ':currentSection': progress.currentSection,
+        ':overallProgress': progress.overallProgress,
+        ':totalInteractions': progress.totalInteractions,
+        ':version': progress.version,
+        ':createdAt': progress.createdAt,
+        ':updatedAt': progress.updatedAt,
+        ':expectedVersion': expectedVersion,
+      },
+      'attribute_not_exists(#version) OR #version = :expectedVersion',
+      { '#version': 'version' }
+    );
+  }
+
+  /**
+   * Write a record's checklist if the stored record is still at `expectedVersion`. A user without
+   * a record gets one with nothing else on it, which reads back as a new record.
+   */
+  private static async saveChecklist(progress: ProgressRecord, expectedVersion: number) {
+    await DynamoDBService.updateItem(
+      TABLES.USER_PROGRESS,
+      { userId: progress.userId },
+      'SET checklist = :checklist, #version = :version, updatedAt = :updatedAt, '
+        + 'createdAt = if_not_exists(createdAt, :createdAt)',
+      {
+        ':checklist': progress.checklist,
+        ':version': progress.version,
+        ':updatedAt': progress.updatedAt,
+        ':createdAt': progress.createdAt,
+        ':expectedVersion': expectedVersion,
+      },
+      'attribute_not_exists(#version) OR #version = :expectedVersion',
+      { '#version': 'version' }
+    );
+  }
+
+  /**
+   * Store a record read in the old model in the new one, so it is only migrated once
+   */
+  private static async saveMigratedRecord(progress: ProgressRecord): Promise<ProgressRecord> {
+    const migrated = { ...progress, version: progress.version + 1 };
+    try {
+      await this.save(migrated, progress.version);
+      return migrated;
+    } catch (error: any) {
+      if (error?.name !== 'ConditionalCheckFailedException') {
+        console.error('Progress migration error:', error);
+      }
+      // Don't throw - the migrated record is still returned, and the next read tries again
+      return progress;
+    }
+  }
+}
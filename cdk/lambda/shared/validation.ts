@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, createResponse } from './types';
+import { ValidationErrorResponse, ValidationIssue } from './contracts';
+
+export type Validated<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: ValidationErrorResponse };
+
+/**
+ * Validates API Gateway request parts against the shared contract schemas and builds
+ * the uniform 400 body for failures
+ */
+export class RequestValidator {
+  static parseBody<S extends z.ZodType>(event: APIGatewayProxyEvent, schema: S): Validated<z.output<S>> {
+    if (!event.body) {
+      return { error: this.validationError([{ path: '', message: 'Request body is required' }]) };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(event.body);
+    } catch {
+      return { error: this.validationError([{ path: '', message: 'Request body must be valid JSON' }]) };
+    }
+
+    return this.parse(schema, body);
+  }
+
+  static parsePathParameters<S extends z.ZodType>(event: APIGatewayProxyEvent, schema: S): Validated<z.output<S>> {
+    return this.parse(schema, event.pathParameters || {});
+  }
+
+  static parseQueryParameters<S extends z.ZodType>(event: APIGatewayProxyEvent, schema: S): Validated<z.output<S>> {
+    return this.parse(schema, event.queryStringParameters || {});
+  }
+
+  static parse<S extends z.ZodType>(schema: S, value: unknown): Validated<z.output<S>> {
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { data: result.data };
+    }
+
+    return {
+      error: this.validationError(result.error.issues.map(issue => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message,
+      }))),
+    };
+  }
+
+  static validationError(issues: ValidationIssue[]): ValidationErrorResponse {
+    return {
+      success: false,
+      error: issues[0]?.message || 'Invalid request',
+      code: 'VALIDATION_ERROR',
+      details: { issues },
+    };
+  }
+}
+
+export const createValidationErrorResponse = (error: ValidationErrorResponse): APIGatewayProxyResult =>
+  createResponse(400, error);
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as crypto from 'crypto';
+
+process.env.AWS_REGION = 'us-east-1';
+process.env.USER_POOL_ID = 'us-east-1_testpool';
+process.env.USER_POOL_CLIENT_ID = 'test-client-id';
+
+import { CognitoTokenVerifier } from '../shared/cognito-token';
+import { serveTestJwks, signCognitoToken, testJwks } from './helpers/cognito-tokens';
+
+describe('CognitoTokenVerifier', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    serveTestJwks();
+  });
+
+  it('should accept ID and access tokens signed by the user pool', async () => {
+    const id = await CognitoTokenVerifier.verify(signCognitoToken({ email: 'student@example.com', 'custom:userId': 'user-1' }), 'id');
+    const access = await CognitoTokenVerifier.verify(signCognitoToken({}, { tokenUse: 'access' }), 'access');
+
+    expect(id.claims).toMatchObject({ sub: 'cognito-sub-1', email: 'student@example.com', 'custom:userId': 'user-1' });
+    expect(access.claims).toMatchObject({ sub: 'cognito-sub-1', token_use: 'access' });
+  });
+
+  it('should reject tokens with another key, issuer, client or use', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const results = await Promise.all([
+      CognitoTokenVerifier.verify(signCognitoToken({}, { key: privateKey }), 'id'),
+      CognitoTokenVerifier.verify(signCognitoToken({ iss: 'https://cognito-idp.us-east-1.amazonaws.com/other-pool' }), 'id'),
+      CognitoTokenVerifier.verify(signCognitoToken({ aud: 'other-client' }), 'id'),
+      CognitoTokenVerifier.verify(signCognitoToken({}, { tokenUse: 'access' }), 'id'),
+      CognitoTokenVerifier.verify('not-a-token', 'id'),
+    ]);
+
+    expect(results).toEqual(Array(5).fill({ error: 'invalid' }));
+  });
+
+  it('should report expired tokens', async () => {
+    const result = await CognitoTokenVerifier.verify(signCognitoToken({}, { expiresInSeconds: -120 }), 'id');
+
+    expect(result).toEqual({ error: 'expired' });
+  });
+
+  it('should cache the signing keys and refetch them for an unknown key id only after a while', async () => {
+    vi.useFakeTimers();
+    const fetchJwks = serveTestJwks();
+
+    try {
+      await CognitoTokenVerifier.verify(signCognitoToken(), 'id');
+      await CognitoTokenVerifier.verify(signCognitoToken(), 'id');
+      const unknownKey = await CognitoTokenVerifier.verify(signCognitoToken({}, { kid: 'rotated-key' }), 'id');
+      expect(fetchJwks).toHaveBeenCalledTimes(1);
+      expect(unknownKey).toEqual({ error: 'invalid' });
+
+      vi.advanceTimersByTime(6 * 60 * 1000);
+      fetchJwks.mockResolvedValue([...testJwks(), { ...testJwks()[0], kid: 'rotated-key' }]);
+      const rotated = await CognitoTokenVerifier.verify(signCognitoToken({}, { kid: 'rotated-key' }), 'id');
+
+      expect(fetchJwks).toHaveBeenCalledTimes(2);
+      expect(rotated.claims).toBeDefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should read bearer tokens from any casing of the Authorization header', () => {
+    expect(CognitoTokenVerifier.getBearerToken({ authorization: 'Bearer abc' })).toBe('abc');
+    expect(CognitoTokenVerifier.getBearerToken({ Authorization: 'abc' })).toBe('abc');
+    expect(CognitoTokenVerifier.getBearerToken({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,405 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@aws-sdk/client-dynamodb');
+vi.mock('@aws-sdk/lib-dynamodb');
+vi.mock('@aws-sdk/client-cognito-identity-provider');
+vi.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: class { send = async () => ({ SecretString: 'contract-guest-secret' }); },
+  GetSecretValueCommand: class {},
+}));
+
+process.env.GUEST_TOKEN_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:guest-token';
+process.env.AWS_REGION = 'us-east-1';
+process.env.USER_POOL_ID = 'us-east-1_contract';
+process.env.USER_POOL_CLIENT_ID = 'contract-client';
+
+import { z } from 'zod';
+import { ChatHandler } from '../chat/handler';
+import { AuthHandler } from '../auth/handler';
+import { ProgressHandler } from '../progress/handler';
+import { LinksHandler } from '../links/handler';
+import { AdminHandler } from '../admin/handler';
+import { DeadlinesHandler } from '../deadlines/handler';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, LambdaContext } from '../shared/types';
+import { DynamoDBService, TABLES } from '../shared/dynamodb';
+import { KnowledgeBaseService } from '../shared/knowledge-base';
+import { createLLMProvider, loadLLMConfig, setLLMProvider } from '../shared/llm-provider';
+import { GuestSessionService } from '../shared/guest-session';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import { serveTestJwks, signCognitoToken } from './helpers/cognito-tokens';
+import {
+  AuthMessageResponseSchema,
+  ChatHistoryResponseSchema,
+  ChatMessageResponseSchema,
+  ChatStreamTokenEventSchema,
+  DeadlinesResponseSchema,
+  DeleteAccountResponseSchema,
+  ErrorPatternResponseSchema,
+  ErrorPatternsResponseSchema,
+  ErrorResponseSchema,
+  FAFSASectionsResponseSchema,
+  GuestSessionResponseSchema,
+  LinksResponseSchema,
+  ProgressRecordSchema,
+  RefreshTokenResponseSchema,
+  SignInResponseSchema,
+  SignInResultSchema,
+  MfaStatusResponseSchema,
+  MfaTotpSetupResponseSchema,
+  ProgressSummaryResponseSchema,
+  RateLimitErrorResponseSchema,
+  SignUpResponseSchema,
+  StudentLinkResponseSchema,
+  StudentProgressResponseSchema,
+  UpdateProgressResponseSchema,
+  ValidationErrorResponseSchema,
+  successResponseSchema,
+} from '../shared/contracts';
+
+// Handlers must answer with exactly what the shared contract promises the frontend
+
+const context: LambdaContext = {
+  requestId: 'contract-request',
+  functionName: 'contract',
+  functionVersion: '1',
+  awsRequestId: 'contract-aws-request',
+  getRemainingTimeInMillis: () => 30000,
+};
+
+const createEvent = (overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent => ({
+  httpMethod: 'POST',
+  path: '/',
+  pathParameters: null,
+  queryStringParameters: null,
+  headers: {},
+  body: null,
+  requestContext: {
+    requestId: 'contract-request',
+    identity: { sourceIp: '127.0.0.1', userAgent: 'contract-test' },
+  },
+  ...overrides,
+});
+
+// Claims the Cognito authorizer adds for a signed-in user, in the role groups they belong to
+const signedInAs = (userId: string, groups?: string): APIGatewayProxyEvent['requestContext'] => ({
+  ...createEvent().requestContext,
+  authorizer: { claims: { sub: `sub-${userId}`, email: 'student@example.com', 'custom:userId': userId, ...(groups && { 'cognito:groups': groups }) } },
+});
+
+// The session token a guest got from /auth/guest
+const asGuest = (): APIGatewayProxyEvent['headers'] => ({
+  'X-Guest-Token': GuestSessionService.sign({
+    guestId: 'guest_c0ffee00-0000-4000-8000-000000000000',
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    messageQuota: 20,
+  }),
+});
+
+const expectSuccess = (result: APIGatewayProxyResult, schema: z.ZodType) => {
+  expect(result.statusCode).toBe(200);
+  successResponseSchema(schema).parse(JSON.parse(result.body));
+};
+
+const expectValidationError = (result: APIGatewayProxyResult) => {
+  expect(result.statusCode).toBe(400);
+  ValidationErrorResponseSchema.parse(JSON.parse(result.body));
+};
+
+describe('API contract (Lambda side)', () => {
+  beforeAll(() => GuestSessionService.loadSigningKey());
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(DynamoDBService, 'getItem').mockResolvedValue(undefined);
+    vi.spyOn(DynamoDBService, 'putItem').mockResolvedValue({} as any);
+    vi.spyOn(DynamoDBService, 'updateItem').mockResolvedValue({} as any);
+    vi.spyOn(DynamoDBService, 'queryItems').mockResolvedValue([]);
+    vi.spyOn(DynamoDBService, 'queryAllItems').mockResolvedValue([]);
+    vi.spyOn(DynamoDBService, 'deleteItem').mockResolvedValue({} as any);
+    vi.spyOn(KnowledgeBaseService, 'searchDocuments').mockResolvedValue({
+      passages: [],
+      relevanceScore: 0,
+      sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
+    });
+    vi.spyOn(KnowledgeBaseService, 'getKnowledgeBaseVersion').mockResolvedValue('kb-v1');
+    setLLMProvider(createLLMProvider(loadLLMConfig({ LLM_PROVIDER: 'stub' })));
+  });
+
+  afterEach(() => {
+    setLLMProvider(undefined);
+  });
+
+  it('should answer chat messages with a ChatMessageResponse', async () => {
+    const result = await ChatHandler.handleChatMessage(createEvent({
+      body: JSON.stringify({ content: 'What is the FAFSA?', userId: 'c0ffee00-0000-4000-8000-000000000001', language: 'es' }),
+      requestContext: signedInAs('c0ffee00-0000-4000-8000-000000000001'),
+    }), context);
+
+    expectSuccess(result, ChatMessageResponseSchema);
+  });
+
+  it('should answer refused questions with a ChatMessageResponse giving the reason', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await ChatHandler.handleChatMessage(createEvent({
+      body: JSON.stringify({ content: 'I think about suicide a lot lately' }),
+      headers: asGuest(),
+    }), context);
+
+    expectSuccess(result, ChatMessageResponseSchema);
+    expect(ChatMessageResponseSchema.parse(JSON.parse(result.body).data).message.metadata?.guardrail?.reason).toBe('crisis');
+  });
+
+  it('should stream token events and a final ChatMessageResponse', async () => {
+    const chunks: string[] = [];
+    const stream = { write: (chunk: string) => { chunks.push(chunk); }, end: () => {}, setContentType: () => {} };
+
+    await ChatHandler.handleChatMessageStream(createEvent({
+      body: JSON.stringify({ content: 'What is the FAFSA?' }),
+      headers: asGuest(),
+    }), stream, context);
+
+    const events = chunks.map(chunk => {
+      const [eventLine, dataLine] = chunk.trim().split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+    const done = events.pop()!;
+
+    expect(events.length).toBeGreaterThan(0);
+    events.forEach(({ event, data }) => {
+      expect(event).toBe('token');
+      ChatStreamTokenEventSchema.parse(data);
+    });
+    expect(done.event).toBe('done');
+    successResponseSchema(ChatMessageResponseSchema).parse(done.data);
+  });
+
+  it('should return stored messages as ChatHistoryResponse', async () => {
+    const userId = 'c0ffee00-0000-4000-8000-000000000002';
+    await ChatHandler.handleChatMessage(createEvent({
+      body: JSON.stringify({ content: 'What is the SAI?', userId }),
+      requestContext: signedInAs(userId),
+    }), context);
+    const stored = vi.mocked(DynamoDBService.putItem).mock.calls
+      .filter(([table]) => table === TABLES.CONVERSATIONS)
+      .map(([, item]) => item);
+    vi.mocked(DynamoDBService.queryItems).mockResolvedValue(stored);
+
+    const result = await ChatHandler.handleChatHistory(createEvent({
+      httpMethod: 'GET',
+      pathParameters: { userId },
+      queryStringParameters: { limit: '10' },
+      requestContext: signedInAs(userId),
+    }), context);
+
+    expectSuccess(result, ChatHistoryResponseSchema);
+  });
+
+  it('should answer auth and progress requests with their response schemas', async () => {
+    const userId = 'c0ffee00-0000-4000-8000-000000000003';
+
+    expectSuccess(await AuthHandler.handleSignUp(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', password: 'correct-horse' }),
+    }), context), SignUpResponseSchema);
+    expectSuccess(await AuthHandler.handleSignUp(createEvent({
+      body: JSON.stringify({
+        email: 'guest@example.com',
+        password: 'correct-horse',
+        guestToken: asGuest()['X-Guest-Token'],
+        guestState: {
+          conversation: [{ content: 'What is the FAFSA?', sender: 'user', timestamp: new Date().toISOString() }],
+          checklist: ['fsa-id'],
+        },
+      }),
+    }), context), SignUpResponseSchema);
+    expectSuccess(await AuthHandler.handleGuestMode(createEvent(), context), GuestSessionResponseSchema);
+    serveTestJwks();
+    vi.mocked(CognitoIdentityProviderClient.prototype.send).mockResolvedValueOnce({
+      AuthenticationResult: { IdToken: signCognitoToken({ email: 'student@example.com', 'custom:userId': userId }), AccessToken: 'access', RefreshToken: 'refresh' },
+    } as never).mockResolvedValueOnce({
+      AuthenticationResult: { IdToken: signCognitoToken({ 'custom:userId': userId }), AccessToken: 'access-2' },
+    } as never);
+    expectSuccess(await AuthHandler.handleSignIn(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', password: 'correct-horse' }),
+    }), context), SignInResponseSchema);
+    expectSuccess(await AuthHandler.handleRefresh(createEvent({
+      headers: { Cookie: '__Host-refresh_token=refresh' },
+    }), context), RefreshTokenResponseSchema);
+    expectSuccess(await AuthHandler.handleSignOut(createEvent({
+      headers: { Cookie: '__Host-refresh_token=refresh' },
+    }), context), AuthMessageResponseSchema);
+    vi.mocked(CognitoIdentityProviderClient.prototype.send).mockResolvedValueOnce({
+      ChallengeName: 'SELECT_MFA_TYPE',
+      Session: 'challenge-session',
+      ChallengeParameters: { MFAS_CAN_CHOOSE: '["SMS_MFA","SOFTWARE_TOKEN_MFA"]' },
+    } as never);
+    expectSuccess(await AuthHandler.handleSignIn(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', password: 'correct-horse' }),
+    }), context), SignInResultSchema);
+    expectSuccess(await AuthHandler.handleVerifyEmail(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', code: '123456' }),
+    }), context), AuthMessageResponseSchema);
+    expectSuccess(await AuthHandler.handleResendVerification(createEvent({
+      body: JSON.stringify({ email: 'student@example.com' }),
+    }), context), AuthMessageResponseSchema);
+    expectSuccess(await AuthHandler.handleConfirmReset(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', code: '123456', newPassword: 'correct-horse-2' }),
+    }), context), AuthMessageResponseSchema);
+    const requestContext = signedInAs(userId);
+
+    expectSuccess(await AuthHandler.handleChangePassword(createEvent({
+      body: JSON.stringify({ accessToken: 'access-token', currentPassword: 'correct-horse', newPassword: 'correct-horse-2' }),
+      requestContext,
+    }), context), AuthMessageResponseSchema);
+    const mfaAccessToken = signCognitoToken({}, { tokenUse: 'access' });
+    vi.mocked(CognitoIdentityProviderClient.prototype.send)
+      .mockResolvedValueOnce({ UserMFASettingList: ['SOFTWARE_TOKEN_MFA'] } as never)
+      .mockResolvedValueOnce({ SecretCode: 'SECRETCODE' } as never);
+    expectSuccess(await AuthHandler.handleMfaStatus(createEvent({
+      body: JSON.stringify({ accessToken: mfaAccessToken }),
+      requestContext,
+    }), context), MfaStatusResponseSchema);
+    expectSuccess(await AuthHandler.handleSetupTotp(createEvent({
+      body: JSON.stringify({ accessToken: mfaAccessToken }),
+      requestContext,
+    }), context), MfaTotpSetupResponseSchema);
+
+    expectSuccess(await ProgressHandler.handleGetProgress(createEvent({ pathParameters: { userId }, requestContext }), context), ProgressRecordSchema);
+    expectSuccess(await ProgressHandler.handleUpdateProgress(createEvent({
+      httpMethod: 'PUT',
+      pathParameters: { userId },
+      body: JSON.stringify({ sectionId: 'student-finances', action: 'add_question' }),
+      requestContext,
+    }), context), UpdateProgressResponseSchema);
+    expectSuccess(await ProgressHandler.handleUpdateChecklist(createEvent({
+      httpMethod: 'PUT',
+      pathParameters: { userId },
+      body: JSON.stringify({ items: { fsaId: { completed: true, note: 'Saved in my password manager', updatedAt: new Date().toISOString() } } }),
+      requestContext,
+    }), context), UpdateProgressResponseSchema);
+    expectSuccess(await ProgressHandler.handleSaveIntake(createEvent({
+      httpMethod: 'PUT',
+      pathParameters: { userId },
+      body: JSON.stringify({ answers: { independenceCriteria: [], parentsMaritalStatus: 'married', taxFilingStatus: 'filed', citizenship: 'us-citizen', schoolCount: 3 } }),
+      requestContext,
+    }), context), UpdateProgressResponseSchema);
+    expectSuccess(await ProgressHandler.handleGetProgressSummary(createEvent({ pathParameters: { userId }, requestContext }), context), ProgressSummaryResponseSchema);
+    expectSuccess(await ProgressHandler.handleGetFAFSASections(createEvent(), context), FAFSASectionsResponseSchema);
+    expectSuccess(await DeadlinesHandler.handleGetDeadlines(createEvent({
+      queryStringParameters: { state: 'NY', schools: 'nyu' },
+    }), context), DeadlinesResponseSchema);
+    expectSuccess(await AuthHandler.handleDeleteAccount(createEvent({
+      httpMethod: 'DELETE',
+      pathParameters: { userId },
+      requestContext,
+    }), context), DeleteAccountResponseSchema);
+  });
+
+  it('should answer link, student progress and admin requests with their response schemas', async () => {
+    const studentId = 'c0ffee00-0000-4000-8000-000000000006';
+    const counselorId = 'c0ffee00-0000-4000-8000-000000000007';
+    const adminId = 'c0ffee00-0000-4000-8000-000000000008';
+    vi.mocked(DynamoDBService.queryItems).mockResolvedValue([{ userId: counselorId, email: 'counselor@example.com', role: 'counselor' }]);
+
+    const created = await LinksHandler.handleCreateLink(createEvent({
+      body: JSON.stringify({ code: 'ABCD2345', shares: ['checklist'] }),
+      requestContext: signedInAs(studentId),
+    }), context);
+    expectSuccess(created, StudentLinkResponseSchema);
+    const { link } = JSON.parse(created.body).data;
+    vi.mocked(DynamoDBService.queryAllItems).mockResolvedValue([link]);
+    vi.mocked(DynamoDBService.getItem).mockImplementation(async (table) => table === TABLES.STUDENT_LINKS ? link : undefined);
+
+    expectSuccess(await LinksHandler.handleGetLinks(createEvent({ requestContext: signedInAs(studentId) }), context), LinksResponseSchema);
+    expectSuccess(await LinksHandler.handleGetLinks(createEvent({ requestContext: signedInAs(counselorId, 'counselors') }), context), LinksResponseSchema);
+    vi.mocked(DynamoDBService.updateItem).mockResolvedValueOnce({ ...link, shares: ['progress'] });
+    expectSuccess(await LinksHandler.handleUpdateLink(createEvent({
+      pathParameters: { userId: counselorId },
+      body: JSON.stringify({ shares: ['progress'] }),
+      requestContext: signedInAs(studentId),
+    }), context), StudentLinkResponseSchema);
+    expectSuccess(await ProgressHandler.handleGetStudentProgress(createEvent({
+      pathParameters: { userId: studentId },
+      requestContext: signedInAs(counselorId, 'counselors'),
+    }), context), StudentProgressResponseSchema);
+
+    vi.spyOn(DynamoDBService, 'scanAllItems').mockResolvedValue([]);
+    expectSuccess(await AdminHandler.handleListErrorPatterns(createEvent(), context), ErrorPatternsResponseSchema);
+    expectSuccess(await AdminHandler.handleUpsertErrorPattern(createEvent({
+      pathParameters: { patternId: 'ssn_format' },
+      body: JSON.stringify({
+        name: 'SSN format',
+        description: 'SSNs have nine digits',
+        errorType: 'incorrect_format',
+        severity: 'critical',
+        section: 'student-demographics',
+        patterns: ['social security'],
+        solution: 'Enter all nine digits',
+      }),
+      requestContext: signedInAs(adminId, 'admins'),
+    }), context), ErrorPatternResponseSchema);
+  });
+
+  it('should reject invalid requests with the uniform validation error body', async () => {
+    const userId = 'c0ffee00-0000-4000-8000-000000000004';
+
+    expectValidationError(await ChatHandler.handleChatMessage(createEvent({ body: '{not json' }), context));
+    expectValidationError(await ChatHandler.handleChatMessage(createEvent({ body: JSON.stringify({ message: 'Hi' }) }), context));
+    expectValidationError(await ChatHandler.handleChatHistory(createEvent({
+      pathParameters: { userId },
+      queryStringParameters: { limit: 'lots' },
+    }), context));
+    expectValidationError(await AuthHandler.handleSignIn(createEvent({ body: JSON.stringify({ email: 'student@example.com' }) }), context));
+    expectValidationError(await AuthHandler.handleForgotPassword(createEvent({ body: JSON.stringify({ email: 'nope' }) }), context));
+    expectValidationError(await AuthHandler.handleGetUserProfile(createEvent(), context));
+    expectValidationError(await AuthHandler.handleRespondToChallenge(createEvent({
+      body: JSON.stringify({ email: 'student@example.com', challengeName: 'SOFTWARE_TOKEN_MFA', session: 'challenge-session', code: 'abc' }),
+    }), context));
+    expectValidationError(await AuthHandler.handleSetupSms(createEvent({
+      body: JSON.stringify({ accessToken: 'access-token', phoneNumber: '555-1234' }),
+      requestContext: signedInAs(userId),
+    }), context));
+    expectValidationError(await AuthHandler.handleVerifyEmail(createEvent({ body: JSON.stringify({ email: 'student@example.com', code: 'abc' }) }), context));
+    expectValidationError(await AuthHandler.handleChangePassword(createEvent({
+      body: JSON.stringify({ accessToken: 'access-token', currentPassword: 'correct-horse', newPassword: 'correct-horse' }),
+      requestContext: signedInAs(userId),
+    }), context));
+    expectValidationError(await ProgressHandler.handleUpdateProgress(createEvent({
+      pathParameters: { userId },
+      body: JSON.stringify({ sectionId: 'student-finances', action: 'finish' }),
+      requestContext: signedInAs(userId),
+    }), context));
+  });
+
+  it('should reject unauthorized and cross-user requests with error bodies', async () => {
+    const userId = 'c0ffee00-0000-4000-8000-000000000005';
+    const results = [
+      await ProgressHandler.handleGetProgress(createEvent({ pathParameters: { userId } }), context),
+      await ProgressHandler.handleGetProgress(createEvent({ pathParameters: { userId }, requestContext: signedInAs('someone-else') }), context),
+      await ChatHandler.handleChatMessage(createEvent({ body: JSON.stringify({ content: 'What is the FAFSA?', userId }), headers: asGuest() }), context),
+      await ChatHandler.handleChatMessage(createEvent({ body: JSON.stringify({ content: 'What is the FAFSA?' }) }), context),
+      await ProgressHandler.handleGetStudentProgress(createEvent({ pathParameters: { userId }, requestContext: signedInAs('someone-else') }), context),
+      await AdminHandler.handleSetUserRole(createEvent({
+        body: JSON.stringify({ email: 'someone@example.com', role: 'admin' }),
+        requestContext: signedInAs('someone-else', 'counselors'),
+      }), context),
+    ];
+
+    expect(results.map(result => result.statusCode)).toEqual([401, 403, 403, 401, 403, 403]);
+    results.forEach(result => ErrorResponseSchema.parse(JSON.parse(result.body)));
+  });
+
+  it('should refuse rate limited requests with the rate limit error body', async () => {
+    vi.mocked(DynamoDBService.getItem).mockImplementation(async (table, key) =>
+      table === TABLES.RATE_LIMITS ? { ...key, tokens: 0, refilledAt: Date.now() } : undefined
+    );
+
+    const result = await ChatHandler.handleChatMessage(createEvent({
+      body: JSON.stringify({ content: 'What is the FAFSA?' }),
+      headers: asGuest(),
+    }), context);
+
+    expect(result.statusCode).toBe(429);
+    const body = RateLimitErrorResponseSchema.parse(JSON.parse(result.body));
+    expect(result.headers?.['Retry-After']).toBe(String(body.details.retryAfterSeconds));
+  });
+});
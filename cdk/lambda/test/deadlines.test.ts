@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DeadlineDefinitionSchema,
+  FAFSA_DEADLINES,
+  FAFSA_SCHOOLS,
+  STATE_CODES,
+  currentAwardYear,
+  daysUntil,
+  openAwardYears,
+  resolveDeadlines,
+} from '../shared/contracts';
+
+describe('Deadlines', () => {
+  it('should move to the next award year when its FAFSA opens', () => {
+    expect(currentAwardYear('2026-09-30')).toBe('2026-27');
+    expect(currentAwardYear('2026-10-01')).toBe('2027-28');
+    expect(currentAwardYear('2099-12-31')).toBe('2100-01');
+  });
+
+  it('should keep last year\'s FAFSA open until June 30', () => {
+    expect(openAwardYears('2027-06-30')).toEqual(['2026-27', '2027-28']);
+    expect(openAwardYears('2027-07-01')).toEqual(['2027-28']);
+    expect(openAwardYears('2027-10-01')).toEqual(['2027-28', '2028-29']);
+  });
+
+  it('should roll recurring dates forward and mark years that haven\'t been reviewed as expected', () => {
+    const federal = (awardYear: string) => resolveDeadlines({ awardYear })
+      .find(deadline => deadline.scope === 'federal');
+
+    expect(federal('2026-27')).toMatchObject({ date: '2027-06-30', projected: false });
+    expect(federal('2031-32')).toMatchObject({ date: '2032-06-30', projected: true });
+  });
+
+  it('should put a deadline in the right year of the award year', () => {
+    const dates = Object.fromEntries(resolveDeadlines({ awardYear: '2026-27', state: 'all' })
+      .map(deadline => [deadline.id, deadline.date]));
+
+    // Montana's priority date comes before the award year starts, New York's TAP when it ends
+    expect(dates.mt).toBe('2025-12-01');
+    expect(dates['ca-cal-grant']).toBe('2026-03-02');
+    expect(dates['ny-tap']).toBe('2027-06-30');
+    expect(dates['il-map']).toBeNull();
+  });
+
+  it('should list dated deadlines soonest first, then those without a date', () => {
+    const deadlines = resolveDeadlines({ awardYear: '2026-27', state: 'all' });
+    const dated = deadlines.filter(deadline => deadline.date).map(deadline => deadline.date!);
+    const firstUndated = deadlines.findIndex(deadline => !deadline.date);
+
+    expect(dated).toEqual([...dated].sort());
+    expect(deadlines.slice(firstUndated).every(deadline => !deadline.date)).toBe(true);
+    expect(deadlines[firstUndated].timing).toBe('asap');
+  });
+
+  it('should only include the requested state and schools', () => {
+    const deadlines = resolveDeadlines({ awardYear: '2026-27', state: 'TX', schools: ['ut-austin'] });
+
+    expect(deadlines.map(deadline => deadline.id)).toEqual(['tx', 'ut-austin', 'federal']);
+    expect(resolveDeadlines({ awardYear: '2026-27' }).map(deadline => deadline.id)).toEqual(['federal']);
+  });
+
+  it('should cover every state and DC with valid entries', () => {
+    expect(FAFSA_DEADLINES.every(definition => DeadlineDefinitionSchema.safeParse(definition).success)).toBe(true);
+    expect(new Set(FAFSA_DEADLINES.map(definition => definition.id)).size).toBe(FAFSA_DEADLINES.length);
+    expect(STATE_CODES.filter(state => !FAFSA_DEADLINES.some(definition => definition.state === state))).toEqual([]);
+    expect(FAFSA_SCHOOLS.filter(school => !FAFSA_DEADLINES.some(definition => definition.schoolId === school.id))).toEqual([]);
+    // Deadlines and priority dates recur on a date, and the other timings have none
+    expect(FAFSA_DEADLINES.filter(definition =>
+      (definition.timing === 'deadline' || definition.timing === 'priority') !== !!definition.recurs)).toEqual([]);
+  });
+
+  it('should count the days left, with the day itself as 0', () => {
+    expect(daysUntil('2027-03-02', '2027-02-28')).toBe(2);
+    expect(daysUntil('2027-03-02', '2027-03-02')).toBe(0);
+    expect(daysUntil('2027-03-02', '2027-03-03')).toBe(-1);
+  });
+});
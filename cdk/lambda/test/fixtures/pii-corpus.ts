@@ -0,0 +1,87 @@
+import * as fc from 'fast-check';
+
+// Generators and examples for PII property tests. Both the Lambda tests and the frontend
+// PrivacyService tests use them, so the two sides are held to the same cases.
+
+const digits = (length: number) => fc.array(fc.integer({ min: 0, max: 9 }), { minLength: length, maxLength: length })
+  .map(values => values.join(''));
+
+const luhnCheckDigit = (partial: string) => {
+  let sum = 0;
+  for (let i = 0; i < partial.length; i++) {
+    let digit = Number(partial[partial.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+// SSNs the SSA could have issued: area 001-899 except 666, group 01-99, serial 0001-9999
+export const validSsn = fc.tuple(
+  fc.integer({ min: 1, max: 899 }).filter(area => area !== 666),
+  fc.integer({ min: 1, max: 99 }),
+  fc.integer({ min: 1, max: 9999 })
+).map(([area, group, serial]) =>
+  `${String(area).padStart(3, '0')}-${String(group).padStart(2, '0')}-${String(serial).padStart(4, '0')}`);
+
+// SSN-shaped numbers that can't be SSNs
+export const invalidSsn = fc.oneof(
+  fc.tuple(fc.constantFrom('000', '666', '900', '987', '999'), digits(2), digits(4)),
+  fc.tuple(fc.integer({ min: 1, max: 899 }).map(area => String(area).padStart(3, '0')), fc.constant('00'), digits(4)),
+  fc.tuple(fc.integer({ min: 1, max: 899 }).map(area => String(area).padStart(3, '0')), digits(2), fc.constant('0000'))
+).map(([area, group, serial]) => `${area}-${group}-${serial}`);
+
+// 16-digit Visa and Mastercard numbers with a valid Luhn check digit, grouped in fours
+export const luhnCard = fc.tuple(fc.constantFrom('4', '51', '55'), fc.constantFrom(' ', '-', ''))
+  .chain(([prefix, separator]) => digits(15 - prefix.length).map(body => {
+    const partial = prefix + body;
+    const number = partial + luhnCheckDigit(partial);
+    return separator ? number.match(/.{4}/g)!.join(separator) : number;
+  }));
+
+// The same numbers with the check digit changed, so they fail the Luhn check
+export const nonLuhnCard = luhnCard.map(card => {
+  const last = Number(card[card.length - 1]);
+  return card.slice(0, -1) + String((last + 1) % 10);
+});
+
+export const phoneNumber = fc.tuple(
+  fc.integer({ min: 200, max: 999 }).filter(area => ![800, 833, 844, 855, 866, 877, 888].includes(area)),
+  fc.integer({ min: 200, max: 999 }),
+  fc.integer({ min: 0, max: 9999 }),
+  fc.constantFrom('dashes', 'dots', 'parens')
+).map(([area, exchange, line, style]) => {
+  const lineDigits = String(line).padStart(4, '0');
+  if (style === 'parens') return `(${area}) ${exchange}-${lineDigits}`;
+  return style === 'dots' ? `${area}.${exchange}.${lineDigits}` : `${area}-${exchange}-${lineDigits}`;
+});
+
+export const aNumber = fc.tuple(digits(9), fc.constantFrom('A', 'A-', 'A#'))
+  .map(([number, prefix]) => `${prefix}${number}`);
+
+// Birthdays of students and parents, as [month, day, year]
+export const birthDate = fc.tuple(
+  fc.integer({ min: 1, max: 12 }),
+  fc.integer({ min: 1, max: 28 }),
+  fc.integer({ min: 1950, max: 2010 })
+);
+
+// Sentences from real FAFSA questions with numbers that look like PII but aren't
+export const PII_FREE_QUESTIONS = [
+  'My ZIP code is 94110-1234, which state deadline applies?',
+  'My parents made 85000 in 2023 and 92000 in 2024.',
+  'Our AGI was $65,432 and untaxed income was 12345678 cents?',
+  'Is the deadline for 2025-26 still June 30, 2026?',
+  'The FAFSA opened on 10/01/2024, when will I hear back?',
+  'I called the FSA Information Center at 1-800-433-3243.',
+  'Do I report line 11 of the 1040 or Schedule 1 line 8?',
+  'My school code is 001234 and my SAI is -1500.',
+  'We have 2 kids in college and 3 in the household.',
+  'My FSA ID is locked, how do I reset my password?',
+  'Is 666-12-3456 a real SSN? I saw it in an example.',
+  'What is an A-Number and where do I find it?',
+  'Max Pell Grant is $7,395 for 2024-2025.',
+];
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { GroundingVerifier } from '../shared/grounding-verifier';
+
+const CONTEXT = '[1] Income and Tax Information: Report 2023 tax information. ' +
+  'Students who earned more than $9,410 may need to report it. Forms are due 10/15/2024.';
+
+describe('GroundingVerifier', () => {
+  it('should extract amounts, percentages and dates', () => {
+    const claims = GroundingVerifier.extractClaims(
+      'You could get $7,395 or $7.4k, covering 50% of costs. Apply by October 1st, then again on June 30, 2026 or 3/1/25.'
+    );
+
+    expect(claims.map(({ type, value }) => [type, value])).toEqual([
+      ['amount', '7395'],
+      ['amount', '7400'],
+      ['percentage', '50'],
+      ['date', '10-01'],
+      ['date', '2026-06-30'],
+      ['date', '2025-03-01'],
+    ]);
+  });
+
+  it('should accept claims found in the retrieved context or the facts table', () => {
+    const result = GroundingVerifier.verify(
+      'If you earned over $9,410 you may need to report it by October 15, 2024. Pell Grants can reach $7,395.',
+      CONTEXT
+    );
+
+    expect(result.claims).toHaveLength(3);
+    expect(result.flagged).toEqual([]);
+  });
+
+  it('should flag claims that no source supports', () => {
+    const result = GroundingVerifier.verify('Your school may award $2,500 if you apply by March 2.', CONTEXT);
+
+    expect(result.flagged.map(item => item.claim.text)).toEqual(['$2,500', 'March 2']);
+    expect(result.flagged.every(item => item.expected === undefined)).toBe(true);
+  });
+
+  it('should flag figures that contradict the facts table with the expected value', () => {
+    const result = GroundingVerifier.verify(
+      'The maximum Pell Grant is $7,500. The federal deadline is May 1.',
+      CONTEXT
+    );
+
+    expect(result.flagged).toEqual([
+      expect.objectContaining({ claim: expect.objectContaining({ text: '$7,500' }), expected: ['$7,395'] }),
+      expect.objectContaining({ claim: expect.objectContaining({ text: 'May 1' }), expected: ['June 30'] }),
+    ]);
+    expect(GroundingVerifier.hasContradictions(result)).toBe(true);
+    expect(GroundingVerifier.formatCorrections(result)).toContain('Maximum Federal Pell Grant award (2024–25 and 2025–26): $7,395');
+  });
+
+  it('should only apply a fact when its keywords appear as whole words', () => {
+    // "determined" contains "min", but the sentence isn't about the $740 minimum
+    const pell = GroundingVerifier.verify(
+      'Your Pell Grant is determined by your Student Aid Index, and awards go up to $7,395 a year.',
+      CONTEXT
+    );
+    // "unsubsidized" contains "subsidized", but the subsidized loan limits don't apply to it
+    const loans = GroundingVerifier.verify(
+      'First-year students can borrow up to $2,000 more in unsubsidized loans.',
+      `${CONTEXT} Dependent students can borrow an additional $2,000 in unsubsidized loans.`
+    );
+
+    expect(pell.flagged).toEqual([]);
+    expect(loans.flagged).toEqual([]);
+    expect(GroundingVerifier.hasContradictions(pell)).toBe(false);
+  });
+
+  it('should still apply facts to the sentences about them', () => {
+    const result = GroundingVerifier.verify(
+      'The minimum Pell Grant is $650. First-year students can get $4,000 in subsidized loans.',
+      CONTEXT
+    );
+
+    expect(result.flagged.map(({ claim, expected }) => [claim.text, expected])).toEqual([
+      ['$650', ['$740']],
+      ['$4,000', ['$3,500', '$5,500']],
+    ]);
+  });
+
+  it('should annotate flagged claims inline', () => {
+    const answer = 'The maximum Pell Grant is $7,500. Your school may add $2,500.';
+    const result = GroundingVerifier.verify(answer, CONTEXT);
+
+    expect(GroundingVerifier.annotate(answer, result.flagged)).toBe(
+      'The maximum Pell Grant is $7,500 (⚠️ StudentAid.gov lists $7,395). ' +
+      'Your school may add $2,500 (⚠️ verify with StudentAid.gov).'
+    );
+    expect(GroundingVerifier.toMetadata(result, false)).toEqual({
+      verified: false,
+      flaggedClaims: [{ text: '$7,500', expected: ['$7,395'] }, { text: '$2,500', expected: undefined }],
+      regenerated: false,
+    });
+  });
+});
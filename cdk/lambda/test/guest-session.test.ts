@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import * as crypto from 'crypto';
+
+const getSecretValue = vi.hoisted(() => vi.fn(async (_input: unknown) => ({ SecretString: 'test-guest-secret' })));
+
+vi.mock('@aws-sdk/client-dynamodb');
+vi.mock('@aws-sdk/lib-dynamodb');
+vi.mock('@aws-sdk/client-secrets-manager', () => ({
+  SecretsManagerClient: class { send = (command: { input: unknown }) => getSecretValue(command.input); },
+  GetSecretValueCommand: class { constructor(public input: unknown) {} },
+}));
+
+process.env.GUEST_TOKEN_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:guest-token';
+
+import { GuestSessionService } from '../shared/guest-session';
+import { DynamoDBService, TABLES } from '../shared/dynamodb';
+
+describe('GuestSessionService', () => {
+  const now = new Date('2026-01-05T10:00:00.000Z');
+
+  beforeAll(() => GuestSessionService.loadSigningKey());
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(DynamoDBService, 'putItem').mockResolvedValue({} as any);
+    vi.spyOn(DynamoDBService, 'updateItem').mockResolvedValue({} as any);
+  });
+
+  it('should issue a signed session and record its quota', async () => {
+    const session = await GuestSessionService.issue(now);
+
+    expect(session.guestId).toMatch(/^guest_[0-9a-f-]{36}$/);
+    expect(session.expiresAt).toBe(Math.floor(now.getTime() / 1000) + 120 * 60);
+    expect(DynamoDBService.putItem).toHaveBeenCalledWith(TABLES.GUEST_SESSIONS, expect.objectContaining({
+      guestId: session.guestId,
+      messagesUsed: 0,
+      messageQuota: 20,
+      expiresAt: session.expiresAt,
+    }));
+    expect(GuestSessionService.verify(session.token, { now })).toEqual({
+      session: { guestId: session.guestId, expiresAt: session.expiresAt, messageQuota: 20 },
+    });
+  });
+
+  it('should reject tokens signed with another key or not issued to a guest', () => {
+    const session = { guestId: 'guest_1', expiresAt: Math.floor(now.getTime() / 1000) + 60, messageQuota: 20 };
+    const unsigned = GuestSessionService.sign(session, now).split('.').slice(0, 2).join('.');
+    const otherKey = `${unsigned}.${crypto.createHmac('sha256', 'another-secret').update(unsigned).digest('base64url')}`;
+
+    expect(GuestSessionService.verify(otherKey, { now })).toEqual({ error: 'invalid' });
+    expect(GuestSessionService.verify(GuestSessionService.sign({ ...session, guestId: 'user-1' }, now), { now })).toEqual({ error: 'invalid' });
+    expect(GuestSessionService.verify('guest_1', { now })).toEqual({ error: 'invalid' });
+  });
+
+  it('should report expired tokens unless expiry is allowed', () => {
+    const token = GuestSessionService.sign({ guestId: 'guest_1', expiresAt: Math.floor(now.getTime() / 1000), messageQuota: 20 }, now);
+
+    expect(GuestSessionService.verify(token, { now })).toEqual({ error: 'expired' });
+    expect(GuestSessionService.verify(token, { now, allowExpired: true }).session?.guestId).toBe('guest_1');
+  });
+
+  it('should read the signing key from Secrets Manager once, trying again after a failure', async () => {
+    vi.resetModules();
+    const { GuestSessionService: fresh } = await import('../shared/guest-session');
+    getSecretValue.mockRejectedValueOnce(new Error('Rate exceeded'));
+
+    await expect(fresh.loadSigningKey()).rejects.toThrow('Rate exceeded');
+    expect(() => fresh.sign({ guestId: 'guest_1', expiresAt: 0, messageQuota: 20 })).toThrow('has not been loaded');
+    await Promise.all([fresh.loadSigningKey(), fresh.loadSigningKey()]);
+    await fresh.loadSigningKey();
+
+    expect(getSecretValue).toHaveBeenCalledTimes(2);
+    expect(getSecretValue).toHaveBeenCalledWith({ SecretId: process.env.GUEST_TOKEN_SECRET_ARN });
+  });
+
+  it('should read the token header case-insensitively', () => {
+    expect(GuestSessionService.getToken({ 'x-guest-token': 'abc' })).toBe('abc');
+    expect(GuestSessionService.getToken({ 'X-Guest-Token': 'abc' })).toBe('abc');
+    expect(GuestSessionService.getToken(null)).toBeUndefined();
+  });
+
+  it('should use configured settings and fall back for invalid ones', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(GuestSessionService.getSettings({ GUEST_SESSION_TTL_MINUTES: '30', GUEST_MESSAGE_QUOTA: '5' })).toEqual({ ttlMinutes: 30, messageQuota: 5 });
+    expect(GuestSessionService.getSettings({ GUEST_SESSION_TTL_MINUTES: '-1', GUEST_MESSAGE_QUOTA: 'lots' })).toEqual({ ttlMinutes: 120, messageQuota: 20 });
+  });
+
+  it('should count messages with a conditional write and stop at the quota', async () => {
+    const session = { guestId: 'guest_1', expiresAt: 0, messageQuota: 3 };
+
+    expect(await GuestSessionService.consumeMessage(session)).toBe(true);
+    expect(DynamoDBService.updateItem).toHaveBeenCalledWith(
+      TABLES.GUEST_SESSIONS,
+      { guestId: 'guest_1' },
+      'SET messagesUsed = messagesUsed + :one',
+      { ':one': 1, ':quota': 3 },
+      'messagesUsed < :quota AND attribute_not_exists(upgradedTo)'
+    );
+
+    vi.mocked(DynamoDBService.updateItem).mockRejectedValue(Object.assign(new Error('failed'), { name: 'ConditionalCheckFailedException' }));
+    expect(await GuestSessionService.consumeMessage(session)).toBe(false);
+  });
+});
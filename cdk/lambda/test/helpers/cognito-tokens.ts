@@ -0,0 +1,42 @@
+import * as crypto from 'crypto';
+import { vi } from 'vitest';
+import { CognitoJwk, CognitoTokenVerifier } from '../../shared/cognito-token';
+
+// Signs tokens the way the user pool does, with a key the tests serve as the pool's JWKS
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+export const TEST_KID = 'test-key';
+
+export const testJwks = (): CognitoJwk[] => [
+  { ...(publicKey.export({ format: 'jwk' }) as { kty: string; n: string; e: string }), kid: TEST_KID, alg: 'RS256' },
+];
+
+/**
+ * Serve the test key as the user pool's JWKS
+ */
+export const serveTestJwks = () => {
+  CognitoTokenVerifier.clearCache();
+  return vi.spyOn(CognitoTokenVerifier, 'fetchJwks').mockResolvedValue(testJwks());
+};
+
+export const signCognitoToken = (
+  claims: Record<string, unknown> = {},
+  options: { tokenUse?: 'id' | 'access'; expiresInSeconds?: number; kid?: string; key?: crypto.KeyObject } = {}
+): string => {
+  const { tokenUse = 'id', expiresInSeconds = 3600, kid = TEST_KID, key = privateKey } = options;
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    sub: 'cognito-sub-1',
+    iss: CognitoTokenVerifier.getIssuer(),
+    token_use: tokenUse,
+    ...(tokenUse === 'id' ? { aud: process.env.USER_POOL_CLIENT_ID } : { client_id: process.env.USER_POOL_CLIENT_ID }),
+    iat: now,
+    exp: now + expiresInSeconds,
+    ...claims,
+  };
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'RS256', kid })}.${encode(payload)}`;
+
+  return `${unsigned}.${crypto.sign('RSA-SHA256', Buffer.from(unsigned), key).toString('base64url')}`;
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { KnowledgeIndex } from '../shared/knowledge-index';
+import { KnowledgeDocument } from '../shared/knowledge-base';
+
+const createDocument = (overrides: Partial<KnowledgeDocument>): KnowledgeDocument => ({
+  key: 'general/document.json',
+  title: 'Document',
+  content: '',
+  section: 'general',
+  sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa',
+  lastModified: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const documents = [
+  createDocument({
+    key: 'dependency-status/dependency_status_questions.json',
+    title: 'Dependency Status Questions',
+    section: 'dependency-status',
+    sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/dependency',
+    content: 'Your dependency status determines whose information you report. Independent students are 24 or older, married, or veterans.',
+    keywords: ['independent', 'dependent'],
+  }),
+  createDocument({
+    key: 'student-finances/income_and_tax_information.json',
+    title: 'Income and Tax Information',
+    section: 'student-finances',
+    sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/income',
+    content: 'Report your adjusted gross income from your federal tax return. Untaxed income such as child support is reported separately.',
+    keywords: ['AGI', 'taxes'],
+  }),
+  createDocument({
+    key: 'school-selection/school_selection.json',
+    title: 'School Selection',
+    section: 'school-selection',
+    sourceUrl: 'https://studentaid.gov/apply-for-aid/fafsa/filling-out/school-selection',
+    content: 'You can list up to 20 schools on the FAFSA form. Each school receives your information.',
+  }),
+];
+
+describe('KnowledgeIndex', () => {
+  it('should version the index by its content', () => {
+    const index = KnowledgeIndex.build(documents);
+    const changed = KnowledgeIndex.build([...documents.slice(1), { ...documents[0], content: 'Independent students are 24 or older.' }]);
+
+    expect(KnowledgeIndex.build(documents).contentVersion).toBe(index.contentVersion);
+    expect(changed.contentVersion).not.toBe(index.contentVersion);
+  });
+
+  it('should tokenize without stopwords and fold plurals', () => {
+    expect(KnowledgeIndex.tokenize('What are the school deadlines?')).toEqual(['school', 'deadline']);
+    expect(KnowledgeIndex.tokenize('Which categories apply to my status')).toEqual(['category', 'apply', 'status']);
+  });
+
+  it('should tokenize accented and Chinese text', () => {
+    expect(KnowledgeIndex.tokenize('¿Cuál es la fecha límite?')).toEqual(['cual', 'es', 'la', 'fecha', 'limite']);
+    expect(KnowledgeIndex.tokenize('FAFSA截止日期')).toEqual(['fafsa', '截止', '止日', '日期']);
+  });
+
+  it('should split long documents into passages along sentence boundaries', () => {
+    const sentence = 'The FAFSA form asks about your family and your finances.';
+    const passages = KnowledgeIndex.chunkDocument(
+      createDocument({ content: Array(30).fill(sentence).join(' ') }),
+      40
+    );
+
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.every(passage => passage.text.endsWith('.'))).toBe(true);
+    expect(passages.map(passage => passage.id)).toEqual(passages.map((_, index) => `general/document.json#${index}`));
+  });
+
+  it('should rank the most relevant passage first', () => {
+    const index = KnowledgeIndex.build(documents);
+
+    const results = KnowledgeIndex.search(index, 'How do I report untaxed income like child support?', 3);
+
+    expect(results[0].passage.section).toBe('student-finances');
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(results.every((result, i) => i === 0 || results[i - 1].score >= result.score)).toBe(true);
+  });
+
+  it('should weight title and keyword matches', () => {
+    const index = KnowledgeIndex.build(documents);
+
+    const results = KnowledgeIndex.search(index, 'independent', 3);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].passage.title).toBe('Dependency Status Questions');
+  });
+
+  it('should limit results to top k and to the requested section', () => {
+    const index = KnowledgeIndex.build(documents);
+
+    expect(KnowledgeIndex.search(index, 'information report school income', 1)).toHaveLength(1);
+    expect(
+      KnowledgeIndex.search(index, 'information report school income', 5, 'school-selection')
+        .every(result => result.passage.section === 'school-selection')
+    ).toBe(true);
+  });
+
+  it('should limit results to the requested language', () => {
+    const index = KnowledgeIndex.build([
+      ...documents,
+      createDocument({
+        key: 'dependency-status/dependency_status_questions.es.json',
+        title: 'Preguntas sobre la condición de dependencia',
+        section: 'dependency-status',
+        language: 'es',
+        content: 'Los estudiantes independientes tienen 24 años o más, están casados o son veteranos.',
+      }),
+    ]);
+
+    const spanish = KnowledgeIndex.search(index, 'estudiantes independientes', 5, undefined, 'es');
+    expect(spanish.map(result => result.passage.documentKey)).toEqual(['dependency-status/dependency_status_questions.es.json']);
+    expect(KnowledgeIndex.search(index, 'independent students', 5, undefined, 'es')).toEqual([]);
+    expect(KnowledgeIndex.search(index, 'independent students', 5, undefined, 'en')[0].passage.language).toBe('en');
+  });
+
+  it('should handle queries with regular expression characters', () => {
+    const index = KnowledgeIndex.build(documents);
+
+    expect(() => KnowledgeIndex.search(index, 'what is (AGI)?+ [income* \\', 3)).not.toThrow();
+    expect(KnowledgeIndex.search(index, 'what is (AGI)?+ [income* \\', 3)[0].passage.section).toBe('student-finances');
+  });
+
+  it('should return nothing for queries without searchable terms', () => {
+    const index = KnowledgeIndex.build(documents);
+
+    expect(KnowledgeIndex.search(index, 'what is the', 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promises as fs } from 'fs';
+
+vi.mock('@aws-sdk/client-s3');
+
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { DocumentCleaner } from '../shared/document-cleaner';
+import { KnowledgeBaseService, KnowledgeDocument, OFFICIAL_SOURCES, OfficialSource } from '../shared/knowledge-base';
+import { KnowledgeHandler } from '../knowledge/handler';
+import { LambdaContext } from '../shared/types';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'knowledge');
+const incomeSource = OFFICIAL_SOURCES.find(source => source.section === 'student-finances') as OfficialSource;
+const dependencySource = OFFICIAL_SOURCES.find(source => source.section === 'dependency-status') as OfficialSource;
+
+const mockContext = { awsRequestId: 'test-request-id' } as LambdaContext;
+
+const createFlatePdf = (text: string): Buffer => {
+  const content = zlib.deflateSync(Buffer.from(`BT /F1 12 Tf 72 720 Td (${text}) Tj ET`, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    content,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+};
+
+describe('DocumentCleaner', () => {
+  it('should reduce an HTML page to its main content', async () => {
+    const html = await fs.readFile(path.join(FIXTURES_DIR, 'student-finances', 'income_and_tax_information.html'), 'utf8');
+
+    const text = DocumentCleaner.htmlToText(html);
+
+    expect(text).toContain('Reporting Income and Tax Information on the FAFSA® Form');
+    expect(text).toContain('For the 2025–26 FAFSA form, you report 2023 tax information.');
+    expect(text).toContain('- Don\'t report your parents\' income in the student income fields.');
+    expect(text).not.toMatch(/analytics|Apply for Aid|Department of Education|Hidden promo|<\w+/);
+    expect(text.split('\n\n').length).toBeGreaterThan(5);
+  });
+
+  it('should extract text from uncompressed PDF content streams', async () => {
+    const pdf = await fs.readFile(path.join(FIXTURES_DIR, 'dependency-status', 'dependency_status_questions.pdf'));
+
+    const text = DocumentCleaner.pdfToText(pdf);
+
+    expect(text).toContain('Dependency Status Questions Your dependency status determines');
+    expect(text).toContain('makes you independent (it does not).');
+  });
+
+  it('should extract text from Flate-compressed PDF content streams', () => {
+    const text = DocumentCleaner.pdfToText(createFlatePdf('List up to 20 schools on the FAFSA form.'));
+
+    expect(text).toBe('List up to 20 schools on the FAFSA form.');
+  });
+
+  it('should extract FAFSA keywords and common errors', () => {
+    const text = 'Report your adjusted gross income (AGI) from your tax return. Your AGI is on Form 1040.\n\n' +
+      'Don\'t report your parents\' income in the student fields. Income questions come next.';
+
+    expect(DocumentCleaner.extractKeywords('Income and Tax Information', text))
+      .toEqual(expect.arrayContaining(['adjusted gross income', 'AGI', 'tax return', 'income']));
+    expect(DocumentCleaner.extractCommonErrors(text))
+      .toEqual(['Don\'t report your parents\' income in the student fields.']);
+  });
+});
+
+describe('Knowledge ingestion', () => {
+  const stored = new Map<string, KnowledgeDocument>();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(PutObjectCommand).mockClear();
+    stored.clear();
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(KnowledgeBaseService, 'getDocument').mockImplementation(async key => stored.get(key) || null);
+    vi.spyOn(KnowledgeBaseService, 'uploadDocument').mockImplementation(async document => {
+      const key = `${document.section}/${document.title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}.json`;
+      stored.set(key, { ...document, key, lastModified: new Date() });
+      return key;
+    });
+    vi.spyOn(KnowledgeBaseService, 'rebuildSearchIndex').mockResolvedValue({} as any);
+  });
+
+  it('should add cleaned documents from local snapshots and report failures', async () => {
+    const report = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(
+      KnowledgeBaseService.directorySnapshotLoader(FIXTURES_DIR)
+    );
+
+    expect(report.added.map(change => change.key)).toEqual([
+      'dependency-status/dependency_status_questions.json',
+      'student-finances/income_and_tax_information.json',
+    ]);
+    expect(report.added.every(change => change.version === 1 && change.previousVersion === undefined)).toBe(true);
+    expect(report.failed).toHaveLength(OFFICIAL_SOURCES.length - 2);
+    expect(KnowledgeBaseService.rebuildSearchIndex).toHaveBeenCalledTimes(1);
+
+    const income = stored.get('student-finances/income_and_tax_information.json');
+    expect(income?.content).not.toContain('would be fetched');
+    expect(income?.keywords).toContain('AGI');
+    expect(income?.commonErrors).toContain('Don\'t report your parents\' income in the student income fields.');
+    expect(income?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should leave unchanged documents alone', async () => {
+    const loadSnapshot = KnowledgeBaseService.directorySnapshotLoader(FIXTURES_DIR);
+    await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(loadSnapshot, [incomeSource]);
+    vi.mocked(KnowledgeBaseService.rebuildSearchIndex).mockClear();
+
+    const report = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(loadSnapshot, [incomeSource]);
+
+    expect(report.unchanged).toEqual(['student-finances/income_and_tax_information.json']);
+    expect(report.updated).toHaveLength(0);
+    expect(KnowledgeBaseService.rebuildSearchIndex).not.toHaveBeenCalled();
+  });
+
+  it('should archive the previous version and report what changed', async () => {
+    const html = await fs.readFile(path.join(FIXTURES_DIR, 'student-finances', 'income_and_tax_information.html'), 'utf8');
+    await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(
+      async () => ({ body: Buffer.from(html), contentType: 'text/html' }),
+      [incomeSource]
+    );
+
+    const changedHtml = html.replace('you report 2023 tax information', 'you report 2024 tax information');
+    const report = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(
+      async () => ({ body: Buffer.from(changedHtml), contentType: 'text/html' }),
+      [incomeSource]
+    );
+
+    expect(report.updated).toEqual([expect.objectContaining({
+      key: 'student-finances/income_and_tax_information.json',
+      previousVersion: 1,
+      version: 2,
+      sentencesAdded: 1,
+      sentencesRemoved: 1,
+    })]);
+    const archivedKeys = vi.mocked(PutObjectCommand).mock.calls.map(([input]) => input.Key);
+    expect(archivedKeys).toContain('versions/student-finances/income_and_tax_information/v1.json');
+  });
+
+  it('should not replace a document with a near-empty snapshot', async () => {
+    const report = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(
+      async () => ({ body: Buffer.from('<html><body><main>Service unavailable</main></body></html>'), contentType: 'text/html' }),
+      [dependencySource]
+    );
+
+    expect(report.failed).toEqual([{ sourceUrl: dependencySource.url, error: expect.stringContaining('too little text') }]);
+    expect(KnowledgeBaseService.uploadDocument).not.toHaveBeenCalled();
+  });
+
+  it('should add a document S3 doesn\'t have but not one it couldn\'t read', async () => {
+    vi.mocked(KnowledgeBaseService.getDocument).mockRestore();
+    const loadSnapshot = KnowledgeBaseService.directorySnapshotLoader(FIXTURES_DIR);
+    const s3Error = (name: string, httpStatusCode: number) => Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+    vi.mocked(S3Client.prototype.send).mockRejectedValueOnce(s3Error('NoSuchKey', 404) as never);
+    const missing = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(loadSnapshot, [incomeSource]);
+    vi.mocked(S3Client.prototype.send).mockRejectedValueOnce(s3Error('AccessDenied', 403) as never);
+    const unreadable = await KnowledgeBaseService.updateKnowledgeBaseFromOfficialSources(loadSnapshot, [incomeSource]);
+
+    expect(missing.added.map(change => change.key)).toEqual(['student-finances/income_and_tax_information.json']);
+    expect(unreadable.failed).toEqual([{ sourceUrl: incomeSource.url, error: expect.stringContaining('AccessDenied') }]);
+    expect(KnowledgeBaseService.uploadDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the scheduled run when no source could be ingested', async () => {
+    await expect(
+      KnowledgeHandler.handleIngestion({ snapshotDir: path.join(FIXTURES_DIR, 'missing') }, mockContext)
+    ).rejects.toThrow('Knowledge ingestion failed for every official source');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PIIDetector } from '../shared/pii';
+import { PrivacyService } from '../shared/privacy';
+import {
+  PII_FREE_QUESTIONS,
+  aNumber,
+  birthDate,
+  invalidSsn,
+  luhnCard,
+  nonLuhnCard,
+  phoneNumber,
+  validSsn,
+} from './fixtures/pii-corpus';
+
+const typesIn = (text: string, locale?: 'en' | 'es' | 'fr' | 'zh' | 'ko' | 'vi') =>
+  PIIDetector.detect(text, { locale }).map(match => match.type);
+
+describe('PIIDetector', () => {
+  it('should find SSNs the SSA could issue and skip ones it never does', () => {
+    fc.assert(fc.property(validSsn, fc.constantFrom('My number is', 'SSN:', 'Is this right'), (ssn, lead) => {
+      const { text, types } = PIIDetector.redact(`${lead} ${ssn}?`);
+      expect(types).toEqual(['ssn']);
+      expect(text).toBe(`${lead} [SSN_REDACTED]?`);
+    }), { numRuns: 100 });
+
+    fc.assert(fc.property(invalidSsn, ssn => {
+      expect(typesIn(`My SSN is ${ssn}`)).toEqual([]);
+    }), { numRuns: 100 });
+  });
+
+  it('should only treat Luhn-valid numbers as cards', () => {
+    fc.assert(fc.property(luhnCard, card => {
+      expect(typesIn(`Can I pay the fee with ${card}?`)).toEqual(['creditCard']);
+    }), { numRuns: 100 });
+
+    fc.assert(fc.property(nonLuhnCard, card => {
+      expect(typesIn(`Reference ${card}`)).not.toContain('creditCard');
+    }), { numRuns: 100 });
+  });
+
+  it('should find phone numbers and A-Numbers in any surrounding text', () => {
+    fc.assert(fc.property(phoneNumber, aNumber, fc.string({ maxLength: 40 }), (phone, alienNumber, other) => {
+      const { text, types } = PIIDetector.redact(`${other} call ${phone}, my number is ${alienNumber}`);
+      expect(types).toEqual(expect.arrayContaining(['phone', 'aNumber']));
+      expect(text).not.toContain(phone);
+      expect(text).not.toContain(alienNumber);
+    }), { numRuns: 100 });
+  });
+
+  it('should leave numbers that only look like PII alone', () => {
+    for (const question of PII_FREE_QUESTIONS) {
+      expect({ question, types: typesIn(question) }).toEqual({ question, types: [] });
+    }
+  });
+
+  it('should need a nearby keyword before calling a bare number a bank account', () => {
+    expect(typesIn('My checking account number is 000123456789')).toEqual(['bankAccount']);
+    expect(typesIn('Mi número de cuenta es 000123456789', 'es')).toEqual(['bankAccount']);
+    expect(typesIn('Our household income was 123456789 won')).toEqual(['ssn']);
+    expect(PIIDetector.detect('Our household income was 123456789 won')[0].confidence).toBeLessThan(0.9);
+  });
+
+  it('should read dates of birth in the order the locale writes them', () => {
+    fc.assert(fc.property(birthDate, ([month, day, year]) => {
+      const us = `${month}/${day}/${year}`;
+      const european = `${day}/${month}/${year}`;
+
+      expect(typesIn(`I was born ${us}`)).toEqual(['dateOfBirth']);
+      expect(typesIn(`Nací el ${european}`, 'es')).toEqual(['dateOfBirth']);
+      expect(typesIn(`出生日期 ${year}年${month}月${day}日`, 'zh')).toEqual(['dateOfBirth']);
+    }), { numRuns: 100 });
+
+    expect(typesIn('I was born 31/12/2005')).toEqual([]);
+    expect(typesIn('Je suis né le 3 mars 2006', 'fr')).toEqual(['dateOfBirth']);
+    expect(typesIn('My birthday is March 3rd, 2006')).toEqual(['dateOfBirth']);
+  });
+
+  it('should find addresses, FSA ID logins and license numbers', () => {
+    expect(PIIDetector.redact('We live at 1234 Maple Grove Ave, Apt 5, Springfield, IL 62704 now').text)
+      .toBe('We live at [ADDRESS_REDACTED] now');
+    expect(PIIDetector.redact('My FSA ID username is jdoe_2007 and password: Hunter2!').text)
+      .toBe('My FSA ID username is [FSA_ID_REDACTED] and password: [FSA_ID_REDACTED]');
+    expect(typesIn('My driver\'s license is D1234567')).toEqual(['driverLicense']);
+    expect(typesIn('Vivo en Calle Ocho 1520', 'es')).toEqual(['address']);
+  });
+
+  it('should score matches so callers can choose how cautious to be', () => {
+    const text = 'Maybe 123456789 or SSN 123-45-6789';
+
+    expect(PIIDetector.detect(text).map(match => match.confidence)).toEqual([0.6, 0.95]);
+    expect(PIIDetector.detect(text, { minConfidence: 0.9 }).map(match => match.value)).toEqual(['123-45-6789']);
+  });
+});
+
+describe('PrivacyService', () => {
+  it('should give the same answer for the same text every time', () => {
+    const text = 'My SSN is 123-45-6789 and my email is test@example.com';
+    const first = PrivacyService.detectAndSanitizePII(text);
+
+    expect(PrivacyService.detectAndSanitizePII(text)).toEqual(first);
+    expect(first).toEqual({
+      hasPII: true,
+      sanitizedText: 'My SSN is [SSN_REDACTED] and my email is [EMAIL_REDACTED]',
+      warnings: [
+        'Social Security Number detected and removed for your privacy',
+        'Email address detected and removed for your privacy',
+      ],
+      detectedTypes: ['ssn', 'email'],
+    });
+  });
+});
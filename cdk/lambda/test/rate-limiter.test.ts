@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@aws-sdk/client-dynamodb');
+vi.mock('@aws-sdk/lib-dynamodb');
+
+import { RateLimiter } from '../shared/rate-limiter';
+import { DynamoDBService, TABLES } from '../shared/dynamodb';
+import { APIGatewayProxyEvent } from '../shared/types';
+import { Caller } from '../shared/caller';
+
+describe('RateLimiter', () => {
+  const now = new Date('2026-01-05T10:00:00.000Z').getTime();
+  const limit = { capacity: 2, refillPerMinute: 6 };
+  const settings = { user: limit, guest: limit, ip: { capacity: 60, refillPerMinute: 30 }, dailyTokenBudget: 1000 };
+
+  const event = {
+    requestContext: { requestId: 'test-request-id', identity: { sourceIp: '203.0.113.7', userAgent: 'test-agent' } },
+  } as unknown as APIGatewayProxyEvent;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(DynamoDBService, 'getItem').mockResolvedValue(undefined);
+    vi.spyOn(DynamoDBService, 'updateItem').mockResolvedValue({} as any);
+  });
+
+  it('should start a new bucket full and spend one request from it', async () => {
+    const decision = await RateLimiter.take('user#user-1', limit, now);
+
+    expect(decision).toEqual({ allowed: true });
+    expect(DynamoDBService.updateItem).toHaveBeenCalledWith(
+      TABLES.RATE_LIMITS,
+      { bucketKey: 'user#user-1' },
+      'SET tokens = :tokens, refilledAt = :refilledAt, expiresAt = :expiresAt',
+      { ':tokens': 1, ':refilledAt': now, ':previous': 0, ':expiresAt': Math.ceil((now + 10000) / 1000) },
+      'attribute_not_exists(bucketKey) OR refilledAt = :previous'
+    );
+  });
+
+  it('should refill over time and say when the next request is allowed', async () => {
+    vi.mocked(DynamoDBService.getItem).mockResolvedValue({ bucketKey: 'user#user-1', tokens: 0, refilledAt: now - 4000 });
+
+    const decision = await RateLimiter.take('user#user-1', limit, now);
+
+    // 6 per minute is one every 10 seconds, and 4 of them have passed
+    expect(decision).toEqual({ allowed: false, reason: 'rate', retryAfterSeconds: 6 });
+    expect(DynamoDBService.updateItem).not.toHaveBeenCalled();
+  });
+
+  it('should read the bucket again when a concurrent request wrote it first', async () => {
+    vi.mocked(DynamoDBService.getItem)
+      .mockResolvedValueOnce({ bucketKey: 'user#user-1', tokens: 1, refilledAt: now - 1000 })
+      .mockResolvedValueOnce({ bucketKey: 'user#user-1', tokens: 0, refilledAt: now });
+    vi.mocked(DynamoDBService.updateItem).mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' })
+    );
+
+    const decision = await RateLimiter.take('user#user-1', limit, now);
+
+    expect(decision).toEqual({ allowed: false, reason: 'rate', retryAfterSeconds: 10 });
+    expect(DynamoDBService.getItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let requests through when the table is unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(DynamoDBService.getItem).mockRejectedValue(new Error('Service unavailable'));
+
+    expect(await RateLimiter.take('user#user-1', limit, now)).toEqual({ allowed: true });
+    expect(await RateLimiter.checkDailyBudget('user-1', 1000, now)).toEqual({ allowed: true });
+  });
+
+  it('should check the caller\'s bucket and then their address\'s', async () => {
+    const guest: Caller = {
+      userId: 'guest_1',
+      email: null,
+      isGuest: true,
+      role: 'student',
+      session: { guestId: 'guest_1', expiresAt: now / 1000 + 3600, messageQuota: 20 },
+    };
+
+    await RateLimiter.checkChatRequest(guest, event, settings, now);
+
+    expect(vi.mocked(DynamoDBService.getItem).mock.calls.map(([, key]) => key)).toEqual([
+      { bucketKey: 'guest#guest_1' },
+      { bucketKey: 'ip#203.0.113.7' },
+    ]);
+  });
+
+  it('should refuse signed-in users over the daily budget until midnight UTC', async () => {
+    vi.mocked(DynamoDBService.getItem).mockResolvedValue({ bucketKey: 'daily#user-1#2026-01-05', tokensUsed: 1000 });
+    const user: Caller = { userId: 'user-1', email: 'student@example.com', isGuest: false, role: 'student' };
+
+    const decision = await RateLimiter.checkChatRequest(user, event, settings, now);
+
+    expect(decision).toEqual({ allowed: false, reason: 'daily-budget', retryAfterSeconds: 14 * 60 * 60 });
+    expect(DynamoDBService.getItem).toHaveBeenCalledWith(TABLES.RATE_LIMITS, { bucketKey: 'daily#user-1#2026-01-05' });
+    expect(DynamoDBService.getItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should add input and output tokens to today\'s total', async () => {
+    await RateLimiter.recordUsage('user-1', [{ inputTokens: 120, outputTokens: 80 }, undefined, { inputTokens: 30, outputTokens: 20 }], now);
+    await RateLimiter.recordUsage('user-1', [undefined], now);
+
+    expect(DynamoDBService.updateItem).toHaveBeenCalledTimes(1);
+    expect(DynamoDBService.updateItem).toHaveBeenCalledWith(
+      TABLES.RATE_LIMITS,
+      { bucketKey: 'daily#user-1#2026-01-05' },
+      'ADD tokensUsed :tokens SET expiresAt = :expiresAt',
+      { ':tokens': 250, ':expiresAt': new Date('2026-01-07T00:00:00.000Z').getTime() / 1000 }
+    );
+  });
+
+  it('should describe refusals as 429s with a Retry-After header', () => {
+    const rate = RateLimiter.toErrorResponse({ allowed: false, reason: 'rate', retryAfterSeconds: 6 });
+    const budget = RateLimiter.toErrorResponse({ allowed: false, reason: 'daily-budget', retryAfterSeconds: 3600 });
+
+    expect(rate.statusCode).toBe(429);
+    expect(rate.headers['Retry-After']).toBe('6');
+    expect(rate.body).toMatchObject({ code: 'RATE_LIMITED', details: { retryAfterSeconds: 6 } });
+    expect(budget.body).toMatchObject({ code: 'DAILY_BUDGET_EXCEEDED', details: { retryAfterSeconds: 3600 } });
+  });
+
+  it('should read overrides from the environment', () => {
+    const overridden = RateLimiter.getSettings({ CHAT_USER_BURST: '3', DAILY_TOKEN_BUDGET: '5000' });
+
+    expect(overridden.user).toEqual({ capacity: 3, refillPerMinute: 6 });
+    expect(overridden.dailyTokenBudget).toBe(5000);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(RateLimiter.getSettings({ CHAT_IP_BURST: 'lots' }).ip.capacity).toBe(60);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@aws-sdk/client-dynamodb');
+vi.mock('@aws-sdk/lib-dynamodb');
+
+import { ResponseCacheService } from '../shared/response-cache';
+import { DynamoDBService } from '../shared/dynamodb';
+
+describe('ResponseCacheService', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should normalize rephrasings of the same question to one intent', () => {
+    const phrasings = [
+      "When's the FAFSA deadline?",
+      'when is fafsa due',
+      'When are the FAFSA deadlines??',
+      'Could you tell me when the cutoff for the FAFSA is, please?',
+    ];
+
+    expect(new Set(phrasings.map(query => ResponseCacheService.normalizeQuery(query)))).toEqual(new Set(['deadline fafsa when']));
+    expect(ResponseCacheService.normalizeQuery('What does EFC mean?')).toBe(ResponseCacheService.normalizeQuery('what is the SAI'));
+    expect(ResponseCacheService.normalizeQuery('Pell Grant maximum')).not.toBe(ResponseCacheService.normalizeQuery('FAFSA deadline'));
+  });
+
+  it('should keep questions that ask different things apart', () => {
+    const pairs = [
+      ['When does the FAFSA open?', 'Where do I start the FAFSA?'],
+      ['Who is my parent for FAFSA?', 'Why do I need my parent for FAFSA?'],
+      ["Does my dad's income count?", "Does my mom's income count?"],
+      ["Does my father's income count?", "Does my guardian's income count?"],
+    ];
+
+    for (const [first, second] of pairs) {
+      expect(ResponseCacheService.createKey(first, 'kb-v1', 'en').queryHash)
+        .not.toBe(ResponseCacheService.createKey(second, 'kb-v1', 'en').queryHash);
+    }
+    expect(ResponseCacheService.normalizeQuery("my mother's income")).toBe(ResponseCacheService.normalizeQuery("mom's income"));
+  });
+
+  it('should key entries on the knowledge base version and language', () => {
+    const current = ResponseCacheService.createKey('When is the FAFSA due?', 'kb-v2', 'en');
+    const previous = ResponseCacheService.createKey('When is the FAFSA due?', 'kb-v1', 'en');
+    const spanish = ResponseCacheService.createKey('When is the FAFSA due?', 'kb-v2', 'es');
+
+    expect(current.queryHash).not.toBe(previous.queryHash);
+    expect(current.queryHash).not.toBe(spanish.queryHash);
+    expect(current.queryHash).toBe(ResponseCacheService.createKey("When's the FAFSA deadline", 'kb-v2', 'en').queryHash);
+    expect(current.topic).toBe('deadlines');
+  });
+
+  it('should use per-topic TTLs with configurable overrides', () => {
+    expect(ResponseCacheService.getTtlSeconds('deadlines', {})).toBe(60 * 60);
+    expect(ResponseCacheService.getTtlSeconds('general', {})).toBe(24 * 60 * 60);
+
+    const env = { CACHE_TTL_HOURS_BY_TOPIC: '{"deadlines":0.5,"amounts":"soon"}' };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(ResponseCacheService.getTtlSeconds('deadlines', env)).toBe(30 * 60);
+    expect(ResponseCacheService.getTtlSeconds('amounts', env)).toBe(6 * 60 * 60);
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('should treat expired entries as misses', async () => {
+    const key = ResponseCacheService.createKey('FAFSA deadline', 'kb-v1', 'en');
+    vi.spyOn(DynamoDBService, 'getItem').mockResolvedValue({
+      ...key,
+      response: 'Cached answer',
+      sources: [],
+      citations: [],
+      createdAt: '2025-01-01T00:00:00.000Z',
+      hitCount: 1,
+      expiresAt: Math.floor(Date.now() / 1000) - 1,
+    });
+    const updateSpy = vi.spyOn(DynamoDBService, 'updateItem').mockResolvedValue({} as any);
+
+    expect(await ResponseCacheService.get(key)).toBeNull();
+    expect(updateSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { SectionClassifier } from '../shared/section-classifier';
+
+describe('SectionClassifier', () => {
+  it('should put questions in the FAFSA section they are about', () => {
+    const questions: Array<[string, string]> = [
+      ['Do I need a green card to be an eligible noncitizen?', 'student-demographics'],
+      ['Where do I find my AGI on my 1040?', 'student-finances'],
+      ['Do retirement accounts like a 401k count?', 'student-finances'],
+      ['Am I independent if I was in foster care?', 'dependency-status'],
+      ['My parents are divorced, which parent is my contributor?', 'parent-demographics'],
+      ['Where do I put my dad\'s income and household size?', 'parent-finances'],
+      ['How many schools can I add, and where is the federal school code?', 'school-selection'],
+      ['When is the deadline and how do I sign with my FSA ID?', 'signatures'],
+    ];
+
+    expect(questions.map(([question]) => [question, SectionClassifier.classify(question)])).toEqual(questions);
+  });
+
+  it('should use the error patterns\' section tags', () => {
+    // "haven't filed" and "estimated" are phrases of the tax return mismatch pattern
+    expect(SectionClassifier.classify('We haven\'t filed yet, can I use estimated numbers?')).toBe('student-finances');
+    expect(SectionClassifier.classify('I can\'t find school in the search')).toBe('school-selection');
+  });
+
+  it('should leave general questions unclassified', () => {
+    expect(SectionClassifier.classify('What is the FAFSA?')).toBeUndefined();
+    expect(SectionClassifier.classify('Thanks, that helps!')).toBeUndefined();
+  });
+});
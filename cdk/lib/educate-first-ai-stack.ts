@@ -6,6 +6,9 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { Construct } from 'constructs';
 import * as path from 'path';
 
@@ -47,9 +50,11 @@ export class EducateFirstAiStack extends cdk.Stack {
       accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       // Enhanced security settings
+      // Optional for students; counselors are held to it by the auth Lambda. Text messages back
+      // up a lost authenticator app.
       mfa: cognito.Mfa.OPTIONAL,
       mfaSecondFactor: {
-        sms: false,
+        sms: true,
         otp: true,
       },
       deviceTracking: {
@@ -62,12 +67,40 @@ export class EducateFirstAiStack extends cdk.Stack {
           required: true,
           mutable: true,
         },
+        // Only collected from users who turn on text message codes
+        phoneNumber: {
+          required: false,
+          mutable: true,
+        },
+      },
+      autoVerify: {
+        email: true,
+        phone: true,
       },
       customAttributes: {
         userId: new cognito.StringAttribute({ minLen: 1, maxLen: 256, mutable: false }),
       },
     });
 
+    // Roles other than student. Counselors see linked students' progress and must sign in with MFA.
+    new cognito.CfnUserPoolGroup(this, 'CounselorsGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'counselors',
+      description: 'School counselors; two-step verification is required',
+    });
+
+    new cognito.CfnUserPoolGroup(this, 'ParentsGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'parents',
+      description: 'Parents contributing to a student\'s FAFSA; they see what the student shares',
+    });
+
+    new cognito.CfnUserPoolGroup(this, 'AdminsGroup', {
+      userPoolId: userPool.userPoolId,
+      groupName: 'admins',
+      description: 'Manage roles, knowledge documents and error patterns',
+    });
+
     const userPoolClient = new cognito.UserPoolClient(this, 'EducateFirstAiUserPoolClient', {
       userPool,
       authFlows: {
@@ -94,6 +127,14 @@ export class EducateFirstAiStack extends cdk.Stack {
       pointInTimeRecovery: true,
     });
 
+    // Parents and counselors give students their link code
+    usersTable.addGlobalSecondaryIndex({
+      indexName: 'linkCode-index',
+      partitionKey: { name: 'linkCode', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.INCLUDE,
+      nonKeyAttributes: ['userId', 'email', 'role'],
+    });
+
     const conversationsTable = new dynamodb.Table(this, 'ConversationsTable', {
       tableName: 'EducateFirstAi-Conversations',
       partitionKey: { name: 'conversationId', type: dynamodb.AttributeType.STRING },
@@ -124,9 +165,107 @@ export class EducateFirstAiStack extends cdk.Stack {
       tableName: 'EducateFirstAi-ResponseCache',
       partitionKey: { name: 'queryHash', type: dynamodb.AttributeType.STRING },
       billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
-      timeToLiveAttribute: 'expiresAt', // 1-hour cache retention
+      timeToLiveAttribute: 'expiresAt', // Per-topic cache retention (CACHE_TTL_HOURS_BY_TOPIC)
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
+
+    const guestSessionsTable = new dynamodb.Table(this, 'GuestSessionsTable', {
+      tableName: 'EducateFirstAi-GuestSessions',
+      partitionKey: { name: 'guestId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt', // Removed when the guest session expires
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
+
+    // Students linked to a parent or counselor, and what they share with them
+    const studentLinksTable = new dynamodb.Table(this, 'StudentLinksTable', {
+      tableName: 'EducateFirstAi-StudentLinks',
+      partitionKey: { name: 'viewerId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'studentId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+    });
+
+    studentLinksTable.addGlobalSecondaryIndex({
+      indexName: 'studentId-index',
+      partitionKey: { name: 'studentId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'viewerId', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Error patterns added or changed by admins, merged over the frontend's built-in ones
+    const errorPatternsTable = new dynamodb.Table(this, 'ErrorPatternsTable', {
+      tableName: 'EducateFirstAi-ErrorPatterns',
+      partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
       removalPolicy: cdk.RemovalPolicy.DESTROY,
       encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecovery: true,
+    });
+
+    // Chat token buckets per user, guest session and IP address, and users' daily token totals
+    const rateLimitsTable = new dynamodb.Table(this, 'RateLimitsTable', {
+      tableName: 'EducateFirstAi-RateLimits',
+      partitionKey: { name: 'bucketKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt', // Removed once a bucket is full again or the day is over
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+    });
+
+    // HMAC key for guest session tokens
+    const guestTokenSecret = new secretsmanager.Secret(this, 'GuestTokenSecret', {
+      description: 'Signing key for EducateFirstAI guest session tokens',
+      generateSecretString: { passwordLength: 64, excludePunctuation: true },
+    });
+
+    // Bedrock guardrail applied to every model call, on top of the chat Lambda's own checks
+    // (cdk/lambda/shared/guardrails.ts). aws-cdk-lib has no Bedrock constructs at this version.
+    const chatGuardrail = new cdk.CfnResource(this, 'ChatGuardrail', {
+      type: 'AWS::Bedrock::Guardrail',
+      properties: {
+        Name: 'EducateFirstAi-Chat',
+        Description: 'Content, prompt attack, topic and PII filters for the FAFSA assistant',
+        BlockedInputMessaging: 'I can only help with questions about the FAFSA and paying for college.',
+        BlockedOutputsMessaging: 'I wasn\'t able to give a safe answer to that. Please rephrase your FAFSA question.',
+        ContentPolicyConfig: {
+          FiltersConfig: [
+            ...['SEXUAL', 'VIOLENCE', 'HATE', 'INSULTS', 'MISCONDUCT'].map(type => ({
+              Type: type,
+              InputStrength: 'HIGH',
+              OutputStrength: 'HIGH',
+            })),
+            // Prompt attack filtering applies to input only
+            { Type: 'PROMPT_ATTACK', InputStrength: 'HIGH', OutputStrength: 'NONE' },
+          ],
+        },
+        TopicPolicyConfig: {
+          TopicsConfig: [{
+            Name: 'Unrelated tasks',
+            Type: 'DENY',
+            Definition: 'Requests to write code, stories or poems, solve homework, or discuss subjects unrelated to ' +
+              'college, financial aid or paying for school.',
+            Examples: ['Write a Python script that scrapes a website', 'Tell me a joke about cats'],
+          }],
+        },
+        SensitiveInformationPolicyConfig: {
+          PiiEntitiesConfig: ['US_SOCIAL_SECURITY_NUMBER', 'US_BANK_ACCOUNT_NUMBER', 'CREDIT_DEBIT_CARD_NUMBER'].map(type => ({
+            Type: type,
+            Action: 'ANONYMIZE',
+          })),
+        },
+      },
+    });
+
+    const chatGuardrailVersion = new cdk.CfnResource(this, 'ChatGuardrailVersion', {
+      type: 'AWS::Bedrock::GuardrailVersion',
+      properties: {
+        GuardrailIdentifier: chatGuardrail.getAtt('GuardrailId'),
+        Description: 'Version used by the chat Lambdas',
+      },
     });
 
     // Lambda Layer for shared dependencies
@@ -136,6 +275,13 @@ export class EducateFirstAiStack extends cdk.Stack {
       description: 'Shared dependencies for EducateFirstAI Lambda functions',
     });
 
+    // Response cache TTLs in hours per topic, e.g. `cdk deploy -c cacheTtlHoursByTopic='{"deadlines":2}'`
+    const cacheTtlHoursByTopic = this.node.tryGetContext('cacheTtlHoursByTopic') ?? {};
+
+    // Origins the frontend is served from. The auth routes name them in their CORS headers,
+    // since the refresh token cookie can't be sent to a wildcard origin.
+    const allowedOrigins = ['https://*.amplifyapp.com', 'https://localhost:*'];
+
     // Environment variables for Lambda functions with security context
     const lambdaEnvironment = {
       AWS_REGION: this.region,
@@ -145,13 +291,38 @@ export class EducateFirstAiStack extends cdk.Stack {
       CONVERSATIONS_TABLE_NAME: conversationsTable.tableName,
       USER_PROGRESS_TABLE_NAME: userProgressTable.tableName,
       RESPONSE_CACHE_TABLE_NAME: responseCacheTable.tableName,
+      GUEST_SESSIONS_TABLE_NAME: guestSessionsTable.tableName,
+      STUDENT_LINKS_TABLE_NAME: studentLinksTable.tableName,
+      ERROR_PATTERNS_TABLE_NAME: errorPatternsTable.tableName,
+      RATE_LIMITS_TABLE_NAME: rateLimitsTable.tableName,
+      // Only the ARN: the functions that sign or check guest tokens read the key at runtime
+      GUEST_TOKEN_SECRET_ARN: guestTokenSecret.secretArn,
+      // Guest session length and questions per session, e.g. `cdk deploy -c guestMessageQuota=30`
+      GUEST_SESSION_TTL_MINUTES: String(this.node.tryGetContext('guestSessionTtlMinutes') ?? '120'),
+      GUEST_MESSAGE_QUOTA: String(this.node.tryGetContext('guestMessageQuota') ?? '20'),
+      // Chat bursts, refill rates and the daily token budget, e.g. `cdk deploy -c dailyTokenBudget=50000`
+      CHAT_USER_BURST: String(this.node.tryGetContext('chatUserBurst') ?? '10'),
+      CHAT_USER_REQUESTS_PER_MINUTE: String(this.node.tryGetContext('chatUserRequestsPerMinute') ?? '6'),
+      CHAT_GUEST_BURST: String(this.node.tryGetContext('chatGuestBurst') ?? '5'),
+      CHAT_GUEST_REQUESTS_PER_MINUTE: String(this.node.tryGetContext('chatGuestRequestsPerMinute') ?? '3'),
+      CHAT_IP_BURST: String(this.node.tryGetContext('chatIpBurst') ?? '60'),
+      CHAT_IP_REQUESTS_PER_MINUTE: String(this.node.tryGetContext('chatIpRequestsPerMinute') ?? '30'),
+      DAILY_TOKEN_BUDGET: String(this.node.tryGetContext('dailyTokenBudget') ?? '100000'),
       KNOWLEDGE_BASE_BUCKET: knowledgeBaseBucket.bucketName,
+      CORS_ALLOWED_ORIGINS: allowedOrigins.join(','),
       // Security and privacy settings
       ENFORCE_HTTPS: 'true',
       FERPA_COMPLIANCE: 'true',
       PII_DETECTION_ENABLED: 'true',
       DATA_RETENTION_HOURS: '24',
-      CACHE_RETENTION_HOURS: '1',
+      CACHE_TTL_HOURS_BY_TOPIC: typeof cacheTtlHoursByTopic === 'string' ? cacheTtlHoursByTopic : JSON.stringify(cacheTtlHoursByTopic),
+      // Model settings; override per deployment with e.g. `cdk deploy -c llmModelId=...`
+      LLM_PROVIDER: this.node.tryGetContext('llmProvider') || 'bedrock',
+      LLM_MODEL_ID: this.node.tryGetContext('llmModelId') || 'anthropic.claude-3-haiku-20240307-v1:0',
+      LLM_TEMPERATURE: String(this.node.tryGetContext('llmTemperature') ?? '0.3'),
+      LLM_MAX_TOKENS: String(this.node.tryGetContext('llmMaxTokens') ?? '1000'),
+      LLM_GUARDRAIL_ID: chatGuardrailVersion.getAtt('GuardrailId').toString(),
+      LLM_GUARDRAIL_VERSION: chatGuardrailVersion.getAtt('Version').toString(),
     };
 
     // Chat Lambda Functions
@@ -165,6 +336,28 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 512,
     });
 
+    // Streaming chat is served through a Lambda function URL because API Gateway REST APIs buffer responses
+    const chatStreamFunction = new lambda.Function(this, 'ChatStreamFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'chat/handler.chatMessageStream',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(60),
+      memorySize: 512,
+    });
+
+    const chatStreamUrl = chatStreamFunction.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+      cors: {
+        allowedOrigins: ['https://*.amplifyapp.com', 'https://localhost:*'],
+        allowedMethods: [lambda.HttpMethod.POST],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-Guest-Token'],
+        exposedHeaders: ['Retry-After'],
+      },
+    });
+    (chatStreamUrl.node.defaultChild as lambda.CfnUrl).invokeMode = 'RESPONSE_STREAM';
+
     const chatHistoryFunction = new lambda.Function(this, 'ChatHistoryFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'chat/handler.chatHistory',
@@ -196,6 +389,36 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 256,
     });
 
+    const refreshFunction = new lambda.Function(this, 'RefreshFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.refresh',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const signOutFunction = new lambda.Function(this, 'SignOutFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.signOut',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const respondToChallengeFunction = new lambda.Function(this, 'RespondToChallengeFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.respondToChallenge',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
     const forgotPasswordFunction = new lambda.Function(this, 'ForgotPasswordFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'auth/handler.forgotPassword',
@@ -206,6 +429,96 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 256,
     });
 
+    const verifyEmailFunction = new lambda.Function(this, 'VerifyEmailFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.verifyEmail',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const resendVerificationFunction = new lambda.Function(this, 'ResendVerificationFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.resendVerification',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const confirmResetFunction = new lambda.Function(this, 'ConfirmResetFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.confirmReset',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const changePasswordFunction = new lambda.Function(this, 'ChangePasswordFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.changePassword',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const mfaStatusFunction = new lambda.Function(this, 'MfaStatusFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.mfaStatus',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const setupTotpFunction = new lambda.Function(this, 'SetupTotpFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.setupTotp',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const verifyTotpFunction = new lambda.Function(this, 'VerifyTotpFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.verifyTotp',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const setupSmsFunction = new lambda.Function(this, 'SetupSmsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.setupSms',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const verifySmsFunction = new lambda.Function(this, 'VerifySmsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.verifySms',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
     const guestModeFunction = new lambda.Function(this, 'GuestModeFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'auth/handler.guestMode',
@@ -226,6 +539,17 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 256,
     });
 
+    // Deletes every stored message of the account, so it gets more time than the other auth functions
+    const deleteAccountFunction = new lambda.Function(this, 'DeleteAccountFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'auth/handler.deleteAccount',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 256,
+    });
+
     // Progress Lambda Functions
     const getProgressFunction = new lambda.Function(this, 'GetProgressFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
@@ -247,6 +571,26 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 256,
     });
 
+    const updateChecklistFunction = new lambda.Function(this, 'UpdateChecklistFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'progress/handler.updateChecklist',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const saveIntakeFunction = new lambda.Function(this, 'SaveIntakeFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'progress/handler.saveIntake',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
     const getProgressSummaryFunction = new lambda.Function(this, 'GetProgressSummaryFunction', {
       runtime: lambda.Runtime.NODEJS_18_X,
       handler: 'progress/handler.getProgressSummary',
@@ -267,19 +611,203 @@ export class EducateFirstAiStack extends cdk.Stack {
       memorySize: 128,
     });
 
+    const getStudentProgressFunction = new lambda.Function(this, 'GetStudentProgressFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'progress/handler.getStudentProgress',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    // Link Lambda Functions
+    const getLinksFunction = new lambda.Function(this, 'GetLinksFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'links/handler.getLinks',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const createLinkFunction = new lambda.Function(this, 'CreateLinkFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'links/handler.createLink',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const updateLinkFunction = new lambda.Function(this, 'UpdateLinkFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'links/handler.updateLink',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const deleteLinkFunction = new lambda.Function(this, 'DeleteLinkFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'links/handler.deleteLink',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    // Deadline Lambda Functions; the deadlines are bundled with the code, so no table access is granted
+    const getDeadlinesFunction = new lambda.Function(this, 'GetDeadlinesFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'deadlines/handler.getDeadlines',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(5),
+      memorySize: 128,
+    });
+
+    // Admin Lambda Functions
+    const setUserRoleFunction = new lambda.Function(this, 'SetUserRoleFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.setUserRole',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const listKnowledgeDocumentsFunction = new lambda.Function(this, 'ListKnowledgeDocumentsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.listKnowledgeDocuments',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    // Rebuilding the search index reads every document, so these get longer and more memory
+    const upsertKnowledgeDocumentFunction = new lambda.Function(this, 'UpsertKnowledgeDocumentFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.upsertKnowledgeDocument',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.minutes(2),
+      memorySize: 512,
+    });
+
+    const deleteKnowledgeDocumentFunction = new lambda.Function(this, 'DeleteKnowledgeDocumentFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.deleteKnowledgeDocument',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.minutes(2),
+      memorySize: 512,
+    });
+
+    const listErrorPatternsFunction = new lambda.Function(this, 'ListErrorPatternsFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.listErrorPatterns',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const upsertErrorPatternFunction = new lambda.Function(this, 'UpsertErrorPatternFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.upsertErrorPattern',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    const deleteErrorPatternFunction = new lambda.Function(this, 'DeleteErrorPatternFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'admin/handler.deleteErrorPattern',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: lambdaEnvironment,
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 256,
+    });
+
+    // Knowledge ingestion: refresh the knowledge base from StudentAid.gov daily
+    const knowledgeIngestionFunction = new lambda.Function(this, 'KnowledgeIngestionFunction', {
+      runtime: lambda.Runtime.NODEJS_18_X,
+      handler: 'knowledge/handler.ingestKnowledge',
+      code: lambda.Code.fromAsset(path.join(__dirname, '../lambda')),
+      layers: [sharedLayer],
+      environment: {
+        KNOWLEDGE_BASE_BUCKET: knowledgeBaseBucket.bucketName,
+      },
+      timeout: cdk.Duration.minutes(5),
+      memorySize: 512,
+    });
+
+    // Only needs the bucket, so it is not part of lambdaFunctions below
+    knowledgeBaseBucket.grantReadWrite(knowledgeIngestionFunction);
+
+    new events.Rule(this, 'KnowledgeIngestionSchedule', {
+      description: 'Daily refresh of the FAFSA knowledge base from official sources',
+      schedule: events.Schedule.cron({ minute: '0', hour: '7' }),
+      targets: [new targets.LambdaFunction(knowledgeIngestionFunction, { retryAttempts: 1 })],
+    });
+
     // Grant permissions to Lambda functions
     const lambdaFunctions = [
       chatMessageFunction,
+      chatStreamFunction,
       chatHistoryFunction,
       signUpFunction,
       signInFunction,
+      refreshFunction,
+      signOutFunction,
+      respondToChallengeFunction,
       forgotPasswordFunction,
+      verifyEmailFunction,
+      resendVerificationFunction,
+      confirmResetFunction,
+      changePasswordFunction,
+      mfaStatusFunction,
+      setupTotpFunction,
+      verifyTotpFunction,
+      setupSmsFunction,
+      verifySmsFunction,
       guestModeFunction,
       getUserProfileFunction,
+      deleteAccountFunction,
       getProgressFunction,
       updateProgressFunction,
+      updateChecklistFunction,
+      saveIntakeFunction,
       getProgressSummaryFunction,
       getFAFSASectionsFunction,
+      getStudentProgressFunction,
+      getLinksFunction,
+      createLinkFunction,
+      updateLinkFunction,
+      deleteLinkFunction,
+      setUserRoleFunction,
+      listKnowledgeDocumentsFunction,
+      upsertKnowledgeDocumentFunction,
+      deleteKnowledgeDocumentFunction,
+      listErrorPatternsFunction,
+      upsertErrorPatternFunction,
+      deleteErrorPatternFunction,
     ];
 
     lambdaFunctions.forEach(func => {
@@ -288,9 +816,14 @@ export class EducateFirstAiStack extends cdk.Stack {
       conversationsTable.grantReadWriteData(func);
       userProgressTable.grantReadWriteData(func);
       responseCacheTable.grantReadWriteData(func);
+      guestSessionsTable.grantReadWriteData(func);
+      studentLinksTable.grantReadWriteData(func);
+      errorPatternsTable.grantReadWriteData(func);
+      rateLimitsTable.grantReadWriteData(func);
       
-      // S3 permissions
+      // S3 permissions; functions may write only the precomputed search index
       knowledgeBaseBucket.grantRead(func);
+      knowledgeBaseBucket.grantPut(func, 'index/*');
       
       // Bedrock permissions with privacy constraints
       func.addToRolePolicy(new iam.PolicyStatement({
@@ -301,11 +834,17 @@ export class EducateFirstAiStack extends cdk.Stack {
         ],
         resources: ['*'],
         conditions: {
+          // Model calls are only allowed through the chat guardrail
           StringEquals: {
-            'bedrock:guardrailsApplied': 'true',
+            'bedrock:GuardrailIdentifier': `${chatGuardrailVersion.getAtt('GuardrailArn')}:${chatGuardrailVersion.getAtt('Version')}`,
           },
         },
       }));
+      func.addToRolePolicy(new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['bedrock:ApplyGuardrail'],
+        resources: [chatGuardrail.getAtt('GuardrailArn').toString()],
+      }));
 
       // Cognito permissions
       func.addToRolePolicy(new iam.PolicyStatement({
@@ -317,19 +856,43 @@ export class EducateFirstAiStack extends cdk.Stack {
           'cognito-idp:AdminRespondToAuthChallenge',
           'cognito-idp:ForgotPassword',
           'cognito-idp:ConfirmForgotPassword',
+          'cognito-idp:SignUp',
+          'cognito-idp:ConfirmSignUp',
+          'cognito-idp:ResendConfirmationCode',
+          'cognito-idp:ChangePassword',
+          'cognito-idp:AdminDeleteUser',
+          'cognito-idp:AssociateSoftwareToken',
+          'cognito-idp:VerifySoftwareToken',
+          'cognito-idp:SetUserMFAPreference',
+          'cognito-idp:GetUser',
+          'cognito-idp:UpdateUserAttributes',
+          'cognito-idp:VerifyUserAttribute',
+          'cognito-idp:AdminGetUser',
+          'cognito-idp:AdminListGroupsForUser',
+          'cognito-idp:AdminAddUserToGroup',
+          'cognito-idp:AdminRemoveUserFromGroup',
         ],
         resources: [userPool.userPoolArn],
       }));
     });
 
+    // Guest mode issues guest tokens, and sign-up and chat check them
+    [chatMessageFunction, chatStreamFunction, signUpFunction, guestModeFunction]
+      .forEach(func => guestTokenSecret.grantRead(func));
+
+    // Admins edit knowledge documents directly
+    knowledgeBaseBucket.grantReadWrite(upsertKnowledgeDocumentFunction);
+    knowledgeBaseBucket.grantDelete(deleteKnowledgeDocumentFunction);
+    knowledgeBaseBucket.grantPut(deleteKnowledgeDocumentFunction, 'index/*');
+
     // API Gateway with enhanced security
     const api = new apigateway.RestApi(this, 'EducateFirstAiApi', {
       restApiName: 'EducateFirstAi API',
       description: 'API for EducateFirstAI application',
       defaultCorsPreflightOptions: {
-        allowOrigins: ['https://*.amplifyapp.com', 'https://localhost:*'], // Restrict origins
+        allowOrigins: allowedOrigins, // Restrict origins
         allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key'],
+        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key', 'X-Guest-Token'],
         allowCredentials: true,
       },
       // Security settings
@@ -348,38 +911,133 @@ export class EducateFirstAiStack extends cdk.Stack {
           }),
         ],
       }),
+      // Ceilings for the whole API, well above what the chat handler's own per-caller buckets allow.
+      // Chat gets a lower one because every request there can reach the model.
+      deployOptions: {
+        throttlingRateLimit: 100,
+        throttlingBurstLimit: 200,
+        methodOptions: {
+          '/chat/POST': { throttlingRateLimit: 20, throttlingBurstLimit: 40 },
+          '/chat/guest/POST': { throttlingRateLimit: 10, throttlingBurstLimit: 20 },
+        },
+      },
     });
 
+    // Verifies the Cognito ID token in the Authorization header. Handlers read the caller from its
+    // claims and reject requests for other users' data.
+    const cognitoAuthorizer = new apigateway.CognitoUserPoolsAuthorizer(this, 'EducateFirstAiAuthorizer', {
+      cognitoUserPools: [userPool],
+    });
+    const signedIn: apigateway.MethodOptions = {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    };
+
     // API Routes
     // Chat routes
     const chatResource = api.root.addResource('chat');
-    chatResource.addMethod('POST', new apigateway.LambdaIntegration(chatMessageFunction));
+    const chatMethod = chatResource.addMethod('POST', new apigateway.LambdaIntegration(chatMessageFunction), signedIn);
+    // Guests have no Cognito token; the handler refuses registered user ids on this route
+    const guestChatMethod = chatResource.addResource('guest').addMethod('POST', new apigateway.LambdaIntegration(chatMessageFunction));
+
+    // Limits for clients calling with an API key (X-Api-Key), such as partner integrations. Browsers
+    // don't send one; they get the stage throttling above and the handler's buckets.
+    api.addUsagePlan('ChatUsagePlan', {
+      name: 'EducateFirstAi-Chat',
+      description: 'Request limits and daily quota for API key clients',
+      throttle: { rateLimit: 10, burstLimit: 20 },
+      quota: { limit: 5000, period: apigateway.Period.DAY },
+      apiStages: [{
+        api,
+        stage: api.deploymentStage,
+        throttle: [
+          { method: chatMethod, throttle: { rateLimit: 5, burstLimit: 10 } },
+          { method: guestChatMethod, throttle: { rateLimit: 2, burstLimit: 5 } },
+        ],
+      }],
+    });
     
     const chatHistoryResource = chatResource.addResource('history').addResource('{userId}');
-    chatHistoryResource.addMethod('GET', new apigateway.LambdaIntegration(chatHistoryFunction));
+    chatHistoryResource.addMethod('GET', new apigateway.LambdaIntegration(chatHistoryFunction), signedIn);
 
     // Auth routes
     const authResource = api.root.addResource('auth');
     authResource.addResource('signup').addMethod('POST', new apigateway.LambdaIntegration(signUpFunction));
     authResource.addResource('signin').addMethod('POST', new apigateway.LambdaIntegration(signInFunction));
+    authResource.addResource('refresh').addMethod('POST', new apigateway.LambdaIntegration(refreshFunction));
+    authResource.addResource('signout').addMethod('POST', new apigateway.LambdaIntegration(signOutFunction));
+    authResource.addResource('challenge').addMethod('POST', new apigateway.LambdaIntegration(respondToChallengeFunction));
     authResource.addResource('forgot-password').addMethod('POST', new apigateway.LambdaIntegration(forgotPasswordFunction));
     authResource.addResource('guest').addMethod('POST', new apigateway.LambdaIntegration(guestModeFunction));
+    authResource.addResource('confirm-reset').addMethod('POST', new apigateway.LambdaIntegration(confirmResetFunction));
+    authResource.addResource('change-password').addMethod('POST', new apigateway.LambdaIntegration(changePasswordFunction), signedIn);
+
+    const verifyResource = authResource.addResource('verify');
+    verifyResource.addMethod('POST', new apigateway.LambdaIntegration(verifyEmailFunction));
+    verifyResource.addResource('resend').addMethod('POST', new apigateway.LambdaIntegration(resendVerificationFunction));
     
+    // MFA enrollment runs on the access token in the body, like password changes
+    const mfaResource = authResource.addResource('mfa');
+    mfaResource.addResource('status').addMethod('POST', new apigateway.LambdaIntegration(mfaStatusFunction), signedIn);
+    const totpResource = mfaResource.addResource('totp');
+    totpResource.addMethod('POST', new apigateway.LambdaIntegration(setupTotpFunction), signedIn);
+    totpResource.addResource('verify').addMethod('POST', new apigateway.LambdaIntegration(verifyTotpFunction), signedIn);
+    const smsResource = mfaResource.addResource('sms');
+    smsResource.addMethod('POST', new apigateway.LambdaIntegration(setupSmsFunction), signedIn);
+    smsResource.addResource('verify').addMethod('POST', new apigateway.LambdaIntegration(verifySmsFunction), signedIn);
+
     const userResource = authResource.addResource('user').addResource('{userId}');
-    userResource.addMethod('GET', new apigateway.LambdaIntegration(getUserProfileFunction));
+    userResource.addMethod('GET', new apigateway.LambdaIntegration(getUserProfileFunction), signedIn);
+    userResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteAccountFunction), signedIn);
 
     // Progress routes
     const progressResource = api.root.addResource('progress');
     const userProgressResource = progressResource.addResource('{userId}');
-    userProgressResource.addMethod('GET', new apigateway.LambdaIntegration(getProgressFunction));
-    userProgressResource.addMethod('PUT', new apigateway.LambdaIntegration(updateProgressFunction));
+    userProgressResource.addMethod('GET', new apigateway.LambdaIntegration(getProgressFunction), signedIn);
+    userProgressResource.addMethod('PUT', new apigateway.LambdaIntegration(updateProgressFunction), signedIn);
     
+    userProgressResource.addResource('checklist')
+      .addMethod('PUT', new apigateway.LambdaIntegration(updateChecklistFunction), signedIn);
+
+    userProgressResource.addResource('intake')
+      .addMethod('PUT', new apigateway.LambdaIntegration(saveIntakeFunction), signedIn);
+
     const progressSummaryResource = userProgressResource.addResource('summary');
-    progressSummaryResource.addMethod('GET', new apigateway.LambdaIntegration(getProgressSummaryFunction));
+    progressSummaryResource.addMethod('GET', new apigateway.LambdaIntegration(getProgressSummaryFunction), signedIn);
 
     const fafsaSectionsResource = progressResource.addResource('sections');
     fafsaSectionsResource.addMethod('GET', new apigateway.LambdaIntegration(getFAFSASectionsFunction));
 
+    // Parents and counselors read linked students' progress; the handler checks the link
+    const studentsResource = api.root.addResource('students');
+    studentsResource.addResource('{userId}').addResource('progress')
+      .addMethod('GET', new apigateway.LambdaIntegration(getStudentProgressFunction), signedIn);
+
+    // Link routes
+    const linksResource = api.root.addResource('links');
+    linksResource.addMethod('GET', new apigateway.LambdaIntegration(getLinksFunction), signedIn);
+    linksResource.addMethod('POST', new apigateway.LambdaIntegration(createLinkFunction), signedIn);
+    const linkResource = linksResource.addResource('{userId}');
+    linkResource.addMethod('PUT', new apigateway.LambdaIntegration(updateLinkFunction), signedIn);
+    linkResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteLinkFunction), signedIn);
+
+    // Deadlines are read by everyone, guests included
+    api.root.addResource('deadlines').addMethod('GET', new apigateway.LambdaIntegration(getDeadlinesFunction));
+
+    // Error patterns are read by everyone, guests included
+    api.root.addResource('error-patterns').addMethod('GET', new apigateway.LambdaIntegration(listErrorPatternsFunction));
+
+    // Admin routes; handlers check the admin role
+    const adminResource = api.root.addResource('admin');
+    adminResource.addResource('roles').addMethod('PUT', new apigateway.LambdaIntegration(setUserRoleFunction), signedIn);
+    const adminKnowledgeResource = adminResource.addResource('knowledge');
+    adminKnowledgeResource.addMethod('GET', new apigateway.LambdaIntegration(listKnowledgeDocumentsFunction), signedIn);
+    adminKnowledgeResource.addMethod('PUT', new apigateway.LambdaIntegration(upsertKnowledgeDocumentFunction), signedIn);
+    adminKnowledgeResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteKnowledgeDocumentFunction), signedIn);
+    const adminErrorPatternResource = adminResource.addResource('error-patterns').addResource('{patternId}');
+    adminErrorPatternResource.addMethod('PUT', new apigateway.LambdaIntegration(upsertErrorPatternFunction), signedIn);
+    adminErrorPatternResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteErrorPatternFunction), signedIn);
+
     // Amplify App for hosting
     const amplifyApp = new amplify.CfnApp(this, 'EducateFirstAiApp', {
       name: 'EducateFirstAI',
@@ -428,6 +1086,11 @@ export class EducateFirstAiStack extends cdk.Stack {
       description: 'API Gateway URL',
     });
 
+    new cdk.CfnOutput(this, 'ChatStreamUrl', {
+      value: chatStreamUrl.url,
+      description: 'Streaming chat endpoint (Lambda function URL)',
+    });
+
     new cdk.CfnOutput(this, 'AmplifyAppUrl', {
       value: `https://main.${amplifyApp.attrDefaultDomain}`,
       description: 'Amplify App URL',
@@ -25,6 +25,7 @@ USER_POOL_ID=$(aws cloudformation describe-stacks --stack-name EducateFirstAiSta
 USER_POOL_CLIENT_ID=$(aws cloudformation describe-stacks --stack-name EducateFirstAiStack --query 'Stacks[0].Outputs[?OutputKey==`UserPoolClientId`].OutputValue' --output text)
 API_GATEWAY_URL=$(aws cloudformation describe-stacks --stack-name EducateFirstAiStack --query 'Stacks[0].Outputs[?OutputKey==`ApiGatewayUrl`].OutputValue' --output text)
 KNOWLEDGE_BASE_BUCKET=$(aws cloudformation describe-stacks --stack-name EducateFirstAiStack --query 'Stacks[0].Outputs[?OutputKey==`KnowledgeBaseBucketName`].OutputValue' --output text)
+CHAT_STREAM_URL=$(aws cloudformation describe-stacks --stack-name EducateFirstAiStack --query 'Stacks[0].Outputs[?OutputKey==`ChatStreamUrl`].OutputValue' --output text)
 
 # Create environment file
 cd ..
@@ -35,6 +36,7 @@ VITE_USER_POOL_ID=$USER_POOL_ID
 VITE_USER_POOL_CLIENT_ID=$USER_POOL_CLIENT_ID
 VITE_API_GATEWAY_URL=$API_GATEWAY_URL
 VITE_KNOWLEDGE_BASE_BUCKET=$KNOWLEDGE_BASE_BUCKET
+VITE_CHAT_STREAM_URL=$CHAT_STREAM_URL
 EOF
 
 echo "✅ Deployment completed successfully!"
@@ -44,6 +46,7 @@ echo "   User Pool ID: $USER_POOL_ID"
 echo "   Client ID: $USER_POOL_CLIENT_ID"
 echo "   API URL: $API_GATEWAY_URL"
 echo "   S3 Bucket: $KNOWLEDGE_BASE_BUCKET"
+echo "   Chat Stream URL: $CHAT_STREAM_URL"
 echo ""
 echo "🎯 Next steps:"
 echo "   1. Run 'npm install' to install frontend dependencies"
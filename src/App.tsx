@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { getCurrentUser, signOut, fetchUserAttributes } from 'aws-amplify/auth';
+import { getCurrentUser, signOut, fetchUserAttributes, fetchAuthSession } from 'aws-amplify/auth';
 import ReactMarkdown from 'react-markdown';
 import SignInModal from './components/SignInModal';
 import DeadlineCountdown from './components/DeadlineCountdown';
@@ -14,7 +14,18 @@ import MobileMenu from './components/MobileMenu';
 import CopyButton from './components/CopyButton';
 import ScrollToBottom from './components/ScrollToBottom';
 import { useTranslation } from './hooks/useTranslation';
+import { usePIIGuard } from './hooks/usePIIGuard';
+import { PIINotice } from './components/chat/PIINotice';
+import { Language } from './translations';
 import { useTheme } from './context/ThemeContext';
+import { config } from './config/environment';
+import { AuthService } from './services/auth';
+import {
+  ChatMessageRequestSchema,
+  ChatMessageResponseSchema,
+  ErrorResponseSchema,
+  successResponseSchema,
+} from '@contracts';
 import logo from './assets/logo.svg';
 import './components/SignInModal.css';
 import './App.css';
@@ -23,6 +34,8 @@ import './App.css';
  * EducateFirstAI - Complete Chat Interface with Sign In Modal
  */
 
+const ChatReplySchema = successResponseSchema(ChatMessageResponseSchema);
+
 const EducateFirstAI: React.FC = () => {
   const [messages, setMessages] = useState<Array<{
     type: string;
@@ -32,6 +45,7 @@ const EducateFirstAI: React.FC = () => {
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [isGuest, setIsGuest] = useState(true);
+  const [userId, setUserId] = useState<string | undefined>();
   const [showSignInModal, setShowSignInModal] = useState(false);
   const [userName, setUserName] = useState('');
   const [showHistory, setShowHistory] = useState(false);
@@ -42,15 +56,19 @@ const EducateFirstAI: React.FC = () => {
     preview: string;
   }>>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // The server's conversation for each chat session, so signed-in students' follow-ups keep their context
+  const [conversationIds, setConversationIds] = useState<Record<string, string>>({});
   const [chatMessagesMap, setChatMessagesMap] = useState<Record<string, Array<{
     type: string;
     content: string;
     time: string;
   }>>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const [typingMessageId, setTypingMessageId] = useState<number | null>(null);
   const [language, setLanguage] = useState('en');
   const { t } = useTranslation(language as any);
+  const piiGuard = usePIIGuard(inputValue, setInputValue, { locale: language as Language, inputRef });
   const [showChecklist, setShowChecklist] = useState(false);
   const { isDarkMode } = useTheme();
 
@@ -109,6 +127,7 @@ const EducateFirstAI: React.FC = () => {
         const user = await getCurrentUser();
         if (user) {
           setIsGuest(false);
+          setUserId(user.userId);
           
           // Fetch user attributes to get their name
           try {
@@ -137,11 +156,33 @@ const EducateFirstAI: React.FC = () => {
     { icon: '💰', text: t('howMuchAid') },
   ];
 
-  const handleSend = async () => {
+  const handleSend = () => {
     if (!inputValue.trim()) return;
 
-    const userMessage = inputValue;
-    
+    // Nothing leaves the browser with PII in it until the student redacts or edits it
+    if (piiGuard.hold()) return;
+
+    sendMessage(inputValue);
+  };
+
+  /**
+   * Signed-in students chat through /chat with their Cognito ID token, so their conversations
+   * are kept and their own limits apply. Only guests use /chat/guest and its guest token.
+   */
+  const chatRoute = async (): Promise<{ path: string; headers: Record<string, string>; userId?: string }> => {
+    if (isGuest || !userId) {
+      return { path: '/chat/guest', headers: await AuthService.getGuestHeaders() };
+    }
+
+    const { tokens } = await fetchAuthSession();
+    const idToken = tokens?.idToken?.toString();
+    if (!idToken) {
+      throw new Error('Your session has expired. Please sign in again.');
+    }
+    return { path: '/chat', headers: { Authorization: idToken }, userId };
+  };
+
+  const sendMessage = async (userMessage: string) => {
     const userMsg = {
       type: 'user',
       content: userMessage,
@@ -150,24 +191,47 @@ const EducateFirstAI: React.FC = () => {
     
     setMessages(prev => [...prev, userMsg]);
     setInputValue('');
+    piiGuard.reset();
     setIsTyping(true);
 
     try {
-      const response = await fetch('https://5w6rnkjhw7bwc7dw55mjhjche40rirbx.lambda-url.us-east-2.on.aws/', {
+      const route = await chatRoute();
+      const request = ChatMessageRequestSchema.parse({
+        content: userMessage,
+        language,
+        userId: route.userId,
+        conversationId: route.userId && currentSessionId ? conversationIds[currentSessionId] : undefined,
+      });
+      const response = await fetch(`${config.api.baseUrl}${route.path}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...route.headers,
         },
-        body: JSON.stringify({ message: userMessage, language: language }),
+        body: JSON.stringify(request),
       });
 
       const data = await response.json();
+
+      if (!response.ok) {
+        // Validation failures carry a message meant for the user
+        const error = ErrorResponseSchema.safeParse(data);
+        setMessages(prev => [...prev, {
+          type: 'assistant',
+          content: error.success ? error.data.error : "Sorry, I couldn't connect. Please try again.",
+          time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        }]);
+        return;
+      }
+
+      const reply = ChatReplySchema.parse(data).data;
+      const answer = reply.message.content;
       
       setTypingMessageId(messages.length + 1);
       
       const assistantMsg = {
         type: 'assistant',
-        content: data.message,
+        content: answer,
         time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
       };
       
@@ -183,10 +247,15 @@ const EducateFirstAI: React.FC = () => {
           sessionId: newSessionId,
           title: generateChatTitle(userMessage),
           timestamp: new Date(),
-          preview: data.message.slice(0, 50) + '...',
+          preview: answer.slice(0, 50) + '...',
         }, ...prev]);
       }
       
+      const conversationId = reply.conversationId;
+      if (sessionToSave && conversationId) {
+        setConversationIds(prev => ({ ...prev, [sessionToSave]: conversationId }));
+      }
+      
       // Save messages to the map
       const updatedMessages = [...messages, userMsg, assistantMsg];
       if (sessionToSave) {
@@ -225,11 +294,13 @@ const EducateFirstAI: React.FC = () => {
       console.log('Error signing out:', error);
     }
     setIsGuest(true);
+    setUserId(undefined);
     setUserName('');
     setMessages([]);
     setCurrentSessionId(null);
     setChatSessions([]);
     setChatMessagesMap({});
+    setConversationIds({});
   };
 
   return (
@@ -1106,6 +1177,7 @@ const EducateFirstAI: React.FC = () => {
         <div className="input-container">
           <div className="input-wrapper">
             <textarea
+              ref={inputRef}
               className="text-input"
               placeholder={t('typeMessage')}
               value={inputValue}
@@ -1128,6 +1200,20 @@ const EducateFirstAI: React.FC = () => {
               </svg>
             </button>
           </div>
+          <PIINotice
+            text={inputValue}
+            guard={piiGuard}
+            onRedactAndSend={() => sendMessage(piiGuard.redact())}
+            labels={{
+              detected: t('piiDetected'),
+              held: t('piiHeld'),
+              redact: t('piiRedact'),
+              redactAndSend: t('piiRedactAndSend'),
+              edit: t('piiEdit'),
+              redacted: t('piiRedacted'),
+              undo: t('piiUndo'),
+            }}
+          />
           <div className="footer-disclaimer" style={{
             textAlign: 'center',
             padding: '8px 16px',
@@ -1158,6 +1244,10 @@ const EducateFirstAI: React.FC = () => {
             setUserName(name);
             setIsGuest(false);
             setShowSignInModal(false);
+            // The checklist follows the account, and takes in what was ticked as a guest
+            getCurrentUser()
+              .then(user => setUserId(user.userId))
+              .catch(error => console.error('Failed to get signed-in user:', error));
           }}
           t={t}
         />
@@ -1221,6 +1311,7 @@ const EducateFirstAI: React.FC = () => {
           t={t}
           isOpen={showChecklist}
           onClose={() => setShowChecklist(false)}
+          userId={isGuest ? undefined : userId}
         />
 
         <ScrollToBottom isDarkMode={isDarkMode} hasMessages={messages.length > 0} onScrollToBottom={scrollToBottom} />
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  ChatMessageRequestSchema as ContractChatMessageRequestSchema,
+  ChatMessageMetadataSchema,
+  ForgotPasswordRequestSchema,
+  ProgressRecordSchema,
+  SignInRequestSchema,
+  SignUpRequestSchema,
+  UpdateProgressRequestSchema as ContractUpdateProgressRequestSchema,
+} from '@contracts';
+import { getCurrentUser, fetchAuthSession } from 'aws-amplify/auth';
+import App from '../App';
+import { ThemeProvider } from '../context/ThemeContext';
+import {
+  AuthSignInRequestSchema,
+  AuthSignUpRequestSchema,
+  ChatMessageInputSchema,
+  ChatMessageRequestSchema,
+  CreateUserInputSchema,
+  LoginInputSchema,
+  MessageMetadataSchema,
+  ResetPasswordInputSchema,
+  UpdateProgressInputSchema,
+  UpdateProgressRequestSchema,
+  UserProgressSchema,
+} from '../types';
+
+vi.mock('aws-amplify/auth', async importOriginal => {
+  const amplify = await importOriginal<typeof import('aws-amplify/auth')>();
+  return {
+    ...amplify,
+    getCurrentUser: vi.fn(amplify.getCurrentUser),
+    fetchAuthSession: vi.fn(amplify.fetchAuthSession),
+    fetchUserAttributes: vi.fn(async () => ({ name: 'Ana' })),
+  };
+});
+
+const renderApp = () => render(
+  <ThemeProvider>
+    <App />
+  </ThemeProvider>
+);
+
+const sendQuestion = async (question: string) => {
+  const user = userEvent.setup();
+  await user.type(screen.getByPlaceholderText(/ask me anything about fafsa/i), `${question}{Enter}`);
+};
+
+describe('API contract (frontend side)', () => {
+  beforeEach(() => {
+    // jsdom doesn't implement scrolling
+    Element.prototype.scrollIntoView = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the shared contract schemas for request types', () => {
+    expect(ChatMessageRequestSchema).toBe(ContractChatMessageRequestSchema);
+    expect(ChatMessageInputSchema).toBe(ContractChatMessageRequestSchema);
+    expect(UpdateProgressRequestSchema).toBe(ContractUpdateProgressRequestSchema);
+    expect(UpdateProgressInputSchema).toBe(ContractUpdateProgressRequestSchema);
+    expect(UserProgressSchema).toBe(ProgressRecordSchema);
+    expect(AuthSignUpRequestSchema).toBe(SignUpRequestSchema);
+    expect(CreateUserInputSchema).toBe(SignUpRequestSchema);
+    expect(AuthSignInRequestSchema).toBe(SignInRequestSchema);
+    expect(LoginInputSchema).toBe(SignInRequestSchema);
+    expect(ResetPasswordInputSchema).toBe(ForgotPasswordRequestSchema);
+    // Frontend-only metadata fields extend the wire metadata rather than redefining it
+    expect(Object.keys(MessageMetadataSchema.unwrap().shape)).toEqual(
+      expect.arrayContaining(Object.keys(ChatMessageMetadataSchema.shape))
+    );
+  });
+
+  it('should send chat messages in the shape the chat Lambda accepts', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      success: true,
+      data: {
+        message: {
+          id: 'ai-1',
+          content: 'The FAFSA is the Free Application for Federal Student Aid.',
+          sender: 'ai',
+          timestamp: new Date().toISOString(),
+        },
+        sources: [],
+      },
+    }), { status: 200 }));
+
+    renderApp();
+    await sendQuestion('What is the FAFSA?');
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toMatch(/\/chat\/guest$/);
+    const body = JSON.parse(String(init?.body));
+    expect(ContractChatMessageRequestSchema.safeParse(body).success).toBe(true);
+    expect(body).toEqual({ content: 'What is the FAFSA?', language: 'en' });
+  });
+
+  it('should ask the chat Lambda again when a question is repeated', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify({
+      success: true,
+      data: {
+        message: { id: `ai-${Date.now()}`, content: 'Here is what to know.', sender: 'ai', timestamp: new Date().toISOString() },
+        sources: [],
+      },
+    }), { status: 200 }));
+
+    renderApp();
+    await sendQuestion('What is the FAFSA?');
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await screen.findByText('Here is what to know.');
+    await sendQuestion('what is the fafsa?');
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+  });
+
+  it('should send signed-in students\' messages to /chat with their ID token and conversation', async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue({ userId: 'user-1', username: 'ana' });
+    vi.mocked(fetchAuthSession).mockResolvedValue({
+      tokens: { idToken: { toString: () => 'id-token' } },
+    } as Awaited<ReturnType<typeof fetchAuthSession>>);
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify({
+      success: true,
+      data: {
+        message: { id: 'ai-1', content: 'Here is what to know.', sender: 'ai', timestamp: new Date().toISOString() },
+        sources: [],
+        conversationId: 'conversation-1',
+      },
+    }), { status: 200 }));
+
+    renderApp();
+    expect((await screen.findAllByText(/Ana/)).length).toBeGreaterThan(0);
+    await sendQuestion('What is the FAFSA?');
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await screen.findByText('Here is what to know.');
+    await sendQuestion('What about for my sister?');
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+    const [[firstUrl, first], [, second]] = fetchMock.mock.calls;
+    expect(String(firstUrl)).toMatch(/\/chat$/);
+    expect(first?.headers).toMatchObject({ Authorization: 'id-token' });
+    expect(first?.headers).not.toHaveProperty('X-Guest-Token');
+    expect(JSON.parse(String(first?.body))).toEqual({ content: 'What is the FAFSA?', language: 'en', userId: 'user-1' });
+    expect(JSON.parse(String(second?.body))).toMatchObject({ userId: 'user-1', conversationId: 'conversation-1' });
+  });
+
+  it('should show the error from a validation error response', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      success: false,
+      error: 'Please limit your question to 5000 characters or less.',
+      code: 'VALIDATION_ERROR',
+      details: { issues: [{ path: 'content', message: 'Please limit your question to 5000 characters or less.' }] },
+    }), { status: 400 }));
+
+    renderApp();
+    await sendQuestion('What is the FAFSA?');
+
+    expect(await screen.findByText('Please limit your question to 5000 characters or less.')).toBeInTheDocument();
+  });
+});
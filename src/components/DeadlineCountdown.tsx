@@ -1,97 +1,237 @@
 import React, { useState, useEffect } from 'react';
 import { TranslationKey } from '../translations';
-
-interface Deadline {
-  name: string;
-  date: Date;
-  type: 'federal' | 'state' | 'priority';
-  emoji: string;
-}
+import DeadlinePicker from './DeadlinePicker';
+import { useDeadlines } from '../hooks/useDeadlines';
+import { DeadlineService } from '../services/deadlines';
+import {
+  AwardYear,
+  DeadlinePreferences,
+  DeadlineScope,
+  DeadlineTiming,
+  ResolvedDeadline,
+  STATE_NAMES,
+  currentAwardYear,
+  daysUntil,
+  openAwardYears,
+  toIsoDate,
+} from '../types/deadlines';
 
 interface DeadlineCountdownProps {
   t: (key: TranslationKey) => string;
 }
 
+const SCOPE_EMOJI: Record<DeadlineScope, string> = {
+  federal: '🏛️',
+  state: '📍',
+  school: '🎓',
+};
+
+const TIMING_LABELS: Partial<Record<DeadlineTiming, TranslationKey>> = {
+  priority: 'priorityDeadline',
+  asap: 'deadlinesAsap',
+  'first-come': 'deadlinesFirstCome',
+  'check-school': 'deadlinesCheckSchool',
+};
+
+// Dates are calendar days, so they're read as local dates rather than UTC midnight
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// '2026-27' reads as '2026–27'
+const formatAwardYear = (awardYear: AwardYear) => awardYear.replace('-', '–');
+
 const DeadlineCountdown: React.FC<DeadlineCountdownProps> = ({ t }) => {
   const [now, setNow] = useState(new Date());
+  const [preferences, setPreferences] = useState<DeadlinePreferences>(() => DeadlineService.getPreferences());
+  const [selectedAwardYear, setSelectedAwardYear] = useState<AwardYear | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const [showAllStates, setShowAllStates] = useState(false);
 
   useEffect(() => {
     const timer = setInterval(() => setNow(new Date()), 60000);
     return () => clearInterval(timer);
   }, []);
 
-  const deadlines: Deadline[] = [
-    { name: t('priorityDeadline'), date: new Date('2026-02-28'), type: 'priority', emoji: '🔥' },
-    { name: t('californiaDeadline'), date: new Date('2026-03-02'), type: 'state', emoji: '🌴' },
-    { name: t('federalDeadline'), date: new Date('2027-06-30'), type: 'federal', emoji: '🏛️' },
-  ];
-
-  const getTimeRemaining = (deadline: Date) => {
-    const diff = deadline.getTime() - now.getTime();
-    if (diff <= 0) return { days: 0, passed: true };
-    const days = Math.ceil(diff / (1000 * 60 * 60 * 24));
-    return { days, passed: false };
+  const today = toIsoDate(now);
+  const awardYears = openAwardYears(today);
+  // Once October 1 comes the next award year is shown, and a year picked earlier is dropped when
+  // its FAFSA closes
+  const awardYear = selectedAwardYear && awardYears.includes(selectedAwardYear)
+    ? selectedAwardYear
+    : currentAwardYear(today);
+
+  const personal = useDeadlines({ awardYear, state: preferences.state, schools: preferences.schools });
+  const allStates = useDeadlines(showAllStates ? { awardYear, state: 'all' } : null);
+
+  const updatePreferences = (next: DeadlinePreferences) => {
+    setPreferences(next);
+    DeadlineService.savePreferences(next);
   };
 
-  const upcomingDeadlines = deadlines
-    .map(d => ({ ...d, ...getTimeRemaining(d.date) }))
-    .filter(d => !d.passed)
-    .sort((a, b) => a.days - b.days);
+  const withDays = (deadline: ResolvedDeadline) => ({
+    ...deadline,
+    days: deadline.date === null ? null : daysUntil(deadline.date, today),
+  });
 
-  const getUrgencyStyle = (days: number) => {
+  const upcomingDeadlines = personal.deadlines
+    .map(withDays)
+    .filter(deadline => deadline.days === null || deadline.days >= 0);
+
+  const stateDeadlines = allStates.deadlines
+    .filter(deadline => deadline.scope === 'state')
+    .map(withDays)
+    .sort((a, b) => STATE_NAMES[a.state!].localeCompare(STATE_NAMES[b.state!]));
+
+  const getUrgencyStyle = (days: number | null, timing: DeadlineTiming) => {
+    if (days === null) {
+      return timing === 'check-school'
+        ? { bg: 'linear-gradient(135deg, #F3F4F6 0%, #E5E7EB 100%)', text: '#374151', badge: '#6B7280' }
+        : { bg: 'linear-gradient(135deg, #FEF3C7 0%, #FDE68A 100%)', text: '#D97706', badge: '#D97706' };
+    }
     if (days <= 14) return { bg: 'linear-gradient(135deg, #FEE2E2 0%, #FECACA 100%)', text: '#DC2626', badge: '#DC2626' };
     if (days <= 30) return { bg: 'linear-gradient(135deg, #FEF3C7 0%, #FDE68A 100%)', text: '#D97706', badge: '#D97706' };
     return { bg: 'linear-gradient(135deg, #D1FAE5 0%, #A7F3D0 100%)', text: '#059669', badge: '#059669' };
   };
 
+  const badgeText = (days: number | null, timing: DeadlineTiming) => {
+    if (days === null) return t(TIMING_LABELS[timing] ?? 'deadlinesCheckSchool');
+    if (days === 0) return t('deadlinesToday');
+    return `${days} ${t('days')}`;
+  };
+
+  const nameOf = (deadline: ResolvedDeadline) =>
+    deadline.scope === 'federal' ? t('federalDeadline') : deadline.name;
+
+  // The date, what kind of deadline it is and whose, as far as the name doesn't already say
+  const detailsOf = (deadline: ResolvedDeadline) => [
+    deadline.date && formatDate(deadline.date),
+    deadline.date && deadline.timing === 'priority' && t('priorityDeadline'),
+    deadline.scope === 'state' && deadline.name !== STATE_NAMES[deadline.state!] && STATE_NAMES[deadline.state!],
+    deadline.projected && t('deadlinesExpected'),
+  ].filter(Boolean).join(' · ');
+
   return (
     <div style={styles.container}>
       <div style={styles.header}>
         <span style={styles.headerIcon}>📅</span>
         <span style={styles.headerText}>{t('upcomingDeadlines')}</span>
       </div>
+      <div style={styles.toolbar}>
+        {awardYears.length > 1 && (
+          <select
+            value={awardYear}
+            onChange={event => setSelectedAwardYear(event.target.value)}
+            aria-label={t('deadlinesAwardYear')}
+            style={styles.awardYearSelect}
+          >
+            {awardYears.map(year => (
+              <option key={year} value={year}>{formatAwardYear(year)}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={() => setIsPicking(!isPicking)}
+          aria-expanded={isPicking}
+          style={styles.personalizeButton}
+        >
+          📍 {preferences.state ? STATE_NAMES[preferences.state] : t('deadlinesPersonalize')}
+        </button>
+      </div>
+      {isPicking && (
+        <DeadlinePicker
+          t={t}
+          preferences={preferences}
+          onChange={updatePreferences}
+          onDone={() => setIsPicking(false)}
+        />
+      )}
+      {personal.error && (
+        <p role="alert" style={styles.error}>{t('deadlinesLoadError')}</p>
+      )}
       <div style={styles.deadlineGrid}>
-        {upcomingDeadlines.map((deadline, index) => {
-          const urgency = getUrgencyStyle(deadline.days);
+        {upcomingDeadlines.map(deadline => {
+          const urgency = getUrgencyStyle(deadline.days, deadline.timing);
           return (
             <div
-              key={index}
+              key={deadline.id}
+              title={deadline.note}
               style={{
                 ...styles.deadlineCard,
                 background: urgency.bg,
               }}
             >
               <div style={styles.cardTop}>
-                <span style={styles.emoji}>{deadline.emoji}</span>
+                <span style={styles.emoji}>{SCOPE_EMOJI[deadline.scope]}</span>
                 <div
                   style={{
                     ...styles.daysBadge,
                     backgroundColor: urgency.badge,
                   }}
                 >
-                  {deadline.days} {t('days')}
+                  {badgeText(deadline.days, deadline.timing)}
                 </div>
               </div>
               <div style={styles.cardBottom}>
                 <span style={{ ...styles.deadlineName, color: urgency.text }}>
-                  {deadline.name}
+                  {nameOf(deadline)}
                 </span>
                 <span style={styles.deadlineDate}>
-                  {deadline.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  {detailsOf(deadline)}
                 </span>
               </div>
             </div>
           );
         })}
       </div>
-      <a
-        href="https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines"
-        target="_blank"
-        rel="noopener noreferrer"
+      <p style={styles.disclaimer}>{t('deadlinesConfirm')}</p>
+      <button
+        type="button"
+        onClick={() => setShowAllStates(!showAllStates)}
+        aria-expanded={showAllStates}
         style={styles.link}
       >
-        {t('viewAllDeadlines')}
-      </a>
+        {showAllStates ? t('deadlinesHideAll') : t('viewAllDeadlines')}
+      </button>
+      {showAllStates && (
+        <div style={styles.stateList}>
+          {allStates.error && (
+            <p role="alert" style={styles.error}>{t('deadlinesLoadError')}</p>
+          )}
+          {stateDeadlines.map(deadline => (
+            <div key={deadline.id} style={styles.stateRow}>
+              <div style={styles.stateInfo}>
+                <span style={styles.stateName}>{STATE_NAMES[deadline.state!]}</span>
+                {deadline.name !== STATE_NAMES[deadline.state!] && (
+                  <span style={styles.stateProgram}>{deadline.name}</span>
+                )}
+                {deadline.note && <span style={styles.stateNote}>{deadline.note}</span>}
+              </div>
+              <span style={{
+                ...styles.stateDate,
+                ...(deadline.days !== null && deadline.days < 0 && styles.passed),
+              }}>
+                {deadline.date
+                  ? [
+                    formatDate(deadline.date),
+                    deadline.timing === 'priority' && t('priorityDeadline'),
+                    deadline.projected && t('deadlinesExpected'),
+                    deadline.days !== null && deadline.days < 0 && t('deadlinesPassed'),
+                  ].filter(Boolean).join(' · ')
+                  : t(TIMING_LABELS[deadline.timing] ?? 'deadlinesCheckSchool')}
+              </span>
+            </div>
+          ))}
+          <a
+            href="https://studentaid.gov/apply-for-aid/fafsa/fafsa-deadlines"
+            target="_blank"
+            rel="noopener noreferrer"
+            style={styles.sourceLink}
+          >
+            {t('deadlinesSource')}: studentaid.gov
+          </a>
+        </div>
+      )}
     </div>
   );
 };
@@ -117,9 +257,39 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontWeight: '600',
     color: '#374151',
   },
+  toolbar: {
+    display: 'flex',
+    justifyContent: 'center',
+    gap: '8px',
+    marginBottom: '16px',
+  },
+  awardYearSelect: {
+    padding: '6px 10px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '20px',
+    fontSize: '13px',
+    color: '#374151',
+    background: 'white',
+  },
+  personalizeButton: {
+    padding: '6px 14px',
+    border: '1px solid #A7F3D0',
+    borderRadius: '20px',
+    fontSize: '13px',
+    fontWeight: '500',
+    color: '#059669',
+    background: 'white',
+    cursor: 'pointer',
+  },
+  error: {
+    fontSize: '13px',
+    color: '#DC2626',
+    textAlign: 'center',
+    margin: '0 0 12px',
+  },
   deadlineGrid: {
     display: 'grid',
-    gridTemplateColumns: 'repeat(3, 1fr)',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(190px, 1fr))',
     gap: '12px',
   },
   deadlineCard: {
@@ -159,14 +329,74 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '12px',
     color: '#6B7280',
   },
+  disclaimer: {
+    fontSize: '12px',
+    color: '#6B7280',
+    textAlign: 'center',
+    margin: '12px 0 0',
+  },
   link: {
     display: 'block',
-    textAlign: 'center',
-    marginTop: '12px',
+    margin: '8px auto 0',
+    padding: 0,
+    background: 'none',
+    border: 'none',
     fontSize: '13px',
     color: '#059669',
     textDecoration: 'none',
     fontWeight: '500',
+    cursor: 'pointer',
+  },
+  stateList: {
+    display: 'flex',
+    flexDirection: 'column',
+    marginTop: '12px',
+    maxHeight: '360px',
+    overflowY: 'auto',
+    border: '1px solid #E5E7EB',
+    borderRadius: '16px',
+    padding: '4px 16px 12px',
+  },
+  stateRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: '12px',
+    padding: '10px 0',
+    borderBottom: '1px solid #F3F4F6',
+  },
+  stateInfo: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  stateName: {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  stateProgram: {
+    fontSize: '13px',
+    color: '#374151',
+  },
+  stateNote: {
+    fontSize: '12px',
+    color: '#6B7280',
+  },
+  stateDate: {
+    fontSize: '13px',
+    color: '#059669',
+    fontWeight: '500',
+    textAlign: 'right',
+  },
+  passed: {
+    color: '#9CA3AF',
+  },
+  sourceLink: {
+    marginTop: '10px',
+    fontSize: '12px',
+    color: '#059669',
+    textDecoration: 'none',
   },
 };
 
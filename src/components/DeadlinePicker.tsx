@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { TranslationKey } from '../translations';
+import { DeadlinePreferences, FAFSA_SCHOOLS, STATE_CODES, STATE_NAMES, StateCode } from '../types/deadlines';
+
+interface DeadlinePickerProps {
+  t: (key: TranslationKey) => string;
+  preferences: DeadlinePreferences;
+  onChange: (preferences: DeadlinePreferences) => void;
+  onDone: () => void;
+}
+
+/**
+ * Where a student picks their state and the schools they're applying to, for their own countdown
+ */
+const DeadlinePicker: React.FC<DeadlinePickerProps> = ({ t, preferences, onChange, onDone }) => {
+  const [search, setSearch] = useState('');
+
+  const matchingSchools = FAFSA_SCHOOLS
+    .filter(school => school.name.toLowerCase().includes(search.trim().toLowerCase()))
+    // Schools in the student's state first
+    .sort((a, b) => Number(b.state === preferences.state) - Number(a.state === preferences.state));
+
+  const toggleSchool = (schoolId: string) => {
+    onChange({
+      ...preferences,
+      schools: preferences.schools.includes(schoolId)
+        ? preferences.schools.filter(id => id !== schoolId)
+        : [...preferences.schools, schoolId],
+    });
+  };
+
+  return (
+    <div style={styles.panel}>
+      <label style={styles.field}>
+        <span style={styles.label}>{t('deadlinesYourState')}</span>
+        <select
+          value={preferences.state ?? ''}
+          onChange={event => onChange({
+            ...preferences,
+            state: (event.target.value || undefined) as StateCode | undefined,
+          })}
+          style={styles.input}
+        >
+          <option value="">{t('deadlinesChooseState')}</option>
+          {STATE_CODES.map(code => (
+            <option key={code} value={code}>{STATE_NAMES[code]}</option>
+          ))}
+        </select>
+      </label>
+
+      <fieldset style={styles.fieldset}>
+        <legend style={styles.label}>{t('deadlinesYourSchools')}</legend>
+        <input
+          type="search"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder={t('deadlinesSearchSchools')}
+          aria-label={t('deadlinesSearchSchools')}
+          style={styles.input}
+        />
+        <div style={styles.schoolList}>
+          {matchingSchools.map(school => (
+            <label key={school.id} style={styles.school}>
+              <input
+                type="checkbox"
+                checked={preferences.schools.includes(school.id)}
+                onChange={() => toggleSchool(school.id)}
+              />
+              {school.name}
+              <span style={styles.schoolState}>{school.state}</span>
+            </label>
+          ))}
+          {matchingSchools.length === 0 && (
+            <span style={styles.empty}>{t('deadlinesNoSchools')}</span>
+          )}
+        </div>
+      </fieldset>
+
+      <button type="button" onClick={onDone} style={styles.doneButton}>
+        {t('deadlinesDone')}
+      </button>
+    </div>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '14px',
+    padding: '16px',
+    marginBottom: '16px',
+    background: '#F9FAFB',
+    border: '1px solid #E5E7EB',
+    borderRadius: '16px',
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  fieldset: {
+    border: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  label: {
+    fontSize: '13px',
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: '2px',
+  },
+  input: {
+    padding: '8px 10px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '8px',
+    fontSize: '14px',
+    background: 'white',
+  },
+  schoolList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    maxHeight: '180px',
+    overflowY: 'auto',
+  },
+  school: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    color: '#1F2937',
+    cursor: 'pointer',
+  },
+  schoolState: {
+    fontSize: '12px',
+    color: '#6B7280',
+  },
+  empty: {
+    fontSize: '13px',
+    color: '#6B7280',
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    padding: '8px 16px',
+    background: 'linear-gradient(90deg, #10B981 0%, #059669 100%)',
+    border: 'none',
+    borderRadius: '10px',
+    color: 'white',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer',
+  },
+};
+
+export default DeadlinePicker;
@@ -1,56 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { TranslationKey } from '../translations';
 import { useTheme } from '../context/ThemeContext';
-
-interface ChecklistItem {
-  id: string;
-  label: string;
-  description: string;
-}
+import { useChecklist } from '../hooks/useChecklist';
+import { useIntake } from '../hooks/useIntake';
+import { getChecklistSteps } from '../data/fafsaChecklist';
+import { FAFSA_SECTIONS, recommendSectionOrder } from '../types/progress';
+import IntakeQuestionnaire from './IntakeQuestionnaire';
 
 interface FAFSAChecklistProps {
   t: (key: TranslationKey) => string;
   isOpen: boolean;
   onClose: () => void;
+  // Signed-in students' checklists are saved to their account; guests' stay on this device
+  userId?: string;
 }
 
-const getChecklistItems = (t: (key: TranslationKey) => string): ChecklistItem[] => [
-  { id: 'fsaId', label: t('checklistStep1'), description: t('checklistStep1Desc') },
-  { id: 'ssn', label: t('checklistStep2'), description: t('checklistStep2Desc') },
-  { id: 'taxReturn', label: t('checklistStep3'), description: t('checklistStep3Desc') },
-  { id: 'w2Forms', label: t('checklistStep4'), description: t('checklistStep4Desc') },
-  { id: 'bankStatements', label: t('checklistStep5'), description: t('checklistStep5Desc') },
-  { id: 'investments', label: t('checklistStep6'), description: t('checklistStep6Desc') },
-  { id: 'schoolList', label: t('checklistStep7'), description: t('checklistStep7Desc') },
-  { id: 'consentIRS', label: t('checklistStep8'), description: t('checklistStep8Desc') },
-  { id: 'inviteContributors', label: t('checklistStep9'), description: t('checklistStep9Desc') },
-  { id: 'reviewSubmit', label: t('checklistStep10'), description: t('checklistStep10Desc') },
-  { id: 'confirmation', label: t('checklistStep11'), description: t('checklistStep11Desc') },
-];
+// Due dates are calendar days, so they are shown in local time rather than as UTC midnight
+const formatDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 
-const FAFSAChecklist: React.FC<FAFSAChecklistProps> = ({ t, isOpen, onClose }) => {
-  const { isDarkMode } = useTheme();
-  const checklistItems = getChecklistItems(t);
-  const [completed, setCompleted] = useState<Set<string>>(() => {
-    const saved = localStorage.getItem('fafsaChecklist');
-    return saved ? new Set(JSON.parse(saved)) : new Set();
-  });
+const today = () => new Date().toLocaleDateString('en-CA');
 
-  useEffect(() => {
-    localStorage.setItem('fafsaChecklist', JSON.stringify([...completed]));
-  }, [completed]);
+const sectionTitle = (sectionId: string) => FAFSA_SECTIONS.find(section => section.sectionId === sectionId)?.title ?? sectionId;
 
-  const toggleItem = (id: string) => {
-    setCompleted(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(id)) {
-        newSet.delete(id);
-      } else {
-        newSet.add(id);
-      }
-      return newSet;
-    });
-  };
+const FAFSAChecklist: React.FC<FAFSAChecklistProps> = ({ t, isOpen, onClose, userId }) => {
+  const { isDarkMode } = useTheme();
+  const { intake, isSaving, error: intakeError, saveAnswers } = useIntake(userId);
+  const checklistItems = getChecklistSteps(intake?.answers);
+  const { checklist, error, toggleItem, setNote, setDueDate, reset } = useChecklist(userId);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showIntake, setShowIntake] = useState(false);
+  const completed = new Set(checklistItems.filter(item => checklist[item.id]?.completed).map(item => item.id));
 
   const progress = Math.round((completed.size / checklistItems.length) * 100);
 
@@ -92,57 +72,171 @@ const FAFSAChecklist: React.FC<FAFSAChecklistProps> = ({ t, isOpen, onClose }) =
         </div>
 
         <div style={styles.checklistContainer}>
-          {checklistItems.map((item, index) => (
-            <div
-              key={item.id}
-              style={{
-                ...styles.checklistItem,
-                ...(completed.has(item.id) ? styles.checklistItemCompleted : {}),
-                background: completed.has(item.id)
-                  ? (isDarkMode ? '#064E3B' : '#F0FDF4')
-                  : (isDarkMode ? '#374151' : 'white'),
-                borderColor: completed.has(item.id)
-                  ? (isDarkMode ? '#059669' : '#A7F3D0')
-                  : (isDarkMode ? '#4B5563' : '#E5E7EB'),
+          {showIntake ? (
+            <IntakeQuestionnaire
+              t={t}
+              initialAnswers={intake?.answers}
+              isSaving={isSaving}
+              onSave={answers => {
+                saveAnswers(answers)
+                  .then(() => setShowIntake(false))
+                  .catch(() => { /* The error is shown below the checklist */ });
               }}
-              onClick={() => toggleItem(item.id)}
-            >
-              <div style={styles.checkboxContainer}>
-                <div style={{
-                  ...styles.checkbox,
-                  ...(completed.has(item.id) ? styles.checkboxChecked : {}),
-                  borderColor: completed.has(item.id) ? '#10B981' : (isDarkMode ? '#6B7280' : '#D1D5DB'),
-                }}>
-                  {completed.has(item.id) && '✓'}
-                </div>
-                <span style={styles.stepNumber}>{index + 1}</span>
-              </div>
-              <div style={styles.itemContent}>
+              onCancel={() => setShowIntake(false)}
+            />
+          ) : (
+            <div style={{
+              ...styles.intakeBanner,
+              background: isDarkMode ? '#374151' : '#F0FDF4',
+              borderColor: isDarkMode ? '#4B5563' : '#A7F3D0',
+            }}>
+              {intake ? (
                 <span style={{
-                  ...styles.itemLabel,
-                  ...(completed.has(item.id) ? styles.itemLabelCompleted : {}),
-                  color: completed.has(item.id)
-                    ? (isDarkMode ? '#9CA3AF' : '#6B7280')
-                    : (isDarkMode ? '#F3F4F6' : '#1F2937'),
+                  ...styles.sectionOrder,
+                  color: isDarkMode ? '#D1D5DB' : '#374151',
                 }}>
-                  {item.label}
+                  <strong>{t('intakeSectionOrder')}</strong>{' '}
+                  {recommendSectionOrder(intake.answers).map(sectionTitle).join(' → ')}
                 </span>
+              ) : (
                 <span style={{
-                  ...styles.itemDescription,
-                  color: isDarkMode ? '#9CA3AF' : '#6B7280',
-                }}>
-                  {item.description}
-                </span>
-              </div>
+                  ...styles.sectionOrder,
+                  color: isDarkMode ? '#D1D5DB' : '#374151',
+                }}>{t('intakePrompt')}</span>
+              )}
+              <button type="button" onClick={() => setShowIntake(true)} style={styles.intakeButton}>
+                {t(intake ? 'intakeEdit' : 'intakeStart')}
+              </button>
             </div>
-          ))}
+          )}
+          {!showIntake && checklistItems.map((item, index) => {
+            const state = checklist[item.id];
+            const isOverdue = !completed.has(item.id) && !!state?.dueDate && state.dueDate < today();
+
+            return (
+              <div
+                key={item.id}
+                style={{
+                  ...styles.checklistItem,
+                  ...(completed.has(item.id) ? styles.checklistItemCompleted : {}),
+                  background: completed.has(item.id)
+                    ? (isDarkMode ? '#064E3B' : '#F0FDF4')
+                    : (isDarkMode ? '#374151' : 'white'),
+                  borderColor: completed.has(item.id)
+                    ? (isDarkMode ? '#059669' : '#A7F3D0')
+                    : (isDarkMode ? '#4B5563' : '#E5E7EB'),
+                }}
+                onClick={() => toggleItem(item.id)}
+              >
+                <div style={styles.checkboxContainer}>
+                  <div style={{
+                    ...styles.checkbox,
+                    ...(completed.has(item.id) ? styles.checkboxChecked : {}),
+                    borderColor: completed.has(item.id) ? '#10B981' : (isDarkMode ? '#6B7280' : '#D1D5DB'),
+                  }}>
+                    {completed.has(item.id) && '✓'}
+                  </div>
+                  <span style={styles.stepNumber}>{index + 1}</span>
+                </div>
+                <div style={styles.itemContent}>
+                  <span style={{
+                    ...styles.itemLabel,
+                    ...(completed.has(item.id) ? styles.itemLabelCompleted : {}),
+                    color: completed.has(item.id)
+                      ? (isDarkMode ? '#9CA3AF' : '#6B7280')
+                      : (isDarkMode ? '#F3F4F6' : '#1F2937'),
+                  }}>
+                    {t(item.label)}
+                  </span>
+                  <span style={{
+                    ...styles.itemDescription,
+                    color: isDarkMode ? '#9CA3AF' : '#6B7280',
+                  }}>
+                    {t(item.description)}
+                  </span>
+                  {(state?.completedAt || state?.dueDate || state?.note) && (
+                    <div style={styles.itemMeta}>
+                      {state.completedAt && completed.has(item.id) && (
+                        <span style={styles.metaBadge}>✓ {t('checklistCompletedOn')} {formatDate(state.completedAt)}</span>
+                      )}
+                      {state.dueDate && !completed.has(item.id) && (
+                        <span style={{ ...styles.metaBadge, ...(isOverdue ? styles.metaBadgeOverdue : {}) }}>
+                          📅 {t('checklistDueDate')} {formatDate(state.dueDate)}
+                        </span>
+                      )}
+                      {state.note && expandedId !== item.id && (
+                        <span style={{
+                          ...styles.itemNote,
+                          color: isDarkMode ? '#D1D5DB' : '#4B5563',
+                        }}>📝 {state.note}</span>
+                      )}
+                    </div>
+                  )}
+                  {expandedId === item.id && (
+                    // Editing a note or date shouldn't tick the item
+                    <div style={styles.itemDetails} onClick={event => event.stopPropagation()}>
+                      <textarea
+                        defaultValue={state?.note ?? ''}
+                        placeholder={t('checklistNotePlaceholder')}
+                        aria-label={t('checklistNotes')}
+                        maxLength={500}
+                        rows={2}
+                        onBlur={event => setNote(item.id, event.target.value)}
+                        style={{
+                          ...styles.noteInput,
+                          background: isDarkMode ? '#1F2937' : 'white',
+                          borderColor: isDarkMode ? '#4B5563' : '#D1D5DB',
+                          color: isDarkMode ? '#F3F4F6' : '#1F2937',
+                        }}
+                      />
+                      <label style={{
+                        ...styles.dueDateLabel,
+                        color: isDarkMode ? '#9CA3AF' : '#6B7280',
+                      }}>
+                        {t('checklistDueDate')}
+                        <input
+                          type="date"
+                          value={state?.dueDate ?? ''}
+                          onChange={event => setDueDate(item.id, event.target.value)}
+                          style={{
+                            ...styles.dueDateInput,
+                            background: isDarkMode ? '#1F2937' : 'white',
+                            borderColor: isDarkMode ? '#4B5563' : '#D1D5DB',
+                            color: isDarkMode ? '#F3F4F6' : '#1F2937',
+                          }}
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  aria-label={t('checklistNotes')}
+                  aria-expanded={expandedId === item.id}
+                  onClick={event => {
+                    event.stopPropagation();
+                    setExpandedId(expandedId === item.id ? null : item.id);
+                  }}
+                  style={{
+                    ...styles.detailsButton,
+                    color: isDarkMode ? '#9CA3AF' : '#6B7280',
+                  }}
+                >
+                  📝
+                </button>
+              </div>
+            );
+          })}
         </div>
 
         <div style={{
           ...styles.footer,
           borderColor: isDarkMode ? '#374151' : '#E5E7EB',
         }}>
-          <button onClick={() => setCompleted(new Set())} style={{
+          {(error || intakeError) && (
+            <p role="alert" style={styles.saveError}>{t('checklistSaveError')}</p>
+          )}
+          <button onClick={() => reset(checklistItems.map(item => item.id))} style={{
             ...styles.resetButton,
             background: isDarkMode ? '#374151' : 'transparent',
             borderColor: isDarkMode ? '#4B5563' : '#E5E7EB',
@@ -301,6 +395,96 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '13px',
     color: '#6B7280',
   },
+  itemMeta: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: '6px',
+    marginTop: '6px',
+  },
+  metaBadge: {
+    fontSize: '12px',
+    fontWeight: '500',
+    color: '#059669',
+    background: 'rgba(16, 185, 129, 0.1)',
+    borderRadius: '6px',
+    padding: '2px 8px',
+  },
+  metaBadgeOverdue: {
+    color: '#B91C1C',
+    background: 'rgba(239, 68, 68, 0.1)',
+  },
+  itemNote: {
+    fontSize: '13px',
+    fontStyle: 'italic',
+  },
+  itemDetails: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    marginTop: '8px',
+    cursor: 'default',
+  },
+  noteInput: {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '8px',
+    fontSize: '13px',
+    fontFamily: 'inherit',
+    resize: 'vertical',
+    boxSizing: 'border-box',
+  },
+  dueDateLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '13px',
+  },
+  dueDateInput: {
+    padding: '6px 8px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '8px',
+    fontSize: '13px',
+  },
+  detailsButton: {
+    background: 'transparent',
+    border: 'none',
+    fontSize: '16px',
+    cursor: 'pointer',
+    padding: '2px',
+    alignSelf: 'flex-start',
+  },
+  intakeBanner: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+    padding: '12px 14px',
+    marginBottom: '12px',
+    border: '1px solid #A7F3D0',
+    borderRadius: '12px',
+  },
+  sectionOrder: {
+    fontSize: '13px',
+    lineHeight: 1.5,
+  },
+  intakeButton: {
+    flexShrink: 0,
+    padding: '8px 12px',
+    background: '#10B981',
+    border: 'none',
+    borderRadius: '8px',
+    color: 'white',
+    fontSize: '13px',
+    fontWeight: '600',
+    cursor: 'pointer',
+  },
+  saveError: {
+    fontSize: '13px',
+    color: '#B91C1C',
+    margin: '0 0 10px 0',
+  },
   footer: {
     padding: '16px 24px',
     borderTop: '1px solid #E5E7EB',
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { TranslationKey } from '../translations';
+import { useTheme } from '../context/ThemeContext';
+import { INDEPENDENCE_CRITERIA, IntakeAnswers, IntakeAnswersSchema } from '../types/progress';
+
+interface IntakeQuestionnaireProps {
+  t: (key: TranslationKey) => string;
+  initialAnswers?: IntakeAnswers;
+  isSaving?: boolean;
+  onSave: (answers: IntakeAnswers) => void;
+  onCancel: () => void;
+}
+
+type IndependenceCriterion = IntakeAnswers['independenceCriteria'][number];
+
+const CRITERIA_LABELS: Record<IndependenceCriterion, TranslationKey> = {
+  'age-24-or-older': 'intakeAge24',
+  'married': 'intakeMarried',
+  'graduate-student': 'intakeGraduate',
+  'military': 'intakeMilitary',
+  'supports-dependents': 'intakeDependents',
+  'orphan-or-ward': 'intakeOrphanWard',
+  'emancipated-minor': 'intakeEmancipated',
+  'homeless-youth': 'intakeHomeless',
+};
+
+const PARENTS_OPTIONS: Array<[NonNullable<IntakeAnswers['parentsMaritalStatus']>, TranslationKey]> = [
+  ['married', 'intakeParentsMarried'],
+  ['divorced-or-separated', 'intakeParentsDivorced'],
+  ['remarried', 'intakeParentsRemarried'],
+  ['never-married', 'intakeParentsNeverMarried'],
+  ['widowed', 'intakeParentsWidowed'],
+];
+
+const TAX_OPTIONS: Array<[IntakeAnswers['taxFilingStatus'], TranslationKey]> = [
+  ['filed', 'intakeTaxFiled'],
+  ['will-file', 'intakeTaxWillFile'],
+  ['not-required', 'intakeTaxNotRequired'],
+];
+
+const CITIZENSHIP_OPTIONS: Array<[IntakeAnswers['citizenship'], TranslationKey]> = [
+  ['us-citizen', 'intakeUsCitizen'],
+  ['eligible-noncitizen', 'intakeEligibleNoncitizen'],
+  ['other', 'intakeOtherCitizenship'],
+];
+
+/**
+ * A few multiple-choice questions that tailor the FAFSA checklist and section order. Only the
+ * choices are kept, never anything that identifies the student.
+ */
+const IntakeQuestionnaire: React.FC<IntakeQuestionnaireProps> = ({ t, initialAnswers, isSaving, onSave, onCancel }) => {
+  const { isDarkMode } = useTheme();
+  const [criteria, setCriteria] = useState<IndependenceCriterion[] | null>(initialAnswers?.independenceCriteria ?? null);
+  const [parentsMaritalStatus, setParentsMaritalStatus] = useState(initialAnswers?.parentsMaritalStatus);
+  const [taxFilingStatus, setTaxFilingStatus] = useState(initialAnswers?.taxFilingStatus);
+  const [citizenship, setCitizenship] = useState(initialAnswers?.citizenship);
+  const [schoolCount, setSchoolCount] = useState(initialAnswers?.schoolCount ?? 1);
+
+  const isIndependent = !!criteria && criteria.length > 0;
+  const answers = IntakeAnswersSchema.safeParse({
+    independenceCriteria: criteria,
+    ...(isIndependent ? {} : { parentsMaritalStatus }),
+    taxFilingStatus,
+    citizenship,
+    schoolCount,
+  });
+  const isComplete = answers.success && (isIndependent || !!parentsMaritalStatus);
+
+  const toggleCriterion = (criterion: IndependenceCriterion) => {
+    setCriteria(prev => prev?.includes(criterion)
+      ? prev.filter(item => item !== criterion)
+      : [...(prev ?? []), criterion]);
+  };
+
+  const textColor = isDarkMode ? '#F3F4F6' : '#1F2937';
+  const mutedColor = isDarkMode ? '#9CA3AF' : '#6B7280';
+
+  const option = (key: string, label: string, checked: boolean, onChange: () => void, type: 'radio' | 'checkbox' = 'radio', name?: string) => (
+    <label key={key} style={{ ...styles.option, color: textColor }}>
+      <input type={type} name={name} checked={checked} onChange={onChange} />
+      {label}
+    </label>
+  );
+
+  return (
+    <form
+      style={styles.form}
+      onSubmit={event => {
+        event.preventDefault();
+        if (isComplete && answers.success) {
+          onSave(answers.data);
+        }
+      }}
+    >
+      <h3 style={{ ...styles.title, color: isDarkMode ? '#34D399' : '#065F46' }}>{t('intakeTitle')}</h3>
+      <p style={{ ...styles.note, color: mutedColor }}>{t('intakeNoPII')}</p>
+
+      <fieldset style={styles.fieldset}>
+        <legend style={{ ...styles.question, color: textColor }}>{t('intakeIndependenceQuestion')}</legend>
+        {INDEPENDENCE_CRITERIA.map(criterion =>
+          option(criterion, t(CRITERIA_LABELS[criterion]), !!criteria?.includes(criterion), () => toggleCriterion(criterion), 'checkbox'))}
+        {option('none', t('intakeNoneApply'), criteria?.length === 0, () => setCriteria([]), 'checkbox')}
+      </fieldset>
+
+      {criteria && !isIndependent && (
+        <fieldset style={styles.fieldset}>
+          <legend style={{ ...styles.question, color: textColor }}>{t('intakeParentsQuestion')}</legend>
+          {PARENTS_OPTIONS.map(([value, label]) =>
+            option(value, t(label), parentsMaritalStatus === value, () => setParentsMaritalStatus(value), 'radio', 'parentsMaritalStatus'))}
+        </fieldset>
+      )}
+
+      <fieldset style={styles.fieldset}>
+        <legend style={{ ...styles.question, color: textColor }}>
+          {t(isIndependent ? 'intakeTaxQuestion' : 'intakeTaxQuestionParents')}
+        </legend>
+        {TAX_OPTIONS.map(([value, label]) =>
+          option(value, t(label), taxFilingStatus === value, () => setTaxFilingStatus(value), 'radio', 'taxFilingStatus'))}
+      </fieldset>
+
+      <fieldset style={styles.fieldset}>
+        <legend style={{ ...styles.question, color: textColor }}>{t('intakeCitizenshipQuestion')}</legend>
+        {CITIZENSHIP_OPTIONS.map(([value, label]) =>
+          option(value, t(label), citizenship === value, () => setCitizenship(value), 'radio', 'citizenship'))}
+      </fieldset>
+
+      <label style={{ ...styles.question, ...styles.schoolCount, color: textColor }}>
+        {t('intakeSchoolsQuestion')}
+        <input
+          type="number"
+          min={0}
+          max={20}
+          value={schoolCount}
+          onChange={event => setSchoolCount(Math.max(0, Math.min(20, Math.round(Number(event.target.value) || 0))))}
+          style={{
+            ...styles.numberInput,
+            background: isDarkMode ? '#1F2937' : 'white',
+            borderColor: isDarkMode ? '#4B5563' : '#D1D5DB',
+            color: textColor,
+          }}
+        />
+      </label>
+
+      <div style={styles.actions}>
+        <button type="button" onClick={onCancel} style={{
+          ...styles.secondaryButton,
+          borderColor: isDarkMode ? '#4B5563' : '#E5E7EB',
+          color: isDarkMode ? '#D1D5DB' : '#6B7280',
+        }}>
+          {t('cancel')}
+        </button>
+        <button type="submit" disabled={!isComplete || isSaving} style={{
+          ...styles.primaryButton,
+          opacity: !isComplete || isSaving ? 0.6 : 1,
+        }}>
+          {t('intakeSave')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const styles: { [key: string]: React.CSSProperties } = {
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '14px',
+    padding: '8px 0 16px',
+  },
+  title: {
+    fontSize: '17px',
+    fontWeight: '700',
+    margin: 0,
+  },
+  note: {
+    fontSize: '13px',
+    margin: 0,
+  },
+  fieldset: {
+    border: 'none',
+    margin: 0,
+    padding: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+  },
+  question: {
+    fontSize: '14px',
+    fontWeight: '600',
+    marginBottom: '4px',
+  },
+  option: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '14px',
+    cursor: 'pointer',
+  },
+  schoolCount: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: '12px',
+  },
+  numberInput: {
+    width: '70px',
+    padding: '6px 8px',
+    border: '1px solid #D1D5DB',
+    borderRadius: '8px',
+    fontSize: '14px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '10px',
+    justifyContent: 'flex-end',
+  },
+  secondaryButton: {
+    padding: '10px 16px',
+    background: 'transparent',
+    border: '1px solid #E5E7EB',
+    borderRadius: '10px',
+    fontSize: '14px',
+    cursor: 'pointer',
+  },
+  primaryButton: {
+    padding: '10px 16px',
+    background: 'linear-gradient(90deg, #10B981 0%, #059669 100%)',
+    border: 'none',
+    borderRadius: '10px',
+    color: 'white',
+    fontSize: '14px',
+    fontWeight: '600',
+    cursor: 'pointer',
+  },
+};
+
+export default IntakeQuestionnaire;
@@ -0,0 +1,67 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import DeadlineCountdown from '../DeadlineCountdown';
+import { translations, TranslationKey } from '../../translations';
+import { DeadlineService } from '../../services/deadlines';
+import { daysUntil } from '../../types/deadlines';
+
+const t = (key: TranslationKey) => translations.en[key];
+
+describe('DeadlineCountdown', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts down to the deadlines of the award year whose FAFSA is open', async () => {
+    render(<DeadlineCountdown t={t} />);
+
+    expect(await screen.findByText('Federal Deadline')).toBeInTheDocument();
+    // 2027-28 opened on October 1; its dates haven't been reviewed yet, so they are expected dates
+    expect(screen.getByText('Jun 30, 2028 · expected')).toBeInTheDocument();
+    expect(screen.getByText(`${daysUntil('2028-06-30', '2026-10-19')} days`)).toBeInTheDocument();
+    expect(screen.getByLabelText('Award year')).toHaveValue('2027-28');
+
+    fireEvent.change(screen.getByLabelText('Award year'), { target: { value: '2026-27' } });
+
+    expect(await screen.findByText('Jun 30, 2027')).toBeInTheDocument();
+  });
+
+  it('adds the deadlines of the state and schools a student picks, and remembers them', async () => {
+    const { unmount } = render(<DeadlineCountdown t={t} />);
+
+    fireEvent.click(screen.getByText(/Choose your state and schools/));
+    fireEvent.change(screen.getByDisplayValue('Select a state'), { target: { value: 'CA' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: /Los Angeles/ }));
+    fireEvent.click(screen.getByText('Done'));
+
+    expect(await screen.findByText('Cal Grant')).toBeInTheDocument();
+    expect(screen.getByText('University of California, Los Angeles')).toBeInTheDocument();
+    expect(DeadlineService.getPreferences()).toEqual({ state: 'CA', schools: ['ucla'] });
+
+    unmount();
+    render(<DeadlineCountdown t={t} />);
+
+    expect(await screen.findByText('Cal Grant')).toBeInTheDocument();
+  });
+
+  it('lists every state\'s deadlines', async () => {
+    render(<DeadlineCountdown t={t} />);
+
+    fireEvent.click(screen.getByText('View all state deadlines →'));
+
+    expect(await screen.findByText('Wyoming')).toBeInTheDocument();
+    expect(screen.getByText('District of Columbia')).toBeInTheDocument();
+    expect(screen.getByText('Monetary Award Program (MAP)')).toBeInTheDocument();
+    expect(screen.getAllByText('First come, first served').length).toBeGreaterThan(1);
+
+    fireEvent.click(screen.getByText('Hide state deadlines'));
+
+    expect(screen.queryByText('Wyoming')).not.toBeInTheDocument();
+  });
+});
@@ -1,7 +1,8 @@
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import FAFSAChecklist from '../FAFSAChecklist';
 import { ThemeProvider } from '../../context/ThemeContext';
+import { ProgressService } from '../../services/progress';
 
 // Mock translation function
 const mockT = vi.fn((key: string) => {
@@ -14,6 +15,9 @@ const mockT = vi.fn((key: string) => {
     checklistStep1Desc: 'Student and parent each need their own account (FSA ID)',
     checklistStep2: 'Social Security Numbers',
     checklistStep2Desc: 'SSN for student and all contributors (parents)',
+    checklistNotes: 'Notes and due date',
+    checklistNotePlaceholder: 'Add a note',
+    checklistDueDate: 'Due',
   };
   return translations[key] || key;
 });
@@ -29,6 +33,12 @@ Object.defineProperty(window, 'localStorage', {
   value: localStorageMock,
 });
 
+// What the checklist last wrote to localStorage
+const lastSavedChecklist = () => {
+  const { calls } = localStorageMock.setItem.mock;
+  return JSON.parse(calls[calls.length - 1][1]);
+};
+
 const TestWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <ThemeProvider>
     {children}
@@ -91,10 +101,11 @@ describe('FAFSAChecklist', () => {
 
     fireEvent.click(firstItem!);
 
-    expect(localStorageMock.setItem).toHaveBeenCalledWith(
-      'fafsaChecklist',
-      JSON.stringify(['fsaId'])
-    );
+    expect(localStorageMock.setItem).toHaveBeenCalledWith('fafsaChecklist', expect.any(String));
+    const saved = lastSavedChecklist();
+    expect(saved).toEqual({
+      fsaId: { completed: true, completedAt: expect.any(String), updatedAt: expect.any(String) },
+    });
   });
 
   it('calculates progress correctly', () => {
@@ -122,10 +133,102 @@ describe('FAFSAChecklist', () => {
     const resetButton = screen.getByText(/Reset Progress/);
     fireEvent.click(resetButton);
 
-    expect(localStorageMock.setItem).toHaveBeenCalledWith(
-      'fafsaChecklist',
-      JSON.stringify([])
+    const saved = lastSavedChecklist();
+    expect(Object.values(saved).every((item: any) => !item.completed && !item.completedAt)).toBe(true);
+    expect(screen.getByText('0% Complete')).toBeInTheDocument();
+  });
+
+  it('saves notes and due dates without ticking the item', () => {
+    render(
+      <TestWrapper>
+        <FAFSAChecklist {...defaultProps} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getAllByLabelText('Notes and due date')[0]);
+    const note = screen.getByPlaceholderText('Add a note');
+    fireEvent.change(note, { target: { value: 'Found 2024 1040 in the blue folder' } });
+    fireEvent.blur(note);
+    fireEvent.change(screen.getByLabelText('Due'), { target: { value: '2026-02-01' } });
+
+    const saved = lastSavedChecklist();
+    expect(saved.fsaId).toMatchObject({
+      completed: false,
+      note: 'Found 2024 1040 in the blue folder',
+      dueDate: '2026-02-01',
+    });
+    expect(screen.getByText('0% Complete')).toBeInTheDocument();
+  });
+
+  it('tailors the steps and section order to the intake answers', () => {
+    const intake = {
+      answers: {
+        independenceCriteria: ['married'],
+        taxFilingStatus: 'not-required',
+        citizenship: 'eligible-noncitizen',
+        schoolCount: 3,
+      },
+      completedAt: '2026-09-01T00:00:00.000Z',
+    };
+    localStorageMock.getItem.mockImplementation((key: string) => key === 'fafsaIntake' ? JSON.stringify(intake) : null);
+
+    render(
+      <TestWrapper>
+        <FAFSAChecklist {...defaultProps} />
+      </TestWrapper>
     );
+
+    expect(screen.queryByText('checklistStep9')).not.toBeInTheDocument();
+    expect(screen.queryByText('checklistStep3')).not.toBeInTheDocument();
+    expect(screen.getByText('checklistInviteSpouse')).toBeInTheDocument();
+    expect(screen.getByText('checklistANumber')).toBeInTheDocument();
+    expect(screen.getByText(/Student Demographics → Student Financial Information → Dependency Status → School Selection/)).toBeInTheDocument();
+    expect(screen.queryByText(/Parent Demographics/)).not.toBeInTheDocument();
+  });
+
+  it('saves the questionnaire answers and shows the steps they call for', async () => {
+    render(
+      <TestWrapper>
+        <FAFSAChecklist {...defaultProps} />
+      </TestWrapper>
+    );
+
+    fireEvent.click(screen.getByText('intakeStart'));
+    fireEvent.click(screen.getByLabelText('intakeNoneApply'));
+    fireEvent.click(screen.getByLabelText('intakeParentsDivorced'));
+    fireEvent.click(screen.getByLabelText('intakeTaxWillFile'));
+    fireEvent.click(screen.getByLabelText('intakeUsCitizen'));
+    fireEvent.click(screen.getByText('intakeSave'));
+
+    const [, saved] = localStorageMock.setItem.mock.calls.find(([key]) => key === 'fafsaIntake')!;
+    expect(JSON.parse(saved).answers).toEqual({
+      independenceCriteria: [],
+      parentsMaritalStatus: 'divorced-or-separated',
+      taxFilingStatus: 'will-file',
+      citizenship: 'us-citizen',
+      schoolCount: 1,
+    });
+    expect(await screen.findByText('checklistWhichParent')).toBeInTheDocument();
+    expect(screen.getByText('checklistFileTaxes')).toBeInTheDocument();
+    expect(screen.getByText('checklistStep9')).toBeInTheDocument();
+  });
+
+  it('merges the guest checklist into a signed-in account', async () => {
+    localStorageMock.getItem.mockReturnValue(JSON.stringify(['fsaId']));
+    const updateSpy = vi.spyOn(ProgressService, 'updateChecklist');
+
+    render(
+      <TestWrapper>
+        <FAFSAChecklist {...defaultProps} userId="checklist-user" />
+      </TestWrapper>
+    );
+
+    await waitFor(() => expect(localStorageMock.removeItem).toHaveBeenCalledWith('fafsaChecklist'));
+    expect(updateSpy).toHaveBeenCalledWith('checklist-user', {
+      fsaId: expect.objectContaining({ completed: true }),
+    });
+    expect(screen.getByText('9% Complete')).toBeInTheDocument();
+    updateSpy.mockRestore();
   });
 
   it('calls onClose when close button clicked', () => {
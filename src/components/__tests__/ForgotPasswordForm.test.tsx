@@ -0,0 +1,79 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ForgotPasswordForm } from '../auth/ForgotPasswordForm';
+
+const forgotPassword = vi.fn();
+const confirmPasswordReset = vi.fn();
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ forgotPassword, confirmPasswordReset }),
+}));
+
+const requestCode = async () => {
+  fireEvent.change(screen.getByLabelText('Email Address'), { target: { value: 'student@example.com' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Send Reset Code' }));
+  await screen.findByLabelText('Reset Code');
+};
+
+describe('ForgotPasswordForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    forgotPassword.mockResolvedValue('We sent a reset code to your email.');
+    confirmPasswordReset.mockResolvedValue('Your password has been reset.');
+  });
+
+  it('should ask for the emailed code and new password after sending the code', async () => {
+    render(<ForgotPasswordForm />);
+
+    await requestCode();
+
+    expect(forgotPassword).toHaveBeenCalledWith({ email: 'student@example.com' });
+    expect(screen.getByText('We sent a reset code to your email.')).toBeInTheDocument();
+    expect(screen.getByLabelText('New Password')).toBeInTheDocument();
+  });
+
+  it('should confirm the reset and report success', async () => {
+    const onSuccess = vi.fn();
+    render(<ForgotPasswordForm onSuccess={onSuccess} />);
+    await requestCode();
+
+    fireEvent.change(screen.getByLabelText('Reset Code'), { target: { value: '123456' } });
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword1' } });
+    fireEvent.change(screen.getByLabelText('Confirm New Password'), { target: { value: 'NewPassword1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    await waitFor(() => expect(onSuccess).toHaveBeenCalledWith('Your password has been reset.'));
+    expect(confirmPasswordReset).toHaveBeenCalledWith({
+      email: 'student@example.com',
+      code: '123456',
+      newPassword: 'NewPassword1',
+    });
+  });
+
+  it('should not submit a malformed code or mismatched passwords', async () => {
+    render(<ForgotPasswordForm />);
+    await requestCode();
+
+    fireEvent.change(screen.getByLabelText('Reset Code'), { target: { value: '12ab' } });
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword1' } });
+    fireEvent.change(screen.getByLabelText('Confirm New Password'), { target: { value: 'NewPassword2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('Enter the 6-digit code from your email')).toBeInTheDocument();
+    expect(screen.getByText('Passwords do not match')).toBeInTheDocument();
+    expect(confirmPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it('should show the server error when the code is wrong', async () => {
+    confirmPasswordReset.mockRejectedValue(new Error('That code is incorrect. Check your email and try again.'));
+    render(<ForgotPasswordForm />);
+    await requestCode();
+
+    fireEvent.change(screen.getByLabelText('Reset Code'), { target: { value: '123456' } });
+    fireEvent.change(screen.getByLabelText('New Password'), { target: { value: 'NewPassword1' } });
+    fireEvent.change(screen.getByLabelText('Confirm New Password'), { target: { value: 'NewPassword1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset Password' }));
+
+    expect(await screen.findByText('That code is incorrect. Check your email and try again.')).toBeInTheDocument();
+  });
+});
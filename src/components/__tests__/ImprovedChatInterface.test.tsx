@@ -0,0 +1,79 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImprovedChatInterface } from '../chat/ImprovedChatInterface';
+import { ChatService } from '../../services/chat';
+import { RateLimitError } from '../../utils/errorHandling';
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ user: null }),
+}));
+
+const ask = (question: string) => {
+  fireEvent.change(screen.getByRole('textbox'), { target: { value: question } });
+  fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter' });
+};
+
+describe('ImprovedChatInterface', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    Element.prototype.scrollIntoView = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should count down and keep the input disabled while the server is refusing messages', async () => {
+    const sendMessage = vi.spyOn(ChatService, 'sendMessage').mockRejectedValue(new RateLimitError(
+      { action: 'sendMessage', timestamp: new Date() },
+      'You\'re sending questions faster than we can answer them. Please wait a moment.',
+      'Rate limit exceeded',
+      3
+    ));
+    render(<ImprovedChatInterface />);
+
+    ask('What is the FAFSA?');
+
+    expect(await screen.findByRole('status')).toHaveTextContent('You can ask your next one in 0:03');
+    expect(screen.getByRole('textbox')).toBeDisabled();
+
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('0:02');
+
+    await act(async () => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(screen.getByRole('textbox')).not.toBeDisabled();
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should link the hotlines when the assistant answers with a crisis referral', async () => {
+    vi.spyOn(ChatService, 'sendMessage').mockResolvedValue({
+      message: {
+        id: 'refusal-1',
+        content: 'Please reach out now: call or text 988.',
+        sender: 'ai',
+        timestamp: new Date(),
+        metadata: {
+          sources: [],
+          guardrail: {
+            action: 'blocked',
+            reason: 'crisis',
+            resources: [{ name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', url: 'https://988lifeline.org' }],
+          },
+        },
+      },
+      sources: [],
+    });
+    render(<ImprovedChatInterface />);
+
+    ask('I don\'t want to live anymore');
+
+    expect(await screen.findByRole('link', { name: /988 Suicide & Crisis Lifeline/ })).toHaveAttribute('href', 'https://988lifeline.org');
+  });
+});
@@ -0,0 +1,94 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LoginForm } from '../auth/LoginForm';
+
+const signIn = vi.fn();
+const respondToChallenge = vi.fn();
+
+vi.mock('../../hooks/useAuth', () => ({
+  useAuth: () => ({ signIn, respondToChallenge, continueAsGuest: vi.fn(), isLoading: false }),
+}));
+
+const submitCredentials = () => {
+  fireEvent.change(screen.getByLabelText('Email Address'), { target: { value: 'counselor@example.com' } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'Password123' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Sign In' }));
+};
+
+const enterCode = async (code: string) => {
+  fireEvent.change(await screen.findByLabelText('Verification Code'), { target: { value: code } });
+  fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+};
+
+describe('LoginForm challenges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should ask for the authenticator code and finish signing in', async () => {
+    signIn.mockResolvedValue({ status: 'challenge', challenge: { name: 'SOFTWARE_TOKEN_MFA', session: 'session-1' } });
+    respondToChallenge.mockResolvedValue({ status: 'signed-in' });
+    const onSuccess = vi.fn();
+    render(<LoginForm onSuccess={onSuccess} />);
+
+    submitCredentials();
+    expect(await screen.findByText('Enter the 6-digit code from your authenticator app.')).toBeInTheDocument();
+    await enterCode('123456');
+
+    await waitFor(() => expect(onSuccess).toHaveBeenCalled());
+    expect(respondToChallenge).toHaveBeenCalledWith({
+      email: 'counselor@example.com',
+      session: 'session-1',
+      challengeName: 'SOFTWARE_TOKEN_MFA',
+      code: '123456',
+    });
+  });
+
+  it('should offer text messages as a fallback when both factors are set up', async () => {
+    signIn.mockResolvedValue({
+      status: 'challenge',
+      challenge: { name: 'SELECT_MFA_TYPE', session: 'session-1', mfaTypes: ['SOFTWARE_TOKEN_MFA', 'SMS_MFA'] },
+    });
+    respondToChallenge.mockResolvedValue({
+      status: 'challenge',
+      challenge: { name: 'SMS_MFA', session: 'session-2', destination: '+*******4567' },
+    });
+    render(<LoginForm />);
+
+    submitCredentials();
+    fireEvent.click(await screen.findByRole('button', { name: 'Text me a code' }));
+
+    expect(await screen.findByText('We texted a 6-digit code to +*******4567. Enter it below.')).toBeInTheDocument();
+    expect(respondToChallenge).toHaveBeenCalledWith(expect.objectContaining({ challengeName: 'SELECT_MFA_TYPE', mfaType: 'SMS_MFA' }));
+  });
+
+  it('should walk a counselor through MFA setup and sign them in again with a code', async () => {
+    signIn
+      .mockResolvedValueOnce({
+        status: 'challenge',
+        challenge: { name: 'MFA_SETUP', session: 'access-token', secretCode: 'ABCDEFGHIJKL', otpauthUri: 'otpauth://totp/x?secret=ABCDEFGHIJKL' },
+      })
+      .mockResolvedValueOnce({ status: 'challenge', challenge: { name: 'SOFTWARE_TOKEN_MFA', session: 'session-2' } });
+    respondToChallenge.mockResolvedValue({ status: 'sign-in-again', message: 'Two-step verification is on. Sign in again with a code from your authenticator app.' });
+    render(<LoginForm />);
+
+    submitCredentials();
+    expect(await screen.findByText('ABCD EFGH IJKL')).toBeInTheDocument();
+    await enterCode('123456');
+
+    expect(await screen.findByText('Enter the 6-digit code from your authenticator app.')).toBeInTheDocument();
+    expect(screen.getByText('Two-step verification is on. Sign in again with a code from your authenticator app.')).toBeInTheDocument();
+    expect(signIn).toHaveBeenLastCalledWith({ email: 'counselor@example.com', password: 'Password123' });
+  });
+
+  it('should not submit a malformed code', async () => {
+    signIn.mockResolvedValue({ status: 'challenge', challenge: { name: 'SOFTWARE_TOKEN_MFA', session: 'session-1' } });
+    render(<LoginForm />);
+
+    submitCredentials();
+    await enterCode('12ab');
+
+    expect(await screen.findByText('Enter the 6-digit code')).toBeInTheDocument();
+    expect(respondToChallenge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { MessageBubble } from '../chat/MessageBubble';
+import { Message } from '../../types/message';
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: '3f1c9a52-7a5e-4d4e-9a43-1c2b3d4e5f60',
+  content: 'Report your AGI from Form 1040 [1]. Every contributor must consent [2].\n\n**Sources:**\n[1] Income and Tax Information - https://studentaid.gov/income\n[2] Consent - https://studentaid.gov/consent',
+  sender: 'ai',
+  timestamp: new Date('2024-01-01T10:00:00Z'),
+  metadata: {
+    sources: ['https://studentaid.gov/income', 'https://studentaid.gov/consent'],
+    citations: [
+      {
+        id: 1,
+        documentKey: 'student-finances/income_and_tax_information.json',
+        title: 'Income and Tax Information',
+        excerpt: 'Your adjusted gross income is on line 11 of IRS Form 1040.',
+        url: 'https://studentaid.gov/income',
+      },
+      {
+        id: 2,
+        documentKey: 'general/consent.json',
+        title: 'Consent',
+        excerpt: 'Each contributor must provide consent.',
+        url: 'https://studentaid.gov/consent',
+      },
+    ],
+  },
+  ...overrides,
+});
+
+describe('MessageBubble', () => {
+  it('renders inline citations as footnotes with the cited passage', () => {
+    render(<MessageBubble message={createMessage()} />);
+
+    const markers = screen.getAllByRole('link', { name: /^\[\d\]$/ });
+    expect(markers).toHaveLength(2);
+    expect(markers[0]).toHaveAttribute('href', 'https://studentaid.gov/income');
+    expect(markers[0]).toHaveAccessibleDescription(/Income and Tax Information.*line 11 of IRS Form 1040/);
+
+    const tooltips = screen.getAllByRole('tooltip', { hidden: true });
+    expect(tooltips[1]).toHaveTextContent('Each contributor must provide consent.');
+  });
+
+  it('links numbered sources by title', () => {
+    render(<MessageBubble message={createMessage()} />);
+
+    expect(screen.getByRole('link', { name: 'Consent' })).toHaveAttribute('href', 'https://studentaid.gov/consent');
+  });
+
+  it('leaves bracketed numbers as text when the message has no citations', () => {
+    render(<MessageBubble message={createMessage({ content: 'See step [1] above.', metadata: {} })} />);
+
+    expect(screen.getByText('See step [1] above.')).toBeInTheDocument();
+    expect(screen.queryByRole('tooltip', { hidden: true })).not.toBeInTheDocument();
+  });
+});
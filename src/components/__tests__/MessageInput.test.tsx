@@ -0,0 +1,69 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { MessageInput } from '../chat/MessageInput';
+
+const type = (text: string) => {
+  fireEvent.change(screen.getByRole('textbox'), { target: { value: text } });
+};
+
+const pressEnter = () => {
+  fireEvent.keyDown(screen.getByRole('textbox'), { key: 'Enter' });
+};
+
+describe('MessageInput', () => {
+  it('should send messages without personal information straight away', () => {
+    const onSendMessage = vi.fn();
+    render(<MessageInput onSendMessage={onSendMessage} />);
+
+    type('When is the FAFSA deadline for 2026-27?');
+    pressEnter();
+
+    expect(onSendMessage).toHaveBeenCalledWith('When is the FAFSA deadline for 2026-27?');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should highlight PII as the student types and hold the message until they choose', () => {
+    const onSendMessage = vi.fn();
+    render(<MessageInput onSendMessage={onSendMessage} />);
+
+    type('My SAR says SSN 123-45-6789, is that right?');
+    expect(screen.getByText('123-45-6789', { selector: 'mark' })).toHaveAttribute('title', 'Social Security Number');
+
+    pressEnter();
+
+    expect(onSendMessage).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('Your message wasn\'t sent');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Redact and send' }));
+
+    expect(onSendMessage).toHaveBeenCalledWith('My SAR says SSN [SSN_REDACTED], is that right?');
+    expect(screen.getByRole('textbox')).toHaveValue('');
+  });
+
+  it('should let the student edit the message instead, with the PII selected', () => {
+    const onSendMessage = vi.fn();
+    render(<MessageInput onSendMessage={onSendMessage} />);
+
+    type('Email me at student@example.com');
+    pressEnter();
+    fireEvent.click(screen.getByRole('button', { name: 'Edit message' }));
+
+    const textarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+    expect(onSendMessage).not.toHaveBeenCalled();
+    expect(textarea).toHaveFocus();
+    expect(textarea.value.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('student@example.com');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should undo a redaction made before sending', () => {
+    render(<MessageInput onSendMessage={vi.fn()} />);
+
+    type('My card is 4111 1111 1111 1111');
+    fireEvent.click(screen.getByRole('button', { name: 'Redact' }));
+
+    expect(screen.getByRole('textbox')).toHaveValue('My card is [CARD_REDACTED]');
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(screen.getByRole('textbox')).toHaveValue('My card is 4111 1111 1111 1111');
+  });
+});
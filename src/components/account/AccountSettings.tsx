@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { validatePassword } from '../../utils/validation';
+import { MfaSettings } from './MfaSettings';
+import { SharingSettings } from './SharingSettings';
+import '../auth/Auth.css';
+import './AccountSettings.css';
+
+interface AccountSettingsProps {
+  className?: string;
+  onAccountDeleted?: (message: string) => void;
+}
+
+const EMPTY_PASSWORDS = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+export const AccountSettings: React.FC<AccountSettingsProps> = ({
+  className = '',
+  onAccountDeleted,
+}) => {
+  const { user, changePassword, deleteAccount, hasPermission } = useAuth();
+  const [passwords, setPasswords] = useState(EMPTY_PASSWORDS);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [passwordMessage, setPasswordMessage] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setPasswords(prev => ({ ...prev, [name]: value }));
+    setPasswordMessage('');
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!passwords.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    // Validate new password
+    const passwordValidation = validatePassword(passwords.newPassword);
+    if (!passwordValidation.success) {
+      newErrors.newPassword = passwordValidation.error || 'Invalid password';
+    } else if (passwords.newPassword === passwords.currentPassword) {
+      newErrors.newPassword = 'Choose a password that is different from your current one';
+    }
+
+    // Validate password confirmation
+    if (passwords.newPassword !== passwords.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setIsChangingPassword(true);
+
+    try {
+      const message = await changePassword({
+        currentPassword: passwords.currentPassword,
+        newPassword: passwords.newPassword,
+      });
+      setPasswords(EMPTY_PASSWORDS);
+      setPasswordMessage(message);
+    } catch (error) {
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to change password' });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    setIsDeleting(true);
+    setDeleteError('');
+
+    try {
+      const message = await deleteAccount();
+      onAccountDeleted?.(message);
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete account');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className={`account-settings ${className}`}>
+      <div className="account-settings-header">
+        <h2>Account Settings</h2>
+        {user?.email && <p>Signed in as {user.email}</p>}
+      </div>
+
+      <section className="account-section" aria-labelledby="change-password-heading">
+        <h3 id="change-password-heading">Change Password</h3>
+
+        {errors.general && (
+          <div className="error-message" role="alert">
+            {errors.general}
+          </div>
+        )}
+
+        {passwordMessage && (
+          <div className="success-message" role="status">
+            {passwordMessage}
+          </div>
+        )}
+
+        <form onSubmit={handleChangePassword} noValidate>
+          <div className={`form-group ${errors.currentPassword ? 'has-error' : ''}`}>
+            <label htmlFor="account-current-password">Current Password</label>
+            <input
+              type="password"
+              id="account-current-password"
+              name="currentPassword"
+              value={passwords.currentPassword}
+              onChange={handleInputChange}
+              disabled={isChangingPassword}
+              aria-describedby={errors.currentPassword ? 'account-current-password-error' : undefined}
+              aria-invalid={!!errors.currentPassword}
+              autoComplete="current-password"
+              required
+            />
+            {errors.currentPassword && (
+              <div id="account-current-password-error" className="field-error" role="alert">
+                {errors.currentPassword}
+              </div>
+            )}
+          </div>
+
+          <div className={`form-group ${errors.newPassword ? 'has-error' : ''}`}>
+            <label htmlFor="account-new-password">New Password</label>
+            <input
+              type="password"
+              id="account-new-password"
+              name="newPassword"
+              value={passwords.newPassword}
+              onChange={handleInputChange}
+              disabled={isChangingPassword}
+              aria-describedby={errors.newPassword ? 'account-new-password-error' : 'account-new-password-help'}
+              aria-invalid={!!errors.newPassword}
+              autoComplete="new-password"
+              required
+            />
+            <div id="account-new-password-help" className="field-help">
+              Must be at least 8 characters with uppercase, lowercase, and numbers
+            </div>
+            {errors.newPassword && (
+              <div id="account-new-password-error" className="field-error" role="alert">
+                {errors.newPassword}
+              </div>
+            )}
+          </div>
+
+          <div className={`form-group ${errors.confirmPassword ? 'has-error' : ''}`}>
+            <label htmlFor="account-confirm-password">Confirm New Password</label>
+            <input
+              type="password"
+              id="account-confirm-password"
+              name="confirmPassword"
+              value={passwords.confirmPassword}
+              onChange={handleInputChange}
+              disabled={isChangingPassword}
+              aria-describedby={errors.confirmPassword ? 'account-confirm-password-error' : undefined}
+              aria-invalid={!!errors.confirmPassword}
+              autoComplete="new-password"
+              required
+            />
+            {errors.confirmPassword && (
+              <div id="account-confirm-password-error" className="field-error" role="alert">
+                {errors.confirmPassword}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isChangingPassword}
+            className="primary-button"
+          >
+            {isChangingPassword ? 'Changing Password...' : 'Change Password'}
+          </button>
+        </form>
+      </section>
+
+      <MfaSettings />
+
+      {hasPermission('links:manage') && <SharingSettings />}
+
+      <section className="account-section danger-zone" aria-labelledby="delete-account-heading">
+        <h3 id="delete-account-heading">Delete Account</h3>
+        <p>
+          This permanently deletes your account, your saved conversations and your FAFSA progress,
+          and unlinks any students, parents or counselors. It can't be undone.
+        </p>
+
+        {deleteError && (
+          <div className="error-message" role="alert">
+            {deleteError}
+          </div>
+        )}
+
+        {confirmingDelete ? (
+          <div className="danger-actions">
+            <button
+              type="button"
+              onClick={handleDeleteAccount}
+              disabled={isDeleting}
+              className="danger-button"
+            >
+              {isDeleting ? 'Deleting Account...' : 'Yes, delete my account'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmingDelete(false)}
+              disabled={isDeleting}
+              className="secondary-button"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirmingDelete(true)}
+            className="danger-button"
+          >
+            Delete Account
+          </button>
+        )}
+      </section>
+    </div>
+  );
+};
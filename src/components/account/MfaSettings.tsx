@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { MfaStatus } from '../../types';
+import { TotpSetupInstructions } from '../auth/TotpSetupInstructions';
+
+type SetupStep =
+  | { kind: 'none' }
+  | { kind: 'totp'; secretCode: string; otpauthUri: string }
+  | { kind: 'sms-number' }
+  | { kind: 'sms-code' };
+
+// Authenticator app and text message codes as second factors; text messages back up the app
+export const MfaSettings: React.FC = () => {
+  const { getMfaStatus, setupTotp, verifyTotp, setupSms, verifySms } = useAuth();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [step, setStep] = useState<SetupStep>({ kind: 'none' });
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getMfaStatus()
+      .then(mfa => {
+        if (!cancelled) setStatus(mfa);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load two-step verification settings');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getMfaStatus]);
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const finishSetup = (result: { message: string; mfa: MfaStatus }) => {
+    setStatus(result.mfa);
+    setMessage(result.message);
+    setStep({ kind: 'none' });
+    setCode('');
+  };
+
+  const handleStartTotp = () => run(async () => {
+    const { secretCode, otpauthUri } = await setupTotp();
+    setStep({ kind: 'totp', secretCode, otpauthUri });
+  }, 'Failed to start authenticator app setup');
+
+  const handleSendSmsCode = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\+[1-9]\d{6,14}$/.test(phoneNumber.trim())) {
+      setError('Enter a mobile number including the country code, like +15551234567');
+      return;
+    }
+
+    return run(async () => {
+      setMessage(await setupSms({ phoneNumber: phoneNumber.trim() }));
+      setStep({ kind: 'sms-code' });
+    }, 'Failed to send a code to that number');
+  };
+
+  const handleVerifyCode = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError('Enter the 6-digit code');
+      return;
+    }
+
+    return run(async () => {
+      finishSetup(step.kind === 'totp' ? await verifyTotp(code.trim()) : await verifySms(code.trim()));
+    }, 'Failed to turn on two-step verification');
+  };
+
+  const handleCancel = () => {
+    setStep({ kind: 'none' });
+    setCode('');
+    setError('');
+    setMessage('');
+  };
+
+  const renderCodeForm = (label: string) => (
+    <form onSubmit={handleVerifyCode} noValidate>
+      <div className="form-group">
+        <label htmlFor="mfa-code">{label}</label>
+        <input
+          type="text"
+          id="mfa-code"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          disabled={isLoading}
+          placeholder="123456"
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          maxLength={6}
+          required
+        />
+      </div>
+      <div className="danger-actions">
+        <button type="submit" disabled={isLoading} className="primary-button">
+          {isLoading ? 'Checking...' : 'Turn On'}
+        </button>
+        <button type="button" onClick={handleCancel} disabled={isLoading} className="secondary-button">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderStep = () => {
+    switch (step.kind) {
+      case 'totp':
+        return (
+          <>
+            <TotpSetupInstructions secretCode={step.secretCode} otpauthUri={step.otpauthUri} />
+            {renderCodeForm('Code from your authenticator app')}
+          </>
+        );
+      case 'sms-number':
+        return (
+          <form onSubmit={handleSendSmsCode} noValidate>
+            <div className="form-group">
+              <label htmlFor="mfa-phone">Mobile Number</label>
+              <input
+                type="tel"
+                id="mfa-phone"
+                value={phoneNumber}
+                onChange={e => setPhoneNumber(e.target.value)}
+                disabled={isLoading}
+                placeholder="+15551234567"
+                aria-describedby="mfa-phone-help"
+                autoComplete="tel"
+                required
+              />
+              <div id="mfa-phone-help" className="field-help">
+                Include the country code. Standard message rates may apply.
+              </div>
+            </div>
+            <div className="danger-actions">
+              <button type="submit" disabled={isLoading} className="primary-button">
+                {isLoading ? 'Sending...' : 'Send Code'}
+              </button>
+              <button type="button" onClick={handleCancel} disabled={isLoading} className="secondary-button">
+                Cancel
+              </button>
+            </div>
+          </form>
+        );
+      case 'sms-code':
+        return renderCodeForm('Code from the text message');
+      case 'none':
+        return status && (
+          <div className="danger-actions">
+            {!status.totp && (
+              <button type="button" onClick={handleStartTotp} disabled={isLoading} className="primary-button">
+                Set Up Authenticator App
+              </button>
+            )}
+            {!status.sms && (
+              <button
+                type="button"
+                onClick={() => setStep({ kind: 'sms-number' })}
+                disabled={isLoading}
+                className="secondary-button"
+              >
+                {status.totp ? 'Add Text Message Backup' : 'Set Up Text Messages'}
+              </button>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <section className="account-section" aria-labelledby="mfa-heading">
+      <h3 id="mfa-heading">Two-Step Verification</h3>
+      <p className="account-section-intro">
+        Ask for a code from your phone as well as your password when you sign in.
+      </p>
+
+      {status?.required && !status.totp && !status.sms && (
+        <div className="error-message" role="alert">
+          Counselor accounts must use two-step verification.
+        </div>
+      )}
+
+      {error && (
+        <div className="error-message" role="alert">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="success-message" role="status">
+          {message}
+        </div>
+      )}
+
+      {status && (
+        <ul className="mfa-factors">
+          <li>Authenticator app: <strong>{status.totp ? 'On' : 'Off'}</strong></li>
+          <li>
+            Text messages: <strong>{status.sms ? 'On' : 'Off'}</strong>
+            {status.sms && status.phoneNumber && ` (${status.phoneNumber})`}
+          </li>
+        </ul>
+      )}
+
+      {renderStep()}
+    </section>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { LinksService } from '../../services/links';
+import { LinkShare, StudentLink } from '../../types';
+
+const SHARE_LABELS: Record<LinkShare, string> = {
+  progress: 'My progress through the FAFSA sections',
+  checklist: 'My completed checklist items',
+};
+
+const VIEWER_LABELS: Record<StudentLink['viewerRole'], string> = {
+  parent: 'Parent',
+  counselor: 'Counselor',
+};
+
+// Students link a parent or counselor with the code they were given and choose what each one sees
+export const SharingSettings: React.FC = () => {
+  const [links, setLinks] = useState<StudentLink[]>([]);
+  const [code, setCode] = useState('');
+  const [shares, setShares] = useState<LinkShare[]>(['progress']);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    LinksService.getLinks()
+      .then(result => {
+        if (!cancelled) setLinks(result.links);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load linked accounts');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggle = (current: LinkShare[], share: LinkShare): LinkShare[] =>
+    current.includes(share) ? current.filter(value => value !== share) : [...current, share];
+
+  const handleLink = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^[A-Za-z0-9]{8}$/.test(code.trim())) {
+      setError('Enter the 8-character code from your parent or counselor');
+      return;
+    }
+    if (shares.length === 0) {
+      setError('Choose at least one thing to share');
+      return;
+    }
+
+    return run(async () => {
+      const link = await LinksService.createLink(code.trim().toUpperCase(), shares);
+      setLinks(prev => [...prev.filter(existing => existing.viewerId !== link.viewerId), link]);
+      setCode('');
+      setMessage(`Linked to ${link.viewerEmail ?? 'your ' + VIEWER_LABELS[link.viewerRole].toLowerCase()}`);
+    }, 'Failed to link accounts');
+  };
+
+  const handleToggleShare = (link: StudentLink, share: LinkShare) => {
+    const next = toggle(link.shares, share);
+    if (next.length === 0) {
+      setError('Share at least one thing, or unlink instead');
+      return;
+    }
+
+    return run(async () => {
+      const updated = await LinksService.updateShares(link.viewerId, next);
+      setLinks(prev => prev.map(existing => existing.viewerId === updated.viewerId ? updated : existing));
+    }, 'Failed to update what you share');
+  };
+
+  const handleUnlink = (link: StudentLink) => run(async () => {
+    setMessage(await LinksService.removeLink(link.viewerId));
+    setLinks(prev => prev.filter(existing => existing.viewerId !== link.viewerId));
+  }, 'Failed to unlink accounts');
+
+  return (
+    <section className="account-section" aria-labelledby="sharing-heading">
+      <h3 id="sharing-heading">Parents and Counselors</h3>
+      <p className="account-section-intro">
+        Link a parent or counselor so they can follow along. They only see what you share, and you can
+        unlink at any time. Counselors always see your progress.
+      </p>
+
+      {error && (
+        <div className="error-message" role="alert">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="success-message" role="status">
+          {message}
+        </div>
+      )}
+
+      {links.length > 0 && (
+        <ul className="linked-accounts">
+          {links.map(link => (
+            <li key={link.viewerId}>
+              <div className="linked-account-name">
+                <strong>{link.viewerEmail ?? VIEWER_LABELS[link.viewerRole]}</strong>
+                <span className="linked-account-role">{VIEWER_LABELS[link.viewerRole]}</span>
+              </div>
+              {(Object.keys(SHARE_LABELS) as LinkShare[]).map(share => (
+                <label key={share} className="share-option">
+                  <input
+                    type="checkbox"
+                    checked={link.shares.includes(share)}
+                    onChange={() => handleToggleShare(link, share)}
+                    disabled={isLoading || (share === 'progress' && link.viewerRole === 'counselor')}
+                  />
+                  {SHARE_LABELS[share]}
+                </label>
+              ))}
+              <button type="button" onClick={() => handleUnlink(link)} disabled={isLoading} className="secondary-button">
+                Unlink
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleLink} noValidate>
+        <div className="form-group">
+          <label htmlFor="link-code">Link Code</label>
+          <input
+            type="text"
+            id="link-code"
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            disabled={isLoading}
+            placeholder="ABCD2345"
+            aria-describedby="link-code-help"
+            autoComplete="off"
+            maxLength={8}
+            required
+          />
+          <div id="link-code-help" className="field-help">
+            Your parent or counselor finds their code on their Students page.
+          </div>
+        </div>
+
+        <fieldset className="form-group share-options">
+          <legend>Share</legend>
+          {(Object.keys(SHARE_LABELS) as LinkShare[]).map(share => (
+            <label key={share} className="share-option">
+              <input
+                type="checkbox"
+                checked={shares.includes(share)}
+                onChange={() => setShares(prev => toggle(prev, share))}
+                disabled={isLoading}
+              />
+              {SHARE_LABELS[share]}
+            </label>
+          ))}
+        </fieldset>
+
+        <button type="submit" disabled={isLoading} className="primary-button">
+          {isLoading ? 'Linking...' : 'Link Account'}
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AdminService } from '../../services/admin';
+import { FAFSAErrorTypeSchema, ErrorSeveritySchema } from '../../types/errors';
+import { KnowledgeDocumentSummary, ManagedErrorPattern, Role } from '../../types';
+import '../auth/Auth.css';
+import '../account/AccountSettings.css';
+import './AdminPanel.css';
+
+interface AdminPanelProps {
+  className?: string;
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  student: 'Student',
+  parent: 'Parent',
+  counselor: 'Counselor',
+  admin: 'Admin',
+};
+
+const EMPTY_DOCUMENT = { title: '', section: '', sourceUrl: '', content: '' };
+
+const EMPTY_PATTERN = {
+  id: '',
+  name: '',
+  errorType: FAFSAErrorTypeSchema.options[0] as string,
+  severity: 'warning' as string,
+  section: '',
+  description: '',
+  patterns: '',
+  solution: '',
+};
+
+// Loading flag, error and success message shared by every section's actions
+const useAction = () => {
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = useCallback(async (action: () => Promise<string | void>, fallbackError: string) => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const notices = (
+    <>
+      {error && (
+        <div className="error-message" role="alert">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="success-message" role="status">
+          {message}
+        </div>
+      )}
+    </>
+  );
+
+  return { run, isLoading, notices };
+};
+
+const RoleSection: React.FC = () => {
+  const { run, isLoading, notices } = useAction();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('counselor');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const message = await AdminService.setUserRole(email.trim(), role);
+      setEmail('');
+      return message;
+    }, 'Failed to update role');
+  };
+
+  return (
+    <section className="account-section" aria-labelledby="admin-roles-heading">
+      <h3 id="admin-roles-heading">Roles</h3>
+      <p className="account-section-intro">
+        Parents choose their role when they sign up. Give counselors and admins theirs here.
+      </p>
+      {notices}
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="form-group">
+          <label htmlFor="admin-role-email">Email Address</label>
+          <input
+            type="email"
+            id="admin-role-email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            disabled={isLoading}
+            autoComplete="off"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-role">Role</label>
+          <select id="admin-role" value={role} onChange={e => setRole(e.target.value as Role)} disabled={isLoading}>
+            {(Object.keys(ROLE_LABELS) as Role[]).map(value => (
+              <option key={value} value={value}>{ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" disabled={isLoading || !email.trim()} className="primary-button">
+          Update Role
+        </button>
+      </form>
+    </section>
+  );
+};
+
+const KnowledgeSection: React.FC = () => {
+  const { run, isLoading, notices } = useAction();
+  const [documents, setDocuments] = useState<KnowledgeDocumentSummary[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DOCUMENT);
+
+  const refresh = useCallback(async () => {
+    setDocuments(await AdminService.listKnowledgeDocuments());
+  }, []);
+
+  useEffect(() => {
+    run(refresh, 'Failed to load knowledge documents');
+  }, [run, refresh]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const message = await AdminService.saveKnowledgeDocument(draft);
+      setDraft(EMPTY_DOCUMENT);
+      await refresh();
+      return message;
+    }, 'Failed to save knowledge document');
+  };
+
+  const handleDelete = (key: string) => run(async () => {
+    const message = await AdminService.deleteKnowledgeDocument(key);
+    await refresh();
+    return message;
+  }, 'Failed to remove knowledge document');
+
+  return (
+    <section className="account-section" aria-labelledby="admin-knowledge-heading">
+      <h3 id="admin-knowledge-heading">Knowledge Documents</h3>
+      <p className="account-section-intro">
+        Answers are grounded in these documents. Saving a document with the same section and title
+        replaces it.
+      </p>
+      {notices}
+      {documents.length > 0 && (
+        <ul className="linked-accounts">
+          {documents.map(document => (
+            <li key={document.key}>
+              <div className="linked-account-name">
+                <strong>{document.title}</strong>
+                <span className="linked-account-role">{document.section}</span>
+              </div>
+              <button type="button" onClick={() => handleDelete(document.key)} disabled={isLoading} className="secondary-button">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="form-group">
+          <label htmlFor="admin-document-title">Title</label>
+          <input id="admin-document-title" name="title" value={draft.title} onChange={handleChange} disabled={isLoading} required />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-document-section">Section</label>
+          <input
+            id="admin-document-section"
+            name="section"
+            value={draft.section}
+            onChange={handleChange}
+            disabled={isLoading}
+            placeholder="student-finances"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-document-source">Source URL</label>
+          <input
+            type="url"
+            id="admin-document-source"
+            name="sourceUrl"
+            value={draft.sourceUrl}
+            onChange={handleChange}
+            disabled={isLoading}
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-document-content">Content</label>
+          <textarea
+            id="admin-document-content"
+            name="content"
+            value={draft.content}
+            onChange={handleChange}
+            disabled={isLoading}
+            rows={8}
+            required
+          />
+        </div>
+        <button type="submit" disabled={isLoading} className="primary-button">
+          Save Document
+        </button>
+      </form>
+    </section>
+  );
+};
+
+const ErrorPatternSection: React.FC = () => {
+  const { run, isLoading, notices } = useAction();
+  const [patterns, setPatterns] = useState<ManagedErrorPattern[]>([]);
+  const [draft, setDraft] = useState(EMPTY_PATTERN);
+
+  useEffect(() => {
+    run(async () => {
+      setPatterns(await AdminService.listErrorPatterns());
+    }, 'Failed to load error patterns');
+  }, [run]);
+
+  const replace = (saved: ManagedErrorPattern) =>
+    setPatterns(prev => [...prev.filter(existing => existing.id !== saved.id), saved].sort((a, b) => a.id.localeCompare(b.id)));
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setDraft(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { id, patterns: patternLines, ...fields } = draft;
+
+    return run(async () => {
+      replace(await AdminService.saveErrorPattern(id.trim(), {
+        ...fields,
+        errorType: FAFSAErrorTypeSchema.parse(fields.errorType),
+        severity: ErrorSeveritySchema.parse(fields.severity),
+        patterns: patternLines.split('\n').map(line => line.trim()).filter(Boolean),
+      }));
+      setDraft(EMPTY_PATTERN);
+      return 'Error pattern saved';
+    }, 'Failed to save error pattern');
+  };
+
+  const handleToggle = (pattern: ManagedErrorPattern) => run(async () => {
+    const { id, updatedAt, updatedBy, ...fields } = pattern;
+    replace(await AdminService.saveErrorPattern(id, { ...fields, enabled: !pattern.enabled }));
+  }, 'Failed to save error pattern');
+
+  const handleDelete = (id: string) => run(async () => {
+    await AdminService.deleteErrorPattern(id);
+    setPatterns(prev => prev.filter(pattern => pattern.id !== id));
+    return 'Error pattern removed';
+  }, 'Failed to remove error pattern');
+
+  return (
+    <section className="account-section" aria-labelledby="admin-patterns-heading">
+      <h3 id="admin-patterns-heading">Error Patterns</h3>
+      <p className="account-section-intro">
+        Patterns here are checked against students' messages. Using the id of a built-in pattern
+        replaces it, and disabling it turns the built-in pattern off.
+      </p>
+      {notices}
+      {patterns.length > 0 && (
+        <ul className="linked-accounts">
+          {patterns.map(pattern => (
+            <li key={pattern.id}>
+              <div className="linked-account-name">
+                <strong>{pattern.name}</strong>
+                <span className="linked-account-role">{pattern.id} · {pattern.severity}</span>
+              </div>
+              <div className="danger-actions">
+                <button type="button" onClick={() => handleToggle(pattern)} disabled={isLoading} className="secondary-button">
+                  {pattern.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button type="button" onClick={() => handleDelete(pattern.id)} disabled={isLoading} className="secondary-button">
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} noValidate>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-id">Pattern ID</label>
+          <input id="admin-pattern-id" name="id" value={draft.id} onChange={handleChange} disabled={isLoading} required />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-name">Name</label>
+          <input id="admin-pattern-name" name="name" value={draft.name} onChange={handleChange} disabled={isLoading} required />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-type">Error Type</label>
+          <select id="admin-pattern-type" name="errorType" value={draft.errorType} onChange={handleChange} disabled={isLoading}>
+            {FAFSAErrorTypeSchema.options.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-severity">Severity</label>
+          <select id="admin-pattern-severity" name="severity" value={draft.severity} onChange={handleChange} disabled={isLoading}>
+            {ErrorSeveritySchema.options.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-section">Section</label>
+          <input id="admin-pattern-section" name="section" value={draft.section} onChange={handleChange} disabled={isLoading} required />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-description">Description</label>
+          <textarea id="admin-pattern-description" name="description" value={draft.description} onChange={handleChange} disabled={isLoading} rows={3} required />
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-patterns">Patterns</label>
+          <textarea
+            id="admin-pattern-patterns"
+            name="patterns"
+            value={draft.patterns}
+            onChange={handleChange}
+            disabled={isLoading}
+            rows={4}
+            aria-describedby="admin-pattern-patterns-help"
+            required
+          />
+          <div id="admin-pattern-patterns-help" className="field-help">
+            One regular expression or keyword per line
+          </div>
+        </div>
+        <div className="form-group">
+          <label htmlFor="admin-pattern-solution">Solution</label>
+          <textarea id="admin-pattern-solution" name="solution" value={draft.solution} onChange={handleChange} disabled={isLoading} rows={3} required />
+        </div>
+        <button type="submit" disabled={isLoading} className="primary-button">
+          Save Pattern
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export const AdminPanel: React.FC<AdminPanelProps> = ({ className = '' }) => (
+  <div className={`account-settings admin-panel ${className}`}>
+    <div className="account-settings-header">
+      <h2>Admin</h2>
+      <p>Changes here apply to everyone using EducateFirstAI.</p>
+    </div>
+    <RoleSection />
+    <KnowledgeSection />
+    <ErrorPatternSection />
+  </div>
+);
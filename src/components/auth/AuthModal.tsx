@@ -2,9 +2,10 @@ import React, { useState } from 'react';
 import { LoginForm } from './LoginForm';
 import { SignUpForm } from './SignUpForm';
 import { ForgotPasswordForm } from './ForgotPasswordForm';
+import { VerifyEmailForm } from './VerifyEmailForm';
 import './Auth.css';
 
-type AuthMode = 'login' | 'signup' | 'forgot-password' | 'success';
+type AuthMode = 'login' | 'signup' | 'verify-email' | 'forgot-password' | 'success';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -19,6 +20,8 @@ export const AuthModal: React.FC<AuthModalProps> = ({
 }) => {
   const [mode, setMode] = useState<AuthMode>(initialMode);
   const [successMessage, setSuccessMessage] = useState('');
+  // The email waiting for its verification code
+  const [pendingEmail, setPendingEmail] = useState('');
 
   if (!isOpen) return null;
 
@@ -35,6 +38,11 @@ export const AuthModal: React.FC<AuthModalProps> = ({
     onClose();
   };
 
+  const handleVerificationNeeded = (email: string) => {
+    setPendingEmail(email);
+    setMode('verify-email');
+  };
+
   const renderContent = () => {
     switch (mode) {
       case 'login':
@@ -44,6 +52,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({
             onSwitchToSignUp={() => setMode('signup')}
             onSwitchToForgotPassword={() => setMode('forgot-password')}
             onContinueAsGuest={handleGuestMode}
+            onVerifyEmail={handleVerificationNeeded}
           />
         );
       
@@ -51,6 +60,16 @@ export const AuthModal: React.FC<AuthModalProps> = ({
         return (
           <SignUpForm
             onSuccess={() => handleSuccess()}
+            onVerifyEmail={handleVerificationNeeded}
+            onSwitchToLogin={() => setMode('login')}
+          />
+        );
+
+      case 'verify-email':
+        return (
+          <VerifyEmailForm
+            email={pendingEmail}
+            onSuccess={(message) => handleSuccess(message)}
             onSwitchToLogin={() => setMode('login')}
           />
         );
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../hooks/useAuth';
-import { validateEmail } from '../../utils/validation';
+import { validateEmail, validatePassword } from '../../utils/validation';
 
 interface ForgotPasswordFormProps {
   onSuccess?: (message: string) => void;
@@ -11,8 +11,16 @@ export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({
   onSuccess,
   onSwitchToLogin,
 }) => {
-  const { forgotPassword } = useAuth();
+  const { forgotPassword, confirmPasswordReset } = useAuth();
   const [email, setEmail] = useState('');
+  // Once the code is sent, the form asks for it along with the new password
+  const [codeSent, setCodeSent] = useState(false);
+  const [resetData, setResetData] = useState({
+    code: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [notice, setNotice] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
 
@@ -25,6 +33,16 @@ export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({
     }
   };
 
+  const handleResetInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setResetData(prev => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -46,8 +64,8 @@ export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({
     setIsLoading(true);
     
     try {
-      const message = await forgotPassword({ email });
-      onSuccess?.(message);
+      setNotice(await forgotPassword({ email }));
+      setCodeSent(true);
     } catch (error) {
       setErrors({ general: error instanceof Error ? error.message : 'Failed to process request' });
     } finally {
@@ -55,6 +73,157 @@ export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({
     }
   };
 
+  const validateResetForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    // Validate code
+    if (!/^\d{6}$/.test(resetData.code.trim())) {
+      newErrors.code = 'Enter the 6-digit code from your email';
+    }
+
+    // Validate new password
+    const passwordValidation = validatePassword(resetData.newPassword);
+    if (!passwordValidation.success) {
+      newErrors.newPassword = passwordValidation.error || 'Invalid password';
+    }
+
+    // Validate password confirmation
+    if (resetData.newPassword !== resetData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateResetForm()) return;
+
+    setIsLoading(true);
+
+    try {
+      const message = await confirmPasswordReset({
+        email,
+        code: resetData.code.trim(),
+        newPassword: resetData.newPassword,
+      });
+      onSuccess?.(message);
+    } catch (error) {
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to reset password' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (codeSent) {
+    return (
+      <div className={`auth-form ${isLoading ? 'loading' : ''}`}>
+        <h2>Choose a New Password</h2>
+        <p>{notice || `Enter the code we sent to ${email} and choose a new password.`}</p>
+
+        {errors.general && (
+          <div className="error-message" role="alert">
+            {errors.general}
+          </div>
+        )}
+
+        <form onSubmit={handleResetSubmit} noValidate>
+          <div className={`form-group ${errors.code ? 'has-error' : ''}`}>
+            <label htmlFor="reset-code">Reset Code</label>
+            <input
+              type="text"
+              id="reset-code"
+              name="code"
+              value={resetData.code}
+              onChange={handleResetInputChange}
+              disabled={isLoading}
+              placeholder="123456"
+              aria-describedby={errors.code ? 'reset-code-error' : undefined}
+              aria-invalid={!!errors.code}
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              maxLength={6}
+              required
+            />
+            {errors.code && (
+              <div id="reset-code-error" className="field-error" role="alert">
+                {errors.code}
+              </div>
+            )}
+          </div>
+
+          <div className={`form-group ${errors.newPassword ? 'has-error' : ''}`}>
+            <label htmlFor="reset-new-password">New Password</label>
+            <input
+              type="password"
+              id="reset-new-password"
+              name="newPassword"
+              value={resetData.newPassword}
+              onChange={handleResetInputChange}
+              disabled={isLoading}
+              placeholder="Create a strong password"
+              aria-describedby={errors.newPassword ? 'reset-new-password-error' : 'reset-new-password-help'}
+              aria-invalid={!!errors.newPassword}
+              autoComplete="new-password"
+              required
+            />
+            <div id="reset-new-password-help" className="field-help">
+              Must be at least 8 characters with uppercase, lowercase, and numbers
+            </div>
+            {errors.newPassword && (
+              <div id="reset-new-password-error" className="field-error" role="alert">
+                {errors.newPassword}
+              </div>
+            )}
+          </div>
+
+          <div className={`form-group ${errors.confirmPassword ? 'has-error' : ''}`}>
+            <label htmlFor="reset-confirm-password">Confirm New Password</label>
+            <input
+              type="password"
+              id="reset-confirm-password"
+              name="confirmPassword"
+              value={resetData.confirmPassword}
+              onChange={handleResetInputChange}
+              disabled={isLoading}
+              placeholder="Confirm your new password"
+              aria-describedby={errors.confirmPassword ? 'reset-confirm-password-error' : undefined}
+              aria-invalid={!!errors.confirmPassword}
+              autoComplete="new-password"
+              required
+            />
+            {errors.confirmPassword && (
+              <div id="reset-confirm-password-error" className="field-error" role="alert">
+                {errors.confirmPassword}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="primary-button"
+          >
+            {isLoading ? 'Resetting Password...' : 'Reset Password'}
+          </button>
+        </form>
+
+        <div className="auth-links">
+          <button
+            type="button"
+            onClick={() => setCodeSent(false)}
+            className="link-button"
+            disabled={isLoading}
+          >
+            Didn't get a code? Send it again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`auth-form ${isLoading ? 'loading' : ''}`}>
       <h2>Reset Your Password</h2>
@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
-import { useAuth } from '../../hooks/useAuth';
+import { useAuth, SignInOutcome } from '../../hooks/useAuth';
+import { UnverifiedEmailError } from '../../services/auth';
+import { AuthChallenge } from '../../types';
 import { validateEmail } from '../../utils/validation';
+import { SignInChallengeForm } from './SignInChallengeForm';
 
 interface LoginFormProps {
   onSuccess?: () => void;
   onSwitchToSignUp?: () => void;
   onSwitchToForgotPassword?: () => void;
   onContinueAsGuest?: () => void;
+  onVerifyEmail?: (email: string) => void;
 }
 
 export const LoginForm: React.FC<LoginFormProps> = ({
@@ -14,6 +18,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({
   onSwitchToSignUp,
   onSwitchToForgotPassword,
   onContinueAsGuest,
+  onVerifyEmail,
 }) => {
   const { signIn, continueAsGuest, isLoading } = useAuth();
   const [formData, setFormData] = useState({
@@ -21,6 +26,9 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     password: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set while the sign-in waits on an MFA code, MFA setup or a new password
+  const [challenge, setChallenge] = useState<AuthChallenge | null>(null);
+  const [challengeNotice, setChallengeNotice] = useState('');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -56,13 +64,45 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     if (!validateForm()) return;
 
     try {
-      await signIn(formData);
-      onSuccess?.();
+      setChallengeNotice('');
+      await handleOutcome(await signIn(formData));
     } catch (error) {
+      if (error instanceof UnverifiedEmailError && onVerifyEmail) {
+        onVerifyEmail(error.email);
+        return;
+      }
       setErrors({ general: error instanceof Error ? error.message : 'Failed to sign in' });
     }
   };
 
+  const handleOutcome = async (outcome: SignInOutcome): Promise<void> => {
+    switch (outcome.status) {
+      case 'signed-in':
+        setChallenge(null);
+        onSuccess?.();
+        return;
+      case 'challenge':
+        setChallenge(outcome.challenge);
+        return;
+      case 'sign-in-again':
+        // MFA is on now, so signing in again leads straight to the code prompt
+        setChallengeNotice(outcome.message);
+        try {
+          await handleOutcome(await signIn(formData));
+        } catch (error) {
+          setChallenge(null);
+          setErrors({ general: error instanceof Error ? error.message : 'Failed to sign in' });
+        }
+        return;
+    }
+  };
+
+  const handleCancelChallenge = () => {
+    setChallenge(null);
+    setChallengeNotice('');
+    setFormData(prev => ({ ...prev, password: '' }));
+  };
+
   const handleGuestMode = async () => {
     try {
       await continueAsGuest();
@@ -72,6 +112,20 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     }
   };
 
+  if (challenge) {
+    return (
+      <SignInChallengeForm
+        // A fresh form for each challenge, so codes don't carry over
+        key={challenge.session}
+        email={formData.email}
+        challenge={challenge}
+        notice={challengeNotice}
+        onOutcome={handleOutcome}
+        onCancel={handleCancelChallenge}
+      />
+    );
+  }
+
   return (
     <div className={`auth-form ${isLoading ? 'loading' : ''}`}>
       <h2>Welcome Back</h2>
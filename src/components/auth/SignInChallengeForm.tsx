@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { useAuth, SignInOutcome } from '../../hooks/useAuth';
+import { AuthChallenge, AuthRespondToChallengeRequest, MfaType } from '../../types';
+import { validatePassword } from '../../utils/validation';
+import { TotpSetupInstructions } from './TotpSetupInstructions';
+
+interface SignInChallengeFormProps {
+  email: string;
+  challenge: AuthChallenge;
+  notice?: string;
+  onOutcome: (outcome: SignInOutcome) => void;
+  onCancel?: () => void;
+}
+
+const HEADINGS: Record<AuthChallenge['name'], string> = {
+  SOFTWARE_TOKEN_MFA: 'Two-Step Verification',
+  SMS_MFA: 'Two-Step Verification',
+  SELECT_MFA_TYPE: 'Two-Step Verification',
+  MFA_SETUP: 'Set Up Two-Step Verification',
+  NEW_PASSWORD_REQUIRED: 'Choose a New Password',
+};
+
+const MFA_TYPE_LABELS: Record<MfaType, string> = {
+  SOFTWARE_TOKEN_MFA: 'Use my authenticator app',
+  SMS_MFA: 'Text me a code',
+};
+
+// The step after the password when an account has MFA, has to set it up, or must choose a new password
+export const SignInChallengeForm: React.FC<SignInChallengeFormProps> = ({
+  email,
+  challenge,
+  notice,
+  onOutcome,
+  onCancel,
+}) => {
+  const { respondToChallenge } = useAuth();
+  const [formData, setFormData] = useState({
+    code: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (challenge.name === 'NEW_PASSWORD_REQUIRED') {
+      const passwordValidation = validatePassword(formData.newPassword);
+      if (!passwordValidation.success) {
+        newErrors.newPassword = passwordValidation.error || 'Invalid password';
+      }
+
+      if (formData.newPassword !== formData.confirmPassword) {
+        newErrors.confirmPassword = 'Passwords do not match';
+      }
+    } else if (!/^\d{6}$/.test(formData.code.trim())) {
+      newErrors.code = 'Enter the 6-digit code';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const respond = async (answer: { code: string } | { newPassword: string } | { mfaType: MfaType }) => {
+    setIsLoading(true);
+
+    try {
+      // Each challenge name takes its own answer field; the form only offers the matching one
+      const outcome = await respondToChallenge({
+        email,
+        session: challenge.session,
+        challengeName: challenge.name,
+        ...answer,
+      } as AuthRespondToChallengeRequest);
+      onOutcome(outcome);
+    } catch (error) {
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to sign in' });
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    await respond(challenge.name === 'NEW_PASSWORD_REQUIRED'
+      ? { newPassword: formData.newPassword }
+      : { code: formData.code.trim() });
+  };
+
+  const renderIntro = () => {
+    switch (challenge.name) {
+      case 'SOFTWARE_TOKEN_MFA':
+        return <p>Enter the 6-digit code from your authenticator app.</p>;
+      case 'SMS_MFA':
+        return <p>We texted a 6-digit code to {challenge.destination || 'your phone'}. Enter it below.</p>;
+      case 'SELECT_MFA_TYPE':
+        return <p>How do you want to get your sign-in code?</p>;
+      case 'MFA_SETUP':
+        return <p>Counselor accounts need a second step at sign-in to keep student information safe.</p>;
+      case 'NEW_PASSWORD_REQUIRED':
+        return <p>Your account was set up with a temporary password. Choose your own to finish signing in.</p>;
+    }
+  };
+
+  const renderFields = () => {
+    if (challenge.name === 'NEW_PASSWORD_REQUIRED') {
+      return (
+        <>
+          <div className={`form-group ${errors.newPassword ? 'has-error' : ''}`}>
+            <label htmlFor="challenge-new-password">New Password</label>
+            <input
+              type="password"
+              id="challenge-new-password"
+              name="newPassword"
+              value={formData.newPassword}
+              onChange={handleInputChange}
+              disabled={isLoading}
+              aria-describedby={errors.newPassword ? 'challenge-new-password-error' : 'challenge-new-password-help'}
+              aria-invalid={!!errors.newPassword}
+              autoComplete="new-password"
+              required
+            />
+            <div id="challenge-new-password-help" className="field-help">
+              Must be at least 8 characters with uppercase, lowercase, and numbers
+            </div>
+            {errors.newPassword && (
+              <div id="challenge-new-password-error" className="field-error" role="alert">
+                {errors.newPassword}
+              </div>
+            )}
+          </div>
+
+          <div className={`form-group ${errors.confirmPassword ? 'has-error' : ''}`}>
+            <label htmlFor="challenge-confirm-password">Confirm New Password</label>
+            <input
+              type="password"
+              id="challenge-confirm-password"
+              name="confirmPassword"
+              value={formData.confirmPassword}
+              onChange={handleInputChange}
+              disabled={isLoading}
+              aria-describedby={errors.confirmPassword ? 'challenge-confirm-password-error' : undefined}
+              aria-invalid={!!errors.confirmPassword}
+              autoComplete="new-password"
+              required
+            />
+            {errors.confirmPassword && (
+              <div id="challenge-confirm-password-error" className="field-error" role="alert">
+                {errors.confirmPassword}
+              </div>
+            )}
+          </div>
+        </>
+      );
+    }
+
+    return (
+      <div className={`form-group ${errors.code ? 'has-error' : ''}`}>
+        <label htmlFor="challenge-code">Verification Code</label>
+        <input
+          type="text"
+          id="challenge-code"
+          name="code"
+          value={formData.code}
+          onChange={handleInputChange}
+          disabled={isLoading}
+          placeholder="123456"
+          aria-describedby={errors.code ? 'challenge-code-error' : undefined}
+          aria-invalid={!!errors.code}
+          autoComplete="one-time-code"
+          inputMode="numeric"
+          maxLength={6}
+          autoFocus
+          required
+        />
+        {errors.code && (
+          <div id="challenge-code-error" className="field-error" role="alert">
+            {errors.code}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`auth-form ${isLoading ? 'loading' : ''}`}>
+      <h2>{HEADINGS[challenge.name]}</h2>
+      {renderIntro()}
+
+      {errors.general && (
+        <div className="error-message" role="alert">
+          {errors.general}
+        </div>
+      )}
+
+      {notice && (
+        <div className="field-help" role="status">
+          {notice}
+        </div>
+      )}
+
+      {challenge.name === 'SELECT_MFA_TYPE' ? (
+        <div className="challenge-options">
+          {(challenge.mfaTypes ?? ['SOFTWARE_TOKEN_MFA', 'SMS_MFA']).map(mfaType => (
+            <button
+              key={mfaType}
+              type="button"
+              onClick={() => respond({ mfaType })}
+              disabled={isLoading}
+              className={mfaType === 'SOFTWARE_TOKEN_MFA' ? 'primary-button' : 'secondary-button'}
+            >
+              {MFA_TYPE_LABELS[mfaType]}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} noValidate>
+          {challenge.name === 'MFA_SETUP' && challenge.secretCode && challenge.otpauthUri && (
+            <TotpSetupInstructions secretCode={challenge.secretCode} otpauthUri={challenge.otpauthUri} />
+          )}
+
+          {renderFields()}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="primary-button"
+          >
+            {isLoading ? 'Checking...' : challenge.name === 'NEW_PASSWORD_REQUIRED' ? 'Set Password' : 'Verify'}
+          </button>
+        </form>
+      )}
+
+      <div className="auth-links">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="link-button"
+          disabled={isLoading}
+        >
+          Back to sign in
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -4,11 +4,14 @@ import { validateEmail, validatePassword } from '../../utils/validation';
 
 interface SignUpFormProps {
   onSuccess?: () => void;
+  // Called instead of onSuccess when the new account must verify its email before signing in
+  onVerifyEmail?: (email: string) => void;
   onSwitchToLogin?: () => void;
 }
 
 export const SignUpForm: React.FC<SignUpFormProps> = ({
   onSuccess,
+  onVerifyEmail,
   onSwitchToLogin,
 }) => {
   const { signUp, isLoading } = useAuth();
@@ -16,6 +19,7 @@ export const SignUpForm: React.FC<SignUpFormProps> = ({
     email: '',
     password: '',
     confirmPassword: '',
+    role: 'student',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -59,11 +63,16 @@ export const SignUpForm: React.FC<SignUpFormProps> = ({
     if (!validateForm()) return;
 
     try {
-      await signUp({
+      const { verificationRequired } = await signUp({
         email: formData.email,
         password: formData.password,
+        role: formData.role === 'parent' ? 'parent' : 'student',
       });
-      onSuccess?.();
+      if (verificationRequired) {
+        onVerifyEmail?.(formData.email);
+      } else {
+        onSuccess?.();
+      }
     } catch (error) {
       setErrors({ general: error instanceof Error ? error.message : 'Failed to create account' });
     }
@@ -81,6 +90,35 @@ export const SignUpForm: React.FC<SignUpFormProps> = ({
       )}
 
       <form onSubmit={handleSubmit} noValidate>
+        <fieldset className="form-group role-options">
+          <legend>I am a</legend>
+          <label>
+            <input
+              type="radio"
+              name="role"
+              value="student"
+              checked={formData.role === 'student'}
+              onChange={handleInputChange}
+              disabled={isLoading}
+            />
+            Student
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="role"
+              value="parent"
+              checked={formData.role === 'parent'}
+              onChange={handleInputChange}
+              disabled={isLoading}
+            />
+            Parent or guardian
+          </label>
+          <div className="field-help">
+            Parents see what their student chooses to share. Counselors get their accounts from their school.
+          </div>
+        </fieldset>
+
         <div className={`form-group ${errors.email ? 'has-error' : ''}`}>
           <label htmlFor="signup-email">Email Address</label>
           <input
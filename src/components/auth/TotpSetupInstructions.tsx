@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface TotpSetupInstructionsProps {
+  secretCode: string;
+  otpauthUri: string;
+}
+
+// Shows the authenticator app secret for MFA setup, grouped so it can be typed in by hand
+export const TotpSetupInstructions: React.FC<TotpSetupInstructionsProps> = ({
+  secretCode,
+  otpauthUri,
+}) => (
+  <div className="totp-setup">
+    <ol>
+      <li>Open an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.</li>
+      <li>Add an account and enter this setup key:</li>
+    </ol>
+    <code className="totp-secret" aria-label="Setup key">
+      {secretCode.match(/.{1,4}/g)?.join(' ')}
+    </code>
+    <a href={otpauthUri} className="link-button">
+      On this device? Open it in your authenticator app
+    </a>
+    <p className="field-help">Then enter the 6-digit code the app shows.</p>
+  </div>
+);
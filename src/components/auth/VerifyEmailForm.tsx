@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { validateEmail } from '../../utils/validation';
+
+interface VerifyEmailFormProps {
+  email?: string;
+  onSuccess?: (message: string) => void;
+  onSwitchToLogin?: () => void;
+}
+
+export const VerifyEmailForm: React.FC<VerifyEmailFormProps> = ({
+  email: initialEmail = '',
+  onSuccess,
+  onSwitchToLogin,
+}) => {
+  const { verifyEmail, resendVerification } = useAuth();
+  const [formData, setFormData] = useState({
+    email: initialEmail,
+    code: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [notice, setNotice] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    // Validate email
+    const emailValidation = validateEmail(formData.email);
+    if (!emailValidation.success) {
+      newErrors.email = emailValidation.error || 'Invalid email';
+    }
+
+    // Validate code
+    if (!/^\d{6}$/.test(formData.code.trim())) {
+      newErrors.code = 'Enter the 6-digit code from your email';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setIsLoading(true);
+
+    try {
+      const message = await verifyEmail({ email: formData.email, code: formData.code.trim() });
+      onSuccess?.(message);
+    } catch (error) {
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to verify email' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    const emailValidation = validateEmail(formData.email);
+    if (!emailValidation.success) {
+      setErrors({ email: emailValidation.error || 'Invalid email' });
+      return;
+    }
+
+    setIsLoading(true);
+    setNotice('');
+
+    try {
+      setNotice(await resendVerification(formData.email));
+    } catch (error) {
+      setErrors({ general: error instanceof Error ? error.message : 'Failed to send a new code' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className={`auth-form ${isLoading ? 'loading' : ''}`}>
+      <h2>Verify Your Email</h2>
+      <p>We sent a 6-digit code to your email address. Enter it below to finish creating your account.</p>
+
+      {errors.general && (
+        <div className="error-message" role="alert">
+          {errors.general}
+        </div>
+      )}
+
+      {notice && (
+        <div className="field-help" role="status">
+          {notice}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} noValidate>
+        <div className={`form-group ${errors.email ? 'has-error' : ''}`}>
+          <label htmlFor="verify-email">Email Address</label>
+          <input
+            type="email"
+            id="verify-email"
+            name="email"
+            value={formData.email}
+            onChange={handleInputChange}
+            disabled={isLoading}
+            placeholder="Enter your email"
+            aria-describedby={errors.email ? 'verify-email-error' : undefined}
+            aria-invalid={!!errors.email}
+            autoComplete="email"
+            required
+          />
+          {errors.email && (
+            <div id="verify-email-error" className="field-error" role="alert">
+              {errors.email}
+            </div>
+          )}
+        </div>
+
+        <div className={`form-group ${errors.code ? 'has-error' : ''}`}>
+          <label htmlFor="verify-code">Verification Code</label>
+          <input
+            type="text"
+            id="verify-code"
+            name="code"
+            value={formData.code}
+            onChange={handleInputChange}
+            disabled={isLoading}
+            placeholder="123456"
+            aria-describedby={errors.code ? 'verify-code-error' : 'verify-code-help'}
+            aria-invalid={!!errors.code}
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            maxLength={6}
+            required
+          />
+          <div id="verify-code-help" className="field-help">
+            Check your spam folder if you don't see the email
+          </div>
+          {errors.code && (
+            <div id="verify-code-error" className="field-error" role="alert">
+              {errors.code}
+            </div>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="primary-button"
+        >
+          {isLoading ? 'Verifying...' : 'Verify Email'}
+        </button>
+      </form>
+
+      <div className="auth-links">
+        <button
+          type="button"
+          onClick={handleResend}
+          className="link-button"
+          disabled={isLoading}
+        >
+          Didn't get a code? Send a new one
+        </button>
+        <button
+          type="button"
+          onClick={onSwitchToLogin}
+          className="link-button"
+          disabled={isLoading}
+        >
+          Already verified? Sign in
+        </button>
+      </div>
+    </div>
+  );
+};
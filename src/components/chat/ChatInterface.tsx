@@ -22,6 +22,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '', in
   const {
     messages,
     isLoading,
+    streamingMessageId,
     error: chatError,
     conversationId,
     sendMessage,
@@ -70,11 +71,6 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '', in
 
   // Initialize performance optimizations
   useEffect(() => {
-    // Preload common FAFSA responses for better performance
-    import('../../services/caching').then(({ CachingService }) => {
-      CachingService.preloadCommonResponses();
-    });
-    
     // Auto-optimize based on usage patterns
     OptimizationService.autoOptimize();
   }, []);
@@ -271,7 +267,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ className = '', in
         
         <MessageList 
           messages={messages} 
-          isLoading={isLoading || isRetrying}
+          isLoading={(isLoading && !streamingMessageId) || isRetrying}
           className="message-list"
         />
         <div ref={messagesEndRef} />
@@ -13,7 +13,7 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
   initialSection,
 }) => {
   const { user } = useAuth();
-  const { messages, sendMessage, isLoading } = useChat();
+  const { messages, sendMessage, isLoading, streamingMessageId, rateLimitedFor } = useChat();
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -39,7 +39,7 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
   ];
 
   const handleSend = async () => {
-    if (!inputValue.trim() || isLoading) return;
+    if (!inputValue.trim() || isLoading || rateLimitedFor !== null) return;
 
     const messageContent = inputValue;
     setInputValue('');
@@ -62,6 +62,18 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
     });
   };
 
+  // 0:45 for a short wait, or hours and minutes once the daily limit is reached
+  const formatWait = (seconds: number) => {
+    if (seconds >= 3600) {
+      const hours = Math.floor(seconds / 3600);
+      const minutes = Math.ceil((seconds % 3600) / 60);
+      return `${hours}h ${minutes}m`;
+    }
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  const isRateLimited = rateLimitedFor !== null;
+
   return (
     <div className={`improved-chat-container ${className}`}>
       {/* Decorative background elements */}
@@ -152,12 +164,28 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
                       ))}
                     </div>
                   )}
+                  {msg.metadata?.guardrail?.resources && (
+                    <div className="message-sources crisis-resources">
+                      <span className="sources-label">Get help now:</span>
+                      {msg.metadata.guardrail.resources.map(resource => (
+                        <a
+                          key={resource.url}
+                          href={resource.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="source-link"
+                        >
+                          {resource.name} ({resource.contact})
+                        </a>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
 
-            {/* Typing Indicator */}
-            {isLoading && (
+            {/* Typing Indicator (hidden once streamed tokens start arriving) */}
+            {isLoading && !streamingMessageId && (
               <div className="message-wrapper assistant-message">
                 <div className="assistant-avatar">🎓</div>
                 <div className="typing-indicator">
@@ -174,6 +202,12 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
 
       {/* Input Area */}
       <div className="input-container">
+        {isRateLimited && (
+          <p className="rate-limit-notice" role="status">
+            You've sent a lot of questions in a short time. You can ask your next one in{' '}
+            <strong>{formatWait(rateLimitedFor)}</strong>.
+          </p>
+        )}
         <div className="input-wrapper">
           <textarea
             className="text-input"
@@ -187,13 +221,13 @@ export const ImprovedChatInterface: React.FC<ImprovedChatInterfaceProps> = ({
               }
             }}
             rows={1}
-            disabled={isLoading}
+            disabled={isLoading || isRateLimited}
           />
           <button
             className="send-button"
             onClick={handleSend}
-            disabled={!inputValue.trim() || isLoading}
-            style={{ opacity: inputValue.trim() && !isLoading ? 1 : 0.5 }}
+            disabled={!inputValue.trim() || isLoading || isRateLimited}
+            style={{ opacity: inputValue.trim() && !isLoading && !isRateLimited ? 1 : 0.5 }}
           >
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M22 2L11 13M22 2L15 22L11 13M11 13L2 9L22 2" />
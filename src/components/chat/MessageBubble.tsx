@@ -1,5 +1,5 @@
 import React from 'react';
-import { Message } from '../../types/message';
+import { Citation, Message } from '../../types/message';
 import './MessageBubble.css';
 
 interface MessageBubbleProps {
@@ -7,6 +7,35 @@ interface MessageBubbleProps {
   isConsecutive?: boolean;
 }
 
+interface CitationMarkerProps {
+  citation: Citation;
+  messageId: string;
+}
+
+// Inline [n] footnote that shows the cited passage on hover or keyboard focus
+const CitationMarker: React.FC<CitationMarkerProps> = ({ citation, messageId }) => {
+  const tooltipId = `citation-${messageId}-${citation.id}`;
+
+  return (
+    <span className="citation">
+      <a
+        href={citation.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="citation-marker"
+        aria-describedby={tooltipId}
+      >
+        [{citation.id}]
+      </a>
+      <span role="tooltip" id={tooltipId} className="citation-tooltip">
+        <span className="citation-title">{citation.title}</span>
+        <span className="citation-excerpt">"{citation.excerpt}"</span>
+        <span className="citation-url">{citation.url}</span>
+      </span>
+    </span>
+  );
+};
+
 export const MessageBubble: React.FC<MessageBubbleProps> = ({ 
   message, 
   isConsecutive = false 
@@ -18,44 +47,75 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     });
   };
 
+  const citations = message.metadata?.citations || [];
+
+  const renderCitations = (line: string) => {
+    if (citations.length === 0) {
+      return line;
+    }
+
+    return line.split(/(\[\d{1,2}\])/).map((part, partIndex) => {
+      const citation = citations.find(c => `[${c.id}]` === part);
+      return citation
+        ? <CitationMarker key={partIndex} citation={citation} messageId={message.id} />
+        : <React.Fragment key={partIndex}>{part}</React.Fragment>;
+    });
+  };
+
   const formatContent = (content: string) => {
-    // Simple formatting for sources and links
+    // Simple formatting for sources, citations and links
     return content
       .split('\n')
-      .map((line, index) => (
-        <React.Fragment key={index}>
-          {line.startsWith('**Source') ? (
-            <div className="message-source">
-              {line.replace(/\*\*/g, '')}
-            </div>
-          ) : line.startsWith('**Sources') ? (
-            <div className="message-sources">
-              {line.replace(/\*\*/g, '')}
-            </div>
-          ) : line.match(/^\d+\.\s+https?:\/\//) ? (
-            <div className="source-link">
-              {line.split(' ').map((word, wordIndex) => 
-                word.startsWith('http') ? (
-                  <a 
-                    key={wordIndex}
-                    href={word} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="external-link"
-                  >
-                    {word}
-                  </a>
-                ) : (
-                  <span key={wordIndex}>{word} </span>
-                )
-              )}
-            </div>
-          ) : (
-            <span>{line}</span>
-          )}
-          {index < content.split('\n').length - 1 && <br />}
-        </React.Fragment>
-      ));
+      .map((line, index) => {
+        const citedSource = line.match(/^\[(\d{1,2})\]\s+(.+?)\s+-\s+(https?:\/\/\S+)$/);
+
+        return (
+          <React.Fragment key={index}>
+            {citedSource ? (
+              <div className="source-link">
+                <span>[{citedSource[1]}] </span>
+                <a
+                  href={citedSource[3]}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="external-link"
+                >
+                  {citedSource[2]}
+                </a>
+              </div>
+            ) : line.startsWith('**Source') ? (
+              <div className="message-source">
+                {line.replace(/\*\*/g, '')}
+              </div>
+            ) : line.startsWith('**Sources') ? (
+              <div className="message-sources">
+                {line.replace(/\*\*/g, '')}
+              </div>
+            ) : line.match(/^\d+\.\s+https?:\/\//) ? (
+              <div className="source-link">
+                {line.split(' ').map((word, wordIndex) => 
+                  word.startsWith('http') ? (
+                    <a 
+                      key={wordIndex}
+                      href={word} 
+                      target="_blank" 
+                      rel="noopener noreferrer"
+                      className="external-link"
+                    >
+                      {word}
+                    </a>
+                  ) : (
+                    <span key={wordIndex}>{word} </span>
+                  )
+                )}
+              </div>
+            ) : (
+              <span>{renderCitations(line)}</span>
+            )}
+            {index < content.split('\n').length - 1 && <br />}
+          </React.Fragment>
+        );
+      });
   };
 
   return (
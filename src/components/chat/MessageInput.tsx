@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { validateChatInput } from '../../utils/validation';
 import { useFormAccessibility } from '../../hooks/useAccessibility';
+import { usePIIGuard } from '../../hooks/usePIIGuard';
+import { PIINotice } from './PIINotice';
+import { PIIOptions } from '@pii';
 import './MessageInput.css';
 
 interface MessageInputProps {
@@ -8,19 +11,23 @@ interface MessageInputProps {
   disabled?: boolean;
   placeholder?: string;
   className?: string;
+  // Decides how dates and keywords are read when checking for personal information
+  locale?: PIIOptions['locale'];
 }
 
 export const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
   disabled = false,
   placeholder = "Ask me about FAFSA, financial aid, or college funding...",
-  className = ''
+  className = '',
+  locale,
 }) => {
   const [message, setMessage] = useState('');
   const [validationError, setValidationError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const errorRef = useRef<HTMLDivElement>(null);
   const hintRef = useRef<HTMLDivElement>(null);
+  const piiGuard = usePIIGuard(message, setMessage, { locale, inputRef: textareaRef });
   
   const { generateId, associateError, associateHelp } = useFormAccessibility();
   
@@ -70,22 +77,19 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (disabled) return;
-
+  const sendMessage = (content: string) => {
     // Validate input
-    const validation = validateChatInput(message);
+    const validation = validateChatInput(content);
     if (!validation.success) {
       setValidationError(validation.error || 'Validation failed');
       return;
     }
 
     // Send message
-    onSendMessage(validation.data || message.trim());
+    onSendMessage(validation.data || content.trim());
     setMessage('');
     setValidationError(null);
+    piiGuard.reset();
     
     // Reset textarea height
     if (textareaRef.current) {
@@ -93,6 +97,17 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (disabled) return;
+
+    // Nothing leaves the browser with PII in it until the user redacts or edits it
+    if (piiGuard.hold()) return;
+
+    sendMessage(message);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -148,6 +163,8 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           </button>
         </div>
 
+        <PIINotice text={message} guard={piiGuard} onRedactAndSend={() => sendMessage(piiGuard.redact())} />
+
         <div className="input-footer">
           <div className="input-info">
             {validationError ? (
@@ -0,0 +1,89 @@
+import React from 'react';
+import { PII_LABELS } from '@pii';
+import { PIIGuard } from '../../hooks/usePIIGuard';
+import './PIINotice.css';
+
+export interface PIINoticeLabels {
+  detected: string;
+  held: string;
+  redact: string;
+  redactAndSend: string;
+  edit: string;
+  redacted: string;
+  undo: string;
+}
+
+const DEFAULT_LABELS: PIINoticeLabels = {
+  detected: 'This looks like personal information. You don\'t need to share it to get help.',
+  held: 'Your message wasn\'t sent because it includes personal information (highlighted).',
+  redact: 'Redact',
+  redactAndSend: 'Redact and send',
+  edit: 'Edit message',
+  redacted: 'Personal information removed.',
+  undo: 'Undo',
+};
+
+interface PIINoticeProps {
+  text: string;
+  guard: PIIGuard;
+  onRedactAndSend: () => void;
+  labels?: Partial<PIINoticeLabels>;
+}
+
+/**
+ * Shows the PII found in a message before it is sent, highlighted in a preview of the message,
+ * with the choice to redact it or edit the message
+ */
+export const PIINotice: React.FC<PIINoticeProps> = ({ text, guard, onRedactAndSend, labels = {} }) => {
+  const label = { ...DEFAULT_LABELS, ...labels };
+
+  if (guard.matches.length === 0) {
+    return guard.canUndo ? (
+      <div className="pii-notice pii-notice--redacted" role="status">
+        <span>{label.redacted}</span>
+        <button type="button" className="pii-notice__link" onClick={guard.undo}>
+          {label.undo}
+        </button>
+      </div>
+    ) : null;
+  }
+
+  const preview: React.ReactNode[] = [];
+  let position = 0;
+  for (const match of guard.matches) {
+    preview.push(text.slice(position, match.start));
+    preview.push(
+      <mark key={match.start} className="pii-notice__match" title={PII_LABELS[match.type].name}>
+        {match.value}
+      </mark>
+    );
+    position = match.end;
+  }
+  preview.push(text.slice(position));
+
+  return (
+    <div
+      className={`pii-notice ${guard.confirming ? 'pii-notice--held' : ''}`}
+      role={guard.confirming ? 'alert' : 'status'}
+    >
+      <p className="pii-notice__message">{guard.confirming ? label.held : label.detected}</p>
+      <p className="pii-notice__preview" aria-label="Message preview">{preview}</p>
+      <div className="pii-notice__actions">
+        {guard.confirming ? (
+          <>
+            <button type="button" className="pii-notice__primary" onClick={onRedactAndSend}>
+              {label.redactAndSend}
+            </button>
+            <button type="button" className="pii-notice__secondary" onClick={guard.edit}>
+              {label.edit}
+            </button>
+          </>
+        ) : (
+          <button type="button" className="pii-notice__secondary" onClick={guard.redact}>
+            {label.redact}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
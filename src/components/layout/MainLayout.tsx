@@ -3,6 +3,9 @@ import { ImprovedChatInterface } from '../chat/ImprovedChatInterface';
 import { ProgressDashboard } from '../progress/ProgressDashboard';
 import { ConversationManager } from '../chat/ConversationManager';
 import { LandingScreen } from '../landing/LandingScreen';
+import { AccountSettings } from '../account/AccountSettings';
+import { LinkedStudents } from '../students/LinkedStudents';
+import { AdminPanel } from '../admin/AdminPanel';
 import { useAuth } from '../../hooks/useAuth';
 import { useAccessibility } from '../../hooks/useAccessibility';
 import { AuthModal } from '../auth/AuthModal';
@@ -12,22 +15,29 @@ interface MainLayoutProps {
   className?: string;
 }
 
-type ViewMode = 'chat' | 'progress' | 'conversations';
+type ViewMode = 'chat' | 'progress' | 'conversations' | 'account' | 'students' | 'admin';
 
 export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
-  const { user, signOut } = useAuth();
+  const { user, signOut, hasPermission } = useAuth();
   const { announce } = useAccessibility({ announceChanges: true });
   
   const [currentView, setCurrentView] = useState<ViewMode>('chat');
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [selectedSection, setSelectedSection] = useState<string | null>(null);
 
+  const isCounselor = hasPermission('students:view-linked');
+  const canViewStudents = isCounselor || hasPermission('students:view-shared');
+  const isAdmin = hasPermission('roles:manage');
+
   // Announce view changes for screen readers
   useEffect(() => {
     const viewNames = {
       chat: 'Chat Interface',
       progress: 'Progress Dashboard',
-      conversations: 'Conversation Manager'
+      conversations: 'Conversation Manager',
+      account: 'Account Settings',
+      students: 'Linked Students',
+      admin: 'Admin Tools'
     };
     announce(`Switched to ${viewNames[currentView]}`, 'polite');
   }, [currentView, announce]);
@@ -56,6 +66,11 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
     }
   };
 
+  const handleAccountDeleted = (message: string) => {
+    setCurrentView('chat');
+    announce(message, 'polite');
+  };
+
   // Show landing screen if no user is authenticated
   if (!user) {
     return <LandingScreen onGetStarted={() => {
@@ -111,6 +126,32 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
                     <span aria-hidden="true">📝</span>
                     History
                   </button>
+
+                  {canViewStudents && (
+                    <button
+                      role="tab"
+                      aria-selected={currentView === 'students'}
+                      aria-controls="students-panel"
+                      onClick={() => handleViewChange('students')}
+                      className={`nav-button ${currentView === 'students' ? 'active' : ''}`}
+                    >
+                      <span aria-hidden="true">🎓</span>
+                      {isCounselor ? 'Students' : 'My Student'}
+                    </button>
+                  )}
+
+                  {isAdmin && (
+                    <button
+                      role="tab"
+                      aria-selected={currentView === 'admin'}
+                      aria-controls="admin-panel"
+                      onClick={() => handleViewChange('admin')}
+                      className={`nav-button ${currentView === 'admin' ? 'active' : ''}`}
+                    >
+                      <span aria-hidden="true">🛠️</span>
+                      Admin
+                    </button>
+                  )}
                 </>
               )}
             </div>
@@ -136,12 +177,21 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
                     Sign In
                   </button>
                 ) : (
-                  <button
-                    onClick={handleSignOut}
-                    className="auth-button sign-out"
-                  >
-                    Sign Out
-                  </button>
+                  <>
+                    <button
+                      onClick={() => handleViewChange('account')}
+                      className={`auth-button account ${currentView === 'account' ? 'active' : ''}`}
+                      aria-pressed={currentView === 'account'}
+                    >
+                      Account
+                    </button>
+                    <button
+                      onClick={handleSignOut}
+                      className="auth-button sign-out"
+                    >
+                      Sign Out
+                    </button>
+                  </>
                 )}
               </div>
             ) : (
@@ -184,6 +234,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
             <ProgressDashboard 
               className="main-progress-dashboard"
               onSectionSelect={handleSectionSelect}
+              isActive={currentView === 'progress'}
             />
           </div>
         )}
@@ -202,6 +253,43 @@ export const MainLayout: React.FC<MainLayoutProps> = ({ className = '' }) => {
             />
           </div>
         )}
+
+        {/* Linked Students View */}
+        {user && !user.isGuest && canViewStudents && currentView === 'students' && (
+          <div
+            id="students-panel"
+            role="tabpanel"
+            className="content-panel active"
+          >
+            <LinkedStudents className="main-linked-students" />
+          </div>
+        )}
+
+        {/* Admin View */}
+        {user && !user.isGuest && isAdmin && currentView === 'admin' && (
+          <div
+            id="admin-panel"
+            role="tabpanel"
+            className="content-panel active"
+          >
+            <AdminPanel className="main-admin-panel" />
+          </div>
+        )}
+
+        {/* Account View */}
+        {user && !user.isGuest && (
+          <div
+            id="account-panel"
+            role="tabpanel"
+            className={`content-panel ${currentView === 'account' ? 'active' : 'hidden'}`}
+            aria-hidden={currentView !== 'account'}
+          >
+            <AccountSettings
+              className="main-account-settings"
+              onAccountDeleted={handleAccountDeleted}
+            />
+          </div>
+        )}
       </main>
 
       {/* Authentication Modal */}
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../../hooks/useAuth';
 import { useProgress } from '../../hooks/useProgress';
 import { ProgressService } from '../../services/progress';
@@ -10,11 +10,15 @@ import './ProgressDashboard.css';
 interface ProgressDashboardProps {
   className?: string;
   onSectionSelect?: (section: string) => void;
+  // Whether the dashboard is on screen. Progress is reloaded each time it comes back, since
+  // questions asked in the chat meanwhile are recorded against their sections.
+  isActive?: boolean;
 }
 
 export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ 
   className = '',
-  onSectionSelect 
+  onSectionSelect,
+  isActive = true
 }) => {
   const { user } = useAuth();
   const {
@@ -30,6 +34,14 @@ export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
   } = useProgress({ user: user || undefined });
 
   const [selectedSection, setSelectedSection] = useState<string | null>(null);
+  const wasActive = useRef(isActive);
+
+  useEffect(() => {
+    if (isActive && !wasActive.current) {
+      refreshProgress();
+    }
+    wasActive.current = isActive;
+  }, [isActive, refreshProgress]);
 
   // Don't show dashboard for guest users
   if (!user || user.isGuest) {
@@ -1,5 +1,6 @@
 import React from 'react';
 import { UserProgress } from '../../types/progress';
+import { ProgressService } from '../../services/progress';
 import './ProgressStats.css';
 
 interface ProgressStatsProps {
@@ -17,14 +18,14 @@ export const ProgressStats: React.FC<ProgressStatsProps> = ({ progress, stats })
     return null;
   }
 
-  const formatDate = (date: Date) => {
+  const formatDate = (date: string) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
-    }).format(date);
+    }).format(new Date(date));
   };
 
   return (
@@ -68,13 +69,13 @@ export const ProgressStats: React.FC<ProgressStatsProps> = ({ progress, stats })
       <div className="progress-metadata">
         <div className="metadata-item">
           <span className="metadata-label">Last Updated:</span>
-          <span className="metadata-value">{formatDate(progress.lastUpdated)}</span>
+          <span className="metadata-value">{formatDate(progress.updatedAt)}</span>
         </div>
         
         {progress.currentSection && (
           <div className="metadata-item">
             <span className="metadata-label">Current Section:</span>
-            <span className="metadata-value">{progress.currentSection}</span>
+            <span className="metadata-value">{ProgressService.formatSectionName(progress.currentSection)}</span>
           </div>
         )}
       </div>
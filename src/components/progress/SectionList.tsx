@@ -1,5 +1,5 @@
 import React from 'react';
-import { UserProgress } from '../../types/progress';
+import { FAFSA_SECTION_IDS, UserProgress } from '../../types/progress';
 import { ProgressService } from '../../services/progress';
 import './SectionList.css';
 
@@ -18,14 +18,7 @@ export const SectionList: React.FC<SectionListProps> = ({
   onSectionSelect,
   isLoading
 }) => {
-  const sections = [
-    'student-demographics',
-    'dependency-status',
-    'student-finances',
-    'parent-finances',
-    'school-selection',
-    'review-submit'
-  ];
+  const sections = FAFSA_SECTION_IDS;
 
   const getSectionStatus = (section: string): 'completed' | 'in-progress' | 'not-started' => {
     if (!progress) return 'not-started';
@@ -34,7 +27,8 @@ export const SectionList: React.FC<SectionListProps> = ({
       return 'completed';
     }
     
-    if (progress.currentSection === section) {
+    // Sections the student has asked about count as started, as does the one they're on
+    if (progress.currentSection === section || progress.sections[section]?.questionsAsked) {
       return 'in-progress';
     }
     
@@ -119,7 +113,7 @@ export const SectionList: React.FC<SectionListProps> = ({
                   
                   {progress?.sections[section]?.lastUpdated && (
                     <span className="last-updated">
-                      Updated {new Date(progress.sections[section]?.lastUpdated || Date.now()).toLocaleDateString()}
+                      Updated {new Date(progress.sections[section].lastUpdated).toLocaleDateString()}
                     </span>
                   )}
                 </div>
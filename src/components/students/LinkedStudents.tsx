@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../hooks/useAuth';
+import { LinksService } from '../../services/links';
+import { StudentLink, StudentProgress } from '../../types';
+import '../account/AccountSettings.css';
+import './LinkedStudents.css';
+
+interface LinkedStudentsProps {
+  className?: string;
+}
+
+// Parents and counselors: their link code, their linked students, and what each student shares
+export const LinkedStudents: React.FC<LinkedStudentsProps> = ({ className = '' }) => {
+  const { hasPermission } = useAuth();
+  const [links, setLinks] = useState<StudentLink[]>([]);
+  const [linkCode, setLinkCode] = useState<string | undefined>();
+  const [selected, setSelected] = useState<StudentProgress | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isCounselor = hasPermission('students:view-linked');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    LinksService.getLinks()
+      .then(result => {
+        if (cancelled) return;
+        setLinks(result.links);
+        setLinkCode(result.linkCode);
+      })
+      .catch(loadError => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load linked students');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallbackError: string) => {
+    setIsLoading(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleView = (link: StudentLink) => run(async () => {
+    setSelected(await LinksService.getStudentProgress(link.studentId));
+  }, 'Failed to load student progress');
+
+  const handleUnlink = (link: StudentLink) => run(async () => {
+    setMessage(await LinksService.removeLink(link.studentId));
+    setLinks(prev => prev.filter(existing => existing.studentId !== link.studentId));
+    if (selected?.student.userId === link.studentId) {
+      setSelected(null);
+    }
+  }, 'Failed to unlink accounts');
+
+  return (
+    <div className={`account-settings linked-students ${className}`}>
+      <div className="account-settings-header">
+        <h2>{isCounselor ? 'Students' : 'My Student'}</h2>
+        <p>Students choose what they share with you, and can unlink at any time.</p>
+      </div>
+
+      <section className="account-section" aria-labelledby="link-code-heading">
+        <h3 id="link-code-heading">Your Link Code</h3>
+        <p className="account-section-intro">
+          Give this code to {isCounselor ? 'your students' : 'your student'}. They enter it under
+          Account, in Parents and Counselors.
+        </p>
+        {linkCode && <p className="link-code" aria-label={`Link code ${linkCode.split('').join(' ')}`}>{linkCode}</p>}
+      </section>
+
+      <section className="account-section" aria-labelledby="linked-students-heading">
+        <h3 id="linked-students-heading">Linked Students</h3>
+
+        {error && (
+          <div className="error-message" role="alert">
+            {error}
+          </div>
+        )}
+
+        {message && (
+          <div className="success-message" role="status">
+            {message}
+          </div>
+        )}
+
+        {links.length === 0 ? (
+          <p className="account-section-intro">{isLoading ? 'Loading...' : 'No students have linked to you yet.'}</p>
+        ) : (
+          <ul className="linked-accounts">
+            {links.map(link => (
+              <li key={link.studentId}>
+                <div className="linked-account-name">
+                  <strong>{link.studentEmail ?? 'Student'}</strong>
+                  <span className="linked-account-role">Linked {new Date(link.linkedAt).toLocaleDateString()}</span>
+                </div>
+                <div className="danger-actions">
+                  <button type="button" onClick={() => handleView(link)} disabled={isLoading} className="primary-button">
+                    View Progress
+                  </button>
+                  <button type="button" onClick={() => handleUnlink(link)} disabled={isLoading} className="secondary-button">
+                    Unlink
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {selected && (
+        <section className="account-section" aria-labelledby="student-progress-heading">
+          <h3 id="student-progress-heading">{selected.student.email ?? 'Student'}</h3>
+
+          {selected.summary && (
+            <div className="student-summary">
+              <p>
+                <strong>{selected.summary.completionPercentage}%</strong> complete:{' '}
+                {selected.summary.completedSections} of {selected.summary.totalSections} sections,{' '}
+                {selected.summary.totalQuestions} questions asked.
+              </p>
+              {selected.summary.recentActivity.length > 0 && (
+                <ul className="student-activity">
+                  {selected.summary.recentActivity.map(section => (
+                    <li key={section.sectionId}>
+                      {section.sectionId}: {section.isComplete ? 'complete' : 'in progress'},
+                      last visited {new Date(section.lastVisited).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {selected.checklist && (
+            <div className="student-checklist">
+              <h4>Completed Checklist Items</h4>
+              {selected.checklist.length === 0 ? (
+                <p className="account-section-intro">None yet.</p>
+              ) : (
+                <ul>
+                  {selected.checklist.map(item => <li key={item}>{item}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {!selected.summary && !selected.checklist && (
+            <p className="account-section-intro">This student isn't sharing anything with you right now.</p>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
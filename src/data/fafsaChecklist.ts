@@ -0,0 +1,129 @@
+import { dependencyStatusFromIntake } from '@contracts';
+import type {
+  CitizenshipStatus,
+  DependencyStatus,
+  IntakeAnswers,
+  ParentsMaritalStatus,
+  TaxFilingStatus,
+} from '@contracts';
+import type { TranslationKey } from '../translations';
+
+export type { DependencyStatus } from '@contracts';
+
+// What the checklist knows about a student from their intake answers
+export interface ChecklistProfile {
+  dependencyStatus: DependencyStatus;
+  married: boolean;
+  parentsMaritalStatus?: ParentsMaritalStatus;
+  taxFilingStatus: TaxFilingStatus;
+  citizenship: CitizenshipStatus;
+  schoolCount: number;
+}
+
+// Matches a profile when each listed field has one of the listed values
+export type ChecklistCondition = { [K in keyof ChecklistProfile]?: Array<ChecklistProfile[K]> };
+
+export interface ChecklistStep {
+  // Saved with the student's checklist, so ids must not change once released
+  id: string;
+  label: TranslationKey;
+  description: TranslationKey;
+  // Only shown once the intake answers say the step applies
+  showWhen?: ChecklistCondition;
+  // Shown until the intake answers say the step doesn't apply
+  hideWhen?: ChecklistCondition;
+}
+
+// The steps of a FAFSA application, in the order a student works through them
+export const FAFSA_CHECKLIST_STEPS: readonly ChecklistStep[] = [
+  { id: 'fsaId', label: 'checklistStep1', description: 'checklistStep1Desc' },
+  { id: 'ssn', label: 'checklistStep2', description: 'checklistStep2Desc' },
+  {
+    id: 'aNumber',
+    label: 'checklistANumber',
+    description: 'checklistANumberDesc',
+    showWhen: { citizenship: ['eligible-noncitizen'] },
+  },
+  {
+    id: 'stateAid',
+    label: 'checklistStateAid',
+    description: 'checklistStateAidDesc',
+    showWhen: { citizenship: ['other'] },
+  },
+  {
+    id: 'whichParent',
+    label: 'checklistWhichParent',
+    description: 'checklistWhichParentDesc',
+    showWhen: { dependencyStatus: ['dependent'], parentsMaritalStatus: ['divorced-or-separated', 'never-married'] },
+  },
+  {
+    id: 'stepparent',
+    label: 'checklistStepparent',
+    description: 'checklistStepparentDesc',
+    showWhen: { dependencyStatus: ['dependent'], parentsMaritalStatus: ['remarried'] },
+  },
+  {
+    id: 'fileTaxes',
+    label: 'checklistFileTaxes',
+    description: 'checklistFileTaxesDesc',
+    showWhen: { taxFilingStatus: ['will-file'] },
+  },
+  {
+    id: 'taxReturn',
+    label: 'checklistStep3',
+    description: 'checklistStep3Desc',
+    hideWhen: { taxFilingStatus: ['not-required'] },
+  },
+  { id: 'w2Forms', label: 'checklistStep4', description: 'checklistStep4Desc' },
+  { id: 'bankStatements', label: 'checklistStep5', description: 'checklistStep5Desc' },
+  { id: 'investments', label: 'checklistStep6', description: 'checklistStep6Desc' },
+  {
+    id: 'chooseSchools',
+    label: 'checklistChooseSchools',
+    description: 'checklistChooseSchoolsDesc',
+    showWhen: { schoolCount: [0] },
+  },
+  { id: 'schoolList', label: 'checklistStep7', description: 'checklistStep7Desc' },
+  { id: 'consentIRS', label: 'checklistStep8', description: 'checklistStep8Desc' },
+  {
+    id: 'inviteContributors',
+    label: 'checklistStep9',
+    description: 'checklistStep9Desc',
+    hideWhen: { dependencyStatus: ['independent'] },
+  },
+  {
+    id: 'inviteSpouse',
+    label: 'checklistInviteSpouse',
+    description: 'checklistInviteSpouseDesc',
+    showWhen: { dependencyStatus: ['independent'], married: [true] },
+  },
+  { id: 'reviewSubmit', label: 'checklistStep10', description: 'checklistStep10Desc' },
+  { id: 'confirmation', label: 'checklistStep11', description: 'checklistStep11Desc' },
+];
+
+export const checklistProfileFromIntake = (answers: IntakeAnswers): ChecklistProfile => ({
+  dependencyStatus: dependencyStatusFromIntake(answers),
+  married: answers.independenceCriteria.includes('married'),
+  parentsMaritalStatus: answers.parentsMaritalStatus,
+  taxFilingStatus: answers.taxFilingStatus,
+  citizenship: answers.citizenship,
+  schoolCount: answers.schoolCount,
+});
+
+const matches = (profile: ChecklistProfile, condition: ChecklistCondition): boolean =>
+  (Object.keys(condition) as Array<keyof ChecklistProfile>).every(field =>
+    (condition[field] as unknown[]).includes(profile[field]));
+
+/**
+ * The steps for a student's intake answers. Until they answer, the steps every student needs
+ * are shown.
+ */
+export const getChecklistSteps = (answers?: IntakeAnswers): ChecklistStep[] => {
+  if (!answers) {
+    return FAFSA_CHECKLIST_STEPS.filter(step => !step.showWhen);
+  }
+
+  const profile = checklistProfileFromIntake(answers);
+  return FAFSA_CHECKLIST_STEPS.filter(step =>
+    (!step.showWhen || matches(profile, step.showWhen)) && !(step.hideWhen && matches(profile, step.hideWhen)));
+};
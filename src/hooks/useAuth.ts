@@ -1,6 +1,19 @@
 import { useState, useEffect, useCallback, createContext, useContext } from 'react';
-import { AuthService, User, AuthTokens } from '../services/auth';
-import { AuthSignUpRequest, AuthSignInRequest, AuthResetPasswordRequest } from '../types';
+import { hasPermission as roleHasPermission } from '@contracts';
+import { AuthService, User, AuthTokens, SignInStep } from '../services/auth';
+import {
+  AuthSignUpRequest,
+  AuthSignInRequest,
+  AuthResetPasswordRequest,
+  AuthVerifyEmailRequest,
+  AuthConfirmResetRequest,
+  AuthChangePasswordRequest,
+  AuthRespondToChallengeRequest,
+  AuthMfaSmsSetupRequest,
+  AuthChallenge,
+  MfaStatus,
+  Permission,
+} from '../types';
 
 export interface AuthState {
   user: User | null;
@@ -10,13 +23,33 @@ export interface AuthState {
   isGuest: boolean;
 }
 
+// What a sign-in, or an answered challenge, leaves the form to do next
+export type SignInOutcome =
+  | { status: 'signed-in' }
+  | { status: 'challenge'; challenge: AuthChallenge }
+  // A counselor just set up MFA and has to sign in again with a code
+  | { status: 'sign-in-again'; message: string };
+
 export interface AuthActions {
-  signUp: (request: AuthSignUpRequest) => Promise<void>;
-  signIn: (request: AuthSignInRequest) => Promise<void>;
+  signUp: (request: AuthSignUpRequest) => Promise<{ verificationRequired: boolean }>;
+  signIn: (request: AuthSignInRequest) => Promise<SignInOutcome>;
+  respondToChallenge: (request: AuthRespondToChallengeRequest) => Promise<SignInOutcome>;
   signOut: () => Promise<void>;
+  verifyEmail: (request: AuthVerifyEmailRequest) => Promise<string>;
+  resendVerification: (email: string) => Promise<string>;
   forgotPassword: (request: AuthResetPasswordRequest) => Promise<string>;
+  confirmPasswordReset: (request: AuthConfirmResetRequest) => Promise<string>;
+  changePassword: (request: AuthChangePasswordRequest) => Promise<string>;
+  deleteAccount: () => Promise<string>;
+  getMfaStatus: () => Promise<MfaStatus>;
+  setupTotp: () => Promise<{ secretCode: string; otpauthUri: string }>;
+  verifyTotp: (code: string) => Promise<{ message: string; mfa: MfaStatus }>;
+  setupSms: (request: AuthMfaSmsSetupRequest) => Promise<string>;
+  verifySms: (code: string) => Promise<{ message: string; mfa: MfaStatus }>;
   continueAsGuest: () => Promise<void>;
   refreshUserProfile: () => Promise<void>;
+  // Whether the signed-in user's role grants a permission; the API checks it again
+  hasPermission: (permission: Permission) => boolean;
 }
 
 export interface AuthContextType extends AuthState, AuthActions {}
@@ -43,20 +76,34 @@ export const useAuthState = (): AuthContextType => {
     isGuest: false,
   });
 
-  // Initialize auth state from storage
+  // Initialize auth state from storage. Tokens aren't persisted, so a signed-in user gets
+  // new ones from the tab's refresh token after a reload.
   useEffect(() => {
-    const initializeAuth = () => {
+    let cancelled = false;
+
+    const applyStoredState = (user: User | null, tokens: AuthTokens | null) => {
+      if (cancelled) return;
+
+      setState({
+        user,
+        tokens,
+        isLoading: false,
+        isAuthenticated: AuthService.isAuthenticated(),
+        isGuest: AuthService.isGuest(),
+      });
+    };
+
+    const initializeAuth = async () => {
       try {
         const user = AuthService.getCurrentUser();
         const tokens = AuthService.getCurrentTokens();
 
-        setState({
-          user,
-          tokens,
-          isLoading: false,
-          isAuthenticated: AuthService.isAuthenticated(),
-          isGuest: AuthService.isGuest(),
-        });
+        if (user && !user.isGuest && !tokens) {
+          const restored = await AuthService.restoreSession();
+          applyStoredState(restored.user, restored.tokens);
+        } else {
+          applyStoredState(user, tokens);
+        }
       } catch (error) {
         console.error('Failed to initialize auth:', error);
         setState(prev => ({
@@ -67,14 +114,36 @@ export const useAuthState = (): AuthContextType => {
     };
 
     initializeAuth();
+
+    // The refresh token ran out or was revoked, so AuthService has signed the user out
+    const unsubscribe = AuthService.onSessionExpired(() => {
+      setState({
+        user: null,
+        tokens: null,
+        isLoading: false,
+        isAuthenticated: false,
+        isGuest: false,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
   // Sign up action
-  const signUp = useCallback(async (request: AuthSignUpRequest): Promise<void> => {
+  const signUp = useCallback(async (request: AuthSignUpRequest): Promise<{ verificationRequired: boolean }> => {
     setState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      const { user } = await AuthService.signUp(request);
+      const { user, verificationRequired } = await AuthService.signUp(request);
+
+      if (verificationRequired) {
+        // The account can sign in once its email is verified
+        setState(prev => ({ ...prev, isLoading: false }));
+        return { verificationRequired };
+      }
       
       setState({
         user,
@@ -83,31 +152,55 @@ export const useAuthState = (): AuthContextType => {
         isAuthenticated: true,
         isGuest: false,
       });
+      return { verificationRequired };
     } catch (error) {
       setState(prev => ({ ...prev, isLoading: false }));
       throw error;
     }
   }, []);
 
-  // Sign in action
-  const signIn = useCallback(async (request: AuthSignInRequest): Promise<void> => {
-    setState(prev => ({ ...prev, isLoading: true }));
-    
-    try {
-      const { user, tokens } = await AuthService.signIn(request);
-      
+  // Signed in once a step comes back with tokens; otherwise the form carries on
+  const applySignInStep = useCallback((step: SignInStep): SignInOutcome => {
+    if (step.user) {
       setState({
-        user,
-        tokens,
+        user: step.user,
+        tokens: step.tokens,
         isLoading: false,
         isAuthenticated: true,
         isGuest: false,
       });
+      return { status: 'signed-in' };
+    }
+
+    setState(prev => ({ ...prev, isLoading: false }));
+    return step.challenge
+      ? { status: 'challenge', challenge: step.challenge }
+      : { status: 'sign-in-again', message: step.message };
+  }, []);
+
+  // Sign in action
+  const signIn = useCallback(async (request: AuthSignInRequest): Promise<SignInOutcome> => {
+    setState(prev => ({ ...prev, isLoading: true }));
+    
+    try {
+      return applySignInStep(await AuthService.signIn(request));
     } catch (error) {
       setState(prev => ({ ...prev, isLoading: false }));
       throw error;
     }
-  }, []);
+  }, [applySignInStep]);
+
+  // Answer a sign-in challenge action
+  const respondToChallenge = useCallback(async (request: AuthRespondToChallengeRequest): Promise<SignInOutcome> => {
+    setState(prev => ({ ...prev, isLoading: true }));
+
+    try {
+      return applySignInStep(await AuthService.respondToChallenge(request));
+    } catch (error) {
+      setState(prev => ({ ...prev, isLoading: false }));
+      throw error;
+    }
+  }, [applySignInStep]);
 
   // Sign out action
   const signOut = useCallback(async (): Promise<void> => {
@@ -129,12 +222,68 @@ export const useAuthState = (): AuthContextType => {
     }
   }, []);
 
+  // Verify email action
+  const verifyEmail = useCallback(async (request: AuthVerifyEmailRequest): Promise<string> => {
+    const { message } = await AuthService.verifyEmail(request);
+    return message;
+  }, []);
+
+  // Resend verification code action
+  const resendVerification = useCallback(async (email: string): Promise<string> => {
+    const { message } = await AuthService.resendVerification(email);
+    return message;
+  }, []);
+
   // Forgot password action
   const forgotPassword = useCallback(async (request: AuthResetPasswordRequest): Promise<string> => {
     const { message } = await AuthService.forgotPassword(request);
     return message;
   }, []);
 
+  // Confirm password reset action
+  const confirmPasswordReset = useCallback(async (request: AuthConfirmResetRequest): Promise<string> => {
+    const { message } = await AuthService.confirmPasswordReset(request);
+    return message;
+  }, []);
+
+  // Change password action
+  const changePassword = useCallback(async (request: AuthChangePasswordRequest): Promise<string> => {
+    const { message } = await AuthService.changePassword(request);
+    return message;
+  }, []);
+
+  // Delete account action
+  const deleteAccount = useCallback(async (): Promise<string> => {
+    if (!state.user?.userId) {
+      throw new Error('Please sign in to delete your account');
+    }
+
+    const { message } = await AuthService.deleteAccount(state.user.userId);
+
+    setState({
+      user: null,
+      tokens: null,
+      isLoading: false,
+      isAuthenticated: false,
+      isGuest: false,
+    });
+    return message;
+  }, [state.user?.userId]);
+
+  // MFA enrollment actions
+  const getMfaStatus = useCallback((): Promise<MfaStatus> => AuthService.getMfaStatus(), []);
+
+  const setupTotp = useCallback(() => AuthService.setupTotp(), []);
+
+  const verifyTotp = useCallback((code: string) => AuthService.verifyTotp(code), []);
+
+  const setupSms = useCallback(async (request: AuthMfaSmsSetupRequest): Promise<string> => {
+    const { message } = await AuthService.setupSms(request);
+    return message;
+  }, []);
+
+  const verifySms = useCallback((code: string) => AuthService.verifySms(code), []);
+
   // Continue as guest action
   const continueAsGuest = useCallback(async (): Promise<void> => {
     setState(prev => ({ ...prev, isLoading: true }));
@@ -168,13 +317,30 @@ export const useAuthState = (): AuthContextType => {
     }
   }, [state.user?.userId]);
 
+  const hasPermission = useCallback((permission: Permission): boolean => {
+    const { user } = state;
+    return !!user && !user.isGuest && roleHasPermission(user.role, permission);
+  }, [state]);
+
   return {
     ...state,
     signUp,
     signIn,
+    respondToChallenge,
     signOut,
+    verifyEmail,
+    resendVerification,
     forgotPassword,
+    confirmPasswordReset,
+    changePassword,
+    deleteAccount,
+    getMfaStatus,
+    setupTotp,
+    verifyTotp,
+    setupSms,
+    verifySms,
     continueAsGuest,
     refreshUserProfile,
+    hasPermission,
   };
 };
\ No newline at end of file
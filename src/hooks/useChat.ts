@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { Message } from '../types/message';
 import { User } from '../services/auth';
 import { ChatService, ChatResponse } from '../services/chat';
+import { RateLimitError } from '../utils/errorHandling';
 
 export interface UseChatOptions {
   user?: User;
@@ -12,7 +13,10 @@ export interface UseChatOptions {
 export interface UseChatReturn {
   messages: Message[];
   isLoading: boolean;
+  streamingMessageId: string | null;
   error: string | null;
+  // Seconds until the server will take another message, while it is refusing them
+  rateLimitedFor: number | null;
   conversationId: string | null;
   sendMessage: (content: string) => Promise<void>;
   retryLastMessage: () => Promise<void>;
@@ -26,9 +30,12 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [rateLimitedFor, setRateLimitedFor] = useState<number | null>(null);
   
   const lastUserMessageRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -84,13 +91,33 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
     }
   }, [autoLoadHistory, user, historyLoaded, loadHistory]);
 
+  // Count down the seconds until the server takes messages again
+  useEffect(() => {
+    if (rateLimitedUntil === null) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((rateLimitedUntil - Date.now()) / 1000);
+      if (remaining > 0) {
+        setRateLimitedFor(remaining);
+      } else {
+        setRateLimitedFor(null);
+        setRateLimitedUntil(null);
+        setError(null);
+      }
+    };
+
+    tick();
+    const intervalId = setInterval(tick, 1000);
+    return () => clearInterval(intervalId);
+  }, [rateLimitedUntil]);
+
   // Auto-scroll when messages change
   useEffect(() => {
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
   const sendMessage = useCallback(async (content: string) => {
-    if (!content.trim() || isLoading) return;
+    if (!content.trim() || isLoading || rateLimitedFor !== null) return;
 
     // Validate message
     const validation = ChatService.validateMessage(content);
@@ -108,16 +135,31 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
     const userMessage = ChatService.createUserMessage(content);
     setMessages(prev => [...prev, userMessage]);
 
+    // Placeholder AI message that fills in as tokens stream back
+    const streamId = `ai-stream-${Date.now()}`;
+    let streamedContent = '';
+
     try {
       // Send message to API
       const response: ChatResponse = await ChatService.sendMessage({
         content: content.trim(),
         userId: user?.isGuest ? undefined : user?.userId || undefined,
         conversationId: conversationId || undefined,
+      }, {
+        onToken: (token) => {
+          streamedContent += token;
+          setStreamingMessageId(streamId);
+          setMessages(prev => {
+            if (prev.some(m => m.id === streamId)) {
+              return prev.map(m => m.id === streamId ? { ...m, content: streamedContent } : m);
+            }
+            return [...prev, { id: streamId, content: streamedContent, sender: 'ai', timestamp: new Date(), metadata: {} }];
+          });
+        },
       });
 
-      // Add AI response
-      setMessages(prev => [...prev, response.message]);
+      // Replace the streamed text with the final message, which carries sources and privacy warnings
+      setMessages(prev => [...prev.filter(m => m.id !== streamId), response.message]);
       
       // Update conversation ID if provided
       if (response.conversationId && !conversationId) {
@@ -128,6 +170,10 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
       console.error('Chat error:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to send message. Please try again.';
       setError(errorMessage);
+
+      if (err instanceof RateLimitError && err.retryAfterSeconds) {
+        setRateLimitedUntil(Date.now() + err.retryAfterSeconds * 1000);
+      }
       
       // Create AppError for error message
       const appError = (err as any).type ? err as any : {
@@ -137,13 +183,14 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
         recoverable: true,
       };
       
-      // Add error message to chat
+      // Add error message to chat, dropping any partially streamed answer
       const errorMsg = ChatService.createErrorMessage(appError);
-      setMessages(prev => [...prev, errorMsg]);
+      setMessages(prev => [...prev.filter(m => m.id !== streamId), errorMsg]);
     } finally {
       setIsLoading(false);
+      setStreamingMessageId(null);
     }
-  }, [isLoading, user, conversationId]);
+  }, [isLoading, rateLimitedFor, user, conversationId]);
 
   const retryLastMessage = useCallback(async () => {
     if (!lastUserMessageRef.current) return;
@@ -176,7 +223,9 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
   return {
     messages,
     isLoading,
+    streamingMessageId,
     error,
+    rateLimitedFor,
     conversationId,
     sendMessage,
     retryLastMessage,
@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChecklistItemState, ChecklistState, mergeChecklist } from '../types/progress';
+import { ChecklistService } from '../services/checklist';
+
+export interface UseChecklistReturn {
+  checklist: ChecklistState;
+  isLoading: boolean;
+  error: string | null;
+  toggleItem: (itemId: string) => void;
+  setNote: (itemId: string, note: string) => void;
+  // An empty string clears the due date
+  setDueDate: (itemId: string, dueDate: string) => void;
+  // Uncheck the items and clear their notes and due dates
+  reset: (itemIds: string[]) => void;
+}
+
+/**
+ * An item after a change, with its completion time kept in step with `completed`
+ */
+const changeItem = (
+  item: ChecklistItemState | undefined,
+  changes: Partial<Pick<ChecklistItemState, 'completed' | 'note' | 'dueDate'>>,
+  now: string
+): ChecklistItemState => {
+  const updated: ChecklistItemState = { completed: false, ...item, ...changes, updatedAt: now };
+
+  if (!updated.completed) {
+    delete updated.completedAt;
+  } else if (!item?.completed) {
+    updated.completedAt = now;
+  }
+  if (!updated.note) {
+    delete updated.note;
+  }
+  if (!updated.dueDate) {
+    delete updated.dueDate;
+  }
+
+  return updated;
+};
+
+/**
+ * The FAFSA checklist of the signed-in student, or of the guest on this device. Changes show
+ * straight away and are saved in the background.
+ */
+export const useChecklist = (userId?: string): UseChecklistReturn => {
+  const [checklist, setChecklist] = useState<ChecklistState>(() =>
+    userId ? {} : ChecklistService.getGuestChecklist());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The latest checklist, so changes made before a render build on each other
+  const checklistRef = useRef(checklist);
+
+  const show = useCallback((next: ChecklistState) => {
+    checklistRef.current = next;
+    setChecklist(next);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      show(ChecklistService.getGuestChecklist());
+      return;
+    }
+
+    let cancelled = false;
+    show({});
+    setIsLoading(true);
+    setError(null);
+
+    ChecklistService.getAccountChecklist(userId)
+      .then(saved => {
+        if (!cancelled) {
+          // Changes made while it loaded are newer than the saved copies
+          show(mergeChecklist(saved, checklistRef.current));
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load checklist:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load checklist');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, show]);
+
+  const change = useCallback((changes: ChecklistState) => {
+    const next = mergeChecklist(checklistRef.current, changes);
+    show(next);
+
+    if (!userId) {
+      ChecklistService.saveGuestChecklist(next);
+      return;
+    }
+
+    setError(null);
+    ChecklistService.saveAccountChecklist(userId, changes)
+      .then(saved => show(mergeChecklist(saved, checklistRef.current)))
+      .catch(err => {
+        console.error('Failed to save checklist:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save checklist');
+      });
+  }, [userId, show]);
+
+  const toggleItem = useCallback((itemId: string) => {
+    const item = checklistRef.current[itemId];
+    change({ [itemId]: changeItem(item, { completed: !item?.completed }, new Date().toISOString()) });
+  }, [change]);
+
+  const setNote = useCallback((itemId: string, note: string) => {
+    const item = checklistRef.current[itemId];
+    if ((item?.note ?? '') !== note.trim()) {
+      change({ [itemId]: changeItem(item, { note: note.trim() }, new Date().toISOString()) });
+    }
+  }, [change]);
+
+  const setDueDate = useCallback((itemId: string, dueDate: string) => {
+    const item = checklistRef.current[itemId];
+    change({ [itemId]: changeItem(item, { dueDate }, new Date().toISOString()) });
+  }, [change]);
+
+  const reset = useCallback((itemIds: string[]) => {
+    const now = new Date().toISOString();
+    change(Object.fromEntries(itemIds.map(itemId => [itemId, { completed: false, updatedAt: now }])));
+  }, [change]);
+
+  return {
+    checklist,
+    isLoading,
+    error,
+    toggleItem,
+    setNote,
+    setDueDate,
+    reset,
+  };
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { DeadlinesQuery, ResolvedDeadline } from '../types/deadlines';
+import { DeadlineService } from '../services/deadlines';
+
+export interface UseDeadlinesReturn {
+  deadlines: ResolvedDeadline[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * The deadlines for a query, reloaded whenever it changes. A null query loads nothing.
+ */
+export const useDeadlines = (query: DeadlinesQuery | null): UseDeadlinesReturn => {
+  const [deadlines, setDeadlines] = useState<ResolvedDeadline[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Queries are rebuilt on every render, so they are compared by value
+  const queryKey = query && JSON.stringify(query);
+
+  useEffect(() => {
+    if (!queryKey) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    DeadlineService.getDeadlines(JSON.parse(queryKey))
+      .then(response => {
+        if (!cancelled) {
+          setDeadlines(response.deadlines);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load deadlines:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load deadlines');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryKey]);
+
+  return {
+    deadlines,
+    isLoading,
+    error,
+  };
+};
@@ -45,6 +45,11 @@ export const useErrorDetection = (
   const [dismissedErrors, setDismissedErrors] = useState<Set<string>>(new Set());
   const [debounceTimer, setDebounceTimer] = useState<number | null>(null);
 
+  // Patterns admins manage apply from the first check after they load
+  useEffect(() => {
+    FAFSAErrorDetectionService.loadManagedPatterns();
+  }, []);
+
   // Clear debounce timer on unmount
   useEffect(() => {
     return () => {
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { IntakeAnswers, IntakeRecord } from '../types/progress';
+import { IntakeService } from '../services/intake';
+
+export interface UseIntakeReturn {
+  // Null until the student answers the questionnaire
+  intake: IntakeRecord | null;
+  isSaving: boolean;
+  error: string | null;
+  saveAnswers: (answers: IntakeAnswers) => Promise<void>;
+}
+
+/**
+ * The intake answers of the signed-in student, or of the guest on this device
+ */
+export const useIntake = (userId?: string): UseIntakeReturn => {
+  const [intake, setIntake] = useState<IntakeRecord | null>(() => userId ? null : IntakeService.getGuestIntake());
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setIntake(IntakeService.getGuestIntake());
+      return;
+    }
+
+    let cancelled = false;
+    setIntake(null);
+    setError(null);
+
+    IntakeService.getAccountIntake(userId)
+      .then(saved => {
+        if (!cancelled) {
+          setIntake(saved);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load intake answers:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load your answers');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const saveAnswers = useCallback(async (answers: IntakeAnswers) => {
+    if (!userId) {
+      setIntake(IntakeService.saveGuestIntake(answers));
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      setIntake(await IntakeService.saveAccountIntake(userId, answers));
+    } catch (err) {
+      console.error('Failed to save intake answers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save your answers');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [userId]);
+
+  return {
+    intake,
+    isSaving,
+    error,
+    saveAnswers,
+  };
+};
@@ -0,0 +1,80 @@
+import { RefObject, useCallback, useMemo, useState } from 'react';
+import { PIIDetector, PIIMatch, PIIOptions } from '@pii';
+
+export interface PIIGuard {
+  // PII in the current text, found as the user types
+  matches: PIIMatch[];
+  // The user tried to send a message with PII and hasn't chosen what to do yet
+  confirming: boolean;
+  // The text is a redaction made here, which can still be reverted
+  canUndo: boolean;
+  // Call before sending: returns true, and asks the user to choose, when the text has PII
+  hold: () => boolean;
+  // Replace the PII in the text and return the redacted text
+  redact: () => string;
+  undo: () => void;
+  // Go back to the text with the first match selected
+  edit: () => void;
+  reset: () => void;
+}
+
+/**
+ * Check a message for PII before it leaves the browser, using the same detectors as the chat Lambda
+ */
+export const usePIIGuard = (
+  text: string,
+  setText: (text: string) => void,
+  options: { locale?: PIIOptions['locale']; inputRef?: RefObject<HTMLTextAreaElement> } = {}
+): PIIGuard => {
+  const { locale, inputRef } = options;
+  const matches = useMemo(() => PIIDetector.detect(text, { locale }), [text, locale]);
+  const [confirming, setConfirming] = useState(false);
+  const [redaction, setRedaction] = useState<{ original: string; redacted: string } | null>(null);
+
+  const hold = useCallback(() => {
+    setConfirming(matches.length > 0);
+    return matches.length > 0;
+  }, [matches]);
+
+  const redact = useCallback(() => {
+    const redacted = PIIDetector.redact(text, { locale }).text;
+    setRedaction({ original: text, redacted });
+    setText(redacted);
+    setConfirming(false);
+    return redacted;
+  }, [text, locale, setText]);
+
+  const undo = useCallback(() => {
+    if (redaction) {
+      setText(redaction.original);
+      setRedaction(null);
+    }
+  }, [redaction, setText]);
+
+  const edit = useCallback(() => {
+    setConfirming(false);
+    const input = inputRef?.current;
+    if (input && matches.length > 0) {
+      input.focus();
+      input.setSelectionRange(matches[0].start, matches[0].end);
+    }
+  }, [inputRef, matches]);
+
+  const reset = useCallback(() => {
+    setConfirming(false);
+    setRedaction(null);
+  }, []);
+
+  return {
+    matches,
+    // Editing the PII away answers the question too
+    confirming: confirming && matches.length > 0,
+    // Once the user changes the redacted text, undoing would throw their edits away
+    canUndo: redaction !== null && redaction.redacted === text,
+    hold,
+    redact,
+    undo,
+    edit,
+    reset,
+  };
+};
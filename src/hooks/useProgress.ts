@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { UserProgress } from '../types/progress';
 import { User } from '../services/auth';
-import { ProgressService, ProgressUpdateRequest } from '../services/progress';
+import { ProgressService } from '../services/progress';
 
 export interface UseProgressOptions {
   user?: User;
@@ -13,8 +13,8 @@ export interface UseProgressReturn {
   isLoading: boolean;
   error: string | null;
   loadProgress: () => Promise<void>;
-  updateSectionProgress: (section: string, completed: boolean, data?: Record<string, any>) => Promise<void>;
-  markSectionComplete: (section: string, data?: Record<string, any>) => Promise<void>;
+  updateSectionProgress: (section: string, completed: boolean, data?: Record<string, unknown>) => Promise<void>;
+  markSectionComplete: (section: string, data?: Record<string, unknown>) => Promise<void>;
   markSectionIncomplete: (section: string) => Promise<void>;
   getProgressStats: () => {
     totalSections: number;
@@ -59,7 +59,7 @@ export const useProgress = (options: UseProgressOptions = {}): UseProgressReturn
   const updateSectionProgress = useCallback(async (
     section: string, 
     completed: boolean, 
-    data?: Record<string, any>
+    data?: Record<string, unknown>
   ) => {
     if (!user || user.isGuest) {
       throw new Error('User must be authenticated to update progress');
@@ -73,15 +73,10 @@ export const useProgress = (options: UseProgressOptions = {}): UseProgressReturn
     setError(null);
 
     try {
-      const request: ProgressUpdateRequest = {
-        userId: user.userId,
-        section,
-        completed,
-        data,
-      };
-
-      const response = await ProgressService.updateSectionProgress(request);
-      setProgress(response.progress);
+      const updated = completed
+        ? await ProgressService.markSectionComplete(user.userId, section, data)
+        : await ProgressService.markSectionIncomplete(user.userId, section);
+      setProgress(updated);
     } catch (err) {
       console.error('Failed to update progress:', err);
       setError(err instanceof Error ? err.message : 'Failed to update progress');
@@ -92,7 +87,7 @@ export const useProgress = (options: UseProgressOptions = {}): UseProgressReturn
   }, [user]);
 
   // Mark section as complete
-  const markSectionComplete = useCallback(async (section: string, data?: Record<string, any>) => {
+  const markSectionComplete = useCallback(async (section: string, data?: Record<string, unknown>) => {
     await updateSectionProgress(section, true, data);
   }, [updateSectionProgress]);
 
@@ -0,0 +1,140 @@
+import {
+  Role,
+  KnowledgeDocumentSummary,
+  UpsertKnowledgeDocumentRequest,
+  ManagedErrorPattern,
+  UpsertErrorPatternRequest,
+} from '../types';
+import { AuthService } from './auth';
+import { config } from '../config/environment';
+
+/**
+ * Admin tools: assigning roles, and managing knowledge documents and error patterns
+ */
+export class AdminService {
+  private static readonly BASE_URL = config.api.baseUrl;
+  private static readonly USE_MOCK_DATA = import.meta.env.DEV; // Use mock data in development
+
+  private static mockDocuments: KnowledgeDocumentSummary[] = [];
+  private static mockPatterns: ManagedErrorPattern[] = [];
+
+  static async setUserRole(email: string, role: Role): Promise<string> {
+    if (this.USE_MOCK_DATA) {
+      return 'Role updated. It applies the next time they sign in, or within the hour.';
+    }
+
+    const { message } = await this.request<{ message: string }>('/admin/roles', {
+      method: 'PUT',
+      body: JSON.stringify({ email, role }),
+    }, 'Failed to update role');
+    return message;
+  }
+
+  static async listKnowledgeDocuments(): Promise<KnowledgeDocumentSummary[]> {
+    if (this.USE_MOCK_DATA) {
+      return this.mockDocuments;
+    }
+
+    const { documents } = await this.request<{ documents: KnowledgeDocumentSummary[] }>(
+      '/admin/knowledge',
+      { method: 'GET' },
+      'Failed to load knowledge documents'
+    );
+    return documents;
+  }
+
+  static async saveKnowledgeDocument(document: UpsertKnowledgeDocumentRequest): Promise<string> {
+    if (this.USE_MOCK_DATA) {
+      const key = `${document.section}/${document.title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase()}.json`;
+      this.mockDocuments = [
+        ...this.mockDocuments.filter(existing => existing.key !== key),
+        { key, title: document.title, section: document.section, sourceUrl: document.sourceUrl, lastModified: new Date().toISOString() },
+      ];
+      return 'Document saved. Answers use it from now on.';
+    }
+
+    const { message } = await this.request<{ message: string }>('/admin/knowledge', {
+      method: 'PUT',
+      body: JSON.stringify(document),
+    }, 'Failed to save knowledge document');
+    return message;
+  }
+
+  static async deleteKnowledgeDocument(key: string): Promise<string> {
+    if (this.USE_MOCK_DATA) {
+      this.mockDocuments = this.mockDocuments.filter(document => document.key !== key);
+      return 'Document removed. Answers no longer use it.';
+    }
+
+    const { message } = await this.request<{ message: string }>(`/admin/knowledge?key=${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+    }, 'Failed to remove knowledge document');
+    return message;
+  }
+
+  /**
+   * Patterns admins have added or changed; public, so error detection can use them for everyone
+   */
+  static async listErrorPatterns(): Promise<ManagedErrorPattern[]> {
+    if (this.USE_MOCK_DATA) {
+      return this.mockPatterns;
+    }
+
+    const { patterns } = await this.request<{ patterns: ManagedErrorPattern[] }>(
+      '/error-patterns',
+      { method: 'GET' },
+      'Failed to load error patterns'
+    );
+    return patterns;
+  }
+
+  static async saveErrorPattern(id: string, pattern: UpsertErrorPatternRequest): Promise<ManagedErrorPattern> {
+    if (this.USE_MOCK_DATA) {
+      const saved: ManagedErrorPattern = {
+        commonCauses: [],
+        preventionTips: [],
+        enabled: true,
+        ...pattern,
+        id,
+        updatedAt: new Date().toISOString(),
+        updatedBy: AuthService.getCurrentUser()?.email ?? null,
+      };
+      this.mockPatterns = [...this.mockPatterns.filter(existing => existing.id !== id), saved];
+      return saved;
+    }
+
+    const { pattern: saved } = await this.request<{ pattern: ManagedErrorPattern }>(
+      `/admin/error-patterns/${encodeURIComponent(id)}`,
+      { method: 'PUT', body: JSON.stringify(pattern) },
+      'Failed to save error pattern'
+    );
+    return saved;
+  }
+
+  static async deleteErrorPattern(id: string): Promise<void> {
+    if (this.USE_MOCK_DATA) {
+      this.mockPatterns = this.mockPatterns.filter(pattern => pattern.id !== id);
+      return;
+    }
+
+    await this.request(`/admin/error-patterns/${encodeURIComponent(id)}`, { method: 'DELETE' }, 'Failed to remove error pattern');
+  }
+
+  private static async request<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+    const response = await fetch(`${this.BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await AuthService.getFreshAuthorizationHeaders()),
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.error || fallbackError);
+    }
+
+    return data.data;
+  }
+}
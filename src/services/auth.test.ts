@@ -19,7 +19,7 @@ vi.mock('./auth', () => ({
     }),
     signIn: vi.fn().mockResolvedValue({ 
       user: { userId: 'test-user-id', email: 'test@example.com', isGuest: false },
-      tokens: { accessToken: 'access-token', idToken: 'id-token', refreshToken: 'refresh-token' }
+      tokens: { accessToken: 'access-token', idToken: 'id-token' }
     }),
     continueAsGuest: vi.fn().mockResolvedValue({ 
       user: { userId: 'guest_123', email: null, isGuest: true } 
@@ -77,10 +77,10 @@ describe('AuthService', () => {
         password: 'password123',
       });
 
-      expect(result.user.userId).toBe('test-user-id');
-      expect(result.user.email).toBe('test@example.com');
-      expect(result.user.isGuest).toBe(false);
-      expect(result.tokens.accessToken).toBe('access-token');
+      expect(result.user?.userId).toBe('test-user-id');
+      expect(result.user?.email).toBe('test@example.com');
+      expect(result.user?.isGuest).toBe(false);
+      expect(result.tokens?.accessToken).toBe('access-token');
       expect(AuthService.signIn).toHaveBeenCalledWith({
         email: 'test@example.com',
         password: 'password123',
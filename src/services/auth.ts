@@ -1,4 +1,17 @@
-import { AuthSignUpRequest, AuthSignInRequest, AuthResetPasswordRequest } from '../types';
+import { migrateChecklist } from '@contracts';
+import type { GuestSession, GuestState, Role } from '@contracts';
+import {
+  AuthSignUpRequest,
+  AuthSignInRequest,
+  AuthResetPasswordRequest,
+  AuthVerifyEmailRequest,
+  AuthConfirmResetRequest,
+  AuthChangePasswordRequest,
+  AuthRespondToChallengeRequest,
+  AuthMfaSmsSetupRequest,
+  AuthChallenge,
+  MfaStatus,
+} from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_GATEWAY_URL || '';
 
@@ -11,20 +24,57 @@ export interface User {
   userId: string;
   email: string | null;
   isGuest: boolean;
+  // From the account's Cognito groups at sign-in; guests are students
+  role: Role;
 }
 
 export interface AuthTokens {
   accessToken: string;
   idToken: string;
-  refreshToken?: string;
+  // ISO time the ID and access tokens expire
+  expiresAt: string;
 }
 
+// Where a sign-in stands: signed in, stopped at a challenge (an MFA code, MFA setup or a new
+// password), or waiting for a counselor who just set up MFA to sign in again with a code
+export type SignInStep =
+  | { user: User; tokens: AuthTokens; challenge?: undefined; signInAgain?: undefined }
+  | { challenge: AuthChallenge; user?: undefined; tokens?: undefined; signInAgain?: undefined }
+  | { signInAgain: true; message: string; user?: undefined; tokens?: undefined; challenge?: undefined };
+
+// Refresh this long before the tokens expire, so a request never leaves with a token about to lapse
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+// Thrown by signIn for an account whose email hasn't been verified yet
+export class UnverifiedEmailError extends Error {
+  constructor(message: string, public email: string) {
+    super(message);
+    this.name = 'UnverifiedEmailError';
+  }
+}
+
+// Where a guest's state lives locally (owned by ChatContext and ChecklistService); sign-up carries it into the account
+const GUEST_STATE_KEYS = {
+  CHAT: 'chat-guest-state',
+  CHECKLIST: 'fafsaChecklist',
+};
+
 export class AuthService {
   private static readonly STORAGE_KEYS = {
     USER: 'educate_first_ai_user',
-    TOKENS: 'educate_first_ai_tokens',
+    // Where tokens were kept before they moved out of storage; removed on sign-out
+    LEGACY_TOKENS: 'educate_first_ai_tokens',
+    LEGACY_REFRESH_TOKEN: 'educate_first_ai_refresh_token',
+    GUEST_SESSION: 'educate_first_ai_guest_session',
   };
 
+  // ID and access tokens live only in memory. The refresh token never reaches this code: sign-in
+  // sets it as an HttpOnly cookie that only /auth/refresh and /auth/signout read, so scripts on
+  // the page can't take it, and a reload or a new tab gets fresh tokens with it.
+  private static tokens: AuthTokens | null = null;
+  private static refreshing: Promise<AuthTokens | null> | null = null;
+  private static sessionExpiredListeners = new Set<() => void>();
+
   // Security headers for all requests
   private static getSecurityHeaders(): Record<string, string> {
     return {
@@ -35,43 +85,67 @@ export class AuthService {
     };
   }
 
-  // Secure fetch wrapper
-  private static async secureFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  // Secure fetch wrapper. Authenticated requests refresh the tokens when they are about to
+  // expire, and once more if the API still rejects them.
+  private static async secureFetch(
+    url: string,
+    options: RequestInit = {},
+    { authenticated = false }: { authenticated?: boolean } = {}
+  ): Promise<Response> {
     // Enforce HTTPS
     if (!url.startsWith('https://') && !url.includes('localhost')) {
       throw new Error('HTTPS is required for all API communications');
     }
 
-    const secureOptions: RequestInit = {
+    const send = async (authHeaders: Record<string, string>) => fetch(url, {
       ...options,
       headers: {
         ...this.getSecurityHeaders(),
         ...options.headers,
+        ...authHeaders,
       },
-    };
+    });
+
+    if (!authenticated) {
+      return send({});
+    }
 
-    return fetch(url, secureOptions);
+    const response = await send(await this.getFreshAuthorizationHeaders());
+    if (response.status !== 401 || !this.isAuthenticated()) {
+      return response;
+    }
+
+    const tokens = await this.refreshTokens();
+    return tokens ? send({ Authorization: tokens.idToken }) : response;
   }
 
   /**
    * Sign up a new user
    */
-  static async signUp(request: AuthSignUpRequest): Promise<{ user: User }> {
+  static async signUp(request: AuthSignUpRequest): Promise<{ user: User; verificationRequired: boolean }> {
     // In development mode without API, create a mock user
     if (!API_BASE_URL || import.meta.env.DEV) {
       const mockUser: User = {
         userId: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         email: request.email,
         isGuest: false,
+        role: request.role ?? 'student',
       };
       
       this.storeUser(mockUser);
-      return { user: mockUser };
+      return { user: mockUser, verificationRequired: false };
     }
 
+    // A guest signing up brings their conversation and checklist along. The server accepts
+    // an expired session here, so guests who took a while to decide don't lose their work.
+    const guestSession = this.getGuestSession({ includeExpired: true });
+    const body = guestSession
+      ? { ...request, guestToken: guestSession.token, guestState: this.collectGuestState() }
+      : request;
+
     const response = await this.secureFetch(`${API_BASE_URL}/auth/signup`, {
       method: 'POST',
-      body: JSON.stringify(request),
+      body: JSON.stringify(body),
     });
 
     const data = await response.json();
@@ -81,59 +155,140 @@ export class AuthService {
     }
 
     const user = data.data.user;
-    this.storeUser(user);
+    const verificationRequired: boolean = data.data.verificationRequired;
 
-    return { user };
+    // Until the email is verified the account can't sign in, so the user stays signed out
+    if (!verificationRequired) {
+      this.storeUser(user);
+    }
+
+    if (guestSession) {
+      this.moveGuestChatToAccount(user.userId, data.data.carriedOver?.conversationId);
+      this.clearGuestSession();
+    }
+
+    return { user, verificationRequired };
+  }
+
+  /**
+   * Confirm a new account's email with the code Cognito sent
+   */
+  static async verifyEmail(request: AuthVerifyEmailRequest): Promise<{ message: string }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { message: 'Your email has been verified. You can now sign in.' };
+    }
+
+    return this.postForMessage('/auth/verify', request, 'Failed to verify email');
   }
 
   /**
-   * Sign in an existing user
+   * Send a new email verification code
    */
-  static async signIn(request: AuthSignInRequest): Promise<{ user: User; tokens: AuthTokens }> {
+  static async resendVerification(email: string): Promise<{ message: string }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { message: 'A new verification code has been sent to your email.' };
+    }
+
+    return this.postForMessage('/auth/verify/resend', { email }, 'Failed to send a new code');
+  }
+
+  /**
+   * Sign in an existing user. Accounts with MFA, or that must set a new password, stop at a
+   * challenge that respondToChallenge answers.
+   */
+  static async signIn(request: AuthSignInRequest): Promise<SignInStep> {
     // In development mode without API, create a mock user
     if (!API_BASE_URL || import.meta.env.DEV) {
-      const mockUser: User = {
-        userId: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        email: request.email,
-        isGuest: false,
-      };
-      
-      const mockTokens: AuthTokens = {
-        accessToken: 'mock_access_token',
-        idToken: 'mock_id_token',
-        refreshToken: 'mock_refresh_token',
-      };
-      
-      this.storeUser(mockUser);
-      this.storeTokens(mockTokens);
-      
-      return { user: mockUser, tokens: mockTokens };
+      return this.signInMockUser(request.email);
     }
 
     const response = await this.secureFetch(`${API_BASE_URL}/auth/signin`, {
       method: 'POST',
       body: JSON.stringify(request),
+      credentials: 'include',
     });
 
     const data = await response.json();
 
     if (!response.ok) {
+      if (data.code === 'USER_NOT_CONFIRMED') {
+        throw new UnverifiedEmailError(data.error, request.email);
+      }
       throw new Error(data.error || 'Failed to sign in');
     }
 
-    const user = data.data.user;
-    const tokens = data.data.tokens;
+    return this.completeSignInStep(data.data);
+  }
 
-    this.storeUser(user);
-    this.storeTokens(tokens);
+  /**
+   * Answer the challenge a sign-in stopped at; ends in tokens or the next challenge
+   */
+  static async respondToChallenge(request: AuthRespondToChallengeRequest): Promise<SignInStep> {
+    // In development mode without API, sign-in never raises a challenge
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return this.signInMockUser(request.email);
+    }
+
+    const response = await this.secureFetch(`${API_BASE_URL}/auth/challenge`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+      credentials: 'include',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to sign in');
+    }
+
+    return this.completeSignInStep(data.data);
+  }
+
+  /**
+   * Rebuild the session after a page load. Tokens aren't persisted, so a signed-in user gets
+   * new ones with the refresh token cookie; without it they are signed out rather than left
+   * looking signed in with requests that fail.
+   */
+  static async restoreSession(): Promise<{ user: User | null; tokens: AuthTokens | null }> {
+    const user = this.getCurrentUser();
+    if (!user || user.isGuest || this.tokens) {
+      return { user, tokens: this.tokens };
+    }
+
+    const tokens = await this.refreshTokens();
+    if (!tokens) {
+      this.clearStorage();
+      return { user: null, tokens: null };
+    }
 
     return { user, tokens };
   }
 
+  /**
+   * Called when the session can no longer be refreshed and the user has been signed out
+   */
+  static onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
   /**
    * Sign out the current user
    */
   static async signOut(): Promise<void> {
+    // Only the API can revoke the refresh token and remove its HttpOnly cookie
+    if (API_BASE_URL && !import.meta.env.DEV && this.isAuthenticated()) {
+      try {
+        await this.secureFetch(`${API_BASE_URL}/auth/signout`, { method: 'POST', credentials: 'include' });
+      } catch (error) {
+        console.error('Failed to sign out on the server:', error);
+      }
+    }
+
     this.clearStorage();
   }
 
@@ -162,6 +317,135 @@ export class AuthService {
     return { message: data.data.message };
   }
 
+  /**
+   * Finish a password reset with the emailed code and a new password
+   */
+  static async confirmPasswordReset(request: AuthConfirmResetRequest): Promise<{ message: string }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { message: 'Your password has been reset. You can now sign in with your new password.' };
+    }
+
+    return this.postForMessage('/auth/confirm-reset', request, 'Failed to reset password');
+  }
+
+  /**
+   * Change the signed-in user's password. Cognito needs the access token for this,
+   * while the route's authorizer checks the ID token.
+   */
+  static async changePassword(request: AuthChangePasswordRequest): Promise<{ message: string }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { message: 'Your password has been changed.' };
+    }
+
+    // Refresh first so the access token in the body is as fresh as the one in the header
+    await this.getFreshAuthorizationHeaders();
+    const tokens = this.getCurrentTokens();
+    if (!tokens?.accessToken) {
+      throw new Error('Please sign in again to change your password');
+    }
+
+    return this.postForMessage(
+      '/auth/change-password',
+      { ...request, accessToken: tokens.accessToken },
+      'Failed to change password',
+      { authenticated: true }
+    );
+  }
+
+  /**
+   * Which second factors the signed-in user has set up, and whether their account requires one
+   */
+  static async getMfaStatus(): Promise<MfaStatus> {
+    // In development mode without API, nothing is set up
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { totp: false, sms: false, phoneNumber: null, required: false };
+    }
+
+    const { mfa } = await this.postWithAccessToken<{ mfa: MfaStatus }>(
+      '/auth/mfa/status',
+      {},
+      'Failed to load two-step verification settings'
+    );
+    return mfa;
+  }
+
+  /**
+   * Start authenticator app setup; the secret is confirmed with verifyTotp
+   */
+  static async setupTotp(): Promise<{ secretCode: string; otpauthUri: string }> {
+    // In development mode without API, return a mock secret
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return {
+        secretCode: 'MOCKSECRETCODE234567',
+        otpauthUri: 'otpauth://totp/EducateFirstAI?secret=MOCKSECRETCODE234567&issuer=EducateFirstAI',
+      };
+    }
+
+    return this.postWithAccessToken('/auth/mfa/totp', {}, 'Failed to start authenticator app setup');
+  }
+
+  static async verifyTotp(code: string): Promise<{ message: string; mfa: MfaStatus }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return {
+        message: 'Two-step verification with your authenticator app is on',
+        mfa: { totp: true, sms: false, phoneNumber: null, required: false },
+      };
+    }
+
+    return this.postWithAccessToken('/auth/mfa/totp/verify', { code }, 'Failed to turn on two-step verification');
+  }
+
+  /**
+   * Save a mobile number for text message codes; Cognito texts a code that verifySms confirms
+   */
+  static async setupSms(request: AuthMfaSmsSetupRequest): Promise<{ message: string }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return { message: 'We texted a 6-digit code to your phone' };
+    }
+
+    return this.postWithAccessToken('/auth/mfa/sms', request, 'Failed to send a code to that number');
+  }
+
+  static async verifySms(code: string): Promise<{ message: string; mfa: MfaStatus }> {
+    // In development mode without API, return a mock success message
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return {
+        message: 'Two-step verification with text message codes is on',
+        mfa: { totp: false, sms: true, phoneNumber: null, required: false },
+      };
+    }
+
+    return this.postWithAccessToken('/auth/mfa/sms/verify', { code }, 'Failed to turn on text message codes');
+  }
+
+  /**
+   * Delete the signed-in user's account and everything stored for it, then sign out
+   */
+  static async deleteAccount(userId: string): Promise<{ message: string }> {
+    // In development mode without API, only local data exists
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      this.clearAccountData(userId);
+      return { message: 'Your account and all of its data have been deleted' };
+    }
+
+    const response = await this.secureFetch(`${API_BASE_URL}/auth/user/${userId}`, {
+      method: 'DELETE',
+    }, { authenticated: true });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to delete account');
+    }
+
+    this.clearAccountData(userId);
+    return { message: data.data.message };
+  }
+
   /**
    * Continue as guest
    */
@@ -172,12 +456,54 @@ export class AuthService {
         userId: `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         email: null,
         isGuest: true,
+        role: 'student',
       };
       
       this.storeUser(guestUser);
       return { user: guestUser };
     }
 
+    const { user } = await this.startGuestSession();
+    this.storeUser(user);
+
+    return { user };
+  }
+
+  /**
+   * Headers for the guest chat routes, starting a new guest session when there is none
+   * or the current one has expired
+   */
+  static async getGuestHeaders(): Promise<Record<string, string>> {
+    // Development mode has no API to issue sessions
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      return {};
+    }
+
+    const session = this.getGuestSession() ?? (await this.startGuestSession()).session;
+    return { 'X-Guest-Token': session.token };
+  }
+
+  /**
+   * The stored guest session, or null when there is none or it has expired
+   */
+  static getGuestSession(options: { includeExpired?: boolean } = {}): GuestSession | null {
+    try {
+      const sessionJson = localStorage.getItem(this.STORAGE_KEYS.GUEST_SESSION);
+      const session: GuestSession | null = sessionJson ? JSON.parse(sessionJson) : null;
+      if (!session || (!options.includeExpired && new Date(session.expiresAt).getTime() <= Date.now())) {
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.error('Failed to get guest session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the API for a signed guest session and store it
+   */
+  private static async startGuestSession(): Promise<{ user: User; session: GuestSession }> {
     const response = await this.secureFetch(`${API_BASE_URL}/auth/guest`, {
       method: 'POST',
     });
@@ -188,10 +514,73 @@ export class AuthService {
       throw new Error(data.error || 'Failed to create guest session');
     }
 
-    const user = data.data.user;
-    this.storeUser(user);
+    const { user, session } = data.data;
+    try {
+      localStorage.setItem(this.STORAGE_KEYS.GUEST_SESSION, JSON.stringify(session));
+    } catch (error) {
+      console.error('Failed to store guest session:', error);
+    }
 
-    return { user };
+    return { user, session };
+  }
+
+  /**
+   * Gather the guest's active conversation and checklist for sign-up
+   */
+  private static collectGuestState(): GuestState {
+    const guestState: GuestState = {};
+
+    try {
+      const chatJson = localStorage.getItem(GUEST_STATE_KEYS.CHAT);
+      const chat = chatJson ? JSON.parse(chatJson) : null;
+      const messages: any[] = chat?.activeConversationId ? chat.conversations?.[chat.activeConversationId] ?? [] : [];
+      const conversation = messages
+        .filter(message => message.content && (message.sender === 'user' || message.sender === 'ai'))
+        .slice(-100)
+        .map(message => ({
+          content: message.content,
+          sender: message.sender,
+          timestamp: new Date(message.timestamp).toISOString(),
+        }));
+      if (conversation.length > 0) {
+        guestState.conversation = conversation;
+      }
+
+      const checklistJson = localStorage.getItem(GUEST_STATE_KEYS.CHECKLIST);
+      const checklist = checklistJson ? migrateChecklist(JSON.parse(checklistJson), new Date().toISOString()) : {};
+      if (Object.keys(checklist).length > 0) {
+        guestState.checklist = checklist;
+      }
+    } catch (error) {
+      console.error('Failed to collect guest state:', error);
+    }
+
+    return guestState;
+  }
+
+  /**
+   * Keep the guest's chat visible after sign-up: ChatContext loads the account's state and
+   * discards the guest state once the new user is set. The active conversation takes the id
+   * the server stored it under, so follow-up questions continue it.
+   */
+  private static moveGuestChatToAccount(userId: string, conversationId?: string): void {
+    try {
+      const chatJson = localStorage.getItem(GUEST_STATE_KEYS.CHAT);
+      if (!chatJson) {
+        return;
+      }
+
+      const chat = JSON.parse(chatJson);
+      if (conversationId && chat.activeConversationId && chat.conversations?.[chat.activeConversationId]) {
+        const { [chat.activeConversationId]: messages, ...others } = chat.conversations;
+        chat.conversations = { ...others, [conversationId]: messages };
+        chat.activeConversationId = conversationId;
+      }
+
+      localStorage.setItem(`chat-state-${userId}`, JSON.stringify(chat));
+    } catch (error) {
+      console.error('Failed to move guest chat to account:', error);
+    }
   }
 
   /**
@@ -200,7 +589,8 @@ export class AuthService {
   static getCurrentUser(): User | null {
     try {
       const userJson = localStorage.getItem(this.STORAGE_KEYS.USER);
-      return userJson ? JSON.parse(userJson) : null;
+      // Users stored before roles existed are students
+      return userJson ? { role: 'student', ...JSON.parse(userJson) } : null;
     } catch (error) {
       console.error('Failed to get current user:', error);
       return null;
@@ -208,16 +598,10 @@ export class AuthService {
   }
 
   /**
-   * Get current tokens from storage
+   * Get the current tokens, which are only kept in memory
    */
   static getCurrentTokens(): AuthTokens | null {
-    try {
-      const tokensJson = localStorage.getItem(this.STORAGE_KEYS.TOKENS);
-      return tokensJson ? JSON.parse(tokensJson) : null;
-    } catch (error) {
-      console.error('Failed to get current tokens:', error);
-      return null;
-    }
+    return this.tokens;
   }
 
   /**
@@ -237,20 +621,39 @@ export class AuthService {
   }
 
   /**
-   * Get user profile
+   * Authorization header for routes behind the API's Cognito authorizer, which expects the ID token.
+   * Guests get their session token in X-Guest-Token instead; empty for signed-out users.
    */
-  static async getUserProfile(userId: string): Promise<User> {
+  static getAuthorizationHeaders(): Record<string, string> {
     const tokens = this.getCurrentTokens();
-    const headers: Record<string, string> = {};
+    if (tokens?.idToken) {
+      return { Authorization: tokens.idToken };
+    }
 
-    if (tokens?.accessToken) {
-      headers.Authorization = `Bearer ${tokens.accessToken}`;
+    const guestSession = this.getGuestSession();
+    return guestSession ? { 'X-Guest-Token': guestSession.token } : {};
+  }
+
+  /**
+   * Authorization headers with tokens that won't expire mid-request: refreshes them first when
+   * they are close to expiring. Use this rather than getAuthorizationHeaders before API calls.
+   */
+  static async getFreshAuthorizationHeaders(): Promise<Record<string, string>> {
+    const expiresAt = this.tokens ? new Date(this.tokens.expiresAt).getTime() : 0;
+    if (this.isAuthenticated() && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      await this.refreshTokens();
     }
 
+    return this.getAuthorizationHeaders();
+  }
+
+  /**
+   * Get user profile
+   */
+  static async getUserProfile(userId: string): Promise<User> {
     const response = await this.secureFetch(`${API_BASE_URL}/auth/user/${userId}`, {
       method: 'GET',
-      headers,
-    });
+    }, { authenticated: true });
 
     const data = await response.json();
 
@@ -273,13 +676,61 @@ export class AuthService {
   }
 
   /**
-   * Store tokens in localStorage
+   * Keep tokens in memory only
    */
   private static storeTokens(tokens: AuthTokens): void {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Exchange the refresh token cookie for new tokens. Concurrent callers share one request. When the
+   * refresh token is rejected the user is signed out and session-expired listeners are told;
+   * a network failure leaves the session as it is so the next request can try again.
+   */
+  private static refreshTokens(): Promise<AuthTokens | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private static async requestRefresh(): Promise<AuthTokens | null> {
+    // In development mode without API, extend the mock tokens
+    if (!API_BASE_URL || import.meta.env.DEV) {
+      const tokens: AuthTokens = {
+        accessToken: 'mock_access_token',
+        idToken: 'mock_id_token',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      };
+      this.storeTokens(tokens);
+      return tokens;
+    }
+
     try {
-      localStorage.setItem(this.STORAGE_KEYS.TOKENS, JSON.stringify(tokens));
+      const response = await this.secureFetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (response.status === 401) {
+        this.clearStorage();
+        this.sessionExpiredListeners.forEach(listener => listener());
+        return null;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refresh session');
+      }
+
+      const tokens: AuthTokens = data.data.tokens;
+      this.storeTokens(tokens);
+      return tokens;
     } catch (error) {
-      console.error('Failed to store tokens:', error);
+      console.error('Failed to refresh session:', error);
+      return null;
     }
   }
 
@@ -288,10 +739,118 @@ export class AuthService {
    */
   private static clearStorage(): void {
     try {
+      this.tokens = null;
       localStorage.removeItem(this.STORAGE_KEYS.USER);
-      localStorage.removeItem(this.STORAGE_KEYS.TOKENS);
+      localStorage.removeItem(this.STORAGE_KEYS.LEGACY_TOKENS);
+      localStorage.removeItem(this.STORAGE_KEYS.LEGACY_REFRESH_TOKEN);
+      sessionStorage.removeItem(this.STORAGE_KEYS.LEGACY_REFRESH_TOKEN);
+      localStorage.removeItem(this.STORAGE_KEYS.GUEST_SESSION);
     } catch (error) {
       console.error('Failed to clear storage:', error);
     }
   }
+
+  /**
+   * Sign out and remove the chat state kept locally for a deleted account
+   */
+  private static clearAccountData(userId: string): void {
+    this.clearStorage();
+    try {
+      localStorage.removeItem(`chat-state-${userId}`);
+    } catch (error) {
+      console.error('Failed to clear chat state:', error);
+    }
+  }
+
+  /**
+   * Store the user and tokens when a sign-in step ends signed in
+   */
+  private static completeSignInStep(step: SignInStep): SignInStep {
+    if (step.user) {
+      this.storeUser(step.user);
+      this.storeTokens(step.tokens);
+    }
+
+    return step;
+  }
+
+  private static signInMockUser(email: string): SignInStep {
+    const mockUser: User = {
+      userId: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      email,
+      isGuest: false,
+      role: 'student',
+    };
+
+    const mockTokens: AuthTokens = {
+      accessToken: 'mock_access_token',
+      idToken: 'mock_id_token',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    };
+
+    this.storeUser(mockUser);
+    this.storeTokens(mockTokens);
+
+    return { user: mockUser, tokens: mockTokens };
+  }
+
+  /**
+   * POST to one of the MFA enrollment routes, which run on the access token in the body while
+   * the authorizer checks the ID token in the header
+   */
+  private static async postWithAccessToken<T>(path: string, body: object, fallbackError: string): Promise<T> {
+    // Refresh first so the access token in the body is as fresh as the one in the header
+    await this.getFreshAuthorizationHeaders();
+    const tokens = this.getCurrentTokens();
+    if (!tokens?.accessToken) {
+      throw new Error('Please sign in again to manage two-step verification');
+    }
+
+    const response = await this.secureFetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      body: JSON.stringify({ ...body, accessToken: tokens.accessToken }),
+    }, { authenticated: true });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || fallbackError);
+    }
+
+    return data.data;
+  }
+
+  /**
+   * POST to an auth route that answers with a message
+   */
+  private static async postForMessage(
+    path: string,
+    body: unknown,
+    fallbackError: string,
+    fetchOptions: { authenticated?: boolean } = {}
+  ): Promise<{ message: string }> {
+    const response = await this.secureFetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    }, fetchOptions);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || fallbackError);
+    }
+
+    return { message: data.data.message };
+  }
+
+  /**
+   * Forget the guest session once it has been upgraded to an account
+   */
+  private static clearGuestSession(): void {
+    try {
+      localStorage.removeItem(this.STORAGE_KEYS.GUEST_SESSION);
+    } catch (error) {
+      console.error('Failed to clear guest session:', error);
+    }
+  }
 }
\ No newline at end of file
@@ -243,50 +243,6 @@ export class CachingService {
     return totalSize;
   }
 
-  /**
-   * Preload common FAFSA responses
-   */
-  static preloadCommonResponses(): void {
-    const commonResponses = [
-      {
-        query: 'what is fafsa',
-        response: 'The FAFSA (Free Application for Federal Student Aid) is a form that students fill out to apply for federal financial aid for college. It helps determine your eligibility for grants, loans, and work-study programs.',
-      },
-      {
-        query: 'fafsa requirements',
-        response: 'To complete the FAFSA, you need your Social Security number, tax returns, bank statements, investment records, and records of untaxed income. You must be a U.S. citizen or eligible non-citizen.',
-      },
-      {
-        query: 'dependency status',
-        response: 'Your dependency status determines whose financial information you need to provide on the FAFSA. If you\'re under 24, unmarried, and don\'t meet other independence criteria, you\'re considered dependent.',
-      },
-      {
-        query: 'fafsa deadlines',
-        response: 'The federal FAFSA deadline is June 30th, but many states and schools have earlier deadlines. Submit your FAFSA as early as possible after October 1st for the best aid opportunities.',
-      },
-      {
-        query: 'pell grant',
-        response: 'Pell Grants are federal grants that don\'t need to be repaid. The maximum award for 2023-24 is $7,395. Eligibility is based on financial need, cost of attendance, and enrollment status.',
-      },
-    ];
-
-    commonResponses.forEach(({ query, response }) => {
-      this.set(query, {
-        message: {
-          id: `cached_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          content: response,
-          sender: 'ai',
-          timestamp: new Date(),
-          metadata: {
-            sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
-            cached: true,
-          },
-        },
-        sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
-      }, undefined, 4 * 60 * 60 * 1000); // 4 hours for preloaded responses
-    });
-  }
-
   /**
    * Get cache performance metrics for monitoring
    */
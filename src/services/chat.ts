@@ -1,5 +1,6 @@
+import type { ChatMessageRequest } from '@contracts';
 import { Message } from '../types/message';
-import { User } from '../services/auth';
+import { AuthService, User } from '../services/auth';
 import { 
   AppError, 
   ErrorContext, 
@@ -9,15 +10,16 @@ import {
   ServiceUnavailableError, 
   ValidationError,
   TimeoutError,
+  RateLimitError,
   ErrorType 
 } from '../utils/errorHandling';
-import { CachingService } from './caching';
-import { PerformanceMonitoringService } from './performance';
+import { config } from '../config/environment';
 
 export interface ChatResponse {
   message: Message;
   sources?: string[];
   conversationId?: string;
+  privacyWarnings?: string[];
 }
 
 export interface ChatHistoryResponse {
@@ -25,16 +27,19 @@ export interface ChatHistoryResponse {
   hasMore: boolean;
 }
 
-export interface SendMessageRequest {
-  content: string;
-  userId?: string;
-  conversationId?: string;
+// The body POST /chat accepts, from the shared API contract
+export type SendMessageRequest = ChatMessageRequest;
+
+export interface SendMessageOptions {
+  /** Called with each text delta while the answer streams in */
+  onToken?: (token: string) => void;
 }
 
 export class ChatService {
-  private static readonly BASE_URL = '/api/chat';
+  private static readonly BASE_URL = `${config.api.baseUrl}/chat`;
+  private static readonly STREAM_URL = import.meta.env.VITE_CHAT_STREAM_URL || '/api/chat/stream';
   private static readonly REQUEST_TIMEOUT = 30000; // 30 seconds
-  private static readonly USE_MOCK_DATA = import.meta.env.DEV; // Use mock data in development
+  private static readonly STREAM_IDLE_TIMEOUT = 15000; // 15 seconds without a token
 
   /**
    * Create a welcome message for new users
@@ -66,148 +71,10 @@ What would you like to know about FAFSA today?`;
   }
 
   /**
-   * Generate mock AI response for development
-   */
-  private static generateMockResponse(content: string, userId?: string): ChatResponse {
-    const lowerContent = content.toLowerCase();
-    
-    // Contextual responses based on question keywords
-    let response: string;
-    
-    // Financial aid amount questions
-    if (lowerContent.includes('how much') || lowerContent.includes('amount') || lowerContent.includes('get back')) {
-      response = "The amount of financial aid you receive through FAFSA depends on several factors:\n\n" +
-        "• **Your Expected Family Contribution (EFC)**: Calculated from your family's income and assets\n" +
-        "• **Cost of Attendance (COA)**: The total cost of your school\n" +
-        "• **Your financial need**: COA minus EFC\n\n" +
-        "**Pell Grant**: Up to $7,395 per year (2023-24) for students with exceptional financial need\n" +
-        "**Federal Student Loans**: Undergrads can borrow $5,500-$12,500 per year depending on year in school\n" +
-        "**Work-Study**: Varies by school and availability\n\n" +
-        "The exact amount varies greatly - some students receive $0, while others get full tuition coverage plus living expenses. Complete your FAFSA to get your personalized estimate!";
-    }
-    // Documents/requirements questions
-    else if (lowerContent.includes('document') || lowerContent.includes('need') || lowerContent.includes('require')) {
-      response = "To complete the FAFSA, you'll need:\n\n" +
-        "**Personal Information:**\n" +
-        "• Social Security number\n" +
-        "• Driver's license (if you have one)\n" +
-        "• Alien Registration number (if not a U.S. citizen)\n\n" +
-        "**Financial Information:**\n" +
-        "• Federal tax returns (yours and parents' if dependent)\n" +
-        "• W-2 forms and other income records\n" +
-        "• Bank statements and investment records\n" +
-        "• Records of untaxed income\n\n" +
-        "**School Information:**\n" +
-        "• List of schools you're interested in (Federal School Codes)\n\n" +
-        "💡 Tip: Use the IRS Data Retrieval Tool to automatically import tax information!";
-    }
-    // Dependency status questions
-    else if (lowerContent.includes('dependent') || lowerContent.includes('independent') || lowerContent.includes('parent')) {
-      response = "Your dependency status determines whose financial information you need to provide:\n\n" +
-        "**You're INDEPENDENT if you:**\n" +
-        "• Are 24 or older\n" +
-        "• Are married\n" +
-        "• Have children or dependents\n" +
-        "• Are a veteran or active military\n" +
-        "• Are an orphan or ward of the court\n" +
-        "• Are an emancipated minor\n\n" +
-        "**You're DEPENDENT if:**\n" +
-        "• You don't meet any of the above criteria\n" +
-        "• You'll need to provide parent financial information\n\n" +
-        "⚠️ Note: Just living on your own or parents refusing to help doesn't make you independent for FAFSA purposes.";
-    }
-    // Deadline questions
-    else if (lowerContent.includes('deadline') || lowerContent.includes('when') || lowerContent.includes('due')) {
-      response = "FAFSA deadlines are important:\n\n" +
-        "**Federal Deadline:**\n" +
-        "• Opens: October 1st each year\n" +
-        "• Federal deadline: June 30th (for the current award year)\n\n" +
-        "**State Deadlines:**\n" +
-        "• Vary by state - some as early as March!\n" +
-        "• Check your state's deadline at studentaid.gov\n\n" +
-        "**School Deadlines:**\n" +
-        "• Each college sets its own priority deadline\n" +
-        "• Often between January and March\n\n" +
-        "🎯 Best Practice: Submit as early as possible after October 1st! Some aid is first-come, first-served.";
-    }
-    // Eligibility questions
-    else if (lowerContent.includes('eligible') || lowerContent.includes('qualify') || lowerContent.includes('can i')) {
-      response = "To be eligible for federal student aid, you must:\n\n" +
-        "✅ **Be a U.S. citizen or eligible noncitizen**\n" +
-        "✅ **Have a valid Social Security number**\n" +
-        "✅ **Be enrolled or accepted in an eligible degree program**\n" +
-        "✅ **Be enrolled at least half-time for most programs**\n" +
-        "✅ **Maintain satisfactory academic progress**\n" +
-        "✅ **Not owe refunds on federal grants**\n" +
-        "✅ **Not be in default on federal student loans**\n" +
-        "✅ **Register with Selective Service (if male, 18-25)**\n\n" +
-        "Most students are eligible for some form of aid - it's always worth applying!";
-    }
-    // What is FAFSA questions
-    else if (lowerContent.includes('what is') || lowerContent.includes('what\'s') || lowerContent.includes('explain')) {
-      response = "The FAFSA (Free Application for Federal Student Aid) is the official form to apply for federal financial aid for college.\n\n" +
-        "**What it does:**\n" +
-        "• Determines your eligibility for federal grants, loans, and work-study\n" +
-        "• Used by states and colleges to award their own aid\n" +
-        "• Calculates your Expected Family Contribution (EFC)\n\n" +
-        "**Types of aid you can get:**\n" +
-        "• **Grants**: Free money you don't repay (like Pell Grants)\n" +
-        "• **Loans**: Money you borrow and must repay with interest\n" +
-        "• **Work-Study**: Part-time jobs to earn money for school\n\n" +
-        "It's completely free to fill out and takes about 30-45 minutes!";
-    }
-    // How to fill out questions
-    else if (lowerContent.includes('how to') || lowerContent.includes('fill out') || lowerContent.includes('complete')) {
-      response = "Here's how to complete your FAFSA:\n\n" +
-        "**Step 1: Create an FSA ID**\n" +
-        "• Go to studentaid.gov\n" +
-        "• Both you and one parent need separate FSA IDs (if dependent)\n\n" +
-        "**Step 2: Gather Documents**\n" +
-        "• Tax returns, W-2s, bank statements\n" +
-        "• Social Security numbers\n" +
-        "• School codes for colleges you're applying to\n\n" +
-        "**Step 3: Fill Out the Form**\n" +
-        "• Go to fafsa.gov\n" +
-        "• Answer all questions carefully\n" +
-        "• Use the IRS Data Retrieval Tool when possible\n\n" +
-        "**Step 4: Sign and Submit**\n" +
-        "• Both student and parent must sign with FSA IDs\n" +
-        "• Submit and save your confirmation\n\n" +
-        "💡 Tip: Save your progress frequently!";
-    }
-    // Default response for other questions
-    else {
-      response = "That's a great FAFSA question! Here's what you should know:\n\n" +
-        "The FAFSA process can seem complex, but I'm here to help break it down. " +
-        "For the most accurate and detailed information about your specific situation, I recommend:\n\n" +
-        "• Visiting the official StudentAid.gov website\n" +
-        "• Contacting your school's financial aid office\n" +
-        "• Calling the Federal Student Aid Information Center at 1-800-433-3243\n\n" +
-        "Feel free to ask me more specific questions about:\n" +
-        "• FAFSA deadlines and requirements\n" +
-        "• What documents you need\n" +
-        "• Dependency status\n" +
-        "• Types of financial aid available\n" +
-        "• How to fill out specific sections";
-    }
-    
-    return {
-      message: {
-        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content: response,
-        sender: 'ai',
-        timestamp: new Date(),
-      },
-      sources: ['https://studentaid.gov/apply-for-aid/fafsa'],
-      conversationId: `conv_${userId || 'guest'}_${Date.now()}`,
-    };
-  }
-
-  /**
-   * Send a message to the AI assistant with comprehensive error handling
+   * Send a message to the AI assistant with comprehensive error handling.
+   * When `onToken` is provided the answer is streamed and tokens are reported as they arrive.
    */
-  static async sendMessage(request: SendMessageRequest): Promise<ChatResponse> {
-    const startTime = Date.now();
+  static async sendMessage(request: SendMessageRequest, options: SendMessageOptions = {}): Promise<ChatResponse> {
     const context: ErrorContext = {
       action: 'send_chat_message',
       timestamp: new Date(),
@@ -219,45 +86,6 @@ What would you like to know about FAFSA today?`;
       },
     };
 
-    // Check cache first
-    const cacheKey = request.content.toLowerCase().trim();
-    const cachedResponse = CachingService.get<ChatResponse>(cacheKey, request.userId);
-    
-    if (cachedResponse) {
-      const responseTime = Date.now() - startTime;
-      PerformanceMonitoringService.recordMetric('send_message', responseTime, true, true);
-      return cachedResponse;
-    }
-
-    // Use mock data in development
-    if (this.USE_MOCK_DATA) {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-      
-      // Simulate occasional errors for testing error handling
-      if (Math.random() < 0.1) { // 10% chance of error
-        const responseTime = Date.now() - startTime;
-        PerformanceMonitoringService.recordMetric('send_message', responseTime, false, false, 'service_unavailable');
-        
-        const error = new ServiceUnavailableError(
-          context,
-          'AI service is temporarily busy. Please try again.',
-          'Mock service unavailable error for testing'
-        );
-        throw error;
-      }
-      
-      const response = this.generateMockResponse(request.content, request.userId);
-      
-      // Cache the response
-      CachingService.set(cacheKey, response, request.userId);
-      
-      const responseTime = Date.now() - startTime;
-      PerformanceMonitoringService.recordMetric('send_message', responseTime, true, false);
-      
-      return response;
-    }
-
     // Validate message before sending
     const validation = this.validateMessage(request.content);
     if (!validation.isValid) {
@@ -265,15 +93,24 @@ What would you like to know about FAFSA today?`;
       throw error;
     }
 
+    // POST /chat needs a Cognito ID token, refreshed first if it is about to expire; guests use
+    // POST /chat/guest with their guest session token, starting a new session if theirs expired.
+    // The stream function URL verifies either itself.
+    const authorization = await AuthService.getFreshAuthorizationHeaders();
+    const signedIn = Boolean(authorization.Authorization);
+    const authHeaders = signedIn ? authorization : await AuthService.getGuestHeaders();
+    const streaming = Boolean(options.onToken);
+
     const operation = async () => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
 
       try {
-        const response = await fetch(`${this.BASE_URL}/message`, {
+        const response = await fetch(signedIn ? this.BASE_URL : `${this.BASE_URL}/guest`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...authHeaders,
           },
           body: JSON.stringify(request),
           signal: controller.signal,
@@ -283,40 +120,12 @@ What would you like to know about FAFSA today?`;
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          
-          // Create appropriate error based on status code
-          if (response.status >= 500) {
-            throw new ServiceUnavailableError(
-              context,
-              'The AI service is temporarily unavailable. Please try again in a moment.',
-              errorData.message || `Server error: ${response.status}`
-            );
-          } else if (response.status === 429) {
-            throw new Error('Rate limit exceeded');
-          } else if (response.status >= 400) {
-            throw new ValidationError(
-              context,
-              errorData.message || 'Invalid request. Please check your input.',
-              errorData.message || `Client error: ${response.status}`
-            );
-          }
-          
-          throw new Error(errorData.message || `HTTP ${response.status}`);
+          throw this.createResponseError(response.status, errorData.error, context, this.getRetryAfter(response, errorData.details));
         }
 
         const data = await response.json();
         
-        return {
-          message: {
-            id: data.message.id,
-            content: data.message.content,
-            sender: data.message.sender,
-            timestamp: new Date(data.message.timestamp),
-            metadata: data.message.metadata || {}
-          },
-          sources: data.sources,
-          conversationId: data.conversationId,
-        };
+        return this.toChatResponse(data.data);
       } catch (error) {
         clearTimeout(timeoutId);
         
@@ -340,21 +149,37 @@ What would you like to know about FAFSA today?`;
       }
     };
 
+    // Once tokens have been rendered a retry would duplicate them, so streaming only retries before the first token
+    let receivedTokens = false;
+    const streamOperation = async (): Promise<ChatResponse> => {
+      const onToken = options.onToken!;
+      return this.streamMessage(request, authHeaders, context, (token) => {
+        receivedTokens = true;
+        onToken(token);
+      });
+    };
+
     try {
-      const result = await RetryManager.withRetry(operation, context, {
+      const result = await RetryManager.withRetry(streaming ? streamOperation : operation, context, {
         maxAttempts: 3,
         baseDelay: 1000,
         retryCondition: (error) => {
-          // Retry on network errors, timeouts, and 5xx server errors
+          if (receivedTokens) {
+            return false;
+          }
+
+          // Retry on network errors, timeouts, and 5xx server errors. Rate limited requests wait
+          // for the countdown instead, since retrying would only spend more of the limit.
           return error instanceof NetworkError || 
                  error instanceof TimeoutError || 
-                 error instanceof ServiceUnavailableError ||
-                 ((error as any).message && (error as any).message.includes('Rate limit'));
+                 error instanceof ServiceUnavailableError;
         },
       });
 
       if (result.success) {
         return result.data!;
+      } else if (result.error instanceof RateLimitError) {
+        throw result.error;
       } else {
         const appError = ErrorClassifier.classifyError(result.error!, context);
         throw appError;
@@ -369,11 +194,214 @@ What would you like to know about FAFSA today?`;
     }
   }
 
+  /**
+   * POST to the streaming endpoint and read server-sent events until the final `done` event
+   */
+  private static async streamMessage(
+    request: SendMessageRequest,
+    authHeaders: Record<string, string>,
+    context: ErrorContext,
+    onToken: (token: string) => void
+  ): Promise<ChatResponse> {
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
+    const resetIdleTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), this.STREAM_IDLE_TIMEOUT);
+    };
+
+    try {
+      const response = await fetch(this.STREAM_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...authHeaders,
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.body) {
+        throw this.createResponseError(response.status, undefined, context, this.getRetryAfter(response));
+      }
+
+      let result: ChatResponse | null = null;
+      let streamError: string | undefined;
+      let streamErrorDetails: any;
+
+      await this.readEventStream(response.body, (event, data) => {
+        resetIdleTimeout();
+
+        if (event === 'token' && typeof data.text === 'string') {
+          onToken(data.text);
+        } else if (event === 'done') {
+          result = this.toChatResponse(data.data);
+        } else if (event === 'error') {
+          streamError = data.error;
+          streamErrorDetails = data.details;
+        }
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok || streamError) {
+        throw this.createResponseError(
+          response.ok ? 500 : response.status,
+          streamError,
+          context,
+          this.getRetryAfter(response, streamErrorDetails)
+        );
+      }
+
+      if (!result) {
+        throw new ServiceUnavailableError(
+          context,
+          'The response was interrupted. Please try again.',
+          'Stream ended without a done event'
+        );
+      }
+
+      return result;
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if ((error as Error).name === 'AbortError') {
+        throw new TimeoutError(
+          context,
+          'The request took too long. Please try again.',
+          'Stream timeout'
+        );
+      }
+
+      if (error instanceof TypeError && (error as Error).message.includes('fetch')) {
+        throw new NetworkError(
+          context,
+          'Unable to connect to the server. Please check your internet connection.',
+          'Network request failed'
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a server-sent event stream, calling onEvent for every complete event
+   */
+  private static async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: string, data: any) => void
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (rawEvent: string) => {
+      let event = 'message';
+      const dataLines: string[] = [];
+
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trim());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join('\n')));
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      dispatch(buffer);
+    }
+  }
+
+  /**
+   * Seconds to wait before asking again, from the Retry-After header or, where the header can't
+   * be read, the error body's details
+   */
+  private static getRetryAfter(response: Response, details?: { retryAfterSeconds?: unknown }): number | undefined {
+    const header = Number(response.headers?.get('Retry-After'));
+    if (Number.isFinite(header) && header > 0) {
+      return header;
+    }
+
+    const fromBody = Number(details?.retryAfterSeconds);
+    return Number.isFinite(fromBody) && fromBody > 0 ? fromBody : undefined;
+  }
+
+  /**
+   * Map an HTTP error status to the matching application error
+   */
+  private static createResponseError(
+    status: number,
+    message: string | undefined,
+    context: ErrorContext,
+    retryAfterSeconds?: number
+  ): Error {
+    if (status >= 500) {
+      return new ServiceUnavailableError(
+        context,
+        'The AI service is temporarily unavailable. Please try again in a moment.',
+        message || `Server error: ${status}`
+      );
+    } else if (status === 429) {
+      return new RateLimitError(
+        context,
+        message || 'Too many requests. Please wait a moment before trying again.',
+        message || 'Rate limit exceeded',
+        retryAfterSeconds
+      );
+    } else if (status >= 400) {
+      return new ValidationError(
+        context,
+        message || 'Invalid request. Please check your input.',
+        message || `Client error: ${status}`
+      );
+    }
+
+    return new Error(message || `HTTP ${status}`);
+  }
+
+  /**
+   * Convert a chat API payload into a ChatResponse
+   */
+  private static toChatResponse(data: any): ChatResponse {
+    return {
+      message: {
+        id: data.message.id,
+        content: data.message.content,
+        sender: data.message.sender,
+        timestamp: new Date(data.message.timestamp),
+        metadata: data.message.metadata || {}
+      },
+      sources: data.sources,
+      conversationId: data.conversationId,
+      privacyWarnings: data.privacyWarnings,
+    };
+  }
+
   /**
    * Get conversation history with error handling and retry logic
    */
   static async getChatHistory(userId: string, limit: number = 50): Promise<ChatHistoryResponse> {
-    const startTime = Date.now();
     const context: ErrorContext = {
       action: 'get_chat_history',
       timestamp: new Date(),
@@ -381,21 +409,6 @@ What would you like to know about FAFSA today?`;
       additionalData: { limit },
     };
 
-    // Use mock data in development
-    if (this.USE_MOCK_DATA) {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
-      
-      const responseTime = Date.now() - startTime;
-      PerformanceMonitoringService.recordMetric('get_chat_history', responseTime, true, false);
-      
-      // Return empty history for demo
-      return {
-        messages: [],
-        hasMore: false,
-      };
-    }
-
     const operation = async () => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
@@ -405,6 +418,7 @@ What would you like to know about FAFSA today?`;
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
+            ...(await AuthService.getFreshAuthorizationHeaders()),
           },
           signal: controller.signal,
         });
@@ -418,7 +432,7 @@ What would you like to know about FAFSA today?`;
             throw new ServiceUnavailableError(
               context,
               'Unable to load chat history. Please try again.',
-              errorData.message || `Server error: ${response.status}`
+              errorData.error || `Server error: ${response.status}`
             );
           } else if (response.status === 404) {
             // Return empty history for 404 (user has no history)
@@ -428,10 +442,10 @@ What would you like to know about FAFSA today?`;
             };
           }
           
-          throw new Error(errorData.message || `HTTP ${response.status}`);
+          throw new Error(errorData.error || `HTTP ${response.status}`);
         }
 
-        const data = await response.json();
+        const { data } = await response.json();
         
         return {
           messages: data.messages.map((msg: any) => ({
@@ -0,0 +1,57 @@
+import { ChecklistState, migrateChecklist } from '../types/progress';
+import { ProgressService } from './progress';
+
+/**
+ * The FAFSA checklist: kept on this device for guests, and saved to the account through the
+ * progress API for signed-in students
+ */
+export class ChecklistService {
+  // Where a guest's checklist is kept. Sign-up and sign-in move it into the account.
+  static readonly STORAGE_KEY = 'fafsaChecklist';
+
+  /**
+   * The guest checklist on this device. Older versions stored only the ids of completed items.
+   */
+  static getGuestChecklist(): ChecklistState {
+    try {
+      const checklistJson = localStorage.getItem(this.STORAGE_KEY);
+      return checklistJson ? migrateChecklist(JSON.parse(checklistJson), new Date().toISOString()) : {};
+    } catch (error) {
+      console.error('Failed to read checklist:', error);
+      return {};
+    }
+  }
+
+  static saveGuestChecklist(checklist: ChecklistState): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(checklist));
+    } catch (error) {
+      console.error('Failed to save checklist:', error);
+    }
+  }
+
+  /**
+   * A signed-in student's checklist. A guest checklist on this device is merged into the account
+   * first and then removed, so it isn't left behind for the next person on a shared computer.
+   */
+  static async getAccountChecklist(userId: string): Promise<ChecklistState> {
+    const guestChecklist = this.getGuestChecklist();
+
+    if (Object.keys(guestChecklist).length > 0) {
+      const progress = await ProgressService.updateChecklist(userId, guestChecklist);
+      localStorage.removeItem(this.STORAGE_KEY);
+      return progress.checklist ?? {};
+    }
+
+    const progress = await ProgressService.getUserProgress(userId);
+    return progress.checklist ?? {};
+  }
+
+  /**
+   * Save changed items to a signed-in student's checklist, returning the whole saved checklist
+   */
+  static async saveAccountChecklist(userId: string, changes: ChecklistState): Promise<ChecklistState> {
+    const progress = await ProgressService.updateChecklist(userId, changes);
+    return progress.checklist ?? {};
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  DeadlinePreferences,
+  DeadlinePreferencesSchema,
+  DeadlinesQuery,
+  DeadlinesResponse,
+  DeadlinesResponseSchema,
+  currentAwardYear,
+  openAwardYears,
+  resolveDeadlines,
+  toIsoDate,
+} from '../types/deadlines';
+import { PerformanceMonitoringService } from './performance';
+import { config } from '../config/environment';
+
+/**
+ * FAFSA deadlines from the deadlines API, and the state and schools a student picked for their
+ * countdown
+ */
+export class DeadlineService {
+  private static readonly BASE_URL = config.api.baseUrl;
+  private static readonly USE_MOCK_DATA = import.meta.env.DEV; // Use mock data in development
+
+  // Where the student's picks are kept. They aren't sensitive, so they stay on the device.
+  static readonly STORAGE_KEY = 'deadlinePreferences';
+
+  static async getDeadlines(query: DeadlinesQuery): Promise<DeadlinesResponse> {
+    const startTime = Date.now();
+
+    // The dataset ships with the frontend too, so development resolves it the way the API does
+    if (this.USE_MOCK_DATA) {
+      const today = toIsoDate(new Date());
+      const awardYear = query.awardYear ?? currentAwardYear(today);
+      return {
+        awardYear,
+        openAwardYears: openAwardYears(today),
+        deadlines: resolveDeadlines({ ...query, awardYear }),
+      };
+    }
+
+    const params = new URLSearchParams();
+    if (query.awardYear) params.set('awardYear', query.awardYear);
+    if (query.state) params.set('state', query.state);
+    if (query.schools?.length) params.set('schools', query.schools.join(','));
+
+    try {
+      const response = await fetch(`${this.BASE_URL}/deadlines?${params}`, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        PerformanceMonitoringService.recordMetric('get_deadlines', Date.now() - startTime, false, false, 'server_error');
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+
+      PerformanceMonitoringService.recordMetric('get_deadlines', Date.now() - startTime, true, false);
+      return DeadlinesResponseSchema.parse(data.data);
+    } catch (error) {
+      console.error('Deadline service error:', error);
+      throw error instanceof Error ? error : new Error('Failed to load deadlines');
+    }
+  }
+
+  static getPreferences(): DeadlinePreferences {
+    try {
+      const preferencesJson = localStorage.getItem(this.STORAGE_KEY);
+      const preferences = DeadlinePreferencesSchema.safeParse(preferencesJson ? JSON.parse(preferencesJson) : null);
+      return preferences.success ? preferences.data : { schools: [] };
+    } catch (error) {
+      console.error('Failed to read deadline preferences:', error);
+      return { schools: [] };
+    }
+  }
+
+  static savePreferences(preferences: DeadlinePreferences): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(preferences));
+    } catch (error) {
+      console.error('Failed to save deadline preferences:', error);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { FAFSAErrorDetectionService } from './errorDetection';
 
 describe('FAFSAErrorDetectionService', () => {
@@ -98,4 +98,34 @@ describe('FAFSAErrorDetectionService', () => {
       expect(typeof stats.patternsBySection).toBe('object');
     });
   });
+
+  describe('applyManagedPatterns', () => {
+    afterEach(() => {
+      FAFSAErrorDetectionService.applyManagedPatterns([]);
+    });
+
+    it('should let a disabled managed pattern turn off the built-in one with its id', () => {
+      const input = { userInput: 'My SSN is 123-45-6789', section: 'student-demographics', field: 'ssn' };
+      const before = FAFSAErrorDetectionService.getErrorStats().totalPatterns;
+
+      FAFSAErrorDetectionService.applyManagedPatterns([{
+        id: 'ssn_format_error',
+        name: 'SSN format',
+        description: 'SSNs have nine digits',
+        errorType: 'incorrect_format',
+        severity: 'critical',
+        section: 'student-demographics',
+        patterns: ['ssn'],
+        solution: 'Enter all nine digits',
+        commonCauses: [],
+        preventionTips: [],
+        enabled: false,
+        updatedAt: new Date().toISOString(),
+        updatedBy: 'admin@example.com',
+      }]);
+
+      expect(FAFSAErrorDetectionService.getErrorStats().totalPatterns).toBe(before - 1);
+      expect(FAFSAErrorDetectionService.detectErrors(input).errors.map(error => error.errorType)).not.toContain('incorrect_format');
+    });
+  });
 });
\ No newline at end of file
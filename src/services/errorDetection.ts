@@ -5,10 +5,41 @@ import {
   FAFSAErrorPattern,
   ChecklistItem 
 } from '../types/errors';
+import { ManagedErrorPattern } from '../types';
 import { FAFSA_ERROR_PATTERNS, FAFSA_SECTION_CHECKLISTS } from '../data/fafsaErrorPatterns';
+import { AdminService } from './admin';
 
 export class FAFSAErrorDetectionService {
   private static patterns: FAFSAErrorPattern[] = FAFSA_ERROR_PATTERNS;
+  private static managedPatternsLoad: Promise<void> | null = null;
+
+  /**
+   * Fetch the patterns admins manage, once per page load, and use them alongside the built-in
+   * ones. If they can't be loaded the built-in patterns keep working.
+   */
+  static loadManagedPatterns(): Promise<void> {
+    if (!this.managedPatternsLoad) {
+      this.managedPatternsLoad = AdminService.listErrorPatterns()
+        .then(managed => this.applyManagedPatterns(managed))
+        .catch(error => {
+          console.error('Failed to load managed error patterns:', error);
+        });
+    }
+    return this.managedPatternsLoad;
+  }
+
+  /**
+   * A managed pattern replaces the built-in one with its id; a disabled one hides it
+   */
+  static applyManagedPatterns(managed: ManagedErrorPattern[]): void {
+    const managedIds = new Set(managed.map(pattern => pattern.id));
+    this.patterns = [
+      ...FAFSA_ERROR_PATTERNS.filter(pattern => !managedIds.has(pattern.id)),
+      ...managed
+        .filter(pattern => pattern.enabled)
+        .map(({ enabled, updatedAt, updatedBy, ...pattern }) => pattern),
+    ];
+  }
 
   /**
    * Detect potential FAFSA errors in user input
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// AuthService mocks every call in development mode, so load it as a production build with an API
+const loadAuthService = async () => {
+  vi.stubEnv('DEV', false);
+  vi.stubEnv('VITE_API_GATEWAY_URL', 'https://api.example.com');
+  vi.resetModules();
+  return (await import('./auth')).AuthService;
+};
+
+describe('AuthService guest sessions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should start a guest session and send its token with guest requests', async () => {
+    const AuthService = await loadAuthService();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({
+      success: true,
+      data: {
+        user: { userId: 'guest_1', email: null, isGuest: true },
+        session: { token: 'signed-token', expiresAt: new Date(Date.now() + 60_000).toISOString(), messageQuota: 20 },
+        message: 'Guest session created',
+      },
+    }));
+
+    await AuthService.continueAsGuest();
+
+    expect(AuthService.getAuthorizationHeaders()).toEqual({ 'X-Guest-Token': 'signed-token' });
+    expect(await AuthService.getGuestHeaders()).toEqual({ 'X-Guest-Token': 'signed-token' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start a new session when the stored one has expired', async () => {
+    const AuthService = await loadAuthService();
+    localStorage.setItem('educate_first_ai_guest_session', JSON.stringify({
+      token: 'old-token', expiresAt: new Date(Date.now() - 1000).toISOString(), messageQuota: 20,
+    }));
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({
+      success: true,
+      data: {
+        user: { userId: 'guest_2', email: null, isGuest: true },
+        session: { token: 'new-token', expiresAt: new Date(Date.now() + 60_000).toISOString(), messageQuota: 20 },
+        message: 'Guest session created',
+      },
+    }));
+
+    expect(AuthService.getAuthorizationHeaders()).toEqual({});
+    expect(await AuthService.getGuestHeaders()).toEqual({ 'X-Guest-Token': 'new-token' });
+  });
+
+  it('should bring the guest conversation and checklist into the new account', async () => {
+    const AuthService = await loadAuthService();
+    localStorage.setItem('educate_first_ai_guest_session', JSON.stringify({
+      token: 'signed-token', expiresAt: new Date(Date.now() - 1000).toISOString(), messageQuota: 20,
+    }));
+    localStorage.setItem('chat-guest-state', JSON.stringify({
+      conversations: {
+        'local-1': [
+          { id: 'm1', content: 'When is the FAFSA due?', sender: 'user', timestamp: '2026-01-05T10:00:00.000Z' },
+          { id: 'm2', content: 'June 30.', sender: 'ai', timestamp: '2026-01-05T10:00:02.000Z' },
+        ],
+      },
+      activeConversationId: 'local-1',
+      lastActivity: '2026-01-05T10:00:02.000Z',
+    }));
+    const checklist = {
+      'fsa-id': { completed: true, note: 'Made one for mom too', completedAt: '2026-01-05T10:01:00.000Z', updatedAt: '2026-01-05T10:01:00.000Z' },
+      'tax-returns': { completed: false, dueDate: '2026-02-01', updatedAt: '2026-01-05T10:02:00.000Z' },
+    };
+    localStorage.setItem('fafsaChecklist', JSON.stringify(checklist));
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({
+      success: true,
+      data: {
+        user: { userId: 'user-1', email: 'student@example.com', isGuest: false },
+        message: 'Account created successfully',
+        carriedOver: { conversationId: 'conv-1', messages: 2, checklistItems: 1 },
+      },
+    }));
+
+    await AuthService.signUp({ email: 'student@example.com', password: 'password123' });
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1]?.body));
+    expect(body).toEqual({
+      email: 'student@example.com',
+      password: 'password123',
+      guestToken: 'signed-token',
+      guestState: {
+        conversation: [
+          { content: 'When is the FAFSA due?', sender: 'user', timestamp: '2026-01-05T10:00:00.000Z' },
+          { content: 'June 30.', sender: 'ai', timestamp: '2026-01-05T10:00:02.000Z' },
+        ],
+        checklist,
+      },
+    });
+    const accountChat = JSON.parse(localStorage.getItem('chat-state-user-1')!);
+    expect(accountChat.activeConversationId).toBe('conv-1');
+    expect(accountChat.conversations['conv-1']).toHaveLength(2);
+    expect(AuthService.getGuestSession({ includeExpired: true })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { IntakeAnswers, IntakeRecord, IntakeRecordSchema } from '../types/progress';
+import { ProgressService } from './progress';
+
+/**
+ * The intake questionnaire's answers: kept on this device for guests, and saved to the account
+ * through the progress API for signed-in students
+ */
+export class IntakeService {
+  // Where a guest's answers are kept. Signing in moves them into the account.
+  static readonly STORAGE_KEY = 'fafsaIntake';
+
+  static getGuestIntake(): IntakeRecord | null {
+    try {
+      const intakeJson = localStorage.getItem(this.STORAGE_KEY);
+      const intake = IntakeRecordSchema.safeParse(intakeJson ? JSON.parse(intakeJson) : null);
+      return intake.success ? intake.data : null;
+    } catch (error) {
+      console.error('Failed to read intake answers:', error);
+      return null;
+    }
+  }
+
+  static saveGuestIntake(answers: IntakeAnswers): IntakeRecord {
+    const intake: IntakeRecord = { answers, completedAt: new Date().toISOString() };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(intake));
+    } catch (error) {
+      console.error('Failed to save intake answers:', error);
+    }
+    return intake;
+  }
+
+  /**
+   * A signed-in student's answers. Answers given as a guest on this device replace the account's
+   * when they are newer, and are then removed from the device.
+   */
+  static async getAccountIntake(userId: string): Promise<IntakeRecord | null> {
+    const guestIntake = this.getGuestIntake();
+    const progress = await ProgressService.getUserProgress(userId);
+
+    if (!guestIntake) {
+      return progress.intake ?? null;
+    }
+
+    const isNewer = !progress.intake || Date.parse(guestIntake.completedAt) > Date.parse(progress.intake.completedAt);
+    const intake = isNewer
+      ? (await ProgressService.saveIntake(userId, guestIntake.answers)).intake ?? null
+      : progress.intake ?? null;
+    localStorage.removeItem(this.STORAGE_KEY);
+    return intake;
+  }
+
+  static async saveAccountIntake(userId: string, answers: IntakeAnswers): Promise<IntakeRecord | null> {
+    const progress = await ProgressService.saveIntake(userId, answers);
+    return progress.intake ?? null;
+  }
+}
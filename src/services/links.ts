@@ -0,0 +1,130 @@
+import { LinkShare, StudentLink, StudentProgress } from '../types';
+import { AuthService } from './auth';
+import { config } from '../config/environment';
+
+export interface LinksResult {
+  links: StudentLink[];
+  // Parents and counselors only: the code students enter to link to them
+  linkCode?: string;
+}
+
+/**
+ * Links between students and the parents and counselors who follow their progress
+ */
+export class LinksService {
+  private static readonly BASE_URL = config.api.baseUrl;
+  private static readonly USE_MOCK_DATA = import.meta.env.DEV; // Use mock data in development
+
+  private static mockLinks: StudentLink[] = [];
+
+  /**
+   * A student's parents and counselors, or a parent's or counselor's students
+   */
+  static async getLinks(): Promise<LinksResult> {
+    if (this.USE_MOCK_DATA) {
+      const user = AuthService.getCurrentUser();
+      return user?.role === 'parent' || user?.role === 'counselor'
+        ? { links: this.mockLinks, linkCode: 'MOCK2345' }
+        : { links: this.mockLinks };
+    }
+
+    return this.request('/links', { method: 'GET' }, 'Failed to load linked accounts');
+  }
+
+  /**
+   * Link the signed-in student to the parent or counselor with this code
+   */
+  static async createLink(code: string, shares: LinkShare[]): Promise<StudentLink> {
+    if (this.USE_MOCK_DATA) {
+      const user = AuthService.getCurrentUser();
+      const link: StudentLink = {
+        studentId: user?.userId ?? 'student',
+        studentEmail: user?.email ?? null,
+        viewerId: `viewer_${code}`,
+        viewerEmail: 'counselor@example.com',
+        viewerRole: 'counselor',
+        shares: shares.includes('progress') ? shares : ['progress', ...shares],
+        linkedAt: new Date().toISOString(),
+      };
+      this.mockLinks = [...this.mockLinks.filter(existing => existing.viewerId !== link.viewerId), link];
+      return link;
+    }
+
+    const { link } = await this.request<{ link: StudentLink }>('/links', {
+      method: 'POST',
+      body: JSON.stringify({ code, shares }),
+    }, 'Failed to link accounts');
+    return link;
+  }
+
+  /**
+   * Change what the signed-in student shares with a linked parent or counselor
+   */
+  static async updateShares(viewerId: string, shares: LinkShare[]): Promise<StudentLink> {
+    if (this.USE_MOCK_DATA) {
+      this.mockLinks = this.mockLinks.map(link => link.viewerId === viewerId ? { ...link, shares } : link);
+      return this.mockLinks.find(link => link.viewerId === viewerId)!;
+    }
+
+    const { link } = await this.request<{ link: StudentLink }>(`/links/${encodeURIComponent(viewerId)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ shares }),
+    }, 'Failed to update what you share');
+    return link;
+  }
+
+  /**
+   * Unlink from a student, parent or counselor
+   */
+  static async removeLink(userId: string): Promise<string> {
+    if (this.USE_MOCK_DATA) {
+      this.mockLinks = this.mockLinks.filter(link => link.viewerId !== userId && link.studentId !== userId);
+      return 'The accounts are no longer linked';
+    }
+
+    const { message } = await this.request<{ message: string }>(`/links/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+    }, 'Failed to unlink accounts');
+    return message;
+  }
+
+  /**
+   * What a linked student shares with the signed-in parent or counselor
+   */
+  static async getStudentProgress(studentId: string): Promise<StudentProgress> {
+    if (this.USE_MOCK_DATA) {
+      return {
+        student: { userId: studentId, email: 'student@example.com' },
+        shares: ['progress', 'checklist'],
+        summary: {
+          totalSections: 7,
+          completedSections: 1,
+          totalQuestions: 16,
+          completionPercentage: 14,
+          recentActivity: [],
+        },
+        checklist: [],
+      };
+    }
+
+    return this.request(`/students/${encodeURIComponent(studentId)}/progress`, { method: 'GET' }, 'Failed to load student progress');
+  }
+
+  private static async request<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+    const response = await fetch(`${this.BASE_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await AuthService.getFreshAuthorizationHeaders()),
+      },
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(data.error || fallbackError);
+    }
+
+    return data.data;
+  }
+}
@@ -6,21 +6,18 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { PrivacyService } from './privacy';
+import { PrivacyService as LambdaPrivacyService } from '../../cdk/lambda/shared/privacy';
+import { PII_FREE_QUESTIONS, aNumber, luhnCard, phoneNumber, validSsn } from '../../cdk/lambda/test/fixtures/pii-corpus';
 
 describe('Privacy Service Property Tests', () => {
   // Property 14: PII Exclusion
   // **Validates: Requirements 6.2**
   it('Property 14: PII Exclusion - should detect and sanitize PII from any user input', () => {
-    // Test with valid SSN
+    // Test with valid SSN (areas 666 and 900-999 are never issued, so they aren't SSNs)
     fc.assert(fc.property(
-      fc.tuple(
-        fc.integer({ min: 100, max: 999 }),
-        fc.integer({ min: 10, max: 99 }),
-        fc.integer({ min: 1000, max: 9999 })
-      ),
+      validSsn,
       fc.string({ minLength: 0, maxLength: 100 }),
-      ([area, group, serial], otherText) => {
-        const ssn = `${area}-${group.toString().padStart(2, '0')}-${serial}`;
+      (ssn, otherText) => {
         const input = `${otherText} My SSN is ${ssn}`;
         const result = PrivacyService.detectAndSanitizePII(input);
         
@@ -38,10 +35,10 @@ describe('Privacy Service Property Tests', () => {
       }
     ), { numRuns: 50 });
 
-    // Test with valid phone number
+    // Test with valid phone number (toll-free numbers belong to businesses, so they're left alone)
     fc.assert(fc.property(
       fc.tuple(
-        fc.integer({ min: 200, max: 999 }),
+        fc.integer({ min: 200, max: 999 }).filter(area => ![800, 833, 844, 855, 866, 877, 888].includes(area)),
         fc.integer({ min: 200, max: 999 }),
         fc.integer({ min: 1000, max: 9999 })
       ),
@@ -114,6 +111,28 @@ describe('Privacy Service Property Tests', () => {
     ), { numRuns: 50 });
   });
 
+  it('should redact the same PII as the chat Lambda', () => {
+    fc.assert(fc.property(
+      fc.array(fc.oneof(validSsn, luhnCard, phoneNumber, aNumber, fc.constantFrom(...PII_FREE_QUESTIONS)), { minLength: 1, maxLength: 4 }),
+      (parts) => {
+        const input = parts.join(' and ');
+        const result = PrivacyService.detectAndSanitizePII(input);
+        const lambdaResult = LambdaPrivacyService.detectAndSanitizePII(input);
+
+        expect(result.detectedTypes.filter(type => !type.startsWith('ferpa_'))).toEqual(lambdaResult.detectedTypes);
+        if (!result.detectedTypes.some(type => type.startsWith('ferpa_'))) {
+          expect(result.sanitizedText).toBe(lambdaResult.sanitizedText);
+        }
+      }
+    ), { numRuns: 100 });
+  });
+
+  it('should not flag ZIP codes, incomes, years or deadlines', () => {
+    for (const question of PII_FREE_QUESTIONS) {
+      expect(PrivacyService.detectAndSanitizePII(question).sanitizedText).toBe(question);
+    }
+  });
+
   it('should validate data for storage correctly', () => {
     fc.assert(fc.property(
       fc.record({
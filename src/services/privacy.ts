@@ -3,6 +3,8 @@
  * Handles PII detection, data sanitization, and FERPA compliance
  */
 
+import { PII_LABELS, PIIDetector, PIIOptions } from '@pii';
+
 export interface PIIDetectionResult {
   hasPII: boolean;
   detectedTypes: string[];
@@ -17,19 +19,6 @@ export interface DataRetentionPolicy {
 }
 
 export class PrivacyService {
-  // PII patterns for detection
-  private static readonly PII_PATTERNS = {
-    ssn: /\b\d{3}-?\d{2}-?\d{4}\b/g,
-    phone: /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g,
-    email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-    creditCard: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g,
-    bankAccount: /\b\d{8,17}\b/g,
-    address: /\b\d+\s+[A-Za-z0-9\s,]+(?:Street|St|Avenue|Ave|Road|Rd|Drive|Dr|Lane|Ln|Boulevard|Blvd|Way|Court|Ct|Place|Pl)\b/gi,
-    zipCode: /\b\d{5}(?:-\d{4})?\b/g,
-    dateOfBirth: /\b(?:0[1-9]|1[0-2])[-\/](?:0[1-9]|[12]\d|3[01])[-\/](?:19|20)\d{2}\b/g,
-    driverLicense: /\b[A-Z]{1,2}\d{6,8}\b/g,
-  };
-
   // FERPA-sensitive education data patterns
   private static readonly FERPA_PATTERNS = {
     studentId: /\b(?:student|id|student[-_]?id)[-:\s]*[A-Z0-9]{6,12}\b/gi,
@@ -39,25 +28,17 @@ export class PrivacyService {
   };
 
   /**
-   * Detect and sanitize PII from user input
+   * Detect and sanitize PII from user input, using the same detectors as the chat Lambda
    */
-  static detectAndSanitizePII(text: string): PIIDetectionResult {
-    let sanitizedText = text;
-    const detectedTypes: string[] = [];
-    const warnings: string[] = [];
-
-    // Check for PII patterns
-    for (const [type, pattern] of Object.entries(this.PII_PATTERNS)) {
-      if (pattern.test(text)) {
-        detectedTypes.push(type);
-        sanitizedText = sanitizedText.replace(pattern, this.getReplacementText(type));
-        warnings.push(this.getPIIWarning(type));
-      }
-    }
+  static detectAndSanitizePII(text: string, options: PIIOptions = {}): PIIDetectionResult {
+    const redaction = PIIDetector.redact(text, options);
+    let sanitizedText = redaction.text;
+    const detectedTypes: string[] = [...redaction.types];
+    const warnings = redaction.types.map(type => PII_LABELS[type].warning);
 
-    // Check for FERPA-sensitive data
+    // Check for FERPA-sensitive data (match() starts from the beginning, unlike test() on a global pattern)
     for (const [type, pattern] of Object.entries(this.FERPA_PATTERNS)) {
-      if (pattern.test(text)) {
+      if (text.match(pattern)) {
         detectedTypes.push(`ferpa_${type}`);
         sanitizedText = sanitizedText.replace(pattern, this.getReplacementText(type));
         warnings.push(this.getFERPAWarning(type));
@@ -106,7 +87,8 @@ export class PrivacyService {
   }
 
   /**
-   * Check if user is in guest mode (no data persistence)
+   * Check if user is in guest mode (no data persistence). Only used to anonymize audit entries;
+   * the API identifies guests by their signed session token, never by this prefix.
    */
   static isGuestUser(userId: string): boolean {
     return userId.startsWith('guest_');
@@ -171,15 +153,6 @@ export class PrivacyService {
 
   private static getReplacementText(type: string): string {
     const replacements: Record<string, string> = {
-      ssn: '[SSN_REDACTED]',
-      phone: '[PHONE_REDACTED]',
-      email: '[EMAIL_REDACTED]',
-      creditCard: '[CARD_REDACTED]',
-      bankAccount: '[ACCOUNT_REDACTED]',
-      address: '[ADDRESS_REDACTED]',
-      zipCode: '[ZIP_REDACTED]',
-      dateOfBirth: '[DOB_REDACTED]',
-      driverLicense: '[LICENSE_REDACTED]',
       studentId: '[STUDENT_ID_REDACTED]',
       gpa: '[GPA_REDACTED]',
       grades: '[GRADE_REDACTED]',
@@ -189,22 +162,6 @@ export class PrivacyService {
     return replacements[type] || '[REDACTED]';
   }
 
-  private static getPIIWarning(type: string): string {
-    const warnings: Record<string, string> = {
-      ssn: 'Social Security Number detected and removed for your privacy',
-      phone: 'Phone number detected and removed for your privacy',
-      email: 'Email address detected and removed for your privacy',
-      creditCard: 'Credit card number detected and removed for your privacy',
-      bankAccount: 'Bank account number detected and removed for your privacy',
-      address: 'Street address detected and removed for your privacy',
-      zipCode: 'ZIP code detected and removed for your privacy',
-      dateOfBirth: 'Date of birth detected and removed for your privacy',
-      driverLicense: 'Driver license number detected and removed for your privacy',
-    };
-
-    return warnings[type] || 'Personal information detected and removed for your privacy';
-  }
-
   private static getFERPAWarning(type: string): string {
     const warnings: Record<string, string> = {
       studentId: 'Student ID detected and removed per FERPA compliance',
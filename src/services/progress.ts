@@ -1,62 +1,49 @@
-import { UserProgress } from '../types/progress';
+import {
+  ChecklistState,
+  FAFSA_SECTIONS,
+  FAFSASectionIdSchema,
+  IntakeAnswers,
+  UpdateProgressInput,
+  UserProgress,
+  UserProgressSchema,
+  applyIntakeAnswers,
+  applyProgressAction,
+  createProgressRecord,
+  mergeChecklist,
+  recommendSectionOrder,
+} from '../types/progress';
+import { UpdateProgressResponseSchema } from '../types/api';
 import { PerformanceMonitoringService } from './performance';
-
-export interface ProgressUpdateRequest {
-  userId: string;
-  section: string;
-  completed: boolean;
-  data?: Record<string, any>;
-}
-
-export interface ProgressResponse {
-  progress: UserProgress;
-  message?: string;
-}
+import { AuthService } from './auth';
+import { config } from '../config/environment';
 
 export class ProgressService {
-  private static readonly BASE_URL = '/api/progress';
+  private static readonly BASE_URL = config.api.baseUrl;
   private static readonly USE_MOCK_DATA = import.meta.env.DEV; // Use mock data in development
 
+  private static mockProgress = new Map<string, UserProgress>();
+
   /**
-   * Generate mock progress data for development
+   * Mock progress for development, built with the same actions the API applies
    */
-  private static generateMockProgress(userId: string): UserProgress {
-    return {
-      userId,
-      sections: {
-        'student-demographics': {
-          sectionId: 'student-demographics',
-          progress: 75,
-          isComplete: false,
-          questionsAsked: 8,
-          lastVisited: new Date(Date.now() - 3600000), // 1 hour ago
-          lastUpdated: new Date(Date.now() - 3600000),
-        },
-        'dependency-status': {
-          sectionId: 'dependency-status',
-          progress: 100,
-          isComplete: true,
-          questionsAsked: 5,
-          lastVisited: new Date(Date.now() - 7200000), // 2 hours ago
-          lastUpdated: new Date(Date.now() - 7200000),
-        },
-        'student-finances': {
-          sectionId: 'student-finances',
-          progress: 25,
-          isComplete: false,
-          questionsAsked: 3,
-          lastVisited: new Date(Date.now() - 1800000), // 30 minutes ago
-          lastUpdated: new Date(Date.now() - 1800000),
-        },
-      },
-      overallProgress: 67,
-      lastUpdated: new Date(Date.now() - 1800000),
-      totalInteractions: 16,
-      completedSections: ['dependency-status'],
-      currentSection: 'student-demographics',
-      createdAt: new Date(Date.now() - 86400000), // 1 day ago
-      updatedAt: new Date(Date.now() - 1800000),
-    };
+  private static getMockProgress(userId: string): UserProgress {
+    let progress = this.mockProgress.get(userId);
+    if (!progress) {
+      const at = (hoursAgo: number) => new Date(Date.now() - hoursAgo * 3600000).toISOString();
+      const history: Array<[UpdateProgressInput, number]> = [
+        [{ sectionId: 'dependency-status', action: 'add_question' }, 3],
+        [{ sectionId: 'dependency-status', action: 'mark_complete' }, 2],
+        [{ sectionId: 'student-finances', action: 'add_question' }, 1.5],
+        [{ sectionId: 'student-demographics', action: 'add_question' }, 1],
+        [{ sectionId: 'student-demographics', action: 'add_question' }, 0.5],
+      ];
+      progress = history.reduce(
+        (record, [input, hoursAgo]) => applyProgressAction(record, input, at(hoursAgo)),
+        createProgressRecord(userId, at(24))
+      );
+      this.mockProgress.set(userId, progress);
+    }
+    return progress;
   }
 
   /**
@@ -73,39 +60,30 @@ export class ProgressService {
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('get_user_progress', responseTime, true, false);
       
-      return this.generateMockProgress(userId);
+      return this.getMockProgress(userId);
     }
 
     try {
-      const response = await fetch(`${this.BASE_URL}/${userId}`, {
+      const response = await fetch(`${this.BASE_URL}/progress/${encodeURIComponent(userId)}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...(await AuthService.getFreshAuthorizationHeaders()),
         },
       });
 
+      const data = await response.json().catch(() => ({}));
+
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
         const responseTime = Date.now() - startTime;
         PerformanceMonitoringService.recordMetric('get_user_progress', responseTime, false, false, 'server_error');
-        throw new Error(errorData.message || `Server error: ${response.status}`);
+        throw new Error(data.error || `Server error: ${response.status}`);
       }
 
-      const data = await response.json();
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('get_user_progress', responseTime, true, false);
       
-      return {
-        userId: data.userId,
-        sections: data.sections || {},
-        overallProgress: data.overallProgress || 0,
-        lastUpdated: new Date(data.lastUpdated || Date.now()),
-        totalInteractions: data.totalInteractions || 0,
-        completedSections: data.completedSections || [],
-        currentSection: data.currentSection || null,
-        createdAt: new Date(data.createdAt || Date.now()),
-        updatedAt: new Date(data.updatedAt || Date.now()),
-      };
+      return UserProgressSchema.parse(data.data);
     } catch (error) {
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('get_user_progress', responseTime, false, false, 'network_error');
@@ -115,9 +93,9 @@ export class ProgressService {
   }
 
   /**
-   * Update progress for a specific FAFSA section
+   * Record a question about a FAFSA section, or mark it complete or incomplete
    */
-  static async updateSectionProgress(request: ProgressUpdateRequest): Promise<ProgressResponse> {
+  static async updateSectionProgress(userId: string, input: UpdateProgressInput): Promise<UserProgress> {
     const startTime = Date.now();
     
     // Use mock data in development
@@ -125,69 +103,37 @@ export class ProgressService {
       // Simulate network delay
       await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
       
-      // Return updated mock progress
-      const mockProgress = this.generateMockProgress(request.userId);
-      
-      // Update the specific section
-      if (mockProgress.sections[request.section]) {
-        mockProgress.sections[request.section].isComplete = request.completed;
-        mockProgress.sections[request.section].progress = request.completed ? 100 : 
-          Math.min(mockProgress.sections[request.section].progress + 10, 95);
-        mockProgress.sections[request.section].lastUpdated = new Date();
-        mockProgress.sections[request.section].questionsAsked += 1;
-      }
-      
-      // Update overall progress
-      const completedCount = Object.values(mockProgress.sections).filter(s => s.isComplete).length;
-      mockProgress.overallProgress = Math.round((completedCount / Object.keys(mockProgress.sections).length) * 100);
-      mockProgress.completedSections = Object.keys(mockProgress.sections).filter(
-        key => mockProgress.sections[key].isComplete
-      );
-      mockProgress.updatedAt = new Date();
+      const progress = applyProgressAction(this.getMockProgress(userId), input, new Date().toISOString());
+      this.mockProgress.set(userId, progress);
       
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('update_progress', responseTime, true, false);
       
-      return {
-        progress: mockProgress,
-        message: `Progress updated for ${request.section}`,
-      };
+      return progress;
     }
 
     try {
-      const response = await fetch(`${this.BASE_URL}/section`, {
-        method: 'POST',
+      const response = await fetch(`${this.BASE_URL}/progress/${encodeURIComponent(userId)}`, {
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...(await AuthService.getFreshAuthorizationHeaders()),
         },
-        body: JSON.stringify(request),
+        body: JSON.stringify(input),
       });
 
+      const data = await response.json().catch(() => ({}));
+
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
         const responseTime = Date.now() - startTime;
         PerformanceMonitoringService.recordMetric('update_progress', responseTime, false, false, 'server_error');
-        throw new Error(errorData.message || `Server error: ${response.status}`);
+        throw new Error(data.error || `Server error: ${response.status}`);
       }
 
-      const data = await response.json();
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('update_progress', responseTime, true, false);
       
-      return {
-        progress: {
-          userId: data.progress.userId,
-          sections: data.progress.sections || {},
-          overallProgress: data.progress.overallProgress || 0,
-          lastUpdated: new Date(data.progress.lastUpdated || Date.now()),
-          totalInteractions: data.progress.totalInteractions || 0,
-          completedSections: data.progress.completedSections || [],
-          currentSection: data.progress.currentSection || null,
-          createdAt: new Date(data.progress.createdAt || Date.now()),
-          updatedAt: new Date(data.progress.updatedAt || Date.now()),
-        },
-        message: data.message,
-      };
+      return UpdateProgressResponseSchema.parse(data.data).updatedProgress;
     } catch (error) {
       const responseTime = Date.now() - startTime;
       PerformanceMonitoringService.recordMetric('update_progress', responseTime, false, false, 'network_error');
@@ -196,14 +142,120 @@ export class ProgressService {
     }
   }
 
+  /**
+   * Save changed FAFSA checklist items. The API keeps whichever copy of each item was changed
+   * last, so the same call merges a guest's checklist into the account.
+   */
+  static async updateChecklist(userId: string, items: ChecklistState): Promise<UserProgress> {
+    const startTime = Date.now();
+
+    // Use mock data in development
+    if (this.USE_MOCK_DATA) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
+
+      const current = this.getMockProgress(userId);
+      const progress: UserProgress = {
+        ...current,
+        checklist: mergeChecklist(current.checklist ?? {}, items),
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      this.mockProgress.set(userId, progress);
+
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('update_checklist', responseTime, true, false);
+
+      return progress;
+    }
+
+    try {
+      const response = await fetch(`${this.BASE_URL}/progress/${encodeURIComponent(userId)}/checklist`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await AuthService.getFreshAuthorizationHeaders()),
+        },
+        body: JSON.stringify({ items }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const responseTime = Date.now() - startTime;
+        PerformanceMonitoringService.recordMetric('update_checklist', responseTime, false, false, 'server_error');
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('update_checklist', responseTime, true, false);
+
+      return UpdateProgressResponseSchema.parse(data.data).updatedProgress;
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('update_checklist', responseTime, false, false, 'network_error');
+      console.error('Checklist update error:', error);
+      throw error instanceof Error ? error : new Error('Failed to save checklist');
+    }
+  }
+
+  /**
+   * Save a student's intake answers, which decide the sections they need and their order
+   */
+  static async saveIntake(userId: string, answers: IntakeAnswers): Promise<UserProgress> {
+    const startTime = Date.now();
+
+    // Use mock data in development
+    if (this.USE_MOCK_DATA) {
+      // Simulate network delay
+      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
+
+      const progress = applyIntakeAnswers(this.getMockProgress(userId), answers, new Date().toISOString());
+      this.mockProgress.set(userId, progress);
+
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('save_intake', responseTime, true, false);
+
+      return progress;
+    }
+
+    try {
+      const response = await fetch(`${this.BASE_URL}/progress/${encodeURIComponent(userId)}/intake`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await AuthService.getFreshAuthorizationHeaders()),
+        },
+        body: JSON.stringify({ answers }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const responseTime = Date.now() - startTime;
+        PerformanceMonitoringService.recordMetric('save_intake', responseTime, false, false, 'server_error');
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('save_intake', responseTime, true, false);
+
+      return UpdateProgressResponseSchema.parse(data.data).updatedProgress;
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      PerformanceMonitoringService.recordMetric('save_intake', responseTime, false, false, 'network_error');
+      console.error('Intake save error:', error);
+      throw error instanceof Error ? error : new Error('Failed to save your answers');
+    }
+  }
+
   /**
    * Mark a FAFSA section as completed
    */
-  static async markSectionComplete(userId: string, section: string, data?: Record<string, any>): Promise<ProgressResponse> {
-    return this.updateSectionProgress({
-      userId,
-      section,
-      completed: true,
+  static async markSectionComplete(userId: string, sectionId: string, data?: Record<string, unknown>): Promise<UserProgress> {
+    return this.updateSectionProgress(userId, {
+      sectionId: FAFSASectionIdSchema.parse(sectionId),
+      action: 'mark_complete',
       data,
     });
   }
@@ -211,11 +263,10 @@ export class ProgressService {
   /**
    * Mark a FAFSA section as incomplete
    */
-  static async markSectionIncomplete(userId: string, section: string): Promise<ProgressResponse> {
-    return this.updateSectionProgress({
-      userId,
-      section,
-      completed: false,
+  static async markSectionIncomplete(userId: string, sectionId: string): Promise<UserProgress> {
+    return this.updateSectionProgress(userId, {
+      sectionId: FAFSASectionIdSchema.parse(sectionId),
+      action: 'mark_incomplete',
     });
   }
 
@@ -228,8 +279,9 @@ export class ProgressService {
     remainingSections: number;
     completionPercentage: number;
   } {
-    const totalSections = Object.keys(progress.sections).length;
-    const completedSections = progress.completedSections.length;
+    const sections = recommendSectionOrder(progress.intake?.answers);
+    const totalSections = sections.length;
+    const completedSections = sections.filter(section => progress.completedSections.includes(section)).length;
     const remainingSections = totalSections - completedSections;
     const completionPercentage = totalSections > 0 ? (completedSections / totalSections) * 100 : 0;
 
@@ -242,72 +294,34 @@ export class ProgressService {
   }
 
   /**
-   * Get next recommended section based on current progress
+   * Get next recommended section: the first unfinished one in the order the student's intake
+   * answers recommend, or in form order before they answer
    */
   static getNextRecommendedSection(progress: UserProgress): string | null {
-    const sectionOrder = [
-      'student-demographics',
-      'dependency-status',
-      'student-finances',
-      'parent-finances',
-      'school-selection',
-      'review-submit'
-    ];
-
-    for (const section of sectionOrder) {
-      if (!progress.completedSections.includes(section)) {
-        return section;
-      }
-    }
-
-    return null; // All sections completed
+    return recommendSectionOrder(progress.intake?.answers)
+      .find(section => !progress.completedSections.includes(section)) ?? null;
   }
 
   /**
    * Format section name for display
    */
   static formatSectionName(section: string): string {
-    const sectionNames: Record<string, string> = {
-      'student-demographics': 'Student Demographics',
-      'dependency-status': 'Dependency Status',
-      'student-finances': 'Student Financial Information',
-      'parent-finances': 'Parent Financial Information',
-      'school-selection': 'School Selection',
-      'review-submit': 'Review & Submit',
-    };
-
-    return sectionNames[section] || section.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+    return FAFSA_SECTIONS.find(({ sectionId }) => sectionId === section)?.title
+      ?? section.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   }
 
   /**
    * Get section description
    */
   static getSectionDescription(section: string): string {
-    const descriptions: Record<string, string> = {
-      'student-demographics': 'Basic information about you including name, address, and contact details.',
-      'dependency-status': 'Questions to determine if you are dependent or independent for financial aid purposes.',
-      'student-finances': 'Your income, assets, and tax information.',
-      'parent-finances': 'Your parents\' income, assets, and tax information (if you are dependent).',
-      'school-selection': 'Choose the schools you want to receive your FAFSA information.',
-      'review-submit': 'Review all your information and submit your FAFSA application.',
-    };
-
-    return descriptions[section] || 'Complete this section of your FAFSA application.';
+    return FAFSA_SECTIONS.find(({ sectionId }) => sectionId === section)?.description
+      ?? 'Complete this section of your FAFSA application.';
   }
 
   /**
    * Validate section name
    */
   static isValidSection(section: string): boolean {
-    const validSections = [
-      'student-demographics',
-      'dependency-status',
-      'student-finances',
-      'parent-finances',
-      'school-selection',
-      'review-submit'
-    ];
-
-    return validSections.includes(section);
+    return FAFSASectionIdSchema.safeParse(section).success;
   }
-}
\ No newline at end of file
+}
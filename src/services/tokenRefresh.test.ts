@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// AuthService mocks every call in development mode, so load it as a production build with an API
+const loadAuthService = async () => {
+  vi.stubEnv('DEV', false);
+  vi.stubEnv('VITE_API_GATEWAY_URL', 'https://api.example.com');
+  vi.resetModules();
+  return (await import('./auth')).AuthService;
+};
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+const signInResponse = (expiresAt: string) => jsonResponse({
+  success: true,
+  data: {
+    user: { userId: 'user-1', email: 'student@example.com', isGuest: false },
+    tokens: { accessToken: 'access-1', idToken: 'id-1', expiresAt },
+  },
+});
+
+const refreshResponse = (idToken: string) => jsonResponse({
+  success: true,
+  data: { tokens: { accessToken: `access-${idToken}`, idToken, expiresAt: inMinutes(60) } },
+});
+
+describe('AuthService tokens', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep tokens in memory and leave the refresh token to the cookie sign-in sets', async () => {
+    const AuthService = await loadAuthService();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(signInResponse(inMinutes(60)));
+
+    await AuthService.signIn({ email: 'student@example.com', password: 'Password123' });
+
+    expect(fetchMock.mock.calls[0][1]?.credentials).toBe('include');
+    expect(JSON.stringify({ ...localStorage, ...sessionStorage })).not.toContain('id-1');
+    expect(localStorage.getItem('educate_first_ai_refresh_token')).toBeNull();
+    expect(AuthService.getAuthorizationHeaders()).toEqual({ Authorization: 'id-1' });
+  });
+
+  it('should refresh tokens that are about to expire before using them, once for concurrent callers', async () => {
+    const AuthService = await loadAuthService();
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(signInResponse(inMinutes(1)))
+      .mockResolvedValueOnce(refreshResponse('id-2'));
+    await AuthService.signIn({ email: 'student@example.com', password: 'Password123' });
+
+    const headers = await Promise.all([
+      AuthService.getFreshAuthorizationHeaders(),
+      AuthService.getFreshAuthorizationHeaders(),
+    ]);
+
+    expect(headers).toEqual([{ Authorization: 'id-2' }, { Authorization: 'id-2' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1][0])).toBe('https://api.example.com/auth/refresh');
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'POST', credentials: 'include' });
+    expect(fetchMock.mock.calls[1][1]?.body).toBeUndefined();
+  });
+
+  it('should restore a signed-in session after a reload with the refresh token cookie', async () => {
+    localStorage.setItem('educate_first_ai_user', JSON.stringify({ userId: 'user-1', email: 'student@example.com', isGuest: false }));
+    const AuthService = await loadAuthService();
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(refreshResponse('id-3'));
+
+    const { user, tokens } = await AuthService.restoreSession();
+
+    expect(user?.userId).toBe('user-1');
+    expect(tokens?.idToken).toBe('id-3');
+    expect(fetchMock.mock.calls[0][1]?.credentials).toBe('include');
+  });
+
+  it('should sign out and tell listeners when the refresh token is rejected', async () => {
+    const AuthService = await loadAuthService();
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(signInResponse(inMinutes(1)))
+      .mockResolvedValueOnce(jsonResponse({ success: false, error: 'Your session has expired. Please sign in again.', code: 'SESSION_EXPIRED' }, 401));
+    await AuthService.signIn({ email: 'student@example.com', password: 'Password123' });
+    const listener = vi.fn();
+    AuthService.onSessionExpired(listener);
+
+    const headers = await AuthService.getFreshAuthorizationHeaders();
+
+    expect(headers).toEqual({});
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(AuthService.getCurrentUser()).toBeNull();
+  });
+
+  it('should sign out a stored user whose refresh token cookie is gone', async () => {
+    localStorage.setItem('educate_first_ai_user', JSON.stringify({ userId: 'user-1', email: 'student@example.com', isGuest: false }));
+    const AuthService = await loadAuthService();
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse({ success: false, error: 'Your session has expired. Please sign in again.', code: 'SESSION_EXPIRED' }, 401));
+
+    expect(await AuthService.restoreSession()).toEqual({ user: null, tokens: null });
+  });
+
+  it('should have the API clear the cookie on sign-out and remove refresh tokens older versions stored', async () => {
+    localStorage.setItem('educate_first_ai_refresh_token', 'old-refresh');
+    sessionStorage.setItem('educate_first_ai_refresh_token', 'old-refresh');
+    const AuthService = await loadAuthService();
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(signInResponse(inMinutes(60)))
+      .mockResolvedValueOnce(jsonResponse({ success: true, data: { message: 'Signed out' } }));
+    await AuthService.signIn({ email: 'student@example.com', password: 'Password123' });
+
+    await AuthService.signOut();
+
+    expect(String(fetchMock.mock.calls[1][0])).toBe('https://api.example.com/auth/signout');
+    expect(fetchMock.mock.calls[1][1]).toMatchObject({ method: 'POST', credentials: 'include' });
+    expect(AuthService.getCurrentUser()).toBeNull();
+    expect(localStorage.getItem('educate_first_ai_refresh_token')).toBeNull();
+    expect(sessionStorage.getItem('educate_first_ai_refresh_token')).toBeNull();
+  });
+});
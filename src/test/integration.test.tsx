@@ -66,6 +66,7 @@ describe.skip('End-to-End Integration Tests', () => {
           userId: 'guest_123',
           email: null,
           isGuest: true,
+          role: 'student',
         },
       });
     });
@@ -146,6 +147,7 @@ describe.skip('End-to-End Integration Tests', () => {
       userId: 'user_123',
       email: 'test@example.com',
       isGuest: false,
+      role: 'student' as const,
     };
 
     beforeEach(() => {
@@ -157,6 +159,7 @@ describe.skip('End-to-End Integration Tests', () => {
         tokens: {
           accessToken: 'mock_access_token',
           idToken: 'mock_id_token',
+          expiresAt: new Date(Date.now() + 3600000).toISOString(),
         },
       });
     });
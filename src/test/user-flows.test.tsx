@@ -24,6 +24,7 @@ vi.mock('../services/auth', () => ({
   AuthService: {
     getCurrentUser: vi.fn(() => null),
     getCurrentTokens: vi.fn(() => null),
+    onSessionExpired: vi.fn(() => () => {}),
     isAuthenticated: vi.fn(() => false),
     isGuest: vi.fn(() => false),
     continueAsGuest: vi.fn(() => Promise.resolve({
@@ -42,6 +43,7 @@ vi.mock('../services/auth', () => ({
       tokens: {
         accessToken: 'mock_token',
         idToken: 'mock_id_token',
+        expiresAt: new Date(Date.now() + 3600000).toISOString(),
       },
     })),
     signUp: vi.fn(),
@@ -70,10 +72,14 @@ vi.mock('../services/progress', () => ({
   ProgressService: {
     getUserProgress: vi.fn(() => Promise.resolve({
       userId: 'user_123',
-      exploredSections: [],
+      sections: {},
+      completedSections: [],
+      currentSection: 'student-demographics',
+      overallProgress: 0,
       totalInteractions: 0,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      version: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
     })),
     updateProgress: vi.fn(),
   },
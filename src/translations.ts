@@ -28,6 +28,13 @@ export const translations = {
     // Chat
     typeMessage: "Ask me anything about FAFSA, financial aid, or college funding...",
     send: "Send",
+    piiDetected: "This looks like personal information. You don't need to share it to get help.",
+    piiHeld: "Your message wasn't sent because it includes personal information (highlighted).",
+    piiRedact: "Redact",
+    piiRedactAndSend: "Redact and send",
+    piiEdit: "Edit message",
+    piiRedacted: "Personal information removed.",
+    piiUndo: "Undo",
     clearChat: "Clear Chat",
     deleteConfirm: "Delete this conversation?",
     yesDelete: "Yes, delete",
@@ -49,6 +56,24 @@ export const translations = {
     priorityDeadline: "Priority Deadline",
     federalDeadline: "Federal Deadline",
     californiaDeadline: "California",
+    deadlinesPersonalize: "Choose your state and schools",
+    deadlinesYourState: "Your state",
+    deadlinesChooseState: "Select a state",
+    deadlinesYourSchools: "Schools you're applying to",
+    deadlinesSearchSchools: "Search schools",
+    deadlinesNoSchools: "No schools match your search",
+    deadlinesDone: "Done",
+    deadlinesAwardYear: "Award year",
+    deadlinesAsap: "As soon as possible",
+    deadlinesFirstCome: "First come, first served",
+    deadlinesCheckSchool: "Check with your school",
+    deadlinesToday: "Today",
+    deadlinesExpected: "expected",
+    deadlinesPassed: "passed",
+    deadlinesHideAll: "Hide state deadlines",
+    deadlinesConfirm: "Dates can change each year. Confirm them with your state and schools.",
+    deadlinesLoadError: "Couldn't load deadlines. Please try again.",
+    deadlinesSource: "Source",
     
     // Checklist
     fafsaChecklist: "FAFSA Checklist",
@@ -79,6 +104,58 @@ export const translations = {
     checklistStep10Desc: "Check all info, then sign electronically",
     checklistStep11: "Save Confirmation",
     checklistStep11Desc: "Download your Student Aid Report (SAR)",
+    checklistNotes: "Notes and due date",
+    checklistNotePlaceholder: "Add a note, e.g. where you found this document",
+    checklistDueDate: "Due",
+    checklistCompletedOn: "Done",
+    checklistSaveError: "We couldn't save your checklist. Check your connection and try again.",
+    checklistANumber: "Find Your A-Number",
+    checklistANumberDesc: "Your Alien Registration Number from your green card or other DHS documents",
+    checklistStateAid: "Look Into State and School Aid",
+    checklistStateAidDesc: "Federal aid may not be open to you, but many states and colleges offer their own aid",
+    checklistWhichParent: "Work Out Which Parent Contributes",
+    checklistWhichParentDesc: "Report the parent who gave you more financial support in the last 12 months",
+    checklistStepparent: "Include Your Stepparent",
+    checklistStepparentDesc: "If your contributing parent remarried, your stepparent reports their information too",
+    checklistFileTaxes: "File 2024 Taxes First",
+    checklistFileTaxesDesc: "A filed return lets the IRS transfer your tax info; do the financial sections last",
+    checklistChooseSchools: "Choose Your Schools",
+    checklistChooseSchoolsDesc: "Pick at least one school; you can list up to 20 and change them later",
+    checklistInviteSpouse: "Invite Your Spouse",
+    checklistInviteSpouseDesc: "Your spouse is a contributor and must accept the invite and complete their section",
+    intakePrompt: "Answer a few questions to see only the steps that apply to you",
+    intakeStart: "Personalize",
+    intakeEdit: "Edit answers",
+    intakeTitle: "About your situation",
+    intakeNoPII: "We only ask for choices, never names, numbers or anything else that identifies you.",
+    intakeSectionOrder: "Suggested order:",
+    intakeIndependenceQuestion: "Do any of these apply to you?",
+    intakeAge24: "I'm 24 or older",
+    intakeMarried: "I'm married",
+    intakeGraduate: "I'm a graduate student",
+    intakeMilitary: "I'm on active duty or a veteran",
+    intakeDependents: "I support children or other dependents",
+    intakeOrphanWard: "I was an orphan, in foster care or a ward of the court",
+    intakeEmancipated: "I'm an emancipated minor or in legal guardianship",
+    intakeHomeless: "I'm an unaccompanied youth who is homeless",
+    intakeNoneApply: "None of these",
+    intakeParentsQuestion: "What is your parents' marital status?",
+    intakeParentsMarried: "Married or living together",
+    intakeParentsDivorced: "Divorced or separated",
+    intakeParentsRemarried: "Remarried",
+    intakeParentsNeverMarried: "Never married",
+    intakeParentsWidowed: "Widowed",
+    intakeTaxQuestion: "Have you filed your 2024 taxes?",
+    intakeTaxQuestionParents: "Have your parents filed their 2024 taxes?",
+    intakeTaxFiled: "Yes, already filed",
+    intakeTaxWillFile: "Not yet, but will file",
+    intakeTaxNotRequired: "Not required to file",
+    intakeCitizenshipQuestion: "What is your citizenship status?",
+    intakeUsCitizen: "U.S. citizen or national",
+    intakeEligibleNoncitizen: "Eligible noncitizen (e.g. green card)",
+    intakeOtherCitizenship: "Neither",
+    intakeSchoolsQuestion: "How many schools will you send your FAFSA to?",
+    intakeSave: "Save answers",
     
     // Copy button
     copy: "Copy",
@@ -140,6 +217,13 @@ export const translations = {
     // Chat
     typeMessage: "Escribe tu pregunta sobre FAFSA...",
     send: "Enviar",
+    piiDetected: "Esto parece información personal. No necesitas compartirla para recibir ayuda.",
+    piiHeld: "Tu mensaje no se envió porque incluye información personal (resaltada).",
+    piiRedact: "Ocultar",
+    piiRedactAndSend: "Ocultar y enviar",
+    piiEdit: "Editar mensaje",
+    piiRedacted: "Se eliminó la información personal.",
+    piiUndo: "Deshacer",
     clearChat: "Borrar Chat",
     deleteConfirm: "¿Eliminar esta conversación?",
     yesDelete: "Sí, eliminar",
@@ -161,6 +245,24 @@ export const translations = {
     priorityDeadline: "Fecha Límite Prioritaria",
     federalDeadline: "Fecha Límite Federal",
     californiaDeadline: "California",
+    deadlinesPersonalize: "Elige tu estado y escuelas",
+    deadlinesYourState: "Tu estado",
+    deadlinesChooseState: "Selecciona un estado",
+    deadlinesYourSchools: "Escuelas a las que aplicas",
+    deadlinesSearchSchools: "Buscar escuelas",
+    deadlinesNoSchools: "Ninguna escuela coincide con tu búsqueda",
+    deadlinesDone: "Listo",
+    deadlinesAwardYear: "Año de ayuda",
+    deadlinesAsap: "Lo antes posible",
+    deadlinesFirstCome: "Por orden de llegada",
+    deadlinesCheckSchool: "Consulta con tu escuela",
+    deadlinesToday: "Hoy",
+    deadlinesExpected: "estimada",
+    deadlinesPassed: "vencida",
+    deadlinesHideAll: "Ocultar fechas estatales",
+    deadlinesConfirm: "Las fechas pueden cambiar cada año. Confírmalas con tu estado y tus escuelas.",
+    deadlinesLoadError: "No se pudieron cargar las fechas límite. Inténtalo de nuevo.",
+    deadlinesSource: "Fuente",
     
     // Checklist
     fafsaChecklist: "Lista de FAFSA",
@@ -191,6 +293,58 @@ export const translations = {
     checklistStep10Desc: "Verifica toda la información, luego firma electrónicamente",
     checklistStep11: "Guardar Confirmación",
     checklistStep11Desc: "Descarga tu Informe de Ayuda Estudiantil (SAR)",
+    checklistNotes: "Notas y fecha límite",
+    checklistNotePlaceholder: "Agrega una nota, p. ej. dónde encontraste este documento",
+    checklistDueDate: "Fecha límite",
+    checklistCompletedOn: "Hecho",
+    checklistSaveError: "No pudimos guardar tu lista. Revisa tu conexión e inténtalo de nuevo.",
+    checklistANumber: "Encuentra tu Número A",
+    checklistANumberDesc: "Tu Número de Registro de Extranjero de tu green card u otros documentos del DHS",
+    checklistStateAid: "Explora Ayuda Estatal y Escolar",
+    checklistStateAidDesc: "Quizás no califiques para ayuda federal, pero muchos estados y universidades ofrecen su propia ayuda",
+    checklistWhichParent: "Define Qué Padre Contribuye",
+    checklistWhichParentDesc: "Reporta al padre que te dio más apoyo económico en los últimos 12 meses",
+    checklistStepparent: "Incluye a tu Padrastro o Madrastra",
+    checklistStepparentDesc: "Si tu padre contribuyente se volvió a casar, tu padrastro o madrastra también reporta su información",
+    checklistFileTaxes: "Declara Primero los Impuestos 2024",
+    checklistFileTaxesDesc: "Una declaración presentada permite transferir tus datos del IRS; deja las secciones financieras para el final",
+    checklistChooseSchools: "Elige tus Universidades",
+    checklistChooseSchoolsDesc: "Elige al menos una; puedes incluir hasta 20 y cambiarlas después",
+    checklistInviteSpouse: "Invita a tu Cónyuge",
+    checklistInviteSpouseDesc: "Tu cónyuge es contribuyente y debe aceptar la invitación y completar su sección",
+    intakePrompt: "Responde unas preguntas para ver solo los pasos que te corresponden",
+    intakeStart: "Personalizar",
+    intakeEdit: "Editar respuestas",
+    intakeTitle: "Sobre tu situación",
+    intakeNoPII: "Solo preguntamos opciones, nunca nombres, números ni nada que te identifique.",
+    intakeSectionOrder: "Orden sugerido:",
+    intakeIndependenceQuestion: "¿Alguna de estas opciones aplica a ti?",
+    intakeAge24: "Tengo 24 años o más",
+    intakeMarried: "Estoy casado/a",
+    intakeGraduate: "Soy estudiante de posgrado",
+    intakeMilitary: "Estoy en servicio activo o soy veterano/a",
+    intakeDependents: "Mantengo a hijos u otros dependientes",
+    intakeOrphanWard: "Fui huérfano/a, estuve en hogar de crianza o bajo tutela del tribunal",
+    intakeEmancipated: "Soy menor emancipado/a o estoy bajo tutela legal",
+    intakeHomeless: "Soy joven sin hogar y no acompañado/a",
+    intakeNoneApply: "Ninguna de estas",
+    intakeParentsQuestion: "¿Cuál es el estado civil de tus padres?",
+    intakeParentsMarried: "Casados o viven juntos",
+    intakeParentsDivorced: "Divorciados o separados",
+    intakeParentsRemarried: "Vueltos a casar",
+    intakeParentsNeverMarried: "Nunca se casaron",
+    intakeParentsWidowed: "Viudo/a",
+    intakeTaxQuestion: "¿Ya declaraste tus impuestos de 2024?",
+    intakeTaxQuestionParents: "¿Tus padres ya declararon sus impuestos de 2024?",
+    intakeTaxFiled: "Sí, ya declaré",
+    intakeTaxWillFile: "Todavía no, pero lo haré",
+    intakeTaxNotRequired: "No es obligatorio declarar",
+    intakeCitizenshipQuestion: "¿Cuál es tu estado de ciudadanía?",
+    intakeUsCitizen: "Ciudadano/a o nacional de EE. UU.",
+    intakeEligibleNoncitizen: "No ciudadano/a elegible (p. ej. green card)",
+    intakeOtherCitizenship: "Ninguno",
+    intakeSchoolsQuestion: "¿A cuántas universidades enviarás tu FAFSA?",
+    intakeSave: "Guardar respuestas",
     
     // Copy button
     copy: "Copiar",
@@ -252,6 +406,13 @@ export const translations = {
     // Chat
     typeMessage: "输入你的FAFSA问题...",
     send: "发送",
+    piiDetected: "这看起来像是个人信息。您无需分享这些信息也能获得帮助。",
+    piiHeld: "您的消息未发送，因为其中包含个人信息（已突出显示）。",
+    piiRedact: "隐藏",
+    piiRedactAndSend: "隐藏并发送",
+    piiEdit: "编辑消息",
+    piiRedacted: "个人信息已删除。",
+    piiUndo: "撤销",
     clearChat: "清除聊天",
     deleteConfirm: "删除此对话？",
     yesDelete: "是的，删除",
@@ -273,6 +434,24 @@ export const translations = {
     priorityDeadline: "优先截止日期",
     federalDeadline: "联邦截止日期",
     californiaDeadline: "加利福尼亚",
+    deadlinesPersonalize: "选择你的州和学校",
+    deadlinesYourState: "你的州",
+    deadlinesChooseState: "选择一个州",
+    deadlinesYourSchools: "你申请的学校",
+    deadlinesSearchSchools: "搜索学校",
+    deadlinesNoSchools: "没有符合搜索条件的学校",
+    deadlinesDone: "完成",
+    deadlinesAwardYear: "资助年度",
+    deadlinesAsap: "尽快",
+    deadlinesFirstCome: "先到先得",
+    deadlinesCheckSchool: "请咨询你的学校",
+    deadlinesToday: "今天",
+    deadlinesExpected: "预计",
+    deadlinesPassed: "已过期",
+    deadlinesHideAll: "隐藏各州截止日期",
+    deadlinesConfirm: "日期每年可能变化。请向你所在的州和学校确认。",
+    deadlinesLoadError: "无法加载截止日期。请重试。",
+    deadlinesSource: "来源",
     
     // Checklist
     fafsaChecklist: "FAFSA清单",
@@ -303,6 +482,58 @@ export const translations = {
     checklistStep10Desc: "检查所有信息，然后电子签名",
     checklistStep11: "保存确认",
     checklistStep11Desc: "下载您的学生援助报告（SAR）",
+    checklistNotes: "备注和截止日期",
+    checklistNotePlaceholder: "添加备注，例如您在哪里找到了这份文件",
+    checklistDueDate: "截止",
+    checklistCompletedOn: "已完成",
+    checklistSaveError: "无法保存您的清单。请检查网络连接后重试。",
+    checklistANumber: "找到您的A号码",
+    checklistANumberDesc: "您绿卡或其他国土安全部文件上的外国人登记号码",
+    checklistStateAid: "了解州和学校的资助",
+    checklistStateAidDesc: "您可能无法获得联邦资助，但许多州和大学提供自己的资助",
+    checklistWhichParent: "确定由哪位家长填写",
+    checklistWhichParentDesc: "填写过去12个月中为您提供更多经济支持的家长",
+    checklistStepparent: "包括您的继父母",
+    checklistStepparentDesc: "如果填写的家长已再婚，继父母也需要提供信息",
+    checklistFileTaxes: "先申报2024年税务",
+    checklistFileTaxesDesc: "已申报的税表可让IRS自动传输数据；财务部分最后填写",
+    checklistChooseSchools: "选择学校",
+    checklistChooseSchoolsDesc: "至少选择一所学校；最多可列出20所，之后可以更改",
+    checklistInviteSpouse: "邀请您的配偶",
+    checklistInviteSpouseDesc: "您的配偶是贡献者，需要接受邀请并填写其部分",
+    intakePrompt: "回答几个问题，只查看适用于您的步骤",
+    intakeStart: "个性化",
+    intakeEdit: "修改答案",
+    intakeTitle: "关于您的情况",
+    intakeNoPII: "我们只询问选项，绝不询问姓名、号码或任何可识别您身份的信息。",
+    intakeSectionOrder: "建议顺序：",
+    intakeIndependenceQuestion: "以下哪些情况适用于您？",
+    intakeAge24: "我24岁或以上",
+    intakeMarried: "我已婚",
+    intakeGraduate: "我是研究生",
+    intakeMilitary: "我是现役军人或退伍军人",
+    intakeDependents: "我抚养子女或其他受抚养人",
+    intakeOrphanWard: "我曾是孤儿、在寄养家庭或受法院监护",
+    intakeEmancipated: "我是已解除监护的未成年人或处于法定监护下",
+    intakeHomeless: "我是无人陪伴的无家可归青年",
+    intakeNoneApply: "以上都不是",
+    intakeParentsQuestion: "您父母的婚姻状况是什么？",
+    intakeParentsMarried: "已婚或同居",
+    intakeParentsDivorced: "离婚或分居",
+    intakeParentsRemarried: "再婚",
+    intakeParentsNeverMarried: "从未结婚",
+    intakeParentsWidowed: "丧偶",
+    intakeTaxQuestion: "您是否已申报2024年税务？",
+    intakeTaxQuestionParents: "您的父母是否已申报2024年税务？",
+    intakeTaxFiled: "是，已申报",
+    intakeTaxWillFile: "还没有，但会申报",
+    intakeTaxNotRequired: "无需申报",
+    intakeCitizenshipQuestion: "您的公民身份是什么？",
+    intakeUsCitizen: "美国公民或国民",
+    intakeEligibleNoncitizen: "合格的非公民（如绿卡持有者）",
+    intakeOtherCitizenship: "都不是",
+    intakeSchoolsQuestion: "您将把FAFSA发送给多少所学校？",
+    intakeSave: "保存答案",
     
     // Copy button
     copy: "复制",
@@ -364,6 +595,13 @@ export const translations = {
     // Chat
     typeMessage: "Nhập câu hỏi FAFSA của bạn...",
     send: "Gửi",
+    piiDetected: "Đây có vẻ là thông tin cá nhân. Bạn không cần chia sẻ thông tin này để được giúp đỡ.",
+    piiHeld: "Tin nhắn của bạn chưa được gửi vì có chứa thông tin cá nhân (được đánh dấu).",
+    piiRedact: "Ẩn đi",
+    piiRedactAndSend: "Ẩn đi và gửi",
+    piiEdit: "Sửa tin nhắn",
+    piiRedacted: "Đã xóa thông tin cá nhân.",
+    piiUndo: "Hoàn tác",
     clearChat: "Xóa Chat",
     deleteConfirm: "Xóa cuộc trò chuyện này?",
     yesDelete: "Có, xóa",
@@ -385,6 +623,24 @@ export const translations = {
     priorityDeadline: "Hạn Chót Ưu Tiên",
     federalDeadline: "Hạn Chót Liên Bang",
     californiaDeadline: "California",
+    deadlinesPersonalize: "Chọn tiểu bang và trường của bạn",
+    deadlinesYourState: "Tiểu bang của bạn",
+    deadlinesChooseState: "Chọn một tiểu bang",
+    deadlinesYourSchools: "Các trường bạn đang nộp đơn",
+    deadlinesSearchSchools: "Tìm trường",
+    deadlinesNoSchools: "Không có trường nào khớp với tìm kiếm",
+    deadlinesDone: "Xong",
+    deadlinesAwardYear: "Năm hỗ trợ",
+    deadlinesAsap: "Càng sớm càng tốt",
+    deadlinesFirstCome: "Ai đến trước được phục vụ trước",
+    deadlinesCheckSchool: "Hỏi trường của bạn",
+    deadlinesToday: "Hôm nay",
+    deadlinesExpected: "dự kiến",
+    deadlinesPassed: "đã qua",
+    deadlinesHideAll: "Ẩn hạn chót của các tiểu bang",
+    deadlinesConfirm: "Ngày có thể thay đổi mỗi năm. Hãy xác nhận với tiểu bang và các trường của bạn.",
+    deadlinesLoadError: "Không thể tải các hạn chót. Vui lòng thử lại.",
+    deadlinesSource: "Nguồn",
     
     // Checklist
     fafsaChecklist: "Danh sách FAFSA",
@@ -415,6 +671,58 @@ export const translations = {
     checklistStep10Desc: "Kiểm tra tất cả thông tin, sau đó ký điện tử",
     checklistStep11: "Lưu Xác nhận",
     checklistStep11Desc: "Tải xuống Báo cáo Hỗ trợ Sinh viên (SAR)",
+    checklistNotes: "Ghi chú và hạn chót",
+    checklistNotePlaceholder: "Thêm ghi chú, ví dụ nơi bạn tìm thấy tài liệu này",
+    checklistDueDate: "Hạn",
+    checklistCompletedOn: "Đã xong",
+    checklistSaveError: "Không thể lưu danh sách của bạn. Hãy kiểm tra kết nối và thử lại.",
+    checklistANumber: "Tìm Số A của Bạn",
+    checklistANumberDesc: "Số Đăng ký Người nước ngoài trên thẻ xanh hoặc giấy tờ DHS khác",
+    checklistStateAid: "Tìm Hiểu Hỗ trợ của Tiểu bang và Trường",
+    checklistStateAidDesc: "Bạn có thể không đủ điều kiện nhận hỗ trợ liên bang, nhưng nhiều tiểu bang và trường có hỗ trợ riêng",
+    checklistWhichParent: "Xác định Phụ huynh Đóng góp",
+    checklistWhichParentDesc: "Khai báo phụ huynh đã hỗ trợ tài chính cho bạn nhiều hơn trong 12 tháng qua",
+    checklistStepparent: "Bao gồm Cha/Mẹ Kế",
+    checklistStepparentDesc: "Nếu phụ huynh đóng góp đã tái hôn, cha/mẹ kế cũng phải khai báo thông tin",
+    checklistFileTaxes: "Nộp Thuế 2024 Trước",
+    checklistFileTaxesDesc: "Tờ khai đã nộp giúp IRS chuyển dữ liệu thuế; hãy làm các phần tài chính sau cùng",
+    checklistChooseSchools: "Chọn Trường",
+    checklistChooseSchoolsDesc: "Chọn ít nhất một trường; bạn có thể liệt kê đến 20 trường và thay đổi sau",
+    checklistInviteSpouse: "Mời Vợ/Chồng",
+    checklistInviteSpouseDesc: "Vợ/chồng bạn là người đóng góp và phải chấp nhận lời mời rồi hoàn thành phần của họ",
+    intakePrompt: "Trả lời vài câu hỏi để chỉ xem các bước phù hợp với bạn",
+    intakeStart: "Cá nhân hóa",
+    intakeEdit: "Sửa câu trả lời",
+    intakeTitle: "Về hoàn cảnh của bạn",
+    intakeNoPII: "Chúng tôi chỉ hỏi các lựa chọn, không bao giờ hỏi tên, số hay thông tin nhận dạng bạn.",
+    intakeSectionOrder: "Thứ tự đề xuất:",
+    intakeIndependenceQuestion: "Có điều nào dưới đây đúng với bạn không?",
+    intakeAge24: "Tôi từ 24 tuổi trở lên",
+    intakeMarried: "Tôi đã kết hôn",
+    intakeGraduate: "Tôi là sinh viên sau đại học",
+    intakeMilitary: "Tôi đang tại ngũ hoặc là cựu chiến binh",
+    intakeDependents: "Tôi nuôi con hoặc người phụ thuộc khác",
+    intakeOrphanWard: "Tôi từng mồ côi, ở nhà nuôi dưỡng hoặc được tòa bảo hộ",
+    intakeEmancipated: "Tôi là trẻ vị thành niên tự lập hoặc dưới sự giám hộ pháp lý",
+    intakeHomeless: "Tôi là thanh thiếu niên vô gia cư không có người đi kèm",
+    intakeNoneApply: "Không có điều nào",
+    intakeParentsQuestion: "Tình trạng hôn nhân của cha mẹ bạn là gì?",
+    intakeParentsMarried: "Đã kết hôn hoặc sống chung",
+    intakeParentsDivorced: "Ly hôn hoặc ly thân",
+    intakeParentsRemarried: "Đã tái hôn",
+    intakeParentsNeverMarried: "Chưa từng kết hôn",
+    intakeParentsWidowed: "Góa",
+    intakeTaxQuestion: "Bạn đã nộp thuế 2024 chưa?",
+    intakeTaxQuestionParents: "Cha mẹ bạn đã nộp thuế 2024 chưa?",
+    intakeTaxFiled: "Có, đã nộp",
+    intakeTaxWillFile: "Chưa, nhưng sẽ nộp",
+    intakeTaxNotRequired: "Không bắt buộc nộp",
+    intakeCitizenshipQuestion: "Tình trạng quốc tịch của bạn là gì?",
+    intakeUsCitizen: "Công dân hoặc kiều dân Hoa Kỳ",
+    intakeEligibleNoncitizen: "Người không phải công dân hợp lệ (vd. thẻ xanh)",
+    intakeOtherCitizenship: "Không thuộc hai loại trên",
+    intakeSchoolsQuestion: "Bạn sẽ gửi FAFSA đến bao nhiêu trường?",
+    intakeSave: "Lưu câu trả lời",
     
     // Copy button
     copy: "Sao chép",
@@ -476,6 +784,13 @@ export const translations = {
     // Chat
     typeMessage: "FAFSA 질문을 입력하세요...",
     send: "보내기",
+    piiDetected: "개인 정보로 보입니다. 도움을 받기 위해 이 정보를 공유할 필요는 없습니다.",
+    piiHeld: "개인 정보(강조 표시됨)가 포함되어 있어 메시지를 보내지 않았습니다.",
+    piiRedact: "가리기",
+    piiRedactAndSend: "가리고 보내기",
+    piiEdit: "메시지 수정",
+    piiRedacted: "개인 정보를 삭제했습니다.",
+    piiUndo: "실행 취소",
     clearChat: "채팅 지우기",
     deleteConfirm: "이 대화를 삭제하시겠습니까?",
     yesDelete: "예, 삭제",
@@ -497,6 +812,24 @@ export const translations = {
     priorityDeadline: "우선 마감일",
     federalDeadline: "연방 마감일",
     californiaDeadline: "캘리포니아",
+    deadlinesPersonalize: "주와 학교 선택",
+    deadlinesYourState: "거주 주",
+    deadlinesChooseState: "주를 선택하세요",
+    deadlinesYourSchools: "지원하는 학교",
+    deadlinesSearchSchools: "학교 검색",
+    deadlinesNoSchools: "검색과 일치하는 학교가 없습니다",
+    deadlinesDone: "완료",
+    deadlinesAwardYear: "지원 연도",
+    deadlinesAsap: "가능한 한 빨리",
+    deadlinesFirstCome: "선착순",
+    deadlinesCheckSchool: "학교에 문의하세요",
+    deadlinesToday: "오늘",
+    deadlinesExpected: "예상",
+    deadlinesPassed: "지남",
+    deadlinesHideAll: "주별 마감일 숨기기",
+    deadlinesConfirm: "날짜는 매년 바뀔 수 있습니다. 주와 학교에 확인하세요.",
+    deadlinesLoadError: "마감일을 불러오지 못했습니다. 다시 시도해 주세요.",
+    deadlinesSource: "출처",
     
     // Checklist
     fafsaChecklist: "FAFSA 체크리스트",
@@ -527,6 +860,58 @@ export const translations = {
     checklistStep10Desc: "모든 정보를 확인한 후 전자 서명",
     checklistStep11: "확인서 저장",
     checklistStep11Desc: "학생 지원 보고서(SAR) 다운로드",
+    checklistNotes: "메모 및 마감일",
+    checklistNotePlaceholder: "메모 추가 (예: 이 서류를 찾은 위치)",
+    checklistDueDate: "마감",
+    checklistCompletedOn: "완료",
+    checklistSaveError: "체크리스트를 저장하지 못했습니다. 연결을 확인하고 다시 시도하세요.",
+    checklistANumber: "외국인 등록번호(A-Number) 확인",
+    checklistANumberDesc: "영주권 또는 기타 국토안보부 서류에 있는 외국인 등록번호",
+    checklistStateAid: "주 및 학교 지원 알아보기",
+    checklistStateAidDesc: "연방 지원을 받지 못할 수 있지만 많은 주와 대학이 자체 지원을 제공합니다",
+    checklistWhichParent: "기여 부모 정하기",
+    checklistWhichParentDesc: "지난 12개월 동안 더 많은 경제적 지원을 해 준 부모를 보고하세요",
+    checklistStepparent: "계부모 포함하기",
+    checklistStepparentDesc: "기여 부모가 재혼했다면 계부모도 정보를 보고해야 합니다",
+    checklistFileTaxes: "2024년 세금 먼저 신고",
+    checklistFileTaxesDesc: "신고된 세금 보고서가 있어야 IRS 정보가 전송됩니다. 재정 섹션은 마지막에 하세요",
+    checklistChooseSchools: "학교 선택",
+    checklistChooseSchoolsDesc: "최소 한 곳을 선택하세요. 최대 20곳까지 나중에 변경할 수 있습니다",
+    checklistInviteSpouse: "배우자 초대",
+    checklistInviteSpouseDesc: "배우자는 기여자로서 초대를 수락하고 해당 섹션을 작성해야 합니다",
+    intakePrompt: "몇 가지 질문에 답하고 나에게 해당하는 단계만 보세요",
+    intakeStart: "맞춤 설정",
+    intakeEdit: "답변 수정",
+    intakeTitle: "나의 상황",
+    intakeNoPII: "선택 항목만 묻고, 이름이나 번호 등 본인을 식별할 수 있는 정보는 묻지 않습니다.",
+    intakeSectionOrder: "추천 순서:",
+    intakeIndependenceQuestion: "다음 중 해당하는 것이 있나요?",
+    intakeAge24: "24세 이상입니다",
+    intakeMarried: "결혼했습니다",
+    intakeGraduate: "대학원생입니다",
+    intakeMilitary: "현역 군인 또는 퇴역 군인입니다",
+    intakeDependents: "자녀 또는 다른 부양가족을 부양합니다",
+    intakeOrphanWard: "고아였거나 위탁 가정 또는 법원 보호를 받았습니다",
+    intakeEmancipated: "법적으로 독립한 미성년자이거나 법적 후견 아래 있습니다",
+    intakeHomeless: "보호자 없는 노숙 청소년입니다",
+    intakeNoneApply: "해당 없음",
+    intakeParentsQuestion: "부모님의 혼인 상태는 무엇인가요?",
+    intakeParentsMarried: "기혼 또는 동거",
+    intakeParentsDivorced: "이혼 또는 별거",
+    intakeParentsRemarried: "재혼",
+    intakeParentsNeverMarried: "미혼",
+    intakeParentsWidowed: "사별",
+    intakeTaxQuestion: "2024년 세금을 신고했나요?",
+    intakeTaxQuestionParents: "부모님이 2024년 세금을 신고했나요?",
+    intakeTaxFiled: "예, 신고했습니다",
+    intakeTaxWillFile: "아직이지만 신고할 예정입니다",
+    intakeTaxNotRequired: "신고 의무가 없습니다",
+    intakeCitizenshipQuestion: "시민권 상태는 무엇인가요?",
+    intakeUsCitizen: "미국 시민 또는 국민",
+    intakeEligibleNoncitizen: "자격 있는 비시민권자(예: 영주권)",
+    intakeOtherCitizenship: "해당 없음",
+    intakeSchoolsQuestion: "FAFSA를 몇 개 학교에 보낼 예정인가요?",
+    intakeSave: "답변 저장",
     
     // Copy button
     copy: "복사",
@@ -588,6 +973,13 @@ export const translations = {
     // Chat
     typeMessage: "Tapez votre question FAFSA...",
     send: "Envoyer",
+    piiDetected: "Cela ressemble à des informations personnelles. Vous n'avez pas besoin de les partager pour obtenir de l'aide.",
+    piiHeld: "Votre message n'a pas été envoyé car il contient des informations personnelles (surlignées).",
+    piiRedact: "Masquer",
+    piiRedactAndSend: "Masquer et envoyer",
+    piiEdit: "Modifier le message",
+    piiRedacted: "Informations personnelles supprimées.",
+    piiUndo: "Annuler",
     clearChat: "Effacer le Chat",
     deleteConfirm: "Supprimer cette conversation?",
     yesDelete: "Oui, supprimer",
@@ -609,6 +1001,24 @@ export const translations = {
     priorityDeadline: "Date Limite Prioritaire",
     federalDeadline: "Date Limite Fédérale",
     californiaDeadline: "Californie",
+    deadlinesPersonalize: "Choisissez votre État et vos écoles",
+    deadlinesYourState: "Votre État",
+    deadlinesChooseState: "Sélectionnez un État",
+    deadlinesYourSchools: "Écoles où vous postulez",
+    deadlinesSearchSchools: "Rechercher une école",
+    deadlinesNoSchools: "Aucune école ne correspond à votre recherche",
+    deadlinesDone: "Terminé",
+    deadlinesAwardYear: "Année d'aide",
+    deadlinesAsap: "Dès que possible",
+    deadlinesFirstCome: "Premier arrivé, premier servi",
+    deadlinesCheckSchool: "Renseignez-vous auprès de votre école",
+    deadlinesToday: "Aujourd'hui",
+    deadlinesExpected: "prévue",
+    deadlinesPassed: "passée",
+    deadlinesHideAll: "Masquer les dates des États",
+    deadlinesConfirm: "Les dates peuvent changer chaque année. Vérifiez-les auprès de votre État et de vos écoles.",
+    deadlinesLoadError: "Impossible de charger les dates limites. Veuillez réessayer.",
+    deadlinesSource: "Source",
     
     // Checklist
     fafsaChecklist: "Liste FAFSA",
@@ -639,6 +1049,58 @@ export const translations = {
     checklistStep10Desc: "Vérifiez toutes les informations, puis signez électroniquement",
     checklistStep11: "Sauvegarder la Confirmation",
     checklistStep11Desc: "Téléchargez votre Rapport d'Aide Étudiante (SAR)",
+    checklistNotes: "Notes et échéance",
+    checklistNotePlaceholder: "Ajoutez une note, par ex. où vous avez trouvé ce document",
+    checklistDueDate: "Échéance",
+    checklistCompletedOn: "Fait",
+    checklistSaveError: "Impossible d'enregistrer votre liste. Vérifiez votre connexion et réessayez.",
+    checklistANumber: "Trouvez votre A-Number",
+    checklistANumberDesc: "Votre numéro d'enregistrement d'étranger, sur votre carte verte ou d'autres documents du DHS",
+    checklistStateAid: "Renseignez-vous sur les aides de l'État et des écoles",
+    checklistStateAidDesc: "L'aide fédérale peut ne pas vous être accessible, mais de nombreux États et universités ont leurs propres aides",
+    checklistWhichParent: "Déterminez quel parent contribue",
+    checklistWhichParentDesc: "Indiquez le parent qui vous a le plus soutenu financièrement au cours des 12 derniers mois",
+    checklistStepparent: "Incluez votre beau-parent",
+    checklistStepparentDesc: "Si votre parent contributeur s'est remarié, votre beau-parent fournit aussi ses informations",
+    checklistFileTaxes: "Déclarez d'abord vos impôts 2024",
+    checklistFileTaxesDesc: "Une déclaration déposée permet le transfert des données de l'IRS ; faites les sections financières en dernier",
+    checklistChooseSchools: "Choisissez vos écoles",
+    checklistChooseSchoolsDesc: "Choisissez au moins une école ; vous pouvez en indiquer jusqu'à 20 et les modifier plus tard",
+    checklistInviteSpouse: "Invitez votre conjoint",
+    checklistInviteSpouseDesc: "Votre conjoint est contributeur et doit accepter l'invitation et remplir sa section",
+    intakePrompt: "Répondez à quelques questions pour ne voir que les étapes qui vous concernent",
+    intakeStart: "Personnaliser",
+    intakeEdit: "Modifier les réponses",
+    intakeTitle: "Votre situation",
+    intakeNoPII: "Nous ne demandons que des choix, jamais de noms, de numéros ni rien qui vous identifie.",
+    intakeSectionOrder: "Ordre suggéré :",
+    intakeIndependenceQuestion: "L'une de ces situations s'applique-t-elle à vous ?",
+    intakeAge24: "J'ai 24 ans ou plus",
+    intakeMarried: "Je suis marié(e)",
+    intakeGraduate: "Je suis étudiant(e) de troisième cycle",
+    intakeMilitary: "Je suis militaire en activité ou ancien combattant",
+    intakeDependents: "J'ai des enfants ou d'autres personnes à charge",
+    intakeOrphanWard: "J'étais orphelin(e), en famille d'accueil ou pupille de l'État",
+    intakeEmancipated: "Je suis mineur(e) émancipé(e) ou sous tutelle légale",
+    intakeHomeless: "Je suis un(e) jeune sans abri non accompagné(e)",
+    intakeNoneApply: "Aucune de ces situations",
+    intakeParentsQuestion: "Quelle est la situation matrimoniale de vos parents ?",
+    intakeParentsMarried: "Mariés ou en couple",
+    intakeParentsDivorced: "Divorcés ou séparés",
+    intakeParentsRemarried: "Remariés",
+    intakeParentsNeverMarried: "Jamais mariés",
+    intakeParentsWidowed: "Veuf ou veuve",
+    intakeTaxQuestion: "Avez-vous déclaré vos impôts 2024 ?",
+    intakeTaxQuestionParents: "Vos parents ont-ils déclaré leurs impôts 2024 ?",
+    intakeTaxFiled: "Oui, c'est fait",
+    intakeTaxWillFile: "Pas encore, mais ce sera fait",
+    intakeTaxNotRequired: "Pas tenu de déclarer",
+    intakeCitizenshipQuestion: "Quel est votre statut de citoyenneté ?",
+    intakeUsCitizen: "Citoyen(ne) ou ressortissant(e) américain(e)",
+    intakeEligibleNoncitizen: "Non-citoyen(ne) éligible (ex. carte verte)",
+    intakeOtherCitizenship: "Aucun des deux",
+    intakeSchoolsQuestion: "À combien d'écoles enverrez-vous votre FAFSA ?",
+    intakeSave: "Enregistrer",
     
     // Copy button
     copy: "Copier",
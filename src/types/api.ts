@@ -1,8 +1,45 @@
 import { z } from 'zod';
-import { MessageSchema } from './message';
-import { UserProgressSchema } from './progress';
+import {
+  ChangePasswordRequestSchema,
+  ChatHistoryResponseSchema,
+  ChatMessageRequestSchema,
+  ChatMessageResponseSchema,
+  ConfirmResetRequestSchema,
+  ErrorResponseSchema,
+  ForgotPasswordRequestSchema,
+  MfaSmsSetupRequestSchema,
+  ProgressRecordSchema,
+  RespondToChallengeRequestSchema,
+  SignInRequestSchema,
+  SignInResponseSchema,
+  SignUpRequestSchema,
+  UpdateProgressRequestSchema,
+  UpdateProgressResponseSchema,
+  VerifyEmailRequestSchema,
+} from '@contracts';
 import { KnowledgeItemSchema } from './knowledge';
 
+// Request and response bodies the Lambdas accept and return are defined once in the shared
+// contract (cdk/lambda/shared/contracts) and re-exported here
+export {
+  ChatHistoryResponseSchema,
+  ChatMessageRequestSchema,
+  ChatMessageResponseSchema,
+  ErrorResponseSchema,
+  UpdateProgressRequestSchema,
+  UpdateProgressResponseSchema,
+  ValidationErrorResponseSchema,
+} from '@contracts';
+export type { ValidationErrorResponse, ValidationIssue } from '@contracts';
+export type { AuthChallenge, AuthChallengeName, MfaStatus, MfaType } from '@contracts';
+export type { Role, Permission, LinkShare, StudentLink, StudentProgress } from '@contracts';
+export type {
+  KnowledgeDocumentSummary,
+  UpsertKnowledgeDocumentRequest,
+  ManagedErrorPattern,
+  UpsertErrorPatternRequest,
+} from '@contracts';
+
 // API Response wrapper schema
 export const ApiResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
   z.object({
@@ -13,40 +50,13 @@ export const ApiResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =>
   });
 
 // Chat API schemas
-export const ChatMessageRequestSchema = z.object({
-  content: z.string().min(1).max(5000),
-  userId: z.string().uuid().optional(),
-  conversationId: z.string().uuid().optional(),
-});
-
-export const ChatMessageResponseSchema = z.object({
-  message: MessageSchema,
-  sources: z.array(z.string()).optional(),
-  errorWarnings: z.array(z.string()).optional(),
-});
-
 export const ChatHistoryRequestSchema = z.object({
   userId: z.string().uuid(),
   limit: z.number().int().positive().max(100).optional().default(50),
 });
 
-export const ChatHistoryResponseSchema = z.object({
-  messages: z.array(MessageSchema),
-  hasMore: z.boolean(),
-});
-
 // Progress API schemas
-export const ProgressResponseSchema = UserProgressSchema;
-
-export const UpdateProgressRequestSchema = z.object({
-  sectionId: z.string().min(1),
-  action: z.enum(['mark_reviewed', 'add_question']),
-});
-
-export const UpdateProgressResponseSchema = z.object({
-  success: z.boolean(),
-  updatedProgress: UserProgressSchema,
-});
+export const ProgressResponseSchema = ProgressRecordSchema;
 
 // Knowledge Base API schemas
 export const KnowledgeSearchRequestSchema = z.object({
@@ -60,37 +70,15 @@ export const KnowledgeSearchResponseSchema = z.object({
 });
 
 // Authentication API schemas
-export const AuthSignUpRequestSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(8),
-});
-
-export const AuthSignInRequestSchema = z.object({
-  email: z.string().email(),
-  password: z.string().min(1),
-});
-
-export const AuthResetPasswordRequestSchema = z.object({
-  email: z.string().email(),
-});
-
-export const AuthResponseSchema = z.object({
-  user: z.object({
-    userId: z.string().uuid(),
-    email: z.string().email(),
-    isGuest: z.boolean(),
-  }),
-  token: z.string().optional(),
-  refreshToken: z.string().optional(),
-});
-
-// Error response schema
-export const ErrorResponseSchema = z.object({
-  success: z.literal(false),
-  error: z.string(),
-  code: z.string().optional(),
-  details: z.record(z.string(), z.any()).optional(),
-});
+export const AuthSignUpRequestSchema = SignUpRequestSchema;
+export const AuthSignInRequestSchema = SignInRequestSchema;
+export const AuthResetPasswordRequestSchema = ForgotPasswordRequestSchema;
+export const AuthVerifyEmailRequestSchema = VerifyEmailRequestSchema;
+export const AuthConfirmResetRequestSchema = ConfirmResetRequestSchema;
+export const AuthChangePasswordRequestSchema = ChangePasswordRequestSchema;
+export const AuthRespondToChallengeRequestSchema = RespondToChallengeRequestSchema;
+export const AuthMfaSmsSetupRequestSchema = MfaSmsSetupRequestSchema;
+export const AuthResponseSchema = SignInResponseSchema;
 
 // TypeScript interfaces for API types
 export type ApiResponse<T> = {
@@ -100,7 +88,7 @@ export type ApiResponse<T> = {
   message?: string;
 };
 
-export type ChatMessageRequest = z.infer<typeof ChatMessageRequestSchema>;
+export type ChatMessageRequest = z.input<typeof ChatMessageRequestSchema>;
 export type ChatMessageResponse = z.infer<typeof ChatMessageResponseSchema>;
 export type ChatHistoryRequest = z.infer<typeof ChatHistoryRequestSchema>;
 export type ChatHistoryResponse = z.infer<typeof ChatHistoryResponseSchema>;
@@ -112,8 +100,16 @@ export type UpdateProgressResponse = z.infer<typeof UpdateProgressResponseSchema
 export type KnowledgeSearchRequest = z.infer<typeof KnowledgeSearchRequestSchema>;
 export type KnowledgeSearchResponse = z.infer<typeof KnowledgeSearchResponseSchema>;
 
-export type AuthSignUpRequest = z.infer<typeof AuthSignUpRequestSchema>;
+// Role may be left out for students
+export type AuthSignUpRequest = z.input<typeof AuthSignUpRequestSchema>;
 export type AuthSignInRequest = z.infer<typeof AuthSignInRequestSchema>;
 export type AuthResetPasswordRequest = z.infer<typeof AuthResetPasswordRequestSchema>;
+export type AuthVerifyEmailRequest = z.infer<typeof AuthVerifyEmailRequestSchema>;
+export type AuthConfirmResetRequest = z.infer<typeof AuthConfirmResetRequestSchema>;
+// The access token is added by AuthService from the stored tokens
+export type AuthChangePasswordRequest = Omit<z.infer<typeof AuthChangePasswordRequestSchema>, 'accessToken'>;
+export type AuthRespondToChallengeRequest = z.infer<typeof AuthRespondToChallengeRequestSchema>;
+// The access token is added by AuthService from the stored tokens
+export type AuthMfaSmsSetupRequest = Omit<z.infer<typeof AuthMfaSmsSetupRequestSchema>, 'accessToken'>;
 export type AuthResponse = z.infer<typeof AuthResponseSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { SchoolIdSchema, StateCodeSchema } from '@contracts';
+
+// Deadlines come from the shared dataset, resolved for an award year by the deadlines API
+export {
+  FAFSA_SCHOOLS,
+  STATE_CODES,
+  STATE_NAMES,
+  DeadlinesResponseSchema,
+  currentAwardYear,
+  daysUntil,
+  openAwardYears,
+  resolveDeadlines,
+  toIsoDate,
+} from '@contracts';
+export type {
+  AwardYear,
+  DeadlineScope,
+  DeadlineTiming,
+  DeadlinesQuery,
+  DeadlinesResponse,
+  ResolvedDeadline,
+  School,
+  StateCode,
+} from '@contracts';
+
+// The state and schools a student picked for their countdown, kept on this device
+export const DeadlinePreferencesSchema = z.object({
+  state: StateCodeSchema.optional(),
+  schools: z.array(SchoolIdSchema).max(20),
+});
+
+export type DeadlinePreferences = z.infer<typeof DeadlinePreferencesSchema>;
@@ -1,41 +1,8 @@
 import { z } from 'zod';
+import { FAFSAErrorTypeSchema, ErrorSeveritySchema, FAFSAErrorPatternSchema } from '@contracts';
 
-// FAFSA error types
-export const FAFSAErrorTypeSchema = z.enum([
-  'missing_information',
-  'incorrect_format',
-  'dependency_status_error',
-  'income_reporting_error',
-  'asset_reporting_error',
-  'tax_information_error',
-  'school_selection_error',
-  'deadline_warning',
-  'verification_issue',
-  'eligibility_concern'
-]);
-
-// Error severity levels
-export const ErrorSeveritySchema = z.enum([
-  'critical',    // Will prevent FAFSA submission
-  'warning',     // May cause delays or issues
-  'info'         // Helpful tips and reminders
-]);
-
-// FAFSA field error pattern
-export const FAFSAErrorPatternSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  description: z.string(),
-  errorType: FAFSAErrorTypeSchema,
-  severity: ErrorSeveritySchema,
-  section: z.string(),
-  field: z.string().optional(),
-  patterns: z.array(z.string()), // Regex patterns or keywords to match
-  solution: z.string(),
-  commonCauses: z.array(z.string()),
-  preventionTips: z.array(z.string()),
-  relatedFields: z.array(z.string()).optional(),
-});
+// Error types, severities and patterns are shared with the admin routes that manage them
+export { FAFSAErrorTypeSchema, ErrorSeveritySchema, FAFSAErrorPatternSchema };
 
 // Detected error instance
 export const DetectedErrorSchema = z.object({
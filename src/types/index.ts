@@ -3,5 +3,6 @@ export * from './user';
 export * from './message';
 export * from './conversation';
 export * from './progress';
+export * from './deadlines';
 export * from './knowledge';
 export * from './api';
\ No newline at end of file
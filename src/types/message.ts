@@ -1,9 +1,14 @@
 import { z } from 'zod';
+import { ChatMessageMetadataSchema, ChatMessageRequestSchema } from '@contracts';
 
-// Message metadata schema
-export const MessageMetadataSchema = z.object({
-  sources: z.array(z.string()).optional(),
+// Citations, grounding results and cache provenance come from the shared API contract
+export { CitationSchema, GroundingSchema, CacheProvenanceSchema } from '@contracts';
+export type { Citation, Grounding, CacheProvenance } from '@contracts';
+
+// Metadata sent by the API plus fields only the frontend sets
+export const MessageMetadataSchema = ChatMessageMetadataSchema.extend({
   errorDetected: z.boolean().optional(),
+  // The API tags answers with a FAFSA section id; the frontend also uses its own labels
   fafsa_section: z.string().optional(),
   isError: z.boolean().optional(),
   errorType: z.string().optional(),
@@ -24,17 +29,7 @@ export const MessageSchema = z.object({
 export type MessageMetadata = z.infer<typeof MessageMetadataSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 
-// Input validation for chat messages
-export const ChatMessageInputSchema = z.object({
-  content: z.string()
-    .min(1, 'Please enter a FAFSA question or topic you\'d like help with.')
-    .max(5000, 'Please limit your question to 5000 characters or less.')
-    .refine(
-      (content) => content.trim().length > 0,
-      'Please enter a FAFSA question or topic you\'d like help with.'
-    ),
-  userId: z.string().uuid().optional(),
-  conversationId: z.string().uuid().optional(),
-});
+// Input validation for chat messages: the body POST /chat accepts
+export const ChatMessageInputSchema = ChatMessageRequestSchema;
 
-export type ChatMessageInput = z.infer<typeof ChatMessageInputSchema>;
\ No newline at end of file
+export type ChatMessageInput = z.input<typeof ChatMessageInputSchema>;
@@ -147,17 +147,17 @@ describe('Data Model Types and Validation', () => {
             progress: 75,
             isComplete: false,
             questionsAsked: 5,
-            lastVisited: new Date(),
-            lastUpdated: new Date(),
+            lastVisited: '2026-09-01T12:00:00.000Z',
+            lastUpdated: '2026-09-01T12:00:00.000Z',
           },
         },
         overallProgress: 25,
         completedSections: [],
         currentSection: 'student-demographics',
         totalInteractions: 10,
-        lastUpdated: new Date(),
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        version: 3,
+        createdAt: '2026-08-30T12:00:00.000Z',
+        updatedAt: '2026-09-01T12:00:00.000Z',
       };
 
       const result = UserProgressSchema.safeParse(validProgress);
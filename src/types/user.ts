@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ForgotPasswordRequestSchema, RoleSchema, SignInRequestSchema, SignUpRequestSchema } from '@contracts';
 
 // User preferences schema
 export const UserPreferencesSchema = z.object({
@@ -14,27 +15,18 @@ export const UserSchema = z.object({
   lastLoginAt: z.date(),
   preferences: UserPreferencesSchema,
   isGuest: z.boolean().default(false),
+  role: RoleSchema.default('student'),
 });
 
 // TypeScript interfaces derived from schemas
 export type UserPreferences = z.infer<typeof UserPreferencesSchema>;
 export type User = z.infer<typeof UserSchema>;
 
-// Input validation schemas for user operations
-export const CreateUserInputSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters long'),
-});
-
-export const LoginInputSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(1, 'Password is required'),
-});
-
-export const ResetPasswordInputSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-});
+// Input validation schemas for user operations, shared with the auth Lambda
+export const CreateUserInputSchema = SignUpRequestSchema;
+export const LoginInputSchema = SignInRequestSchema;
+export const ResetPasswordInputSchema = ForgotPasswordRequestSchema;
 
 export type CreateUserInput = z.infer<typeof CreateUserInputSchema>;
 export type LoginInput = z.infer<typeof LoginInputSchema>;
-export type ResetPasswordInput = z.infer<typeof ResetPasswordInputSchema>;
\ No newline at end of file
+export type ResetPasswordInput = z.infer<typeof ResetPasswordInputSchema>;
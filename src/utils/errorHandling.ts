@@ -129,7 +129,9 @@ export class RateLimitError extends Error implements AppError {
   constructor(
     public context: ErrorContext,
     public userMessage: string = 'Too many requests. Please wait a moment before trying again.',
-    public technicalMessage: string = 'Rate limit exceeded'
+    public technicalMessage: string = 'Rate limit exceeded',
+    // From the server's Retry-After header, when it sent one
+    public retryAfterSeconds?: number
   ) {
     super(technicalMessage);
     this.name = 'RateLimitError';
@@ -6,6 +6,7 @@ interface ImportMetaEnv {
   readonly VITE_AWS_REGION: string
   readonly VITE_API_GATEWAY_URL: string
   readonly VITE_KNOWLEDGE_BASE_BUCKET: string
+  readonly VITE_CHAT_STREAM_URL?: string
 }
 
 interface ImportMeta {
@@ -1,9 +1,18 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath, URL } from 'node:url'
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // Request/response schemas and PII detection shared with the Lambdas
+    alias: {
+      '@contracts': fileURLToPath(new URL('./cdk/lambda/shared/contracts', import.meta.url)),
+      '@pii': fileURLToPath(new URL('./cdk/lambda/shared/pii', import.meta.url)),
+    },
+    dedupe: ['zod'],
+  },
   test: {
     globals: true,
     environment: 'jsdom',
@@ -1,8 +1,19 @@
 import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath, URL } from 'node:url'
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // cdk/lambda keeps compiled .js next to its .ts sources; test against the sources
+    extensions: ['.mjs', '.ts', '.tsx', '.js', '.jsx', '.json'],
+    // Request/response schemas and PII detection shared with the Lambdas
+    alias: {
+      '@contracts': fileURLToPath(new URL('./cdk/lambda/shared/contracts', import.meta.url)),
+      '@pii': fileURLToPath(new URL('./cdk/lambda/shared/pii', import.meta.url)),
+    },
+    dedupe: ['zod'],
+  },
   test: {
     globals: true,
     environment: 'jsdom',